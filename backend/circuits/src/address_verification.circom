@@ -0,0 +1,39 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/poseidon.circom";
+include "circomlib/circuits/comparators.circom";
+
+// CA2AChain address verification (AB1263)
+// Proves the address committed at issuance equals the dealer's shipping address
+// (both normalized and hashed to a field element) without revealing the buyer's address.
+// Fuzzy matching confidence is computed outside the circuit - this attests exact equality.
+//
+// Public signals (snarkjs order): [addressVerified, addressCommitment, shippingAddressHash, eventBinding]
+template AddressVerification() {
+    // Private witness (from the buyer's encrypted credential)
+    signal input addressHash;
+    signal input salt;
+
+    // Public inputs
+    signal input addressCommitment;    // Poseidon(addressHash, salt), fixed at issuance
+    signal input shippingAddressHash;  // Hash of the dealer's normalized shipping address
+    signal input eventBinding;         // Compliance event the proof was generated for
+
+    signal output addressVerified;
+
+    component commitment = Poseidon(2);
+    commitment.inputs[0] <== addressHash;
+    commitment.inputs[1] <== salt;
+    addressCommitment === commitment.out;
+
+    component matches = IsEqual();
+    matches.in[0] <== addressHash;
+    matches.in[1] <== shippingAddressHash;
+    addressVerified <== matches.out;
+
+    // Tie the binding into the constraint system so the proof cannot be replayed for another event
+    signal eventBindingSquare;
+    eventBindingSquare <== eventBinding * eventBinding;
+}
+
+component main {public [addressCommitment, shippingAddressHash, eventBinding]} = AddressVerification();
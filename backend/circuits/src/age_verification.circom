@@ -0,0 +1,51 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/poseidon.circom";
+include "circomlib/circuits/comparators.circom";
+
+// CA2AChain age verification (AB1263)
+// Proves the date of birth committed at issuance is at least `ageThreshold` years
+// before `currentDate`, without revealing the date of birth.
+//
+// Dates are YYYYMMDD integers: adding threshold * 10000 moves the birth date forward
+// by whole calendar years, so the comparison is exact to the day.
+//
+// Public signals (snarkjs order): [ageVerified, currentDate, ageThreshold, dobCommitment, eventBinding]
+template AgeVerification() {
+    // Private witness (from the buyer's encrypted credential)
+    signal input birthDate;
+    signal input salt;
+
+    // Public inputs
+    signal input currentDate;
+    signal input ageThreshold;
+    signal input dobCommitment;   // Poseidon(birthDate, salt), fixed at issuance
+    signal input eventBinding;    // Compliance event the proof was generated for
+
+    signal output ageVerified;
+
+    // The proof is only about the committed date of birth
+    component commitment = Poseidon(2);
+    commitment.inputs[0] <== birthDate;
+    commitment.inputs[1] <== salt;
+    dobCommitment === commitment.out;
+
+    // Range checks keep the comparison sound (no field wrap-around)
+    component birthDateBits = Num2Bits(32);
+    birthDateBits.in <== birthDate;
+    component currentDateBits = Num2Bits(32);
+    currentDateBits.in <== currentDate;
+    component thresholdBits = Num2Bits(8);
+    thresholdBits.in <== ageThreshold;
+
+    component meetsThreshold = LessEqThan(33);
+    meetsThreshold.in[0] <== birthDate + ageThreshold * 10000;
+    meetsThreshold.in[1] <== currentDate;
+    ageVerified <== meetsThreshold.out;
+
+    // Tie the binding into the constraint system so the proof cannot be replayed for another event
+    signal eventBindingSquare;
+    eventBindingSquare <== eventBinding * eventBinding;
+}
+
+component main {public [currentDate, ageThreshold, dobCommitment, eventBinding]} = AgeVerification();
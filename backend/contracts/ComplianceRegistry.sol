@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+/**
+ * CA2AChain Compliance Registry
+ * Immutable, PII-free anchor for AB1263 compliance events.
+ * Only the commitment hash of a compliance record is stored on chain -
+ * the record itself stays in Supabase and can be re-hashed by auditors.
+ *
+ * Records are anchored either individually (anchorRecord) or as the Merkle
+ * root of a batch (anchorBatch); batched events carry their inclusion proof off chain.
+ */
+contract ComplianceRegistry {
+    struct Record {
+        bytes32 recordHash;
+        uint64 anchoredAt;
+        address submitter;
+    }
+
+    struct Batch {
+        uint32 leafCount;
+        uint64 anchoredAt;
+        address submitter;
+    }
+
+    address public owner;
+    mapping(address => bool) public submitters;
+    mapping(bytes32 => Record) private records;
+    mapping(bytes32 => Batch) private batches;
+
+    event ComplianceRecordAnchored(
+        bytes32 indexed complianceEventId,
+        bytes32 recordHash,
+        address indexed submitter,
+        uint64 anchoredAt
+    );
+    event MerkleBatchAnchored(
+        bytes32 indexed merkleRoot,
+        uint32 leafCount,
+        address indexed submitter,
+        uint64 anchoredAt
+    );
+    event SubmitterUpdated(address indexed submitter, bool allowed);
+
+    error NotOwner();
+    error NotSubmitter();
+    error AlreadyAnchored(bytes32 complianceEventId);
+    error EmptyHash();
+    error BatchAlreadyAnchored(bytes32 merkleRoot);
+    error EmptyBatch();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier onlySubmitter() {
+        if (!submitters[msg.sender]) revert NotSubmitter();
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+        submitters[msg.sender] = true;
+        emit SubmitterUpdated(msg.sender, true);
+    }
+
+    function setSubmitter(address submitter, bool allowed) external onlyOwner {
+        submitters[submitter] = allowed;
+        emit SubmitterUpdated(submitter, allowed);
+    }
+
+    /**
+     * Anchor a compliance record hash. Records are write-once so a
+     * verification can never be rewritten after the fact.
+     */
+    function anchorRecord(bytes32 complianceEventId, bytes32 recordHash) external onlySubmitter {
+        if (recordHash == bytes32(0)) revert EmptyHash();
+        if (records[complianceEventId].anchoredAt != 0) revert AlreadyAnchored(complianceEventId);
+
+        uint64 anchoredAt = uint64(block.timestamp);
+        records[complianceEventId] = Record(recordHash, anchoredAt, msg.sender);
+
+        emit ComplianceRecordAnchored(complianceEventId, recordHash, msg.sender, anchoredAt);
+    }
+
+    /**
+     * Anchor the Merkle root of a batch of compliance record hashes.
+     * Roots are write-once, same as individual records.
+     */
+    function anchorBatch(bytes32 merkleRoot, uint32 leafCount) external onlySubmitter {
+        if (merkleRoot == bytes32(0)) revert EmptyHash();
+        if (leafCount == 0) revert EmptyBatch();
+        if (batches[merkleRoot].anchoredAt != 0) revert BatchAlreadyAnchored(merkleRoot);
+
+        uint64 anchoredAt = uint64(block.timestamp);
+        batches[merkleRoot] = Batch(leafCount, anchoredAt, msg.sender);
+
+        emit MerkleBatchAnchored(merkleRoot, leafCount, msg.sender, anchoredAt);
+    }
+
+    function getBatch(bytes32 merkleRoot)
+        external
+        view
+        returns (uint32 leafCount, uint64 anchoredAt, address submitter)
+    {
+        Batch memory batch = batches[merkleRoot];
+        return (batch.leafCount, batch.anchoredAt, batch.submitter);
+    }
+
+    function getRecord(bytes32 complianceEventId)
+        external
+        view
+        returns (bytes32 recordHash, uint64 anchoredAt, address submitter)
+    {
+        Record memory record = records[complianceEventId];
+        return (record.recordHash, record.anchoredAt, record.submitter);
+    }
+}
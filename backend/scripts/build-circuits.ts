@@ -0,0 +1,119 @@
+// Compile the ZKP circuits and run the Groth16 setup
+// Usage: pnpm circuits:build
+//   Writes <circuit>.wasm, <circuit>.zkey and <circuit>.vkey.json to circuits/artifacts
+//   (generated, not committed - see ZKP_CIRCUITS_DIR in .env.example).
+//
+// Without PTAU_PATH a single-contributor development powers-of-tau file is generated; whoever ran
+// the build could forge proofs with it. Production keys need a public ceremony file (e.g. the
+// Hermez powersOfTau28_hez_final_12.ptau), so with NODE_ENV=production the build fails without
+// PTAU_PATH. Build production keys once and keep them: every rebuild produces new keys, and proofs
+// made with the old ones no longer verify.
+
+import { cpSync, existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+import { randomBytes } from 'crypto';
+import path from 'path';
+import * as snarkjs from 'snarkjs';
+
+const require = createRequire(import.meta.url);
+
+const CIRCUITS = ['age_verification', 'address_verification'];
+const DEV_PTAU_POWER = 11;
+
+const circuitsDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../circuits');
+const buildDir = path.join(circuitsDir, 'build');
+const artifactsDir = path.join(circuitsDir, 'artifacts');
+
+// circom2 runs as WASI and cannot follow pnpm's symlinked node_modules - stage real copies
+const stageSources = () => {
+  rmSync(buildDir, { recursive: true, force: true });
+  mkdirSync(path.join(buildDir, 'lib/circomlib'), { recursive: true });
+
+  const circomlibDir = path.dirname(require.resolve('circomlib/package.json'));
+  cpSync(path.join(circomlibDir, 'circuits'), path.join(buildDir, 'lib/circomlib/circuits'), {
+    recursive: true,
+    dereference: true
+  });
+
+  for (const circuit of CIRCUITS) {
+    cpSync(path.join(circuitsDir, 'src', `${circuit}.circom`), path.join(buildDir, `${circuit}.circom`));
+  }
+};
+
+const compileCircuit = (circuit: string) => {
+  console.log(`🔧 Compiling ${circuit}.circom...`);
+  execFileSync(
+    process.execPath,
+    [require.resolve('circom2/cli.js'), `${circuit}.circom`, '--r1cs', '--wasm', '-l', 'lib', '-o', '.'],
+    { cwd: buildDir, stdio: 'inherit' }
+  );
+};
+
+const preparePtau = async (): Promise<string> => {
+  if (process.env.PTAU_PATH) {
+    console.log(`🔑 Using powers of tau from ${process.env.PTAU_PATH}`);
+    return path.resolve(process.env.PTAU_PATH);
+  }
+
+  console.log(`⚠️ No PTAU_PATH - generating a development powers of tau (2^${DEV_PTAU_POWER}), not for production`);
+  const curve = await snarkjs.curves.getCurveFromName('bn128');
+  const initial = path.join(buildDir, 'pot_0000.ptau');
+  const contributed = path.join(buildDir, 'pot_0001.ptau');
+  const final = path.join(buildDir, 'pot_final.ptau');
+
+  await snarkjs.powersOfTau.newAccumulator(curve, DEV_PTAU_POWER, initial);
+  await snarkjs.powersOfTau.contribute(initial, contributed, 'ca2achain-dev', randomBytes(32).toString('hex'));
+  await snarkjs.powersOfTau.preparePhase2(contributed, final);
+  await curve.terminate();
+
+  return final;
+};
+
+const setupCircuit = async (circuit: string, ptauPath: string) => {
+  console.log(`🔑 Groth16 setup for ${circuit}...`);
+  const r1cs = path.join(buildDir, `${circuit}.r1cs`);
+  const initialZkey = path.join(buildDir, `${circuit}_0000.zkey`);
+  const finalZkey = path.join(artifactsDir, `${circuit}.zkey`);
+
+  await snarkjs.zKey.newZKey(r1cs, ptauPath, initialZkey);
+  await snarkjs.zKey.contribute(
+    initialZkey,
+    finalZkey,
+    'ca2achain',
+    process.env.ZKEY_ENTROPY || randomBytes(32).toString('hex')
+  );
+
+  const verificationKey = await snarkjs.zKey.exportVerificationKey(finalZkey);
+  writeFileSync(path.join(artifactsDir, `${circuit}.vkey.json`), `${JSON.stringify(verificationKey, null, 2)}\n`);
+
+  cpSync(path.join(buildDir, `${circuit}_js`, `${circuit}.wasm`), path.join(artifactsDir, `${circuit}.wasm`));
+};
+
+const main = async () => {
+  if (process.env.NODE_ENV === 'production' && !process.env.PTAU_PATH) {
+    throw new Error('PTAU_PATH must point at a ceremony powers of tau file for production keys');
+  }
+
+  stageSources();
+  if (!existsSync(artifactsDir)) mkdirSync(artifactsDir, { recursive: true });
+
+  for (const circuit of CIRCUITS) {
+    compileCircuit(circuit);
+  }
+
+  const ptauPath = await preparePtau();
+  for (const circuit of CIRCUITS) {
+    await setupCircuit(circuit, ptauPath);
+  }
+
+  rmSync(buildDir, { recursive: true, force: true });
+  console.log(`✅ Circuit artifacts written to ${artifactsDir}`);
+  process.exit(0);
+};
+
+main().catch((error) => {
+  console.error('❌ Circuit build failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+// Compile the ComplianceRegistry contract with solc (used by chain:deploy and the local-node tests)
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import path from 'path';
+import solc from 'solc';
+
+const CONTRACT_FILE = 'ComplianceRegistry.sol';
+export const CONTRACT_NAME = 'ComplianceRegistry';
+
+export const compileComplianceRegistry = (): { abi: any[]; bytecode: string } => {
+  const contractsDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../contracts');
+  const input = {
+    language: 'Solidity',
+    sources: {
+      [CONTRACT_FILE]: { content: readFileSync(path.join(contractsDir, CONTRACT_FILE), 'utf8') }
+    },
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } }
+    }
+  };
+
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+  const errors = (output.errors || []).filter((e: any) => e.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(errors.map((e: any) => e.formattedMessage).join('\n'));
+  }
+
+  const contract = output.contracts[CONTRACT_FILE][CONTRACT_NAME];
+  return { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` };
+};
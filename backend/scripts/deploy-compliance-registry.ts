@@ -0,0 +1,40 @@
+// Compile and deploy the ComplianceRegistry contract
+// Usage: pnpm chain:deploy
+//   Local:   anvil  (then POLYGON_RPC_URL=http://127.0.0.1:8545 POLYGON_CHAIN_ID=31337)
+//   Testnet: POLYGON_RPC_URL=<amoy rpc> POLYGON_CHAIN_ID=80002
+
+import dotenv from 'dotenv';
+import { ContractFactory, JsonRpcProvider, Wallet } from 'ethers';
+import { CONTRACT_NAME, compileComplianceRegistry } from './compile-compliance-registry.js';
+
+dotenv.config();
+
+const main = async () => {
+  const rpcUrl = process.env.POLYGON_RPC_URL;
+  const privateKey = process.env.POLYGON_PRIVATE_KEY;
+
+  if (!rpcUrl || !privateKey) {
+    throw new Error('POLYGON_RPC_URL and POLYGON_PRIVATE_KEY must be set');
+  }
+
+  const { abi, bytecode } = compileComplianceRegistry();
+  const provider = new JsonRpcProvider(rpcUrl, Number(process.env.POLYGON_CHAIN_ID) || undefined);
+  const wallet = new Wallet(privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`, provider);
+
+  console.log(`🔗 Deploying ${CONTRACT_NAME} from ${wallet.address}...`);
+  const contract = await new ContractFactory(abi, bytecode, wallet).deploy();
+  await contract.waitForDeployment();
+
+  console.log(`✅ ${CONTRACT_NAME} deployed`);
+  console.log(`   POLYGON_CONTRACT_ADDRESS=${await contract.getAddress()}`);
+
+  const deployment = await contract.deploymentTransaction()?.wait();
+  if (deployment) {
+    console.log(`   POLYGON_DEPLOY_BLOCK=${deployment.blockNumber}`);
+  }
+};
+
+main().catch((error) => {
+  console.error('❌ Deployment failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,11 @@
+// Generate the credential issuer keypair
+// Usage: pnpm issuer:keygen
+//   Prints a new ISSUER_ED25519_SEED and the did:key it corresponds to.
+//   Store the seed as a secret - rotating it changes the issuer DID and invalidates issued credentials.
+
+import { generateIssuerSeed } from '../src/services/issuer.js';
+
+const { seed, did } = generateIssuerSeed();
+
+console.log(`🔑 Issuer DID: ${did}`);
+console.log(`ISSUER_ED25519_SEED=${seed}`);
@@ -0,0 +1,87 @@
+// Generate signed Stripe webhook events for local testing (no Stripe account or network needed)
+// Usage: pnpm stripe:fixture <event-type> [options]
+//   pnpm stripe:fixture checkout.session.completed --dealer <dealer uuid> --subscription sub_local_1 --send
+//   pnpm stripe:fixture invoice.paid --subscription sub_local_1 --tier tier2 --send
+//   pnpm stripe:fixture checkout.session.completed --buyer <buyer uuid> --payment <payment uuid>
+// Options:
+//   --dealer, --buyer, --payment, --subscription, --customer   IDs to put on the event
+//   --tier tier1|tier2|tier3   --status <stripe subscription status>   --reason <invoice billing_reason>
+//   --amount <cents>   --period-end <ISO date>   --created <ISO date> (event time, to replay out of order)
+//   --send [url]   POST to <url>/webhooks/stripe (default http://localhost:$PORT) instead of printing
+// Signs with STRIPE_WEBHOOK_SECRET - the backend must use the same secret.
+
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import { createSignedStripeFixture, type StripeFixtureOptions } from '../src/services/mocks/stripe-events.js';
+import { STRIPE_LIFECYCLE_EVENTS, type StripeLifecycleEventType } from '../src/services/stripe-webhooks.js';
+
+dotenv.config();
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    dealer: { type: 'string' },
+    buyer: { type: 'string' },
+    payment: { type: 'string' },
+    subscription: { type: 'string' },
+    customer: { type: 'string' },
+    tier: { type: 'string' },
+    status: { type: 'string' },
+    reason: { type: 'string' },
+    amount: { type: 'string' },
+    'period-end': { type: 'string' },
+    created: { type: 'string' },
+    send: { type: 'boolean' }
+  }
+});
+
+const main = async () => {
+  const [eventType, sendUrl] = positionals;
+  if (!STRIPE_LIFECYCLE_EVENTS.includes(eventType as StripeLifecycleEventType)) {
+    throw new Error(`Event type must be one of: ${STRIPE_LIFECYCLE_EVENTS.join(', ')}`);
+  }
+
+  const options: StripeFixtureOptions = {
+    dealerId: values.dealer,
+    buyerId: values.buyer,
+    paymentId: values.payment,
+    subscriptionId: values.subscription,
+    customerId: values.customer,
+    planTier: values.tier as StripeFixtureOptions['planTier'],
+    status: values.status,
+    billingReason: values.reason as StripeFixtureOptions['billingReason'],
+    amountCents: values.amount ? Number(values.amount) : undefined,
+    periodEnd: values['period-end'] ? new Date(values['period-end']) : undefined,
+    createdAt: values.created ? new Date(values.created) : undefined
+  };
+
+  const fixture = createSignedStripeFixture(eventType as StripeLifecycleEventType, options);
+
+  if (!values.send) {
+    console.log(`Stripe-Signature: ${fixture.signature}`);
+    console.log('');
+    console.log(fixture.payload);
+    return;
+  }
+
+  const baseUrl = sendUrl ?? `http://localhost:${process.env.PORT || 3001}`;
+  const response = await fetch(`${baseUrl}/webhooks/stripe`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': fixture.signature
+    },
+    body: fixture.payload
+  });
+
+  console.log(`📨 ${fixture.event.type} (${fixture.event.id}) → ${response.status}`);
+  console.log(await response.text());
+  if (!response.ok) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error('❌ Stripe fixture failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -62,7 +62,7 @@ export const swaggerOptions = {
           type: 'http',
           scheme: 'bearer',
           bearerFormat: 'API Key',
-          description: 'Dealer API key (format: ca2a_...)'
+          description: 'Dealer API key (format: ca2a_...). Keys carry scopes: verify for POST /verify, history:read for reading verifications'
         }
       },
       schemas: {
@@ -120,15 +120,47 @@ export const swaggerOptions = {
             dealer_reference_id: { type: 'string', pattern: '^DLR_[a-z0-9]{8}$' },
             subscription_tier: { type: 'integer', enum: [1, 2, 3] },
             subscription_status: { type: 'string', enum: ['active', 'trialing', 'past_due', 'canceled'] },
-            credits_purchased: { type: 'integer' },
-            additional_credits_purchased: { type: 'integer' },
-            credits_used: { type: 'integer' },
             credits_expire_at: { type: 'string', format: 'date-time', nullable: true },
             created_at: { type: 'string', format: 'date-time' }
           },
           required: ['id', 'company_name', 'business_email', 'subscription_tier', 'subscription_status']
         },
 
+        // Credit ledger entry (the dealer's balance is the sum of its entries)
+        CreditLedgerEntry: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            entry_type: { type: 'string', enum: ['grant', 'consumption', 'refund', 'expiration'] },
+            amount: { type: 'integer', description: 'Signed: grants and refunds are positive, consumptions and expirations negative' },
+            idempotency_key: { type: 'string' },
+            compliance_event_id: { type: 'string', format: 'uuid', nullable: true },
+            payment_id: { type: 'string', format: 'uuid', nullable: true },
+            reverses_entry_id: { type: 'string', format: 'uuid', nullable: true },
+            request_id: { type: 'string', nullable: true, description: 'API request (X-Request-Id) that consumed or was refunded the credit' },
+            description: { type: 'string', nullable: true },
+            created_at: { type: 'string', format: 'date-time' }
+          },
+          required: ['id', 'entry_type', 'amount', 'idempotency_key', 'created_at']
+        },
+
+        // Dealer API key (the key itself is only returned at creation or rotation)
+        DealerApiKey: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            label: { type: 'string' },
+            key_prefix: { type: 'string', description: 'Start of the key, for telling keys apart' },
+            scopes: { type: 'array', items: { type: 'string', enum: ['verify', 'history:read'] } },
+            created_at: { type: 'string', format: 'date-time' },
+            last_used_at: { type: 'string', format: 'date-time', nullable: true },
+            expires_at: { type: 'string', format: 'date-time', nullable: true },
+            revoked_at: { type: 'string', format: 'date-time', nullable: true },
+            rotated_to_key_id: { type: 'string', format: 'uuid', nullable: true, description: 'Replacement key; this key expires at the end of the rotation grace period' }
+          },
+          required: ['id', 'label', 'key_prefix', 'scopes', 'created_at']
+        },
+
         // Verification request
         VerificationRequest: {
           type: 'object',
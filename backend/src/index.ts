@@ -1,13 +1,15 @@
 import Fastify from 'fastify';
+import { randomUUID } from 'crypto';
 import cors from '@fastify/cors';
 import helmet from '@fastify/helmet';
 import dotenv from 'dotenv';
 import { authMiddleware } from './middleware/auth.js';
 import { apiKeyMiddleware } from './middleware/apikey.js';
 import { initSupabase } from './services/database/connection.js';
-import { initStripe } from './services/service-resolver.js';
-import { initResend } from './services/email.js';
-import { logServiceStatus } from './services/service-resolver.js';
+import { initProviders, logProviderStatus } from './services/providers/index.js';
+import { startJobs, stopJobs } from './services/jobs/index.js';
+import { initRateLimitPolicy } from './services/rate-limit/index.js';
+import { initCircuitArtifacts } from './services/zkp/index.js';
 
 import authRoutes from './routes/auth.js';
 import buyerRoutes from './routes/buyer.js';
@@ -16,6 +18,7 @@ import verificationRoutes from './routes/verification.js';
 import webhookRoutes from './routes/webhooks.js';
 import paymentsRoutes from './routes/payments.js';
 import healthRoutes from './routes/health.js';
+import personaSandboxRoutes from './routes/persona-sandbox.js';
 
 // Load environment variables
 dotenv.config();
@@ -23,16 +26,18 @@ dotenv.config();
 // Create Fastify instance with basic logging
 const fastify = Fastify({ 
   logger: true,
-  trustProxy: true
+  trustProxy: Number(process.env.TRUST_PROXY_HOPS) || false, // Proxy hops to trust for the client IP (rate limits)
+  genReqId: () => randomUUID() // Unique across restarts - credit reservations and refunds record it
 });
 
 // Initialize services
 await initSupabase();
-initStripe();
-initResend();
+const providers = initProviders();
+initRateLimitPolicy();
+initCircuitArtifacts();
 
-// Log which services are real vs mocked
-logServiceStatus();
+// Log which providers were chosen (real or development stand-ins)
+logProviderStatus();
 
 // Basic security middleware
 await fastify.register(helmet, {
@@ -42,11 +47,20 @@ await fastify.register(cors, {
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key'],
+});
+
+// Rate limits are applied per route (middleware/rate-limit.ts) with in-memory buckets; when running
+// several instances, share them with setRateLimitStore(createRedisRateLimitStore(redis)) here
+
+// Every response names its request (dealers reconcile credit refunds by it)
+fastify.addHook('onRequest', async (request, reply) => {
+  reply.header('x-request-id', request.id);
 });
 
 // Register auth middleware as decorator
 fastify.decorate('authenticate', authMiddleware);
+fastify.decorate('authenticateApiKey', apiKeyMiddleware);
 
 // Health check routes (no auth required)
 await fastify.register(healthRoutes);
@@ -81,6 +95,16 @@ await fastify.register(paymentsRoutes, {
 // Webhook routes (no auth - uses Stripe signature verification)
 await fastify.register(webhookRoutes, { prefix: '/webhooks' });
 
+// Local Persona stand-in for completing buyer verification without Persona (never in production)
+if (providers.identity.mode === 'local' && process.env.NODE_ENV !== 'production') {
+  await fastify.register(personaSandboxRoutes, { prefix: '/dev/persona' });
+}
+
+// Stop background jobs on shutdown
+fastify.addHook('onClose', async () => {
+  stopJobs();
+});
+
 // Global error handler
 fastify.setErrorHandler(async (error, request, reply) => {
   fastify.log.error(error);
@@ -149,6 +173,9 @@ const start = async () => {
     await fastify.listen({ port, host });
     console.log(`🚀 CA2AChain API server listening on port ${port}`);
     console.log(`📚 Environment: ${process.env.NODE_ENV || 'development'}`);
+
+    // Background jobs: compliance event anchoring, verification expiry and renewal reminders
+    startJobs();
   } catch (error) {
     fastify.log.error(error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -1,12 +1,14 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { getDealerByApiKey, useDealerCredit } from '../services/database/dealer-accounts.js';
+import { getApiKeyByHash, isApiKeyActive, touchApiKeyLastUsed } from '../services/database/dealer-api-keys.js';
+import { getDealerCreditBalance } from '../services/database/credit-ledger.js';
 import { hashApiKey } from '../services/encryption.js';
-import type { DealerAccount } from '@ca2achain/shared';
+import type { ApiKeyScope, DealerAccount } from '@ca2achain/shared';
 
-// Extend FastifyRequest to include dealer
+// Extend FastifyRequest to include dealer and the API key used
 declare module 'fastify' {
   interface FastifyRequest {
     dealer?: DealerAccount;
+    apiKey?: { id: string; scopes: ApiKeyScope[] };
   }
 }
 
@@ -39,17 +41,19 @@ export async function apiKeyMiddleware(
     // Hash the API key to compare with stored hash
     const apiKeyHash = hashApiKey(apiKey);
 
-    // Look up dealer by API key hash
-    const dealer = await getDealerByApiKey(apiKeyHash);
+    // Look up the key and its dealer by hash
+    const match = await getApiKeyByHash(apiKeyHash);
 
-    if (!dealer) {
+    if (!match || !isApiKeyActive(match.key)) {
       return reply.status(401).send({ 
         success: false,
         error: 'Invalid API key',
-        message: 'API key not found or has been revoked'
+        message: 'API key not found, expired or revoked'
       });
     }
 
+    const { key, dealer } = match;
+
     // Check if dealer has activated subscription
     if (!dealer.subscription_status) {
       return reply.status(403).send({ 
@@ -69,17 +73,53 @@ export async function apiKeyMiddleware(
       });
     }
 
-    // Check credit availability (credits can be null if no subscription)
-    if (dealer.credits_purchased === null || dealer.credits_used === null) {
-      return reply.status(402).send({ 
+    // Attach full dealer account and key to request
+    request.dealer = dealer;
+    request.apiKey = { id: key.id, scopes: key.scopes };
+
+    touchApiKeyLastUsed(key).catch(error => {
+      console.error('API key last used update error:', error);
+    });
+
+  } catch (error) {
+    console.error('API key middleware error:', error);
+    return reply.status(500).send({ 
+      success: false,
+      error: 'Internal server error',
+      message: 'Please try again or contact support'
+    });
+  }
+}
+
+// Scope check for dealer API routes (after apiKeyMiddleware)
+export function requireScope(scope: ApiKeyScope) {
+  return async function scopeMiddleware(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    if (!request.apiKey?.scopes.includes(scope)) {
+      return reply.status(403).send({ 
         success: false,
-        error: 'No credits available',
-        message: 'Please setup your subscription to get credits.'
+        error: 'Insufficient scope',
+        message: `This API key does not have the ${scope} scope`
       });
     }
+  };
+}
+
+// Credit availability check for dealer API routes (after apiKeyMiddleware)
+// Runs after idempotency replays so a retried request is answered even at zero balance;
+// credits are consumed by the route that does the billable work, not here
+export async function creditBalanceMiddleware(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const dealer = request.dealer!;
 
-    const availableCredits = (dealer.credits_purchased + (dealer.additional_credits_purchased || 0)) - dealer.credits_used;
-    const creditsExpired = dealer.credits_expire_at && new Date(dealer.credits_expire_at) < new Date();
+    // Balance derived from the credit ledger
+    const availableCredits = await getDealerCreditBalance(dealer.id);
+    const creditsExpired = !!dealer.credits_expire_at && new Date(dealer.credits_expire_at) < new Date();
 
     if (availableCredits <= 0 || creditsExpired) {
       return reply.status(402).send({ 
@@ -91,31 +131,15 @@ export async function apiKeyMiddleware(
       });
     }
 
-    // For verification endpoints, consume a credit atomically
-    if (request.url.includes('/verify') && request.method === 'POST') {
-      const creditUsed = await useDealerCredit(dealer.id);
-      if (!creditUsed) {
-        return reply.status(402).send({ 
-          success: false,
-          error: 'Credit consumption failed',
-          message: 'Unable to deduct verification credit. Please try again.'
-        });
-      }
-    }
-
-    // Attach full dealer account to request
-    request.dealer = dealer;
-
     // Log API usage for monitoring
-    const remainingCredits = availableCredits - (request.url.includes('/verify') ? 1 : 0);
-    console.log(`API request from dealer: ${dealer.company_name} (${remainingCredits} credits remaining)`);
+    console.log(`API request from dealer: ${dealer.company_name} (${availableCredits} credits available)`);
 
   } catch (error) {
-    console.error('API key middleware error:', error);
+    console.error('Credit balance middleware error:', error);
     return reply.status(500).send({ 
       success: false,
       error: 'Internal server error',
       message: 'Please try again or contact support'
     });
   }
-}
\ No newline at end of file
+}
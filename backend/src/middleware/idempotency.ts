@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { canonicalize } from '@ca2achain/shared';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey
+} from '../services/database/idempotency-keys.js';
+
+// Idempotency-Key support for dealer API mutations (after apiKeyMiddleware)
+// The first request with a key runs and its response is stored; retries with the same key and body
+// get that response back (Idempotency-Replayed: true) without running the route again, a different
+// body gets 409. Only final outcomes are stored: our own 5xx failures and the retryable 402
+// (credit balance) and 429 (rate limit) rejections release the key, so a retry runs the request
+// again. A claim left behind by a crashed request is taken over by a retry after 10 minutes.
+//
+// Configuration:
+//   IDEMPOTENCY_KEY_TTL_HOURS  how long a stored response is replayed (default 24)
+
+const DEFAULT_TTL_HOURS = 24;
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7E]{1,255}$/; // Printable ASCII, no spaces
+
+// Responses that depend on state the dealer can change before retrying (never replayed)
+const isRetryableStatus = (statusCode: number): boolean =>
+  statusCode >= 500 || statusCode === 402 || statusCode === 429;
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    idempotencyKey?: string; // Claimed by this request - its response is stored
+  }
+}
+
+// SHA-256 of method, route and canonical JSON body (key order and whitespace don't matter)
+const requestFingerprint = (request: FastifyRequest): string =>
+  crypto.createHash('sha256')
+    .update(`${request.method} ${request.routeOptions.url}\n${canonicalize(request.body ?? null)}`)
+    .digest('hex');
+
+export async function idempotencyMiddleware(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  const header = request.headers['idempotency-key'];
+  if (header === undefined) return;
+
+  const idempotencyKey = Array.isArray(header) ? header[0] : header;
+  if (!IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+    return reply.status(400).send({
+      success: false,
+      error: 'Invalid Idempotency-Key',
+      message: 'Idempotency-Key must be 1-255 printable ASCII characters without spaces'
+    });
+  }
+
+  try {
+    const dealer = request.dealer!;
+    const ttlHours = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || DEFAULT_TTL_HOURS;
+
+    const claim = await claimIdempotencyKey(dealer.id, idempotencyKey, {
+      method: request.method,
+      path: request.routeOptions.url ?? request.url,
+      fingerprint: requestFingerprint(request),
+      requestId: request.id
+    }, Math.round(ttlHours * 3600));
+
+    switch (claim.outcome) {
+      case 'claimed':
+        request.idempotencyKey = idempotencyKey;
+        return;
+
+      case 'replay':
+        return reply
+          .header('idempotency-replayed', 'true')
+          .status(claim.response_status ?? 200)
+          .send(claim.response_body);
+
+      case 'mismatch':
+        return reply.status(409).send({
+          success: false,
+          error: 'Idempotency-Key reused',
+          message: 'This Idempotency-Key was already used with a different request'
+        });
+
+      case 'in_progress':
+        return reply.status(409).send({
+          success: false,
+          error: 'Request in progress',
+          message: 'A request with this Idempotency-Key is still being processed. Retry shortly.'
+        });
+    }
+  } catch (error) {
+    console.error('Idempotency middleware error:', error);
+    return reply.status(500).send({
+      success: false,
+      error: 'Internal server error',
+      message: 'Please try again or contact support'
+    });
+  }
+}
+
+// onSend hook for the same routes: store the response of a claimed key
+export async function storeIdempotentResponse(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  payload: unknown
+) {
+  const idempotencyKey = request.idempotencyKey;
+  if (!idempotencyKey) return payload;
+  request.idempotencyKey = undefined;
+
+  const dealerId = request.dealer!.id;
+  try {
+    if (isRetryableStatus(reply.statusCode)) {
+      await releaseIdempotencyKey(dealerId, idempotencyKey, request.id);
+    } else {
+      const body = typeof payload === 'string' ? JSON.parse(payload) : payload;
+      await completeIdempotencyKey(dealerId, idempotencyKey, request.id, reply.statusCode, body);
+    }
+  } catch (error) {
+    // The response still goes out; the key stays in progress until it expires
+    console.error('Idempotency response store error:', error);
+  }
+
+  return payload;
+}
@@ -0,0 +1,58 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import {
+  getRateLimitPolicy,
+  getRateLimitStore,
+  getRequestsPerMinute,
+  toTokenBucket,
+  type RateLimitBucket
+} from '../services/rate-limit/index.js';
+
+// Token-bucket rate limiting (policy in services/rate-limit/policy.ts)
+// Dealer buckets are keyed by dealer (after apiKeyMiddleware), so extra or rotated API keys share
+// one limit, and sized by subscription tier; the auth bucket is keyed by client IP (see
+// TRUST_PROXY_HOPS). Every limited response carries RateLimit-Limit, RateLimit-Remaining and
+// RateLimit-Reset; a 429 adds Retry-After. If the store fails the request is let through - an
+// outage of the limiter must not take the API down with it.
+
+const bucketKey = (bucket: RateLimitBucket, request: FastifyRequest): string | null => {
+  if (bucket === 'auth') return `auth:ip:${request.ip}`;
+  return request.dealer ? `${bucket}:dealer:${request.dealer.id}` : null;
+};
+
+export function rateLimit(bucket: RateLimitBucket) {
+  return async function rateLimitMiddleware(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    const policy = getRateLimitPolicy();
+    if (!policy.enabled) return;
+
+    const key = bucketKey(bucket, request);
+    if (!key) return;
+
+    const requestsPerMinute = getRequestsPerMinute(bucket, request.dealer?.subscription_tier ?? null, policy);
+
+    try {
+      const result = await getRateLimitStore().consume(key, toTokenBucket(requestsPerMinute));
+
+      reply
+        .header('ratelimit-policy', `${requestsPerMinute};w=60`)
+        .header('ratelimit-limit', requestsPerMinute)
+        .header('ratelimit-remaining', result.remaining)
+        .header('ratelimit-reset', result.resetSeconds);
+
+      if (!result.allowed) {
+        return reply
+          .header('retry-after', result.retryAfterSeconds)
+          .status(429)
+          .send({
+            success: false,
+            error: 'Too many requests',
+            message: `Rate limit of ${requestsPerMinute} requests per minute exceeded. Retry in ${result.retryAfterSeconds}s.`
+          });
+      }
+    } catch (error) {
+      console.error('Rate limit middleware error:', error);
+    }
+  };
+}
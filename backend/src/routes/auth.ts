@@ -3,22 +3,26 @@ import { registerUser, sendLoginLink } from '../services/auth.js';
 import { getUserRole } from '../services/database/user-roles.js';
 import { authLoginSchema, roleSelectionSchema } from '@ca2achain/shared';
 import { createRouteSchema, sendSuccess, sendError, sendValidationError, authRequired } from '../utils/api-responses.js';
+import { rateLimit } from '../middleware/rate-limit.js';
 
 export default async function authRoutes(fastify: FastifyInstance) {
   // Register new user
-  fastify.post('/register', createRouteSchema({
-    tags: ['auth'],
-    summary: 'Register new user',
-    description: 'Creates auth.users + user_roles, sends magic link',
-    body: {
-      type: 'object',
-      properties: {
-        email: { type: 'string', format: 'email' },
-        role: { type: 'string', enum: ['buyer', 'dealer'] }
-      },
-      required: ['email', 'role']
-    }
-  }), async (request, reply) => {
+  fastify.post('/register', {
+    ...createRouteSchema({
+      tags: ['auth'],
+      summary: 'Register new user',
+      description: 'Creates auth.users + user_roles, sends magic link',
+      body: {
+        type: 'object',
+        properties: {
+          email: { type: 'string', format: 'email' },
+          role: { type: 'string', enum: ['buyer', 'dealer'] }
+        },
+        required: ['email', 'role']
+      }
+    }),
+    preHandler: rateLimit('auth')
+  }, async (request, reply) => {
     try {
       const { email, role } = request.body as { email: string, role: 'buyer' | 'dealer' };
 
@@ -53,18 +57,21 @@ export default async function authRoutes(fastify: FastifyInstance) {
   });
 
   // Login existing user (CHANGED: sends magic link instead of OTP)
-  fastify.post('/login', createRouteSchema({
-    tags: ['auth'],
-    summary: 'Login existing user',
-    description: 'Sends magic link to existing user (click to login)',
-    body: {
-      type: 'object',
-      properties: {
-        email: { type: 'string', format: 'email' }
-      },
-      required: ['email']
-    }
-  }), async (request, reply) => {
+  fastify.post('/login', {
+    ...createRouteSchema({
+      tags: ['auth'],
+      summary: 'Login existing user',
+      description: 'Sends magic link to existing user (click to login)',
+      body: {
+        type: 'object',
+        properties: {
+          email: { type: 'string', format: 'email' }
+        },
+        required: ['email']
+      }
+    }),
+    preHandler: rateLimit('auth')
+  }, async (request, reply) => {
     try {
       const { email } = authLoginSchema.parse(request.body);
 
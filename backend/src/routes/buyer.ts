@@ -3,6 +3,7 @@ import { createRouteSchema, sendSuccess, sendError, sendValidationError, sendUna
 import { createBuyer, getBuyerByAuth, updateBuyerAccount } from '../services/database/buyer-accounts.js';
 import { deleteBuyerData, exportBuyerData } from '../services/database/ccpa-privacy.js';
 import { getVerificationHistory } from '../services/database/compliance-events.js';
+import { getBuyerVerificationStatus, startBuyerVerification } from '../services/buyer-verification.js';
 import { 
   buyerRegistrationSchema, 
   buyerProfileUpdateSchema, 
@@ -135,6 +136,73 @@ export default async function buyerRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Start identity verification (Persona inquiry)
+  fastify.post('/verify-identity', {
+    ...createRouteSchema({
+      tags: ['buyer'],
+      summary: 'Start identity verification',
+      description: 'Creates a Persona inquiry for the buyer and returns its session token. Completion arrives through the Persona webhook; poll GET /buyer/verification-status.',
+      security: authRequired
+    }),
+    preHandler: fastify.authenticate
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      if (!request.user || request.user.role !== 'buyer' || !request.user.account_data) {
+        return sendError(reply, 'Profile not completed', 403);
+      }
+
+      const buyer = request.user.account_data as BuyerAccount;
+      const session = await startBuyerVerification(buyer);
+
+      return sendSuccess(reply, session, 201);
+    } catch (error) {
+      console.error('Start identity verification error:', error);
+      if (error instanceof Error && error.message === 'Identity already verified') {
+        return sendError(reply, 'Identity already verified', 409);
+      }
+      return sendError(reply, 'Failed to start identity verification', 500);
+    }
+  });
+
+  // Get identity verification status (polled while Persona processes the inquiry)
+  fastify.get('/verification-status', {
+    ...createRouteSchema({
+      tags: ['buyer'],
+      summary: 'Get identity verification status',
+      security: authRequired,
+      response: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean', enum: [true] },
+          data: {
+            type: 'object',
+            properties: {
+              verification_status: { type: 'string', enum: ['pending', 'verified', 'expired', 'rejected'] },
+              inquiry_id: { type: 'string' },
+              verification_started_at: { type: 'string' },
+              verified_at: { type: 'string' },
+              verification_expires_at: { type: 'string' },
+              can_start_verification: { type: 'boolean' },
+              last_updated: { type: 'string' }
+            }
+          }
+        }
+      }
+    }),
+    preHandler: fastify.authenticate
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      if (!request.user || request.user.role !== 'buyer' || !request.user.account_data) {
+        return sendError(reply, 'Profile not found', 404);
+      }
+
+      const buyer = request.user.account_data as BuyerAccount;
+      return sendSuccess(reply, getBuyerVerificationStatus(buyer), 200);
+    } catch (error) {
+      return sendError(reply, 'Failed to retrieve verification status', 500);
+    }
+  });
+
   // CCPA: Export data
   fastify.post('/ccpa/export', {
     ...createRouteSchema({
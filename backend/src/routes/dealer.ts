@@ -1,19 +1,37 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { randomUUID } from 'crypto';
 import { createRouteSchema, sendSuccess, sendError, sendValidationError, authRequired } from '../utils/api-responses.js';
-import { createDealer, getDealerByAuth, updateDealerAccount, setupDealerSubscription, useDealerCredit, addDealerCredits } from '../services/database/dealer-accounts.js';
+import { createDealer, getDealerByAuth, updateDealerAccount, setupDealerSubscription, TIER_MONTHLY_CREDITS } from '../services/database/dealer-accounts.js';
+import { getDealerCreditBalance, grantDealerCredits, grantDealerPlanUpgrade, listCreditLedgerEntries } from '../services/database/credit-ledger.js';
 import { getDealerVerificationHistory } from '../services/database/compliance-events.js';
 import { getDealerPaymentHistory } from '../services/database/payment-events.js';
-import { generateApiKey, hashApiKey } from '../services/encryption.js';
+import {
+  createDealerApiKey,
+  getDealerApiKey,
+  isApiKeyActive,
+  listDealerApiKeys,
+  revokeDealerApiKey,
+  rotateDealerApiKey,
+  updateDealerApiKey
+} from '../services/database/dealer-api-keys.js';
+import { generateApiKey, getApiKeyPrefix, hashApiKey } from '../services/encryption.js';
 import { 
   dealerRegistrationSchema, 
   dealerProfileUpdateSchema, 
   dealerSubscriptionUpdateSchema,
   dealerCreditPurchaseSchema,
+  dealerApiKeyCreateSchema,
+  dealerApiKeyUpdateSchema,
+  dealerApiKeyRotateSchema,
+  type CreditLedgerEntryType,
   type DealerRegistration,
   type DealerProfileUpdate,
   type DealerAccount
 } from '@ca2achain/shared';
 
+// Active (unrevoked, unexpired) keys a dealer may hold at once
+const MAX_ACTIVE_API_KEYS = 10;
+
 export default async function dealerRoutes(fastify: FastifyInstance) {
   // Complete dealer profile - NO payment/subscription
   fastify.post('/complete-profile', {
@@ -82,7 +100,7 @@ export default async function dealerRoutes(fastify: FastifyInstance) {
     ...createRouteSchema({
       tags: ['dealer'],
       summary: 'Setup dealer subscription',
-      description: 'Activate subscription and generate API key',
+      description: 'Activate subscription and create the first API key (named "Default key", all scopes)',
       security: authRequired
     }),
     preHandler: fastify.authenticate
@@ -100,16 +118,21 @@ export default async function dealerRoutes(fastify: FastifyInstance) {
 
       const { subscription_tier } = dealerSubscriptionUpdateSchema.parse(request.body);
 
-      // Generate API key
-      const apiKey = generateApiKey();
-      const apiKeyHash = hashApiKey(apiKey);
+      // Setup subscription and create the first API key
+      const updatedDealer = await setupDealerSubscription(dealer.id, subscription_tier);
 
-      // Setup subscription and create API key
-      const updatedDealer = await setupDealerSubscription(dealer.id, subscription_tier, apiKeyHash);
+      const apiKey = generateApiKey();
+      const key = await createDealerApiKey(dealer.id, {
+        label: 'Default key',
+        scopes: ['verify', 'history:read'],
+        keyHash: hashApiKey(apiKey),
+        keyPrefix: getApiKeyPrefix(apiKey)
+      });
 
       return sendSuccess(reply, {
         ...updatedDealer,
-        api_key: apiKey // Return API key once
+        api_key: apiKey, // Return API key once
+        api_key_id: key.id
       }, 200);
     } catch (error) {
       console.error('Subscription setup error:', error);
@@ -142,12 +165,11 @@ export default async function dealerRoutes(fastify: FastifyInstance) {
 
       const { subscription_tier } = dealerSubscriptionUpdateSchema.parse(request.body);
       
-      // Update tier and recalculate credits
-      const tierCredits = { 1: 100, 2: 500, 3: 10000 };
-      const updatedDealer = await updateDealerAccount(dealer.id, { 
-        subscription_tier,
-        credits_purchased: tierCredits[subscription_tier as keyof typeof tierCredits]
-      } as any);
+      const updatedDealer = await updateDealerAccount(dealer.id, { subscription_tier });
+
+      // An upgrade grants the monthly credits not yet granted in the current period (once per tier
+      // reached - downgrading and upgrading again grants nothing)
+      await grantDealerPlanUpgrade(dealer.id, TIER_MONTHLY_CREDITS[subscription_tier], `Upgrade to tier ${subscription_tier}`);
 
       return sendSuccess(reply, updatedDealer, 200);
     } catch (error) {
@@ -225,9 +247,13 @@ export default async function dealerRoutes(fastify: FastifyInstance) {
       }
 
       const { credit_amount } = dealerCreditPurchaseSchema.parse(request.body);
-      const updatedDealer = await addDealerCredits(dealer.id, credit_amount);
+      await grantDealerCredits(dealer.id, credit_amount, `purchase:${randomUUID()}`, 'Additional credit purchase');
+      const balance = await getDealerCreditBalance(dealer.id);
 
-      return sendSuccess(reply, updatedDealer, 200);
+      return sendSuccess(reply, {
+        credits_added: credit_amount,
+        new_balance: balance
+      }, 200);
     } catch (error) {
       if (error instanceof Error && error.name === 'ZodError') {
         return sendValidationError(reply, 'Invalid credit amount');
@@ -236,6 +262,295 @@ export default async function dealerRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Get credit balance and ledger history
+  fastify.get('/credits', {
+    ...createRouteSchema({
+      tags: ['dealer'],
+      summary: 'Get dealer credits',
+      description: 'Credit balance (derived from the credit ledger) and ledger entries, newest first: grants, consumptions, refunds and expirations.',
+      security: authRequired,
+      querystring: {
+        type: 'object',
+        properties: {
+          entry_type: { type: 'string', enum: ['grant', 'consumption', 'refund', 'expiration'] },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 25 },
+          offset: { type: 'integer', minimum: 0, default: 0 }
+        }
+      }
+    }),
+    preHandler: fastify.authenticate
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      if (!request.user || request.user.role !== 'dealer' || !request.user.account_data) {
+        return sendError(reply, 'Profile not found', 404);
+      }
+
+      const dealer = request.user.account_data as DealerAccount;
+      const { entry_type, limit, offset } = request.query as { entry_type?: CreditLedgerEntryType; limit: number; offset: number };
+
+      const [balance, { entries, total }] = await Promise.all([
+        getDealerCreditBalance(dealer.id),
+        listCreditLedgerEntries(dealer.id, { limit, offset, entryType: entry_type })
+      ]);
+
+      return sendSuccess(reply, {
+        credits_available: balance,
+        credits_expire_at: dealer.credits_expire_at ?? null,
+        credits_expired: !!dealer.credits_expire_at && new Date(dealer.credits_expire_at) < new Date(),
+        entries,
+        pagination: { limit, offset, total }
+      }, 200);
+    } catch (error) {
+      return sendError(reply, 'Failed to retrieve credits', 500);
+    }
+  });
+
+  // List API keys
+  fastify.get('/api-keys', {
+    ...createRouteSchema({
+      tags: ['dealer'],
+      summary: 'List API keys',
+      description: 'All of the dealer\'s API keys, newest first, including revoked and expired ones. Keys are identified by key_prefix; the full key is only returned when it is created or rotated.',
+      security: authRequired
+    }),
+    preHandler: fastify.authenticate
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      if (!request.user || request.user.role !== 'dealer' || !request.user.account_data) {
+        return sendError(reply, 'Profile not found', 404);
+      }
+
+      const dealer = request.user.account_data as DealerAccount;
+      const keys = await listDealerApiKeys(dealer.id);
+
+      return sendSuccess(reply, keys, 200);
+    } catch (error) {
+      console.error('List API keys error:', error);
+      return sendError(reply, 'Failed to retrieve API keys', 500);
+    }
+  });
+
+  // Create API key
+  fastify.post('/api-keys', {
+    ...createRouteSchema({
+      tags: ['dealer'],
+      summary: 'Create API key',
+      description: `Create a named API key with scopes (verify, history:read) and an optional expiry. The key is returned once in api_key. At most ${MAX_ACTIVE_API_KEYS} active keys per dealer.`,
+      security: authRequired,
+      body: {
+        type: 'object',
+        required: ['label'],
+        properties: {
+          label: { type: 'string', minLength: 1, maxLength: 100 },
+          scopes: { type: 'array', items: { type: 'string', enum: ['verify', 'history:read'] }, minItems: 1 },
+          expires_at: { type: 'string', format: 'date-time' }
+        }
+      }
+    }),
+    preHandler: fastify.authenticate
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      if (!request.user || request.user.role !== 'dealer' || !request.user.account_data) {
+        return sendError(reply, 'Dealer account required', 403);
+      }
+
+      const dealer = request.user.account_data as DealerAccount;
+
+      if (!dealer.subscription_status) {
+        return sendError(reply, 'Active subscription required', 403);
+      }
+
+      const { label, scopes, expires_at } = dealerApiKeyCreateSchema.parse(request.body);
+
+      if (expires_at && new Date(expires_at) <= new Date()) {
+        return sendValidationError(reply, 'expires_at must be in the future');
+      }
+
+      const activeKeys = (await listDealerApiKeys(dealer.id)).filter(key => isApiKeyActive(key));
+      if (activeKeys.length >= MAX_ACTIVE_API_KEYS) {
+        return sendError(reply, `API key limit reached (${MAX_ACTIVE_API_KEYS} active keys). Revoke a key first.`, 409);
+      }
+
+      const apiKey = generateApiKey();
+      const key = await createDealerApiKey(dealer.id, {
+        label,
+        scopes,
+        keyHash: hashApiKey(apiKey),
+        keyPrefix: getApiKeyPrefix(apiKey),
+        expiresAt: expires_at
+      });
+
+      return sendSuccess(reply, {
+        ...key,
+        api_key: apiKey // Return API key once
+      }, 201);
+    } catch (error) {
+      console.error('Create API key error:', error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return sendValidationError(reply, 'Invalid API key data');
+      }
+      return sendError(reply, 'Failed to create API key', 500);
+    }
+  });
+
+  // Update API key label or scopes
+  fastify.patch('/api-keys/:key_id', {
+    ...createRouteSchema({
+      tags: ['dealer'],
+      summary: 'Update API key',
+      description: 'Rename an API key or change its scopes. Scope changes apply to the next request made with the key.',
+      security: authRequired,
+      params: {
+        type: 'object',
+        required: ['key_id'],
+        properties: {
+          key_id: { type: 'string', format: 'uuid' }
+        }
+      },
+      body: {
+        type: 'object',
+        properties: {
+          label: { type: 'string', minLength: 1, maxLength: 100 },
+          scopes: { type: 'array', items: { type: 'string', enum: ['verify', 'history:read'] }, minItems: 1 }
+        }
+      }
+    }),
+    preHandler: fastify.authenticate
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      if (!request.user || request.user.role !== 'dealer' || !request.user.account_data) {
+        return sendError(reply, 'Dealer account required', 403);
+      }
+
+      const dealer = request.user.account_data as DealerAccount;
+      const { key_id } = request.params as { key_id: string };
+      const updates = dealerApiKeyUpdateSchema.parse(request.body);
+
+      const existing = await getDealerApiKey(dealer.id, key_id);
+      if (!existing) {
+        return sendError(reply, 'API key not found', 404);
+      }
+      if (existing.revoked_at) {
+        return sendError(reply, 'API key has been revoked', 409);
+      }
+
+      const key = await updateDealerApiKey(dealer.id, key_id, updates);
+
+      return sendSuccess(reply, key, 200);
+    } catch (error) {
+      console.error('Update API key error:', error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return sendValidationError(reply, 'Invalid API key data');
+      }
+      return sendError(reply, 'Failed to update API key', 500);
+    }
+  });
+
+  // Rotate API key
+  fastify.post('/api-keys/:key_id/rotate', {
+    ...createRouteSchema({
+      tags: ['dealer'],
+      summary: 'Rotate API key',
+      description: 'Issue a replacement key with the same label, scopes and expiry. The new key is returned once in api_key; the old key keeps working for grace_period_hours (default 24, 0 retires it immediately).',
+      security: authRequired,
+      params: {
+        type: 'object',
+        required: ['key_id'],
+        properties: {
+          key_id: { type: 'string', format: 'uuid' }
+        }
+      },
+      body: {
+        type: 'object',
+        properties: {
+          grace_period_hours: { type: 'integer', minimum: 0, maximum: 168, default: 24 }
+        }
+      }
+    }),
+    preHandler: fastify.authenticate
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      if (!request.user || request.user.role !== 'dealer' || !request.user.account_data) {
+        return sendError(reply, 'Dealer account required', 403);
+      }
+
+      const dealer = request.user.account_data as DealerAccount;
+      const { key_id } = request.params as { key_id: string };
+      const { grace_period_hours } = dealerApiKeyRotateSchema.parse(request.body ?? {});
+
+      const existing = await getDealerApiKey(dealer.id, key_id);
+      if (!existing) {
+        return sendError(reply, 'API key not found', 404);
+      }
+
+      const apiKey = generateApiKey();
+      const key = await rotateDealerApiKey(
+        dealer.id,
+        key_id,
+        hashApiKey(apiKey),
+        getApiKeyPrefix(apiKey),
+        grace_period_hours * 3600
+      );
+
+      if (!key) {
+        return sendError(reply, 'API key is revoked, expired or already rotated', 409);
+      }
+
+      return sendSuccess(reply, {
+        ...key,
+        api_key: apiKey // Return API key once
+      }, 201);
+    } catch (error) {
+      console.error('Rotate API key error:', error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return sendValidationError(reply, 'Invalid grace period');
+      }
+      return sendError(reply, 'Failed to rotate API key', 500);
+    }
+  });
+
+  // Revoke API key
+  fastify.delete('/api-keys/:key_id', {
+    ...createRouteSchema({
+      tags: ['dealer'],
+      summary: 'Revoke API key',
+      description: 'Revoke an API key immediately. Revoked keys stay listed for the audit trail and cannot be reactivated.',
+      security: authRequired,
+      params: {
+        type: 'object',
+        required: ['key_id'],
+        properties: {
+          key_id: { type: 'string', format: 'uuid' }
+        }
+      }
+    }),
+    preHandler: fastify.authenticate
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      if (!request.user || request.user.role !== 'dealer' || !request.user.account_data) {
+        return sendError(reply, 'Dealer account required', 403);
+      }
+
+      const dealer = request.user.account_data as DealerAccount;
+      const { key_id } = request.params as { key_id: string };
+
+      const existing = await getDealerApiKey(dealer.id, key_id);
+      if (!existing) {
+        return sendError(reply, 'API key not found', 404);
+      }
+      if (existing.revoked_at) {
+        return sendError(reply, 'API key already revoked', 409);
+      }
+
+      const key = await revokeDealerApiKey(dealer.id, key_id);
+
+      return sendSuccess(reply, key, 200);
+    } catch (error) {
+      console.error('Revoke API key error:', error);
+      return sendError(reply, 'Failed to revoke API key', 500);
+    }
+  });
+
   // Get verification history
   fastify.get('/verification-history', {
     ...createRouteSchema({
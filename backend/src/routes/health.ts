@@ -2,6 +2,7 @@
 // Simple endpoints for monitoring service health
 
 import type { FastifyInstance } from 'fastify';
+import { getProviderStatus } from '../services/providers/index.js';
 
 export default async function healthRoutes(fastify: FastifyInstance) {
   // Basic health check
@@ -13,12 +14,13 @@ export default async function healthRoutes(fastify: FastifyInstance) {
     };
   });
 
-  // System status check  
+  // System status check (includes the providers chosen at startup)
   fastify.get('/status', async (request, reply) => {
     return {
       status: 'operational',
       version: '1.0.0',
-      environment: process.env.NODE_ENV || 'development'
+      environment: process.env.NODE_ENV || 'development',
+      providers: getProviderStatus()
     };
   });
 }
\ No newline at end of file
@@ -6,13 +6,7 @@ import {
   getBuyerPaymentHistory, 
   getDealerPaymentHistory 
 } from '../services/database/payment-events.js';
-import { 
-  createBuyerCheckoutSession, 
-  verifyBuyerPayment,
-  createDealerSubscriptionCheckout,
-  verifyDealerSubscription,
-  verifyWebhookSignature 
-} from '../services/service-resolver.js';
+import { getProviders } from '../services/providers/index.js';
 import {
   createPaymentSchema,
   updatePaymentSchema,
@@ -76,10 +70,11 @@ export default async function paymentsRoutes(fastify: FastifyInstance) {
 
       const payment = await createPaymentEvent(paymentData);
 
-      // Create Stripe checkout session (mock)
-      const session = await createBuyerCheckoutSession(
+      // Create checkout session with the configured payment provider
+      const session = await getProviders().payment.createBuyerCheckoutSession(
         request.user.email,
-        buyer.id
+        buyer.id,
+        payment.id
       );
 
       return sendSuccess(reply, {
@@ -149,12 +144,13 @@ export default async function paymentsRoutes(fastify: FastifyInstance) {
 
       const payment = await createPaymentEvent(paymentData);
 
-      // Create Stripe subscription checkout (mock)
-      const session = await createDealerSubscriptionCheckout(
+      // Create subscription checkout with the configured payment provider
+      const session = await getProviders().payment.createDealerSubscriptionCheckout(
         dealer.business_email,
         dealer.company_name,
         dealer.id,
-        `tier${subscription_tier}` as 'tier1' | 'tier2' | 'tier3'
+        `tier${subscription_tier}` as 'tier1' | 'tier2' | 'tier3',
+        payment.id
       );
 
       return sendSuccess(reply, {
@@ -279,13 +275,14 @@ export default async function paymentsRoutes(fastify: FastifyInstance) {
     try {
       const { session_id, payment_id } = request.body as { session_id: string; payment_id: string };
 
-      // Verify payment with Stripe (mock)
+      // Verify payment with the configured payment provider
+      const { payment } = getProviders();
       let paymentResult: any = null;
       
       if (request.user?.role === 'buyer') {
-        paymentResult = await verifyBuyerPayment(session_id);
+        paymentResult = await payment.verifyBuyerPayment(session_id);
       } else if (request.user?.role === 'dealer') {
-        paymentResult = await verifyDealerSubscription(session_id);
+        paymentResult = await payment.verifyDealerSubscription(session_id);
       }
 
       if (paymentResult) {
@@ -0,0 +1,91 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { randomUUID } from 'crypto';
+import { createRouteSchema, sendSuccess, sendError, authRequired } from '../utils/api-responses.js';
+import { completeMockInquiry } from '../services/mocks/persona.js';
+import { signPersonaWebhook } from '../services/persona.js';
+import type { BuyerAccount } from '@ca2achain/shared';
+
+// Local Persona stand-in (development only, registered while the 'local' identity provider is selected)
+// Plays the part of the buyer finishing Persona's hosted flow: decides the mock inquiry, then
+// delivers the signed webhook events Persona would send through POST /webhooks/identity/local
+export default async function personaSandboxRoutes(fastify: FastifyInstance) {
+  fastify.post('/inquiries/:inquiryId/complete', {
+    ...createRouteSchema({
+      tags: ['development'],
+      summary: 'Complete a local Persona inquiry',
+      description: 'Approves or declines the buyer\'s mock inquiry and delivers inquiry.completed / inquiry.approved or inquiry.declined to the Persona webhook',
+      security: authRequired,
+      params: {
+        type: 'object',
+        properties: {
+          inquiryId: { type: 'string' }
+        },
+        required: ['inquiryId']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          decision: { type: 'string', enum: ['approved', 'declined'] }
+        },
+        required: ['decision']
+      }
+    }),
+    preHandler: fastify.authenticate
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      if (!request.user || request.user.role !== 'buyer' || !request.user.account_data) {
+        return sendError(reply, 'Buyer account required', 403);
+      }
+
+      const { inquiryId } = request.params as { inquiryId: string };
+      const { decision } = request.body as { decision: 'approved' | 'declined' };
+      const buyer = request.user.account_data as BuyerAccount;
+
+      if (buyer.verification_provider !== 'local' || buyer.verification_inquiry_id !== inquiryId) {
+        return sendError(reply, 'Inquiry not found', 404);
+      }
+
+      let inquiry;
+      try {
+        inquiry = await completeMockInquiry(inquiryId, decision);
+      } catch {
+        // Mock inquiries live in memory and are lost when the server restarts
+        return sendError(reply, 'Inquiry not found', 404, 'Start identity verification again');
+      }
+
+      const eventNames = decision === 'approved' ? ['inquiry.completed', 'inquiry.approved'] : ['inquiry.declined'];
+      const deliveries = [];
+
+      for (const name of eventNames) {
+        const payload = JSON.stringify({
+          data: {
+            type: 'event',
+            id: `evt_mock_${randomUUID().slice(0, 8)}`,
+            attributes: {
+              name,
+              payload: { data: inquiry },
+              'created-at': new Date().toISOString()
+            }
+          }
+        });
+
+        const response = await fastify.inject({
+          method: 'POST',
+          url: '/webhooks/identity/local',
+          headers: {
+            'content-type': 'application/json',
+            'persona-signature': signPersonaWebhook(payload)
+          },
+          payload
+        });
+
+        deliveries.push({ event_type: name, status_code: response.statusCode, response: response.json() });
+      }
+
+      return sendSuccess(reply, { inquiry_id: inquiryId, decision, deliveries }, 200);
+    } catch (error) {
+      console.error('Persona sandbox error:', error);
+      return sendError(reply, 'Failed to complete inquiry', 500);
+    }
+  });
+}
@@ -1,31 +1,108 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { randomUUID } from 'crypto';
+import { creditBalanceMiddleware, requireScope } from '../middleware/apikey.js';
+import { idempotencyMiddleware, storeIdempotentResponse } from '../middleware/idempotency.js';
+import { rateLimit } from '../middleware/rate-limit.js';
 import { createRouteSchema, sendSuccess, sendError, sendValidationError, sendInsufficientCredits, apiKeyRequired } from '../utils/api-responses.js';
 import { getBuyerByAuth } from '../services/database/buyer-accounts.js';
+import { getAuthUserIdByEmail } from '../services/auth.js';
 import { getBuyerSecrets } from '../services/database/buyer-secrets.js';
+import { reserveDealerCredit } from '../services/database/credit-ledger.js';
 import { createComplianceEvent, getComplianceEventById, getDealerVerificationHistory } from '../services/database/compliance-events.js';
-import { decryptPersonaData, decryptPrivadoCredential, extractHashReproducibilityData, generateCommitmentHash, normalizeAddress } from '../services/encryption.js';
+import { buildComplianceRecord, redactVerificationData, verifyComplianceEventInclusion } from '../services/polygonid.js';
+import { proveAge, proveAddressMatch, readAgeProofSignals, readAddressProofSignals, verifyAgeProof, verifyAddressProof } from '../services/privado.js';
+import { getVerificationKey } from '../services/zkp/index.js';
+import { generateEvidenceBundle } from '../services/evidence/index.js';
+import { formatNormalizedAddress, toNormalizedAddress } from '../services/address/index.js';
+import { getProviders } from '../services/providers/index.js';
+import { issueStatusListCredential, verifyCredentialSignature } from '../services/issuer.js';
+import { getCredentialRevocationStatus } from '../services/revocation.js';
+import { decryptPersonaData, decryptPrivadoCredential, generateBuyerAddressHash, generateBuyerSecret, generateCommitmentHash, generateEventCommitmentHashes } from '../services/encryption.js';
+import { meetsAgeRequirement } from '../services/age-policy.js';
+import { settleVerificationCredit, type VerificationOutcome } from '../services/billing-policy.js';
+import { getTransactionRequirements } from '../services/transaction-policy.js';
+import { getCurrentTimestamp } from '../services/utilities.js';
 import { 
+  productCategorySchema,
   verificationRequestSchema, 
   verificationResponseSchema,
   complianceHistoryRequestSchema,
+  type VerificationData,
   type VerificationRequest,
   type VerificationResponse,
   type ComplianceHistoryRequest
 } from '@ca2achain/shared';
 import {
-  type Address,
+  type ComplianceEvent,
+  type ParsedAddress,
+  type ProductCategory,
   type EncryptedPersonaData,
   type EncryptedPrivadoCredential,
   type BuyerSecrets
 } from '@ca2achain/shared';
 
+// Groth16 proof as returned to dealers (checkable offline with snarkjs and the published verification keys)
+const circuitProofResponseSchema = {
+  type: 'object',
+  properties: {
+    circuit: { type: 'string', enum: ['age_verification', 'address_verification'] },
+    proof: {
+      type: 'object',
+      properties: {
+        proof_a: { type: 'array', items: { type: 'string' } },
+        proof_b: { type: 'array', items: { type: 'array', items: { type: 'string' } } },
+        proof_c: { type: 'array', items: { type: 'string' } },
+        protocol: { type: 'string', enum: ['groth16'] },
+        curve: { type: 'string', enum: ['bn128'] }
+      }
+    },
+    public_signals: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+// Sale the verification is for - picks the age threshold and AB1263 notice version
+const transactionContextRequestSchema = {
+  type: 'object',
+  description: 'Defaults to a single ammunition sale',
+  properties: {
+    product_category: {
+      type: 'string',
+      enum: ['ammunition', 'long_gun', 'handgun'],
+      description: 'Sets the minimum buyer age (CA: 18 ammunition / long guns, 21 handguns) and notice version'
+    },
+    quantity_class: { type: 'string', enum: ['single', 'multiple', 'bulk'], default: 'single' },
+    order_reference: { type: 'string', minLength: 1, maxLength: 128, description: "Dealer's own order ID (no buyer PII)" }
+  },
+  required: ['product_category']
+};
+
+// One component of the address match breakdown
+const addressComponentMatchResponseSchema = { type: 'string', enum: ['match', 'partial', 'mismatch'] };
+
+// Per-category verification counts for dealer reporting
+const summarizeByProductCategory = (events: ComplianceEvent[]) => {
+  const breakdown = Object.fromEntries(
+    productCategorySchema.options.map(category => [category, { total: 0, age_verified: 0, address_verified: 0, fully_verified: 0 }])
+  ) as Record<ProductCategory, { total: number; age_verified: number; address_verified: number; fully_verified: number }>;
+
+  for (const event of events) {
+    const counts = breakdown[event.product_category];
+    if (!counts) continue;
+    counts.total++;
+    if (event.age_verified) counts.age_verified++;
+    if (event.address_verified) counts.address_verified++;
+    if (event.age_verified && event.address_verified) counts.fully_verified++;
+  }
+  return breakdown;
+};
+
 export default async function verificationRoutes(fastify: FastifyInstance) {
   // Main dealer API - Verify buyer age and address using ZKP
   fastify.post('/verify', {
     ...createRouteSchema({
       tags: ['verification'],
       summary: 'Verify buyer age and address',
-      description: 'Verify buyer age (18+) and address using zero-knowledge proofs. Costs 1 credit per request. AB1263 compliance required.',
+      description: 'Verify buyer age (18+, or 21+ for handguns) and address using zero-knowledge proofs. Costs 1 credit per request. AB1263 compliance required. Send an Idempotency-Key header to retry safely: the same key and body return the stored response without another charge, a different body returns 409 (402, 429 and 5xx responses are not stored, so a retry runs again). Requires an API key with the verify scope. Rate limited per dealer by subscription tier (429 with Retry-After; RateLimit-* headers on every response).',
       security: apiKeyRequired,
       body: {
         type: 'object',
@@ -36,16 +113,11 @@ export default async function verificationRoutes(fastify: FastifyInstance) {
             description: 'Email address of the buyer to verify'
           },
           shipping_address: {
-            type: 'object',
-            properties: {
-              street: { type: 'string' },
-              city: { type: 'string' },
-              state: { type: 'string' },
-              zip_code: { type: 'string' },
-              country: { type: 'string', default: 'US' }
-            },
-            required: ['street', 'city', 'state', 'zip_code']
+            type: 'string',
+            minLength: 10,
+            description: 'One-line US shipping address, e.g. "123 Main St Apt 4, Los Angeles, CA 90210"'
           },
+          transaction_context: transactionContextRequestSchema,
           ab1263_compliance_completed: {
             type: 'boolean',
             description: 'Dealer confirms AB1263 notice was provided to buyer (required by CA law)'
@@ -54,7 +126,7 @@ export default async function verificationRoutes(fastify: FastifyInstance) {
         required: ['buyer_email', 'shipping_address', 'ab1263_compliance_completed']
       },
       response: {
-        description: 'Verification results with ZKP proof hashes',
+        description: 'Verification results with Groth16 proofs and their hashes',
         type: 'object',
         properties: {
           success: { type: 'boolean', enum: [true] },
@@ -63,8 +135,16 @@ export default async function verificationRoutes(fastify: FastifyInstance) {
             properties: {
               buyer_email: { type: 'string', format: 'email' },
               age_verified: { type: 'boolean' },
+              age_threshold: { type: 'integer', description: 'Minimum age applied for the product category' },
+              transaction_context: transactionContextRequestSchema,
+              notice_version: { type: 'string', enum: ['CA-DOJ-2026-V1', 'CA-DOJ-2026-FIREARM-V1'] },
               address_verified: { type: 'boolean' },
               address_match_confidence: { type: 'number', minimum: 0, maximum: 1 },
+              address_match_breakdown: {
+                type: 'object',
+                description: 'Per-component result (match / partial / mismatch) - never the buyer address values',
+                additionalProperties: addressComponentMatchResponseSchema
+              },
               normalized_address_used: { type: 'string' },
               verified_at: { type: 'string', format: 'date-time' },
               compliance_event_id: { type: 'string', format: 'uuid' },
@@ -72,7 +152,9 @@ export default async function verificationRoutes(fastify: FastifyInstance) {
                 type: 'object',
                 properties: {
                   age_proof_hash: { type: 'string' },
-                  address_proof_hash: { type: 'string' }
+                  address_proof_hash: { type: 'string' },
+                  age_proof: circuitProofResponseSchema,
+                  address_proof: circuitProofResponseSchema
                 }
               },
               message: { type: 'string' }
@@ -82,8 +164,30 @@ export default async function verificationRoutes(fastify: FastifyInstance) {
         }
       }
     }),
-    preHandler: fastify.authenticateApiKey
+    // Replays are answered before the credit check - a retry never needs a spare credit
+    preHandler: [fastify.authenticateApiKey, requireScope('verify'), rateLimit('verify'), idempotencyMiddleware, creditBalanceMiddleware],
+    onSend: storeIdempotentResponse
   }, async (request: FastifyRequest, reply: FastifyReply) => {
+    // Credit reserved for this request - committed or refunded per the billing policy
+    let reservationId: string | null = null;
+
+    // Settle the reservation once per request
+    const settleCredit = async (outcome: VerificationOutcome, complianceEventId?: string) => {
+      if (!reservationId) return;
+      const id = reservationId;
+      reservationId = null;
+      if (await settleVerificationCredit(id, outcome, complianceEventId)) {
+        console.log(`💳 Verification credit refunded: request ${request.id} (${outcome})`);
+      }
+    };
+
+    // Unknown and unverified buyers get the same response and no credit is reserved for either, so
+    // /verify can't be used to probe which emails have buyer accounts; the reason is only logged
+    const rejectBuyer = (reason: string) => {
+      console.log(`Verification rejected for request ${request.id}: ${reason}`);
+      return sendError(reply, 'Buyer not found or not verified. Buyer must complete identity verification first.', 404);
+    };
+
     try {
       const verificationRequest = verificationRequestSchema.parse(request.body) as VerificationRequest;
       const dealer = request.dealer!; // Set by API key middleware
@@ -102,221 +206,245 @@ export default async function verificationRoutes(fastify: FastifyInstance) {
         return sendError(reply, 'AB1263 compliance notice must be provided to buyer before verification', 400);
       }
 
-      // Check dealer credits before performing verification
-      if (!dealer.credits_purchased || !dealer.credits_used || dealer.credits_used >= (dealer.credits_purchased + (dealer.additional_credits_purchased || 0))) {
-        return sendInsufficientCredits(reply, 'Insufficient verification credits');
+      // Parse the shipping address up front - an unparseable address can't be matched or proven
+      let shippingAddress: ParsedAddress;
+      try {
+        shippingAddress = getProviders().address.parseAddress(verificationRequest.shipping_address);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        return sendValidationError(reply, `Invalid shipping address: ${errorMessage}`);
       }
 
       // Find buyer by email through Supabase Auth (CCPA compliant lookup)
-      const supabase = require('../services/database/connection.js').getClient();
-      const { data: authUser, error: authError } = await supabase.auth.admin.getUserByEmail(verificationRequest.buyer_email);
-
-      if (authError || !authUser.user) {
-        return sendError(reply, 'Buyer not found or not verified. Buyer must complete identity verification first.', 404);
-      }
-
-      // Get buyer account data
-      const buyer = await getBuyerByAuth(authUser.user.id);
+      const authUserId = await getAuthUserIdByEmail(verificationRequest.buyer_email);
+      const buyer = authUserId ? await getBuyerByAuth(authUserId) : null;
       if (!buyer) {
-        return sendError(reply, 'Buyer account not found', 404);
+        return rejectBuyer('buyer not found');
       }
 
       // Verify buyer has completed payment for verification service
       if (buyer.payment_status !== 'succeeded') {
-        return sendError(reply, 'Buyer payment not completed. Buyer must pay $39 verification fee first.', 400);
+        return rejectBuyer('payment not completed');
       }
 
       // Check if buyer verification is still valid (not expired)
       if (buyer.verification_status === 'expired') {
-        return sendError(reply, 'Buyer verification has expired. Buyer must re-verify identity.', 400);
+        return rejectBuyer('verification expired');
       }
 
       if (buyer.verification_status !== 'verified') {
-        return sendError(reply, 'Buyer identity verification not completed', 400);
+        return rejectBuyer('identity verification not completed');
       }
 
       // Get buyer's encrypted secrets (Persona data + Privado ZKP credentials)
       const buyerSecrets = await getBuyerSecrets(buyer.id);
       if (!buyerSecrets || !buyerSecrets.encrypted_persona_data || !buyerSecrets.encrypted_privado_credential) {
-        return sendError(reply, 'Buyer verification data not found. Buyer must complete identity verification.', 404);
+        return rejectBuyer('verification data not found');
       }
 
       // Temporarily decrypt buyer data for verification (CCPA compliant - data not stored)
-      const decryptedPersonaData = await decryptPersonaData(JSON.stringify(buyerSecrets.encrypted_persona_data), buyerSecrets.encryption_key_id);
-      const decryptedPrivadoCredential = await decryptPrivadoCredential(JSON.stringify(buyerSecrets.encrypted_privado_credential), buyerSecrets.encryption_key_id);
+      const decryptedPersonaData = await decryptPersonaData(buyerSecrets.encrypted_persona_data, buyerSecrets.encryption_key_id);
+      const decryptedPrivadoCredential = await decryptPrivadoCredential(buyerSecrets.encrypted_privado_credential, buyerSecrets.encryption_key_id);
+
+      // Credentials issued before circuit-backed proofs carry no witness and cannot be proven against
+      if (!decryptedPrivadoCredential.zkp_witness) {
+        return rejectBuyer('credential predates ZKP circuits');
+      }
+
+      // Only prove against credentials we signed and that are still valid
+      const { verifiable_credential: verifiableCredential } = decryptedPrivadoCredential;
+      if (!verifyCredentialSignature(verifiableCredential)) {
+        return rejectBuyer('credential signature invalid');
+      }
+      if (new Date(verifiableCredential.expires_at) <= new Date()) {
+        return rejectBuyer('credential expired');
+      }
+
+      // Revocation registry check (expired/rejected/deleted buyers and superseded credentials)
+      const credentialStatus = await getCredentialRevocationStatus(verifiableCredential.credential_id);
+      if (!credentialStatus || credentialStatus.revoked) {
+        return rejectBuyer('credential revoked');
+      }
 
       // Generate compliance event ID for audit trail (AB1263 requirement)
-      const complianceEventId = require('crypto').randomUUID();
-      
-      // Extract hash reproducibility data for audit purposes
-      const hashData = extractHashReproducibilityData(
-        buyer.id,
-        buyer.buyer_reference_id,
-        decryptedPersonaData,
-        decryptedPrivadoCredential,
-        complianceEventId
-      );
+      const complianceEventId = randomUUID();
+
+      // Reserve one credit once the buyer is known to be verifiable (released below if the billing policy refunds the outcome)
+      const reservation = await reserveDealerCredit(dealer.id, request.id, complianceEventId);
+      if (reservation.status !== 'consumed') {
+        return sendInsufficientCredits(reply, reservation.status === 'expired'
+          ? 'Verification credits have expired'
+          : 'Insufficient verification credits');
+      }
+      reservationId = reservation.reservation_id;
+
+      // Single timestamp for the whole event - every proof date and commitment hash uses it
+      const verifiedAt = getCurrentTimestamp();
 
       // === ZKP AGE VERIFICATION ===
-      // Verify age is 18+ using ZKP without revealing actual birthdate
-      const birthDate = new Date(decryptedPersonaData.driver_license.date_of_birth);
-      const age = new Date().getFullYear() - birthDate.getFullYear();
-      const ageVerified = age >= 18;
-
-      // Generate ZKP age proof hash (proving age >= 18 without revealing actual age)
-      const ageProofHash = generateCommitmentHash({
-        buyer_reference: buyer.buyer_reference_id,
-        age_threshold: 18,
-        age_meets_threshold: ageVerified,
-        verification_timestamp: new Date().toISOString(),
-        zkp_circuit: 'age-verification-groth16'
-      });
+      // Threshold (and notice version) for the product category, judged on the local date of the age policy jurisdiction
+      const { transaction_context: transactionContext } = verificationRequest;
+      const { age_requirement: ageRequirement, notice_version: noticeVersion } = getTransactionRequirements(transactionContext, verifiedAt);
+
+      // Prove age against the issuance commitment without revealing the birthdate
+      const ageProof = await proveAge(decryptedPrivadoCredential, { complianceEventId, ageRequirement });
+      if (!(await verifyAgeProof(ageProof, complianceEventId))) {
+        throw new Error('Generated age proof failed verification');
+      }
+      const ageVerified = readAgeProofSignals(ageProof).age_verified;
+      if (ageVerified !== meetsAgeRequirement(decryptedPersonaData.driver_license.date_of_birth, ageRequirement)) {
+        throw new Error('Age proof outcome disagrees with the age policy');
+      }
+      const ageProofHash = generateCommitmentHash(ageProof);
 
       // === ZKP ADDRESS VERIFICATION ===
-      // Parse shipping address string into components for comparison
-      // Note: For production, implement robust address parsing service
-      const shippingAddressParts = verificationRequest.shipping_address.split(',').map(s => s.trim());
-      
-      // For mock purposes, assume format: "123 Main St, Los Angeles, CA 90210"
-      const parsedShippingAddress: Address = {
-        street: shippingAddressParts[0] || '',
-        city: shippingAddressParts[1] || '',
-        state: shippingAddressParts[2]?.split(' ')[0] || '',
-        zip_code: shippingAddressParts[2]?.split(' ')[1] || '',
-        country: 'US'
-      };
-      
-      // Normalize both addresses (returns strings, not objects)
-      const normalizedShippingAddress = normalizeAddress(parsedShippingAddress);
-      const normalizedVerifiedAddress = normalizeAddress(decryptedPersonaData.driver_license.address);
+      // Component-by-component comparison of the USPS-normalized addresses ('STREET [UNIT], CITY, ST, ZIP5')
+      const verifiedAddress = getProviders().address.parseStructuredAddress(decryptedPersonaData.driver_license.address);
+      const normalizedShippingAddress = formatNormalizedAddress(toNormalizedAddress(shippingAddress));
+      const normalizedVerifiedAddress = formatNormalizedAddress(toNormalizedAddress(verifiedAddress));
+
+      const addressMatch = getProviders().address.matchAddresses(verifiedAddress, shippingAddress);
+      const addressMatchConfidence = addressMatch.confidence; // Hashed value - rounded to 2 decimals
+      const addressVerified = addressMatch.verified;
+
+      // Prove the committed address against the shipping address without revealing either
+      // Note: the circuit attests exact normalized equality - confidence scoring above stays off-circuit
+      const addressProof = await proveAddressMatch(decryptedPrivadoCredential, { complianceEventId, normalizedShippingAddress });
+      if (!(await verifyAddressProof(addressProof, complianceEventId))) {
+        throw new Error('Generated address proof failed verification');
+      }
+      const addressProofHash = generateCommitmentHash(addressProof);
 
-      // Perform string-based address matching with confidence scoring
-      const normalizedShippingLower = normalizedShippingAddress.toLowerCase();
-      const normalizedVerifiedLower = normalizedVerifiedAddress.toLowerCase();
-      
-      // Check if key components match between normalized addresses
-      const streetMatch = normalizedShippingLower.includes(normalizedVerifiedLower.split(',')[0].trim());
-      const cityMatch = normalizedShippingLower.includes(normalizedVerifiedLower.split(',')[1].trim());
-      const stateMatch = normalizedShippingLower.includes(normalizedVerifiedLower.split(',')[2]?.trim() || '');
-      const zipMatch = normalizedShippingLower.includes(normalizedVerifiedLower.split(',')[3]?.trim() || '');
-
-      // Calculate confidence score based on matching components
-      let addressMatchConfidence = 0;
-      if (streetMatch) addressMatchConfidence += 0.4;
-      if (cityMatch) addressMatchConfidence += 0.2;
-      if (stateMatch) addressMatchConfidence += 0.2;
-      if (zipMatch) addressMatchConfidence += 0.2;
-
-      const addressVerified = addressMatchConfidence >= 0.8; // Require 80% confidence minimum
-
-      // Generate ZKP address proof hash (proving address match without revealing actual addresses)
-      const addressProofHash = generateCommitmentHash({
-        dealer_reference: dealerReferenceId,
-        buyer_reference: buyer.buyer_reference_id,
-        address_match_confidence: addressMatchConfidence,
+      // === CANONICAL COMMITMENTS ===
+      // Reproducible later from decrypted buyer_secrets + verification_data (extractHashReproducibilityData)
+      const buyerSecret = generateBuyerSecret(buyer.id);
+      const commitmentHashes = generateEventCommitmentHashes({
+        buyer_id: buyer.id,
+        buyer_reference_id: buyer.buyer_reference_id,
+        buyer_secret: buyerSecret,
+        dealer_reference_id: dealerReferenceId,
+        compliance_event_id: complianceEventId,
+        verified_at_timestamp: verifiedAt,
+        date_of_birth: decryptedPersonaData.driver_license.date_of_birth,
+        zkp_age_proof_hash: ageProofHash,
+        age_verified: ageVerified,
+        age_threshold: ageRequirement.age_threshold,
+        age_evaluation_date: ageRequirement.evaluation_date,
+        normalized_buyer_address: normalizedVerifiedAddress,
+        normalized_shipping_address: normalizedShippingAddress,
+        zkp_address_proof_hash: addressProofHash,
+        match_confidence: addressMatchConfidence,
         address_verified: addressVerified,
-        verification_timestamp: new Date().toISOString(),
-        zkp_circuit: 'address-verification-groth16'
+        notice_version: noticeVersion,
+        ab1263_dealer_received_buyer_acceptance: verificationRequest.ab1263_compliance_completed,
+        extraction_timestamp: verifiedAt
       });
 
       // === AB1263 COMPLIANCE DATA STRUCTURE ===
-      const complianceData = {
+      const complianceData: VerificationData = {
         compliance_event: {
-          version: "AB1263-2026.1",
+          version: 'AB1263-2026.2',
           compliance_event_id: complianceEventId,
-          timestamp: new Date().toISOString(),
+          timestamp: verifiedAt,
           buyer_reference: buyer.buyer_reference_id, // CCPA compliant - no PII
           dealer_reference: dealerReferenceId,
-          ab1263_notice_provided: verificationRequest.ab1263_compliance_completed
+          ab1263_notice_provided: verificationRequest.ab1263_compliance_completed,
+          transaction_context: transactionContext
+        },
+        credential_verification: {
+          credential_id: verifiableCredential.credential_id,
+          issuer_did: verifiableCredential.issuer_did,
+          signature_valid: true,
+          status_list_credential: credentialStatus.status_list_credential,
+          status_list_index: credentialStatus.status_list_index,
+          revoked: false,
+          status_checked_at: credentialStatus.checked_at
         },
         zkp_verifications: {
           age_verification: {
             verified: ageVerified,
             proof_hash: ageProofHash,
-            circuit_used: 'age-verification-groth16',
-            verification_timestamp: new Date().toISOString(),
-            commitment_hash: generateCommitmentHash({
-              buyer_reference: buyer.buyer_reference_id,
-              age_threshold: 18,
-              verification_timestamp: new Date().toISOString()
-            })
+            circuit_used: ageProof.circuit,
+            public_signals: ageProof.public_signals,
+            age_requirement: ageRequirement,
+            verification_timestamp: verifiedAt,
+            commitment_hash: commitmentHashes.age_commitment_hash
           },
           address_verification: {
             verified: addressVerified,
             confidence_score: addressMatchConfidence,
+            match_breakdown: addressMatch.breakdown,
             proof_hash: addressProofHash,
-            circuit_used: 'address-verification-groth16',
-            normalized_verified_address: normalizedVerifiedAddress,
+            circuit_used: addressProof.circuit,
+            public_signals: addressProof.public_signals,
+            exact_match_proven: readAddressProofSignals(addressProof).address_verified,
+            verified_address_hash: generateBuyerAddressHash(buyerSecret, normalizedVerifiedAddress), // Dealers read this - no buyer address
             normalized_shipping_address: normalizedShippingAddress,
-            verification_timestamp: new Date().toISOString(),
-            attestation_hash: generateCommitmentHash({
-              dealer_reference: dealerReferenceId,
-              ab1263_compliance: verificationRequest.ab1263_compliance_completed,
-              verification_timestamp: new Date().toISOString()
-            }),
-            transaction_link_hash: generateCommitmentHash({
-              compliance_event_id: complianceEventId,
-              dealer_reference: dealerReferenceId,
-              buyer_reference: buyer.buyer_reference_id,
-              verification_timestamp: new Date().toISOString()
-            })
+            verification_timestamp: verifiedAt,
+            commitment_hash: commitmentHashes.address_match_commitment_hash
           }
+        },
+        legal_attestation: {
+          notice_version: noticeVersion,
+          ab1263_dealer_received_buyer_acceptance: verificationRequest.ab1263_compliance_completed,
+          verification_timestamp: verifiedAt,
+          attestation_hash: commitmentHashes.attestation_hash,
+          transaction_link_hash: commitmentHashes.transaction_link_hash
         }
       };
 
-      // === POLYGON BLOCKCHAIN INTEGRATION ===
-      // Generate mock blockchain transaction (replace with actual Polygon integration)
-      const blockchainTxHash = `0x${require('crypto').randomBytes(32).toString('hex')}`;
-      const blockNumber = Math.floor(Math.random() * 1000000) + 50000000;
-      
-      // Store compliance event in Supabase (synced with Polygon)
+      // Store compliance event in Supabase (source of truth for the anchored record)
+      // Written with blockchain_status 'pending' - the anchor worker includes it in the next Merkle batch
       const complianceEvent = await createComplianceEvent({
+        id: complianceEventId,
         buyer_id: buyer.id,
         dealer_id: dealer.id,
         buyer_reference_id: buyer.buyer_reference_id,
         dealer_reference_id: dealerReferenceId,
         verification_data: complianceData,
         age_verified: ageVerified,
-        address_verified: addressVerified,
-        blockchain_info: {
-          network: 'polygon-mainnet',
-          transaction_hash: blockchainTxHash,
-          block_number: blockNumber,
-          contract_address: process.env.POLYGON_COMPLIANCE_CONTRACT || '0x...',
-          gas_used: Math.floor(Math.random() * 100000) + 50000
-        }
+        age_threshold: ageRequirement.age_threshold,
+        product_category: transactionContext.product_category,
+        address_verified: addressVerified
       });
 
-      // Deduct dealer credit for verification
-      await supabase
-        .from('dealer_accounts')
-        .update({ credits_used: (dealer.credits_used || 0) + 1 })
-        .eq('id', dealer.id);
+      await settleCredit('verified', complianceEventId);
 
       // === RESPONSE (NO PII - CCPA COMPLIANT) ===
       const response: VerificationResponse = {
         buyer_email: verificationRequest.buyer_email,
         age_verified: ageVerified,
+        age_threshold: ageRequirement.age_threshold,
+        transaction_context: transactionContext,
+        notice_version: noticeVersion,
         address_verified: addressVerified,
-        address_match_confidence: Math.round(addressMatchConfidence * 100) / 100, // Round to 2 decimals
-        normalized_address_used: normalizedVerifiedAddress,
-        verified_at: new Date().toISOString(),
+        address_match_confidence: addressMatchConfidence,
+        address_match_breakdown: addressMatch.breakdown, // Results only - no buyer address values
+        normalized_address_used: normalizedShippingAddress, // Dealer's own input, normalized (never the buyer's address)
+        verified_at: verifiedAt,
         compliance_event_id: complianceEventId,
         zkp_proofs: {
           age_proof_hash: ageProofHash,
-          address_proof_hash: addressProofHash
+          address_proof_hash: addressProofHash,
+          age_proof: ageProof,
+          address_proof: addressProof
         },
         message: ageVerified && addressVerified 
-          ? 'Identity verification successful. Age 18+ and address match confirmed via zero-knowledge proofs.' 
+          ? `Identity verification successful. Age ${ageRequirement.age_threshold}+ and address match confirmed via zero-knowledge proofs.`
           : `Verification completed. Age verified: ${ageVerified}, Address verified: ${addressVerified} (${Math.round(addressMatchConfidence * 100)}% confidence).`
       };
 
-      console.log(`✅ ZKP Verification completed: Dealer ${dealerReferenceId} verified buyer ${buyer.buyer_reference_id}. Age: ${ageVerified}, Address: ${addressVerified} (${Math.round(addressMatchConfidence * 100)}%). Polygon TX: ${blockchainTxHash}`);
+      console.log(`✅ ZKP Verification completed: Dealer ${dealerReferenceId} verified buyer ${buyer.buyer_reference_id}. Age: ${ageVerified}, Address: ${addressVerified} (${Math.round(addressMatchConfidence * 100)}%). Polygon anchor: ${complianceEvent.blockchain_status}`);
 
       return sendSuccess(reply, response, 200);
 
     } catch (error) {
       console.error('ZKP Verification error:', error);
+      try {
+        await settleCredit('system_error');
+      } catch (settleError) {
+        console.error('Verification credit settlement error:', settleError);
+      }
       if (error instanceof Error && error.name === 'ZodError') {
         return sendValidationError(reply, 'Invalid verification request data');
       }
@@ -329,7 +457,7 @@ export default async function verificationRoutes(fastify: FastifyInstance) {
     ...createRouteSchema({
       tags: ['verification'],
       summary: 'Get verification details',
-      description: 'Retrieve details of a specific verification by compliance event ID. CCPA compliant - no PII exposed.',
+      description: 'Retrieve details of a specific verification by compliance event ID. CCPA compliant - no PII exposed. Requires the history:read scope.',
       security: apiKeyRequired,
       params: {
         type: 'object',
@@ -351,7 +479,7 @@ export default async function verificationRoutes(fastify: FastifyInstance) {
         }
       }
     }),
-    preHandler: fastify.authenticateApiKey
+    preHandler: [fastify.authenticateApiKey, requireScope('history:read'), rateLimit('history'), creditBalanceMiddleware]
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const { verification_id } = request.params as { verification_id: string };
@@ -378,12 +506,299 @@ export default async function verificationRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Get Merkle inclusion proof for a verification's blockchain anchor
+  fastify.get('/verify/:verification_id/proof', {
+    ...createRouteSchema({
+      tags: ['verification'],
+      summary: 'Get verification anchor proof',
+      description: 'Retrieve the Merkle inclusion proof linking a compliance record hash to the batch root anchored on Polygon. Includes the hash-only compliance record and the verification data it commits to (the buyer address only as a salted hash), so the proof can be checked offline (see @ca2achain/verifier-sdk) against the ComplianceRegistry contract. Requires the history:read scope.',
+      security: apiKeyRequired,
+      params: {
+        type: 'object',
+        properties: {
+          verification_id: {
+            type: 'string',
+            format: 'uuid',
+            description: 'Compliance event ID to retrieve the proof for'
+          }
+        },
+        required: ['verification_id']
+      },
+      response: {
+        description: 'Merkle inclusion proof and anchoring transaction',
+        type: 'object',
+        properties: {
+          success: { type: 'boolean', enum: [true] },
+          data: {
+            type: 'object',
+            properties: {
+              compliance_event_id: { type: 'string', format: 'uuid' },
+              blockchain_status: { type: 'string', enum: ['pending', 'submitted', 'confirmed', 'failed'] },
+              compliance_record: {
+                type: 'object',
+                properties: {
+                  compliance_event_id: { type: 'string', format: 'uuid' },
+                  buyer_reference: { type: 'string' },
+                  dealer_reference: { type: 'string' },
+                  verification_hash: { type: 'string' },
+                  age_verified: { type: 'boolean' },
+                  address_verified: { type: 'boolean' },
+                  ab1263_compliant: { type: 'boolean' },
+                  ccpa_compliant: { type: 'boolean' }
+                }
+              },
+              verification_data: { type: 'object', additionalProperties: true },
+              merkle_proof: {
+                type: 'object',
+                properties: {
+                  algorithm: { type: 'string' },
+                  leaf_hash: { type: 'string' },
+                  leaf_index: { type: 'integer' },
+                  leaf_count: { type: 'integer' },
+                  merkle_root: { type: 'string' },
+                  siblings: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        position: { type: 'string', enum: ['left', 'right'] },
+                        hash: { type: 'string' }
+                      }
+                    }
+                  }
+                }
+              },
+              blockchain_info: { type: 'object', additionalProperties: true },
+              proof_valid: { type: 'boolean' }
+            }
+          }
+        }
+      }
+    }),
+    preHandler: [fastify.authenticateApiKey, requireScope('history:read'), rateLimit('history'), creditBalanceMiddleware]
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { verification_id } = request.params as { verification_id: string };
+      const dealer = request.dealer!;
+
+      const complianceEvent = await getComplianceEventById(verification_id);
+
+      if (!complianceEvent) {
+        return sendError(reply, 'Verification not found', 404);
+      }
+
+      // Verify dealer has access to this verification (privacy protection)
+      if (complianceEvent.dealer_id !== dealer.id) {
+        return sendError(reply, 'Access denied. You can only view your own verifications.', 403);
+      }
+
+      // Proofs exist once the anchor worker has batched the event
+      if (!complianceEvent.merkle_proof) {
+        return sendError(reply, `Anchor proof not available yet (blockchain status: ${complianceEvent.blockchain_status})`, 409);
+      }
+
+      return sendSuccess(reply, {
+        compliance_event_id: complianceEvent.id,
+        blockchain_status: complianceEvent.blockchain_status,
+        compliance_record: buildComplianceRecord(complianceEvent),
+        verification_data: redactVerificationData(complianceEvent.verification_data),
+        merkle_proof: complianceEvent.merkle_proof,
+        blockchain_info: complianceEvent.blockchain_info || null,
+        proof_valid: verifyComplianceEventInclusion(complianceEvent)
+      }, 200);
+
+    } catch (error) {
+      console.error('Get verification proof error:', error);
+      return sendError(reply, 'Failed to retrieve verification proof', 500);
+    }
+  });
+
+  // Download the signed court evidence bundle for a verification
+  fastify.get('/verify/:verification_id/evidence', {
+    ...createRouteSchema({
+      tags: ['verification'],
+      summary: 'Download court evidence bundle',
+      description: 'Signed ZIP with the canonical compliance event, the exact bytes behind every recomputed hash, the Merkle proof, the anchoring transaction, the AB1263 notice version and step-by-step hash recomputation instructions. manifest.json lists every file with its SHA-256 and is signed by the CA2AChain issuer did:key. Works after the buyer exercised CCPA deletion (buyer commitments are then reported as not recomputable). Requires the history:read scope.',
+      security: apiKeyRequired,
+      params: {
+        type: 'object',
+        properties: {
+          verification_id: {
+            type: 'string',
+            format: 'uuid',
+            description: 'Compliance event ID to export'
+          }
+        },
+        required: ['verification_id']
+      }
+    }),
+    preHandler: [fastify.authenticateApiKey, requireScope('history:read'), rateLimit('history'), creditBalanceMiddleware]
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { verification_id } = request.params as { verification_id: string };
+      const dealer = request.dealer!;
+
+      const complianceEvent = await getComplianceEventById(verification_id);
+
+      if (!complianceEvent) {
+        return sendError(reply, 'Verification not found', 404);
+      }
+
+      // Verify dealer has access to this verification (privacy protection)
+      if (complianceEvent.dealer_id !== dealer.id) {
+        return sendError(reply, 'Access denied. You can only view your own verifications.', 403);
+      }
+
+      const bundle = await generateEvidenceBundle(complianceEvent.id);
+
+      return reply
+        .status(200)
+        .header('Content-Type', 'application/zip')
+        .header('Content-Disposition', `attachment; filename="${bundle.filename}"`)
+        .header('X-Evidence-Status', bundle.authenticity.status)
+        .send(bundle.archive);
+
+    } catch (error) {
+      console.error('Generate evidence bundle error:', error);
+      return sendError(reply, 'Failed to generate evidence bundle', 500);
+    }
+  });
+
+  // Get the Groth16 verification keys for offline proof checking
+  fastify.get('/verify/zkp/verification-keys', {
+    ...createRouteSchema({
+      tags: ['verification'],
+      summary: 'Get ZKP verification keys',
+      description: 'Public Groth16 verification keys for the age and address circuits. Dealers and auditors can check the proofs returned by POST /verify with snarkjs.groth16.verify.',
+      response: {
+        description: 'Verification keys by circuit',
+        type: 'object',
+        properties: {
+          success: { type: 'boolean', enum: [true] },
+          data: {
+            type: 'object',
+            properties: {
+              age_verification: { type: 'object', additionalProperties: true },
+              address_verification: { type: 'object', additionalProperties: true }
+            }
+          }
+        }
+      }
+    })
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      return sendSuccess(reply, {
+        age_verification: getVerificationKey('age_verification'),
+        address_verification: getVerificationKey('address_verification')
+      }, 200);
+    } catch (error) {
+      console.error('Get verification keys error:', error);
+      return sendError(reply, 'Failed to load verification keys', 500);
+    }
+  });
+
+  // Get revocation status of an issued credential
+  fastify.get('/credentials/:credential_id/status', {
+    ...createRouteSchema({
+      tags: ['verification'],
+      summary: 'Get credential revocation status',
+      description: 'Check whether a buyer credential has been revoked (ID expired or rejected, account deleted, or superseded by re-verification). Public so auditors can check credentials without an API key; returns no buyer data.',
+      params: {
+        type: 'object',
+        properties: {
+          credential_id: {
+            type: 'string',
+            description: 'Credential ID (urn:uuid:...)'
+          }
+        },
+        required: ['credential_id']
+      },
+      response: {
+        description: 'Credential revocation status',
+        type: 'object',
+        properties: {
+          success: { type: 'boolean', enum: [true] },
+          data: {
+            type: 'object',
+            properties: {
+              credential_id: { type: 'string' },
+              status_list_credential: { type: 'string' },
+              status_list_index: { type: 'integer' },
+              revoked: { type: 'boolean' },
+              revoked_at: { type: 'string', format: 'date-time' },
+              revocation_reason: { type: 'string' },
+              checked_at: { type: 'string', format: 'date-time' }
+            }
+          }
+        }
+      }
+    })
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { credential_id } = request.params as { credential_id: string };
+
+      const status = await getCredentialRevocationStatus(credential_id);
+      if (!status) {
+        return sendError(reply, 'Credential not found', 404);
+      }
+
+      return sendSuccess(reply, status, 200);
+
+    } catch (error) {
+      console.error('Get credential status error:', error);
+      return sendError(reply, 'Failed to retrieve credential status', 500);
+    }
+  });
+
+  // Get a signed StatusList2021 credential (referenced by credential_status.status_list_credential)
+  fastify.get('/status-lists/:list_id', {
+    ...createRouteSchema({
+      tags: ['verification'],
+      summary: 'Get revocation status list',
+      description: 'Signed StatusList2021 credential. Bit N of the GZIP bitstring is set when the credential at status_list_index N is revoked, so verifiers can check revocation without revealing which credential they hold.',
+      params: {
+        type: 'object',
+        properties: {
+          list_id: {
+            type: 'string',
+            format: 'uuid',
+            description: 'Status list ID'
+          }
+        },
+        required: ['list_id']
+      },
+      response: {
+        description: 'Status list credential',
+        type: 'object',
+        properties: {
+          success: { type: 'boolean', enum: [true] },
+          data: { type: 'object', additionalProperties: true }
+        }
+      }
+    })
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { list_id } = request.params as { list_id: string };
+
+      const statusListCredential = await issueStatusListCredential(list_id);
+      if (!statusListCredential) {
+        return sendError(reply, 'Status list not found', 404);
+      }
+
+      return sendSuccess(reply, statusListCredential, 200);
+
+    } catch (error) {
+      console.error('Get status list error:', error);
+      return sendError(reply, 'Failed to retrieve status list', 500);
+    }
+  });
+
   // Get dealer verification history with pagination
   fastify.get('/history', {
     ...createRouteSchema({
       tags: ['verification'],
       summary: 'Get verification history',
-      description: 'Retrieve dealer verification history with optional filters and pagination. CCPA compliant.',
+      description: 'Retrieve dealer verification history with optional filters and pagination. CCPA compliant. Requires the history:read scope.',
       security: apiKeyRequired,
       querystring: {
         type: 'object',
@@ -393,7 +808,8 @@ export default async function verificationRoutes(fastify: FastifyInstance) {
           start_date: { type: 'string', format: 'date-time', description: 'Filter verifications after this date' },
           end_date: { type: 'string', format: 'date-time', description: 'Filter verifications before this date' },
           age_verified: { type: 'boolean', description: 'Filter by age verification result' },
-          address_verified: { type: 'boolean', description: 'Filter by address verification result' }
+          address_verified: { type: 'boolean', description: 'Filter by address verification result' },
+          product_category: { type: 'string', enum: ['ammunition', 'long_gun', 'handgun'], description: 'Filter by transaction product category' }
         }
       },
       response: {
@@ -407,6 +823,19 @@ export default async function verificationRoutes(fastify: FastifyInstance) {
               total_count: { type: 'integer' },
               limit: { type: 'integer' },
               offset: { type: 'integer' },
+              category_breakdown: {
+                type: 'object',
+                description: 'Verification counts per product category (all filtered results, not just this page)',
+                additionalProperties: {
+                  type: 'object',
+                  properties: {
+                    total: { type: 'integer' },
+                    age_verified: { type: 'integer' },
+                    address_verified: { type: 'integer' },
+                    fully_verified: { type: 'integer' }
+                  }
+                }
+              },
               verifications: {
                 type: 'array',
                 items: { type: 'object', properties: { id: { type: 'string' }, age_verified: { type: 'boolean' }, address_verified: { type: 'boolean' } } }
@@ -416,7 +845,7 @@ export default async function verificationRoutes(fastify: FastifyInstance) {
         }
       }
     }),
-    preHandler: fastify.authenticateApiKey
+    preHandler: [fastify.authenticateApiKey, requireScope('history:read'), rateLimit('history'), creditBalanceMiddleware]
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const dealer = request.dealer!;
@@ -446,6 +875,10 @@ export default async function verificationRoutes(fastify: FastifyInstance) {
         filteredHistory = filteredHistory.filter(event => event.address_verified === query.address_verified);
       }
 
+      if (query.product_category) {
+        filteredHistory = filteredHistory.filter(event => event.product_category === query.product_category);
+      }
+
       // Apply pagination
       const limit = parseInt(query.limit) || 20;
       const offset = parseInt(query.offset) || 0;
@@ -455,14 +888,11 @@ export default async function verificationRoutes(fastify: FastifyInstance) {
         total_count: filteredHistory.length,
         limit: limit,
         offset: offset,
+        category_breakdown: summarizeByProductCategory(filteredHistory),
         verifications: paginatedHistory.map(event => ({
           ...event,
           // Ensure no PII is included in response (CCPA compliance)
-          verification_data: {
-            ...event.verification_data,
-            // Remove any potential PII while keeping ZKP proofs and compliance data
-            zkp_verifications: event.verification_data.zkp_verifications
-          }
+          verification_data: redactVerificationData(event.verification_data)
         }))
       };
 
@@ -1,14 +1,27 @@
-import { FastifyInstance } from 'fastify';
-import { createRouteSchema, sendSuccess, sendError } from '../utils/api-responses.js';
-import { updatePaymentStatus } from '../services/database/payment-events.js';
-import { verifyWebhookSignature } from '../services/service-resolver.js';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { createRouteSchema, sendSuccess, sendError, sendValidationError } from '../utils/api-responses.js';
+import { findProvider, getProviders, IDENTITY_PROVIDERS } from '../services/providers/index.js';
+import { processIdentityEvent } from '../services/buyer-verification.js';
+import { parseStripeWebhookEvent, processStripeEvent } from '../services/stripe-webhooks.js';
 
 export default async function webhookRoutes(fastify: FastifyInstance) {
-  // Stripe payment webhook handler
+  // Keep the exact request bytes for signature verification (scoped to webhook routes)
+  fastify.removeContentTypeParser('application/json');
+  fastify.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+    request.rawBody = body as string;
+    try {
+      done(null, JSON.parse(body as string));
+    } catch (error) {
+      (error as any).statusCode = 400;
+      done(error as Error, undefined);
+    }
+  });
+
+  // Stripe webhook handler - subscription lifecycle and buyer verification fee
   fastify.post('/stripe', createRouteSchema({
     tags: ['webhooks'],
     summary: 'Stripe webhook handler',
-    description: 'Handle Stripe payment webhook events for payment status updates',
+    description: 'Apply checkout.session.completed, customer.subscription.created/updated/deleted, invoice.paid and invoice.payment_failed to buyer payment status and dealer subscriptions. Verifies the Stripe-Signature HMAC against the raw body (5 minute tolerance); each event is applied once and replays are acknowledged as duplicates.',
     body: {
       type: 'object',
       description: 'Stripe webhook event payload',
@@ -23,204 +36,161 @@ export default async function webhookRoutes(fastify: FastifyInstance) {
           type: 'object',
           properties: {
             received: { type: 'boolean' },
+            event_id: { type: 'string' },
             event_type: { type: 'string' },
+            outcome: { type: 'string', enum: ['processed', 'duplicate', 'ignored'] },
             processed_at: { type: 'string', format: 'date-time' }
           }
         }
       }
     }
   }), async (request, reply) => {
+    // Stripe signs the exact request bytes, so verify against the raw body
+    let isValidSignature: boolean;
     try {
-      const stripeEvent = request.body as any;
-      const signature = request.headers['stripe-signature'] as string;
-
-      // Verify webhook signature (mock verification for now)
-      const isValidSignature = verifyWebhookSignature(
-        JSON.stringify(request.body),
-        signature,
-        process.env.STRIPE_WEBHOOK_SECRET || 'mock_webhook_secret'
+      isValidSignature = getProviders().payment.verifyWebhookSignature(
+        request.rawBody ?? '',
+        request.headers['stripe-signature'] as string | undefined
       );
+    } catch (error) {
+      console.error('Stripe webhook signature check failed:', error);
+      return sendError(reply, 'Webhook signature verification unavailable', 500);
+    }
 
-      if (!isValidSignature) {
-        return sendError(reply, 'Invalid webhook signature', 401);
-      }
+    if (!isValidSignature) {
+      return sendError(reply, 'Invalid webhook signature', 401);
+    }
 
-      const processedAt = new Date().toISOString();
-
-      // Handle different Stripe event types
-      switch (stripeEvent.type) {
-        case 'payment_intent.succeeded': {
-          const paymentIntent = stripeEvent.data.object;
-          
-          // Update payment status using our database function
-          await updatePaymentStatus(
-            paymentIntent.metadata?.payment_id || paymentIntent.id,
-            'succeeded',
-            {
-              stripe_info: {
-                payment_intent_id: paymentIntent.id,
-                amount_received: paymentIntent.amount_received,
-                payment_method: paymentIntent.payment_method,
-                processed_at: processedAt
-              }
-            }
-          );
-
-          return sendSuccess(reply, {
-            received: true,
-            event_type: 'payment_intent.succeeded',
-            processed_at: processedAt
-          }, 200);
-        }
+    let stripeEvent;
+    try {
+      stripeEvent = parseStripeWebhookEvent(request.body);
+    } catch (error) {
+      return sendValidationError(reply, error instanceof Error ? error.message : 'Invalid webhook payload');
+    }
 
-        case 'payment_intent.payment_failed': {
-          const paymentIntent = stripeEvent.data.object;
-          
-          await updatePaymentStatus(
-            paymentIntent.metadata?.payment_id || paymentIntent.id,
-            'failed',
-            {
-              stripe_info: {
-                payment_intent_id: paymentIntent.id,
-                failure_reason: paymentIntent.last_payment_error?.message,
-                processed_at: processedAt
-              }
-            }
-          );
-
-          return sendSuccess(reply, {
-            received: true,
-            event_type: 'payment_intent.payment_failed',
-            processed_at: processedAt
-          }, 200);
-        }
+    try {
+      const result = await processStripeEvent(stripeEvent);
 
-        case 'checkout.session.completed': {
-          const session = stripeEvent.data.object;
-          
-          // Handle successful checkout completion
-          if (session.metadata?.payment_id) {
-            await updatePaymentStatus(
-              session.metadata.payment_id,
-              'succeeded',
-              {
-                stripe_info: {
-                  session_id: session.id,
-                  customer: session.customer,
-                  payment_status: session.payment_status,
-                  processed_at: processedAt
-                }
-              }
-            );
-          }
+      return sendSuccess(reply, {
+        received: true,
+        event_id: result.event_id,
+        event_type: result.event_type,
+        outcome: result.outcome,
+        processed_at: new Date().toISOString()
+      }, 200);
 
-          return sendSuccess(reply, {
-            received: true,
-            event_type: 'checkout.session.completed',
-            processed_at: processedAt
-          }, 200);
-        }
+    } catch (error) {
+      // Non-2xx makes Stripe retry the event
+      console.error('Stripe webhook error:', error);
+      return sendError(reply, 'Webhook processing failed', 500);
+    }
+  });
 
-        case 'invoice.payment_succeeded': {
-          const invoice = stripeEvent.data.object;
-          
-          // Handle subscription payment success
-          if (invoice.metadata?.payment_id) {
-            await updatePaymentStatus(
-              invoice.metadata.payment_id,
-              'succeeded',
-              {
-                stripe_info: {
-                  invoice_id: invoice.id,
-                  subscription_id: invoice.subscription,
-                  amount_paid: invoice.amount_paid,
-                  processed_at: processedAt
-                }
-              }
-            );
-          }
+  // Identity provider webhooks - complete buyer identity verification
+  // Each provider has its own endpoint; events are handled by the named provider even when another
+  // one is selected now, so inquiries started before a provider switch still complete
+  const handleIdentityWebhook = async (providerName: string, request: FastifyRequest, reply: FastifyReply) => {
+    const provider = findProvider('identity', providerName);
+    if (!provider) {
+      return sendError(reply, 'Unknown identity provider', 404);
+    }
 
-          return sendSuccess(reply, {
-            received: true,
-            event_type: 'invoice.payment_succeeded',
-            processed_at: processedAt
-          }, 200);
-        }
+    let isValidSignature: boolean;
+    try {
+      isValidSignature = provider.verifyWebhook(
+        request.rawBody ?? '',
+        request.headers[provider.webhookSignatureHeader] as string | undefined
+      );
+    } catch (error) {
+      console.error(`${provider.name} webhook signature check failed:`, error);
+      return sendError(reply, 'Webhook signature verification unavailable', 500);
+    }
 
-        case 'invoice.payment_failed': {
-          const invoice = stripeEvent.data.object;
-          
-          if (invoice.metadata?.payment_id) {
-            await updatePaymentStatus(
-              invoice.metadata.payment_id,
-              'failed',
-              {
-                stripe_info: {
-                  invoice_id: invoice.id,
-                  subscription_id: invoice.subscription,
-                  failure_reason: invoice.last_finalization_error?.message,
-                  processed_at: processedAt
-                }
-              }
-            );
-          }
+    if (!isValidSignature) {
+      return sendError(reply, 'Invalid webhook signature', 401);
+    }
 
-          return sendSuccess(reply, {
-            received: true,
-            event_type: 'invoice.payment_failed',
-            processed_at: processedAt
-          }, 200);
-        }
+    let identityEvent;
+    try {
+      identityEvent = provider.parseWebhookEvent(request.body);
+    } catch (error) {
+      return sendValidationError(reply, error instanceof Error ? error.message : 'Invalid webhook payload');
+    }
 
-        default: {
-          // Log unhandled event types but still return success
-          console.log(`Unhandled Stripe webhook event: ${stripeEvent.type}`);
-          
-          return sendSuccess(reply, {
-            received: true,
-            event_type: stripeEvent.type,
-            processed_at: processedAt
-          }, 200);
-        }
-      }
+    try {
+      const result = await processIdentityEvent(provider, identityEvent);
+
+      return sendSuccess(reply, {
+        received: true,
+        provider: result.provider,
+        event_type: result.event_name,
+        inquiry_id: result.inquiry_id,
+        outcome: result.outcome,
+        verification_status: result.verification_status,
+        processed_at: new Date().toISOString()
+      }, 200);
 
     } catch (error) {
-      console.error('Stripe webhook error:', error);
+      console.error(`${provider.name} webhook error:`, error);
       return sendError(reply, 'Webhook processing failed', 500);
     }
+  };
+
+  const identityWebhookResponse = {
+    description: 'Webhook processed successfully',
+    type: 'object',
+    properties: {
+      success: { type: 'boolean', enum: [true] },
+      data: {
+        type: 'object',
+        properties: {
+          received: { type: 'boolean' },
+          provider: { type: 'string' },
+          event_type: { type: 'string' },
+          inquiry_id: { type: 'string' },
+          outcome: { type: 'string', enum: ['verified', 'rejected', 'pending', 'duplicate', 'ignored'] },
+          verification_status: { type: 'string', enum: ['pending', 'verified', 'expired', 'rejected'] },
+          processed_at: { type: 'string', format: 'date-time' }
+        }
+      }
+    }
+  };
+
+  fastify.post('/identity/:provider', createRouteSchema({
+    tags: ['webhooks'],
+    summary: 'Identity provider webhook handler',
+    description: 'Verify the provider\'s webhook signature (Persona-Signature, Onfido X-SHA2-Signature, Veriff X-HMAC-SIGNATURE) and apply the inquiry\'s completion, approval or decline to the buyer. Replayed events are acknowledged without reprocessing.',
+    params: {
+      type: 'object',
+      properties: {
+        provider: { type: 'string', enum: IDENTITY_PROVIDERS.map(provider => provider.name) }
+      },
+      required: ['provider']
+    },
+    body: {
+      type: 'object',
+      description: 'Provider webhook event payload',
+      additionalProperties: true
+    },
+    response: identityWebhookResponse
+  }), async (request, reply) => {
+    const { provider } = request.params as { provider: string };
+    return handleIdentityWebhook(provider, request, reply);
   });
 
-  // Persona webhook handler (for future identity verification webhooks)
+  // Persona's original endpoint (same as /webhooks/identity/persona)
   fastify.post('/persona', createRouteSchema({
     tags: ['webhooks'],
     summary: 'Persona webhook handler',
-    description: 'Handle Persona identity verification webhook events',
+    description: 'Alias of /webhooks/identity/persona for existing Persona webhook configuration.',
     body: {
       type: 'object',
       description: 'Persona webhook event payload',
       additionalProperties: true
-    }
+    },
+    response: identityWebhookResponse
   }), async (request, reply) => {
-    try {
-      const personaEvent = request.body as any;
-      
-      // For now, just log the event (Persona integration will be implemented later)
-      console.log('Persona webhook received:', {
-        type: personaEvent.type,
-        inquiry_id: personaEvent.data?.id,
-        status: personaEvent.data?.attributes?.status
-      });
-
-      return sendSuccess(reply, {
-        received: true,
-        event_type: personaEvent.type,
-        processed_at: new Date().toISOString()
-      }, 200);
-
-    } catch (error) {
-      console.error('Persona webhook error:', error);
-      return sendError(reply, 'Webhook processing failed', 500);
-    }
+    return handleIdentityWebhook('persona', request, reply);
   });
 
   // Health check for webhook endpoints
@@ -229,6 +199,7 @@ export default async function webhookRoutes(fastify: FastifyInstance) {
       webhook_service: 'healthy',
       endpoints: [
         '/webhooks/stripe',
+        ...IDENTITY_PROVIDERS.map(provider => `/webhooks/identity/${provider.name}`),
         '/webhooks/persona'
       ],
       timestamp: new Date().toISOString()
@@ -0,0 +1,9 @@
+// USPS reference tables
+export * from './usps.js';
+
+// Parsing and normalization
+export * from './parser.js';
+export * from './normalize.js';
+
+// Component matching
+export * from './match.js';
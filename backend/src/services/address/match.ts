@@ -0,0 +1,198 @@
+// Address matching - compares two parsed addresses component by component
+//
+// Each component is scored with a similarity in [0, 1] and classified as match / partial / mismatch:
+//   primary_number  exact only ('1' never matches '11'); '221' vs '221 1/2' or '12' vs '12A' is partial
+//   street_name     token matching with typo-tolerant edit distance ('MAIN' vs 'MIAN' is partial)
+//   street_suffix   / directionals - missing on one side is partial, conflicting is mismatch ('N' vs 'S',
+//                   'ST' vs 'AVE' are different streets); pre- and postdirectionals compare separately
+//   unit            exact unit number; a unit on one side only is a mismatch (another delivery point)
+//   city            token matching with edit distance
+//   state           exact
+//   zip_code        exact 5 digits
+//
+// Confidence is the weighted sum of similarities. The breakdown only carries the per-component
+// results, so it can be returned to dealers without revealing the buyer's address.
+
+import type { AddressComponent, AddressComponentMatchResult, AddressMatchBreakdown, ParsedAddress } from '@ca2achain/shared';
+
+export interface AddressMatchResult {
+  verified: boolean;
+  confidence: number;
+  breakdown: AddressMatchBreakdown;
+}
+
+// Share of the confidence score per component (sums to 1)
+export const ADDRESS_COMPONENT_WEIGHTS: Record<AddressComponent, number> = {
+  primary_number: 0.2,
+  street_name: 0.2,
+  street_suffix: 0.05,
+  directionals: 0.05,
+  unit: 0.1,
+  city: 0.15,
+  state: 0.1,
+  zip_code: 0.15
+};
+
+// A mismatch on any of these means a different delivery point, whatever the overall confidence
+const CRITICAL_COMPONENTS: AddressComponent[] = [
+  'primary_number', 'street_name', 'street_suffix', 'directionals', 'unit', 'city', 'state', 'zip_code'
+];
+
+export const MIN_ADDRESS_MATCH_CONFIDENCE = 0.8;
+const PARTIAL_SIMILARITY = 0.75; // Below this a fuzzy comparison counts as a mismatch
+const PARTIAL_CREDIT = 0.5; // Present on one side only, or same base house number
+
+// Spelled-out ordinal street names ('FIFTH AVE' vs '5TH AVE')
+const ORDINALS: Record<string, string> = {
+  FIRST: '1ST', SECOND: '2ND', THIRD: '3RD', FOURTH: '4TH', FIFTH: '5TH',
+  SIXTH: '6TH', SEVENTH: '7TH', EIGHTH: '8TH', NINTH: '9TH', TENTH: '10TH'
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// =============================================
+// STRING SIMILARITY
+// =============================================
+
+// Optimal string alignment distance - Levenshtein plus adjacent transpositions ('MIAN' -> 'MAIN' is 1 edit)
+const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+const stringSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+};
+
+const normalizeToken = (token: string): string => ORDINALS[token] ?? token;
+
+// Greedy best-pair token matching, scored against the longer token list so missing words cost
+const tokenSimilarity = (a: string, b: string): number => {
+  const left = a.split(' ').filter(Boolean).map(normalizeToken);
+  const right = b.split(' ').filter(Boolean).map(normalizeToken);
+  if (left.length === 0 || right.length === 0) return left.length === right.length ? 1 : 0;
+
+  const unmatched = [...right];
+  let total = 0;
+  for (const token of left) {
+    let bestIndex = -1;
+    let best = 0;
+    unmatched.forEach((candidate, index) => {
+      const similarity = stringSimilarity(token, candidate);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) {
+      total += best;
+      unmatched.splice(bestIndex, 1);
+    }
+  }
+  return total / Math.max(left.length, right.length);
+};
+
+// =============================================
+// COMPONENT COMPARISON
+// =============================================
+
+// Comparisons return 1 for a match, 0 for a mismatch and anything in between for a partial match
+const classify = (similarity: number): AddressComponentMatchResult =>
+  similarity >= 1 ? 'match' : similarity > 0 ? 'partial' : 'mismatch';
+
+// Fuzzy text components: anything under PARTIAL_SIMILARITY is a mismatch
+const compareText = (a: string | undefined, b: string | undefined): number => {
+  if (!a || !b) return a === b ? 1 : 0;
+  const similarity = Math.max(stringSimilarity(a, b), tokenSimilarity(a, b));
+  return similarity >= PARTIAL_SIMILARITY ? similarity : 0;
+};
+
+// Exact-or-absent components (suffix, directionals): missing on one side is partial, conflicting is mismatch
+const compareOptional = (a: string | undefined, b: string | undefined): number => {
+  if (a === b) return 1;
+  if (!a || !b) return PARTIAL_CREDIT;
+  return 0;
+};
+
+// House numbers must be identical; a fraction or letter on one side only ('221' vs '221 1/2') is partial
+const comparePrimaryNumber = (a: string | undefined, b: string | undefined): number => {
+  if (!a || !b) return a === b ? 1 : 0;
+  if (a === b) return 1;
+  const digits = (value: string) => value.match(/^\d+/)?.[0];
+  const base = digits(a);
+  return base !== undefined && base === digits(b) ? PARTIAL_CREDIT : 0;
+};
+
+// Units match on the number alone ('APT 4B' and '# 4B' are the same unit); a unit on one side only
+// is a different delivery point
+const compareUnit = (buyer: ParsedAddress, shipping: ParsedAddress): number => {
+  const key = (address: ParsedAddress) => address.unit_number ?? address.unit_designator;
+  return key(buyer) === key(shipping) ? 1 : 0;
+};
+
+// Either directional conflicting is a mismatch ('N MAIN ST' vs 'S MAIN ST'); missing ones are partial
+const compareDirectionals = (buyer: ParsedAddress, shipping: ParsedAddress): number => {
+  const pre = compareOptional(buyer.predirectional, shipping.predirectional);
+  const post = compareOptional(buyer.postdirectional, shipping.postdirectional);
+  return pre === 0 || post === 0 ? 0 : (pre + post) / 2;
+};
+
+// PO boxes compare the box number as the primary number and 'PO BOX' as the street name
+const streetParts = (address: ParsedAddress) => {
+  return address.po_box
+    ? { primary_number: address.po_box, street_name: 'PO BOX' }
+    : { primary_number: address.primary_number, street_name: address.street_name };
+};
+
+// =============================================
+// ADDRESS MATCHING
+// =============================================
+
+/**
+ * Compare the buyer's verified address with a dealer shipping address, component by component
+ * Verified when confidence reaches MIN_ADDRESS_MATCH_CONFIDENCE and no critical component mismatches
+ */
+export const matchAddresses = (buyer: ParsedAddress, shipping: ParsedAddress): AddressMatchResult => {
+  const buyerStreet = streetParts(buyer);
+  const shippingStreet = streetParts(shipping);
+
+  const similarities: Record<AddressComponent, number> = {
+    primary_number: comparePrimaryNumber(buyerStreet.primary_number, shippingStreet.primary_number),
+    street_name: compareText(buyerStreet.street_name, shippingStreet.street_name),
+    street_suffix: compareOptional(buyer.street_suffix, shipping.street_suffix),
+    directionals: compareDirectionals(buyer, shipping),
+    unit: compareUnit(buyer, shipping),
+    city: compareText(buyer.city, shipping.city),
+    state: buyer.state === shipping.state ? 1 : 0,
+    zip_code: buyer.zip_code === shipping.zip_code ? 1 : 0
+  };
+  const components = Object.keys(similarities) as AddressComponent[];
+
+  const breakdown = Object.fromEntries(
+    components.map(component => [component, classify(similarities[component])])
+  ) as AddressMatchBreakdown;
+  const confidence = round(
+    components.reduce((sum, component) => sum + similarities[component] * ADDRESS_COMPONENT_WEIGHTS[component], 0)
+  );
+  const criticalMismatch = CRITICAL_COMPONENTS.some(component => breakdown[component] === 'mismatch');
+
+  return {
+    verified: !criticalMismatch && confidence >= MIN_ADDRESS_MATCH_CONFIDENCE,
+    confidence,
+    breakdown
+  };
+};
@@ -0,0 +1,53 @@
+// Parsed address -> normalized address used for hashing and ZKP address matching
+//
+//   street_normalized    '123 N MAIN ST' or 'PO BOX 55'
+//   street_2_normalized  'APT 4B', '# 12', 'REAR'
+//   formatted            '123 N MAIN ST APT 4B, LOS ANGELES, CA, 90210'
+
+import type { NormalizedAddress, ParsedAddress } from '@ca2achain/shared';
+import { parseAddress, parseStructuredAddress } from './parser.js';
+
+const joinParts = (parts: Array<string | undefined>): string => parts.filter(Boolean).join(' ');
+
+/**
+ * Build the normalized address (street line, unit line, city, state, ZIP) from parsed components
+ */
+export const toNormalizedAddress = (parsed: ParsedAddress): NormalizedAddress => {
+  const street = parsed.po_box
+    ? `PO BOX ${parsed.po_box}`
+    : joinParts([parsed.primary_number, parsed.predirectional, parsed.street_name, parsed.street_suffix, parsed.postdirectional]);
+  const unit = joinParts([parsed.unit_designator, parsed.unit_number]);
+
+  return {
+    street_normalized: street,
+    ...(unit && { street_2_normalized: unit }),
+    city_normalized: parsed.city,
+    state: parsed.state,
+    zip_code: parsed.zip_code,
+    ...(parsed.zip_plus_4 && { zip_plus_4: parsed.zip_plus_4 }),
+    country: 'US'
+  };
+};
+
+/**
+ * Single-line form hashed into ZKP address commitments: 'STREET [UNIT], CITY, ST, ZIP5'
+ * ZIP+4 is left out so a buyer and a shipping address only differing in the add-on still match
+ */
+export const formatNormalizedAddress = (address: NormalizedAddress): string => {
+  const streetLine = joinParts([address.street_normalized, address.street_2_normalized]);
+  return `${streetLine}, ${address.city_normalized}, ${address.state}, ${address.zip_code}`;
+};
+
+/**
+ * Parse and normalize a one-line address in a single step
+ */
+export const normalizeAddressLine = (address: string): NormalizedAddress => {
+  return toNormalizedAddress(parseAddress(address));
+};
+
+/**
+ * Parse and normalize a structured address (street / street_2 / city / state / zip_code) in a single step
+ */
+export const normalizeStructuredAddress = (address: Parameters<typeof parseStructuredAddress>[0]): NormalizedAddress => {
+  return toNormalizedAddress(parseStructuredAddress(address));
+};
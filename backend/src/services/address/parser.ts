@@ -0,0 +1,302 @@
+// US address parser - one-line or structured addresses -> USPS Publication 28 components
+//
+//   "123 North Main Street Apt. 4B, Los Angeles, California 90210-1234"
+//     primary_number 123 | predirectional N | street_name MAIN | street_suffix ST
+//     unit APT 4B | city LOS ANGELES | state CA | zip 90210-1234
+//
+// Commas between street, city and state make parsing unambiguous; without them the street
+// is taken to end at the first USPS suffix (or unit) that leaves a plausible city behind. Only an
+// abbreviated directional after the suffix stays on the street ('MAIN ST NW'); a spelled-out one
+// starts the city ('DOWNING ST WEST SACRAMENTO').
+
+import type { ParsedAddress } from '@ca2achain/shared';
+import {
+  MAX_STATE_NAME_WORDS,
+  lookupDirectional,
+  lookupStateCode,
+  lookupStreetSuffix,
+  lookupUnitDesignator
+} from './usps.js';
+
+type StreetComponents = Omit<ParsedAddress, 'city' | 'state' | 'zip_code' | 'zip_plus_4'>;
+
+const COMMA = ',';
+const COUNTRY_SUFFIXES = ['UNITED STATES OF AMERICA', 'UNITED STATES', 'USA', 'US'];
+const PRIMARY_NUMBER = /^(\d+[A-Z]?|\d+-\d+[A-Z]?|[NSEW]\d+[NSEW]\d+)$/; // 123, 123A, 12-14, N6W23001 (grid)
+const FRACTION = /^\d\/\d$/;
+const UNIT_NUMBER = /^[A-Z0-9-]+$/;
+
+// =============================================
+// TOKENIZING
+// =============================================
+
+// Uppercase, drop periods/apostrophes, split '#4B' into '# 4B', keep commas as their own tokens
+const tokenize = (value: string): string[] => {
+  return value
+    .toUpperCase()
+    .replace(/[.']/g, '')
+    .replace(/#/g, ' # ')
+    .replace(/,/g, ` ${COMMA} `)
+    .replace(/[^A-Z0-9#,/\- ]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 0 && token !== '-');
+};
+
+const trimCommas = (tokens: string[]): string[] => {
+  let start = 0;
+  let end = tokens.length;
+  while (start < end && tokens[start] === COMMA) start++;
+  while (end > start && tokens[end - 1] === COMMA) end--;
+  return tokens.slice(start, end);
+};
+
+const endsWithWords = (tokens: string[], words: string[]): boolean => {
+  return words.length <= tokens.length && words.every((word, i) => tokens[tokens.length - words.length + i] === word);
+};
+
+// =============================================
+// STREET LINE
+// =============================================
+
+// PO BOX / P O BOX / POST OFFICE BOX / POB followed by the box number
+const parsePoBox = (tokens: string[]): string | undefined => {
+  const match = tokens.join(' ').match(/^(?:P ?O ?|POST OFFICE |POST )?BOX (\S+)$|^POB (\S+)$/);
+  return match ? match[1] ?? match[2] : undefined;
+};
+
+// Trailing unit: 'APT 4B', '# 4B', 'STE 200', 'REAR'
+const splitUnit = (tokens: string[]): { rest: string[]; unit_designator?: string; unit_number?: string } => {
+  for (let i = tokens.length - 1; i >= 1; i--) {
+    const designator = lookupUnitDesignator(tokens[i]);
+    if (!designator) continue;
+
+    const trailing = tokens.slice(i + 1);
+    if (designator.numbered && trailing.length === 1 && UNIT_NUMBER.test(trailing[0])) {
+      return { rest: tokens.slice(0, i), unit_designator: designator.designator, unit_number: trailing[0] };
+    }
+    if (!designator.numbered && trailing.length === 0) {
+      return { rest: tokens.slice(0, i), unit_designator: designator.designator };
+    }
+  }
+  return { rest: tokens };
+};
+
+// Unit given on its own line ('Apt 4B', '#4B', 'Suite 200', or just '4B')
+const parseUnitLine = (tokens: string[]): { unit_designator?: string; unit_number?: string } => {
+  if (tokens.length === 0) return {};
+
+  const designator = lookupUnitDesignator(tokens[0]);
+  if (designator?.numbered && tokens.length === 2 && UNIT_NUMBER.test(tokens[1])) {
+    return { unit_designator: designator.designator, unit_number: tokens[1] };
+  }
+  if (designator && !designator.numbered && tokens.length === 1) {
+    return { unit_designator: designator.designator };
+  }
+  if (tokens.length === 1 && UNIT_NUMBER.test(tokens[0])) {
+    return { unit_designator: '#', unit_number: tokens[0] };
+  }
+  throw new Error(`Unrecognized secondary address "${tokens.join(' ')}"`);
+};
+
+/**
+ * Parse a delivery line ('123 N Main Street Apt 4B', 'PO Box 55') into USPS components
+ */
+export const parseStreetLine = (line: string | string[]): StreetComponents => {
+  const tokens = trimCommas(typeof line === 'string' ? tokenize(line) : line).filter(token => token !== COMMA);
+  if (tokens.length === 0) {
+    throw new Error('Street address is empty');
+  }
+
+  const poBox = parsePoBox(tokens);
+  if (poBox) {
+    return { po_box: poBox };
+  }
+
+  const { rest, unit_designator, unit_number } = splitUnit(tokens);
+  const body = [...rest];
+  const components: StreetComponents = { unit_designator, unit_number };
+
+  if (PRIMARY_NUMBER.test(body[0])) {
+    components.primary_number = body.shift();
+    if (body.length > 1 && FRACTION.test(body[0])) {
+      components.primary_number += ` ${body.shift()}`;
+    }
+  }
+
+  // Postdirectional needs a street name (and usually a suffix) in front of it: 'MAIN ST NW'
+  const postdirectional = body.length >= 2 ? lookupDirectional(body[body.length - 1]) : undefined;
+  if (postdirectional && (body.length >= 3 || !lookupDirectional(body[0]))) {
+    components.postdirectional = postdirectional;
+    body.pop();
+  }
+
+  // Suffix only counts as one when a street name precedes it: 'NORTH ST' stays NORTH + ST, 'PARK' alone is a name
+  const suffix = body.length >= 2 ? lookupStreetSuffix(body[body.length - 1]) : undefined;
+  if (suffix) {
+    components.street_suffix = suffix;
+    body.pop();
+  }
+
+  // Predirectional only when a name remains after it: 'N MAIN ST' vs 'NORTH ST'
+  const predirectional = body.length >= 2 ? lookupDirectional(body[0]) : undefined;
+  if (predirectional) {
+    components.predirectional = predirectional;
+    body.shift();
+  }
+
+  if (body.length === 0) {
+    throw new Error(`Missing street name in "${tokens.join(' ')}"`);
+  }
+  components.street_name = body.join(' ');
+
+  return components;
+};
+
+// =============================================
+// CITY / STATE / ZIP
+// =============================================
+
+const parseZip = (value: string): { zip_code: string; zip_plus_4?: string } => {
+  const match = value.replace(/\s+/g, '').match(/^(\d{5})(?:-?(\d{4}))?$/);
+  if (!match) {
+    throw new Error(`Invalid ZIP code "${value}"`);
+  }
+  return { zip_code: match[1], ...(match[2] && { zip_plus_4: match[2] }) };
+};
+
+const parseState = (value: string): string => {
+  const state = lookupStateCode(value.replace(/\./g, ''));
+  if (!state) {
+    throw new Error(`Unknown state "${value}"`);
+  }
+  return state;
+};
+
+const normalizeCity = (value: string | string[]): string => {
+  const city = trimCommas(typeof value === 'string' ? tokenize(value) : value).filter(token => token !== COMMA).join(' ');
+  if (!city) {
+    throw new Error('City is required');
+  }
+  return city;
+};
+
+// Split street tokens from city tokens when the address has no commas between them
+const splitStreetAndCity = (tokens: string[]): { street: string[]; city: string[] } => {
+  const startsStreetPart = (token: string) => !!lookupStreetSuffix(token) || !!lookupUnitDesignator(token);
+
+  for (let i = 2; i < tokens.length - 1; i++) {
+    if (!lookupStreetSuffix(tokens[i])) continue;
+
+    let end = i + 1;
+    if (end < tokens.length - 1 && lookupDirectional(tokens[end]) === tokens[end]) end++;
+
+    const designator = lookupUnitDesignator(tokens[end]);
+    if (designator && end < tokens.length - 1) {
+      end += designator.numbered ? 2 : 1;
+    }
+
+    if (end < tokens.length && !startsStreetPart(tokens[end])) {
+      return { street: tokens.slice(0, end), city: tokens.slice(end) };
+    }
+  }
+
+  // PO boxes have no suffix: 'PO BOX 55 SACRAMENTO'
+  const boxIndex = tokens.indexOf('BOX');
+  if (boxIndex >= 0 && boxIndex + 2 < tokens.length) {
+    return { street: tokens.slice(0, boxIndex + 2), city: tokens.slice(boxIndex + 2) };
+  }
+
+  throw new Error('Could not separate street from city - separate them with a comma');
+};
+
+// =============================================
+// PUBLIC PARSERS
+// =============================================
+
+/**
+ * Parse a one-line US address ('123 Main St Apt 4, Los Angeles, CA 90210')
+ * Throws with a reason when a required component (street, city, state, ZIP) can't be found
+ */
+export const parseAddress = (address: string): ParsedAddress => {
+  let tokens = trimCommas(tokenize(address));
+
+  for (const country of COUNTRY_SUFFIXES) {
+    const words = country.split(' ');
+    if (endsWithWords(tokens, words)) {
+      tokens = trimCommas(tokens.slice(0, -words.length));
+      break;
+    }
+  }
+
+  // ZIP (or ZIP+4, possibly written '90210 1234')
+  if (tokens.length === 0 || !/^\d/.test(tokens[tokens.length - 1])) {
+    throw new Error(`Missing ZIP code in "${address}"`);
+  }
+  let zipTokens = 1;
+  if (tokens.length >= 2 && /^\d{4}$/.test(tokens[tokens.length - 1]) && /^\d{5}$/.test(tokens[tokens.length - 2])) {
+    zipTokens = 2;
+  }
+  const zip = parseZip(tokens.slice(-zipTokens).join(''));
+  tokens = trimCommas(tokens.slice(0, -zipTokens));
+
+  // State code or full name (longest name first: 'WEST VIRGINIA' before 'VIRGINIA')
+  let state: string | undefined;
+  for (let words = Math.min(MAX_STATE_NAME_WORDS, tokens.length - 1); words >= 1 && !state; words--) {
+    const candidate = tokens.slice(-words);
+    if (candidate.includes(COMMA)) continue;
+    state = lookupStateCode(candidate.join(' '));
+    if (state) tokens = trimCommas(tokens.slice(0, -words));
+  }
+  if (!state) {
+    throw new Error(`Unknown state in "${address}"`);
+  }
+
+  // City is the last comma-separated segment; earlier segments are street lines
+  let streetLines: string[][];
+  let cityTokens: string[];
+  if (tokens.includes(COMMA)) {
+    const segments = tokens.join(' ').split(` ${COMMA} `).map(segment => segment.split(' '));
+    cityTokens = segments.pop()!;
+    streetLines = segments;
+  } else {
+    const { street, city } = splitStreetAndCity(tokens);
+    streetLines = [street];
+    cityTokens = city;
+  }
+
+  const street = parseStreetLine(streetLines[0]);
+  if (streetLines.length > 1 && !street.unit_designator) {
+    Object.assign(street, parseUnitLine(streetLines.slice(1).flat()));
+  }
+
+  return {
+    ...street,
+    city: normalizeCity(cityTokens),
+    state,
+    ...zip
+  };
+};
+
+/**
+ * Parse an address that is already split into fields (Persona driver's license, checkout forms)
+ */
+export const parseStructuredAddress = (address: {
+  street: string;
+  street_2?: string;
+  city: string;
+  state: string;
+  zip_code: string;
+}): ParsedAddress => {
+  const street = parseStreetLine(address.street);
+  const unitTokens = address.street_2 ? tokenize(address.street_2) : [];
+  if (unitTokens.length > 0 && !street.unit_designator) {
+    Object.assign(street, parseUnitLine(unitTokens));
+  }
+
+  return {
+    ...street,
+    city: normalizeCity(address.city),
+    state: parseState(address.state),
+    ...parseZip(address.zip_code)
+  };
+};
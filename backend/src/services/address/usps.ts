@@ -0,0 +1,340 @@
+// USPS Publication 28 lookup tables
+//   Appendix C1 - street suffixes (standard abbreviation <- common spellings)
+//   Appendix C2 - secondary unit designators
+//   Directionals and state / territory names
+
+// =============================================
+// STREET SUFFIXES (C1)
+// =============================================
+
+const STREET_SUFFIXES: Record<string, string[]> = {
+  ALY: ['ALLEE', 'ALLEY', 'ALLY'],
+  ANX: ['ANEX', 'ANNEX', 'ANNX'],
+  ARC: ['ARCADE'],
+  AVE: ['AV', 'AVEN', 'AVENU', 'AVENUE', 'AVN', 'AVNUE'],
+  BYU: ['BAYOO', 'BAYOU'],
+  BCH: ['BEACH'],
+  BND: ['BEND'],
+  BLF: ['BLUF', 'BLUFF'],
+  BLFS: ['BLUFFS'],
+  BTM: ['BOT', 'BOTTM', 'BOTTOM'],
+  BLVD: ['BOUL', 'BOULEVARD', 'BOULV'],
+  BR: ['BRNCH', 'BRANCH'],
+  BRG: ['BRDGE', 'BRIDGE'],
+  BRK: ['BROOK'],
+  BRKS: ['BROOKS'],
+  BG: ['BURG'],
+  BGS: ['BURGS'],
+  BYP: ['BYPA', 'BYPAS', 'BYPASS', 'BYPS'],
+  CP: ['CAMP', 'CMP'],
+  CYN: ['CANYN', 'CANYON', 'CNYN'],
+  CPE: ['CAPE'],
+  CSWY: ['CAUSEWAY', 'CAUSWA'],
+  CTR: ['CEN', 'CENT', 'CENTER', 'CENTR', 'CENTRE', 'CNTER', 'CNTR'],
+  CTRS: ['CENTERS'],
+  CIR: ['CIRC', 'CIRCL', 'CIRCLE', 'CRCL', 'CRCLE'],
+  CIRS: ['CIRCLES'],
+  CLF: ['CLIFF'],
+  CLFS: ['CLIFFS'],
+  CLB: ['CLUB'],
+  CMN: ['COMMON'],
+  CMNS: ['COMMONS'],
+  COR: ['CORNER'],
+  CORS: ['CORNERS'],
+  CRSE: ['COURSE'],
+  CT: ['COURT'],
+  CTS: ['COURTS'],
+  CV: ['COVE'],
+  CVS: ['COVES'],
+  CRK: ['CREEK'],
+  CRES: ['CRESCENT', 'CRSENT', 'CRSNT'],
+  CRST: ['CREST'],
+  XING: ['CROSSING', 'CRSSNG'],
+  XRD: ['CROSSROAD'],
+  XRDS: ['CROSSROADS'],
+  CURV: ['CURVE'],
+  DL: ['DALE'],
+  DM: ['DAM'],
+  DV: ['DIV', 'DIVIDE', 'DVD'],
+  DR: ['DRIV', 'DRIVE', 'DRV'],
+  DRS: ['DRIVES'],
+  EST: ['ESTATE'],
+  ESTS: ['ESTATES'],
+  EXPY: ['EXP', 'EXPR', 'EXPRESS', 'EXPRESSWAY', 'EXPW'],
+  EXT: ['EXTENSION', 'EXTN', 'EXTNSN'],
+  EXTS: ['EXTENSIONS'],
+  FALL: [],
+  FLS: ['FALLS'],
+  FRY: ['FERRY', 'FRRY'],
+  FLD: ['FIELD'],
+  FLDS: ['FIELDS'],
+  FLT: ['FLAT'],
+  FLTS: ['FLATS'],
+  FRD: ['FORD'],
+  FRDS: ['FORDS'],
+  FRST: ['FOREST', 'FORESTS'],
+  FRG: ['FORG', 'FORGE'],
+  FRGS: ['FORGES'],
+  FRK: ['FORK'],
+  FRKS: ['FORKS'],
+  FT: ['FORT', 'FRT'],
+  FWY: ['FREEWAY', 'FREEWY', 'FRWAY', 'FRWY'],
+  GDN: ['GARDEN', 'GARDN', 'GRDEN', 'GRDN'],
+  GDNS: ['GARDENS', 'GRDNS'],
+  GTWY: ['GATEWAY', 'GATEWY', 'GATWAY', 'GTWAY'],
+  GLN: ['GLEN'],
+  GLNS: ['GLENS'],
+  GRN: ['GREEN'],
+  GRNS: ['GREENS'],
+  GRV: ['GROV', 'GROVE'],
+  GRVS: ['GROVES'],
+  HBR: ['HARB', 'HARBOR', 'HARBR', 'HRBOR'],
+  HBRS: ['HARBORS'],
+  HVN: ['HAVEN'],
+  HTS: ['HT', 'HEIGHTS'],
+  HWY: ['HIGHWAY', 'HIGHWY', 'HIWAY', 'HIWY', 'HWAY'],
+  HL: ['HILL'],
+  HLS: ['HILLS'],
+  HOLW: ['HLLW', 'HOLLOW', 'HOLLOWS', 'HOLWS'],
+  INLT: ['INLET'],
+  IS: ['ISLAND', 'ISLND'],
+  ISS: ['ISLANDS', 'ISLNDS'],
+  ISLE: ['ISLES'],
+  JCT: ['JCTION', 'JCTN', 'JUNCTION', 'JUNCTN', 'JUNCTON'],
+  JCTS: ['JCTNS', 'JUNCTIONS'],
+  KY: ['KEY'],
+  KYS: ['KEYS'],
+  KNL: ['KNOL', 'KNOLL'],
+  KNLS: ['KNOLLS'],
+  LK: ['LAKE'],
+  LKS: ['LAKES'],
+  LAND: [],
+  LNDG: ['LANDING', 'LNDNG'],
+  LN: ['LANE'],
+  LGT: ['LIGHT'],
+  LGTS: ['LIGHTS'],
+  LF: ['LOAF'],
+  LCK: ['LOCK'],
+  LCKS: ['LOCKS'],
+  LDG: ['LDGE', 'LODG', 'LODGE'],
+  LOOP: ['LOOPS'],
+  MALL: [],
+  MNR: ['MANOR'],
+  MNRS: ['MANORS'],
+  MDW: ['MEADOW'],
+  MDWS: ['MEADOWS', 'MEDOWS'],
+  MEWS: [],
+  ML: ['MILL'],
+  MLS: ['MILLS'],
+  MSN: ['MISSION', 'MISSN', 'MSSN'],
+  MTWY: ['MOTORWAY'],
+  MT: ['MNT', 'MOUNT'],
+  MTN: ['MNTAIN', 'MNTN', 'MOUNTAIN', 'MOUNTIN', 'MTIN'],
+  MTNS: ['MNTNS', 'MOUNTAINS'],
+  NCK: ['NECK'],
+  ORCH: ['ORCHARD', 'ORCHRD'],
+  OVAL: ['OVL'],
+  OPAS: ['OVERPASS'],
+  PARK: ['PRK', 'PARKS'],
+  PKWY: ['PARKWAY', 'PARKWY', 'PKWAY', 'PKY', 'PARKWAYS', 'PKWYS'],
+  PASS: [],
+  PSGE: ['PASSAGE'],
+  PATH: ['PATHS'],
+  PIKE: ['PIKES'],
+  PNE: ['PINE'],
+  PNES: ['PINES'],
+  PL: ['PLACE'],
+  PLN: ['PLAIN'],
+  PLNS: ['PLAINS'],
+  PLZ: ['PLAZA', 'PLZA'],
+  PT: ['POINT'],
+  PTS: ['POINTS'],
+  PRT: ['PORT'],
+  PRTS: ['PORTS'],
+  PR: ['PRAIRIE', 'PRR'],
+  RADL: ['RAD', 'RADIAL', 'RADIEL'],
+  RAMP: [],
+  RNCH: ['RANCH', 'RANCHES', 'RNCHS'],
+  RPD: ['RAPID'],
+  RPDS: ['RAPIDS'],
+  RST: ['REST'],
+  RDG: ['RDGE', 'RIDGE'],
+  RDGS: ['RIDGES'],
+  RIV: ['RIVER', 'RVR', 'RIVR'],
+  RD: ['ROAD'],
+  RDS: ['ROADS'],
+  RTE: ['ROUTE'],
+  ROW: [],
+  RUE: [],
+  RUN: [],
+  SHL: ['SHOAL'],
+  SHLS: ['SHOALS'],
+  SHR: ['SHOAR', 'SHORE'],
+  SHRS: ['SHOARS', 'SHORES'],
+  SKWY: ['SKYWAY'],
+  SPG: ['SPNG', 'SPRING', 'SPRNG'],
+  SPGS: ['SPNGS', 'SPRINGS', 'SPRNGS'],
+  SPUR: ['SPURS'],
+  SQ: ['SQR', 'SQRE', 'SQU', 'SQUARE'],
+  SQS: ['SQRS', 'SQUARES'],
+  STA: ['STATION', 'STATN', 'STN'],
+  STRA: ['STRAV', 'STRAVEN', 'STRAVENUE', 'STRAVN', 'STRVN', 'STRVNUE'],
+  STRM: ['STREAM', 'STREME'],
+  ST: ['STREET', 'STRT', 'STR'],
+  STS: ['STREETS'],
+  SMT: ['SUMIT', 'SUMITT', 'SUMMIT'],
+  TER: ['TERR', 'TERRACE'],
+  TRWY: ['THROUGHWAY'],
+  TRCE: ['TRACE', 'TRACES'],
+  TRAK: ['TRACK', 'TRACKS', 'TRK', 'TRKS'],
+  TRFY: ['TRAFFICWAY'],
+  TRL: ['TRAIL', 'TRAILS', 'TRLS'],
+  TRLR: ['TRAILER', 'TRLRS'],
+  TUNL: ['TUNEL', 'TUNLS', 'TUNNEL', 'TUNNELS', 'TUNNL'],
+  TPKE: ['TRNPK', 'TURNPIKE', 'TURNPK'],
+  UPAS: ['UNDERPASS'],
+  UN: ['UNION'],
+  UNS: ['UNIONS'],
+  VLY: ['VALLEY', 'VALLY', 'VLLY'],
+  VLYS: ['VALLEYS'],
+  VIA: ['VDCT', 'VIADCT', 'VIADUCT'],
+  VW: ['VIEW'],
+  VWS: ['VIEWS'],
+  VLG: ['VILL', 'VILLAG', 'VILLAGE', 'VILLG', 'VILLIAGE'],
+  VLGS: ['VILLAGES'],
+  VL: ['VILLE'],
+  VIS: ['VIST', 'VISTA', 'VST', 'VSTA'],
+  WALK: ['WALKS'],
+  WALL: [],
+  WAY: ['WY'],
+  WAYS: [],
+  WL: ['WELL'],
+  WLS: ['WELLS'],
+};
+
+// =============================================
+// SECONDARY UNIT DESIGNATORS (C2)
+// =============================================
+
+// Designators that must be followed by a unit number
+const NUMBERED_UNIT_DESIGNATORS: Record<string, string[]> = {
+  APT: ['APARTMENT'],
+  BLDG: ['BUILDING'],
+  DEPT: ['DEPARTMENT'],
+  FL: ['FLOOR'],
+  HNGR: ['HANGAR'],
+  KEY: [],
+  LOT: [],
+  PIER: [],
+  RM: ['ROOM'],
+  SLIP: [],
+  SPC: ['SPACE'],
+  STOP: [],
+  STE: ['SUITE'],
+  TRLR: ['TRAILER'],
+  UNIT: [],
+  '#': ['NO', 'NUMBER'],
+};
+
+// Designators that stand alone (no unit number)
+const UNNUMBERED_UNIT_DESIGNATORS: Record<string, string[]> = {
+  BSMT: ['BASEMENT'],
+  FRNT: ['FRONT'],
+  LBBY: ['LOBBY'],
+  LOWR: ['LOWER'],
+  OFC: ['OFFICE'],
+  PH: ['PENTHOUSE'],
+  REAR: [],
+  SIDE: [],
+  UPPR: ['UPPER'],
+};
+
+// =============================================
+// DIRECTIONALS
+// =============================================
+
+const DIRECTIONALS: Record<string, string[]> = {
+  N: ['NORTH'],
+  S: ['SOUTH'],
+  E: ['EAST'],
+  W: ['WEST'],
+  NE: ['NORTHEAST'],
+  NW: ['NORTHWEST'],
+  SE: ['SOUTHEAST'],
+  SW: ['SOUTHWEST'],
+};
+
+// =============================================
+// STATES, DC, TERRITORIES AND MILITARY
+// =============================================
+
+const STATES: Record<string, string> = {
+  AL: 'ALABAMA', AK: 'ALASKA', AZ: 'ARIZONA', AR: 'ARKANSAS', CA: 'CALIFORNIA',
+  CO: 'COLORADO', CT: 'CONNECTICUT', DE: 'DELAWARE', FL: 'FLORIDA', GA: 'GEORGIA',
+  HI: 'HAWAII', ID: 'IDAHO', IL: 'ILLINOIS', IN: 'INDIANA', IA: 'IOWA',
+  KS: 'KANSAS', KY: 'KENTUCKY', LA: 'LOUISIANA', ME: 'MAINE', MD: 'MARYLAND',
+  MA: 'MASSACHUSETTS', MI: 'MICHIGAN', MN: 'MINNESOTA', MS: 'MISSISSIPPI', MO: 'MISSOURI',
+  MT: 'MONTANA', NE: 'NEBRASKA', NV: 'NEVADA', NH: 'NEW HAMPSHIRE', NJ: 'NEW JERSEY',
+  NM: 'NEW MEXICO', NY: 'NEW YORK', NC: 'NORTH CAROLINA', ND: 'NORTH DAKOTA', OH: 'OHIO',
+  OK: 'OKLAHOMA', OR: 'OREGON', PA: 'PENNSYLVANIA', RI: 'RHODE ISLAND', SC: 'SOUTH CAROLINA',
+  SD: 'SOUTH DAKOTA', TN: 'TENNESSEE', TX: 'TEXAS', UT: 'UTAH', VT: 'VERMONT',
+  VA: 'VIRGINIA', WA: 'WASHINGTON', WV: 'WEST VIRGINIA', WI: 'WISCONSIN', WY: 'WYOMING',
+  DC: 'DISTRICT OF COLUMBIA',
+  AS: 'AMERICAN SAMOA', GU: 'GUAM', MP: 'NORTHERN MARIANA ISLANDS', PR: 'PUERTO RICO', VI: 'VIRGIN ISLANDS',
+  AA: 'ARMED FORCES AMERICAS', AE: 'ARMED FORCES EUROPE', AP: 'ARMED FORCES PACIFIC',
+};
+
+// =============================================
+// LOOKUPS
+// =============================================
+
+// Spelling -> standard abbreviation (the abbreviation maps to itself)
+const buildLookup = (table: Record<string, string[]>): Map<string, string> => {
+  const lookup = new Map<string, string>();
+  for (const [abbreviation, spellings] of Object.entries(table)) {
+    lookup.set(abbreviation, abbreviation);
+    for (const spelling of spellings) {
+      lookup.set(spelling, abbreviation);
+    }
+  }
+  return lookup;
+};
+
+const streetSuffixLookup = buildLookup(STREET_SUFFIXES);
+const numberedUnitLookup = buildLookup(NUMBERED_UNIT_DESIGNATORS);
+const unnumberedUnitLookup = buildLookup(UNNUMBERED_UNIT_DESIGNATORS);
+const directionalLookup = buildLookup(DIRECTIONALS);
+const stateNameLookup = new Map(Object.entries(STATES).map(([code, name]) => [name, code]));
+
+// Longest state name in words (for matching names at the end of a one-line address)
+export const MAX_STATE_NAME_WORDS = Math.max(...Object.values(STATES).map(name => name.split(' ').length));
+
+/**
+ * USPS street suffix abbreviation for a word ('STREET' -> 'ST'), or undefined
+ */
+export const lookupStreetSuffix = (word: string): string | undefined => streetSuffixLookup.get(word);
+
+/**
+ * USPS secondary unit designator for a word, and whether a unit number must follow
+ */
+export const lookupUnitDesignator = (word: string): { designator: string; numbered: boolean } | undefined => {
+  const numbered = numberedUnitLookup.get(word);
+  if (numbered) return { designator: numbered, numbered: true };
+
+  const unnumbered = unnumberedUnitLookup.get(word);
+  return unnumbered ? { designator: unnumbered, numbered: false } : undefined;
+};
+
+/**
+ * Directional abbreviation ('NORTHWEST' -> 'NW'), or undefined
+ */
+export const lookupDirectional = (word: string): string | undefined => directionalLookup.get(word);
+
+/**
+ * Two-letter state code from a code or full name ('California' / 'CA' -> 'CA'), or undefined
+ */
+export const lookupStateCode = (value: string): string | undefined => {
+  const normalized = value.toUpperCase().replace(/\s+/g, ' ').trim();
+  if (normalized in STATES) return normalized;
+  return stateNameLookup.get(normalized);
+};
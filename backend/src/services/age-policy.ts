@@ -0,0 +1,129 @@
+// Age policy - which minimum age applies to a sale and on which calendar date it is judged
+//
+// Age is computed to the day on the local calendar date of the jurisdiction (a buyer turning 21
+// on March 3 qualifies from midnight Pacific, not midnight UTC), with the same YYYYMMDD
+// comparison the age circuit proves. Leap-day birthdays reach an age on March 1 in common years.
+//
+// Configuration:
+//   AGE_POLICY_JURISDICTION  policy to apply (default US-CA)
+//   AGE_POLICY_TIMEZONE      IANA timezone override for the evaluation date
+
+import type { AgeRequirement, ProductCategory } from '@ca2achain/shared';
+import { toCircuitDate } from './zkp/index.js';
+
+export interface AgePolicy {
+  jurisdiction: string;
+  timezone: string;
+  thresholds: Record<ProductCategory, number>;
+}
+
+// California: 18+ for ammunition and long guns, 21+ for handguns
+const AGE_POLICIES: Record<string, AgePolicy> = {
+  'US-CA': {
+    jurisdiction: 'US-CA',
+    timezone: 'America/Los_Angeles',
+    thresholds: { ammunition: 18, long_gun: 18, handgun: 21 }
+  }
+};
+
+const DEFAULT_JURISDICTION = 'US-CA';
+
+// =============================================
+// POLICY CONFIGURATION
+// =============================================
+
+const assertTimezone = (timezone: string): void => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw new Error(`Invalid age policy timezone: ${timezone}`);
+  }
+};
+
+/**
+ * Age policy configured for this deployment
+ */
+export const getAgePolicy = (): AgePolicy => {
+  const jurisdiction = process.env.AGE_POLICY_JURISDICTION || DEFAULT_JURISDICTION;
+  const policy = AGE_POLICIES[jurisdiction];
+  if (!policy) {
+    throw new Error(`No age policy for jurisdiction ${jurisdiction}`);
+  }
+
+  const timezone = process.env.AGE_POLICY_TIMEZONE || policy.timezone;
+  assertTimezone(timezone);
+
+  return { ...policy, timezone };
+};
+
+/**
+ * Minimum buyer age for a product category
+ */
+export const getAgeThreshold = (productCategory: ProductCategory, policy: AgePolicy = getAgePolicy()): number => {
+  return policy.thresholds[productCategory];
+};
+
+// =============================================
+// DATE AND AGE CALCULATION
+// =============================================
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export const toLocalDate = (at: string | Date, timezone: string): string => {
+  const instant = typeof at === 'string' ? new Date(at) : at;
+  if (Number.isNaN(instant.getTime())) {
+    throw new Error(`Invalid date: ${at}`);
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+/**
+ * Age in whole years on a calendar date (both YYYY-MM-DD)
+ * Same arithmetic as the age circuit: birth date + age * 10000 <= date as YYYYMMDD integers
+ */
+export const calculateAge = (dateOfBirth: string, onDate: string): number => {
+  const birth = toCircuitDate(dateOfBirth);
+  const current = toCircuitDate(onDate);
+  if (current < birth) {
+    throw new Error(`Date ${onDate} is before date of birth`);
+  }
+  return Math.floor((current - birth) / 10000);
+};
+
+// =============================================
+// AGE REQUIREMENTS
+// =============================================
+
+/**
+ * Age requirement for a sale at a given instant: threshold for the product category and the local evaluation date
+ */
+export const getAgeRequirement = (
+  productCategory: ProductCategory,
+  at: string | Date = new Date(),
+  policy: AgePolicy = getAgePolicy()
+): AgeRequirement => {
+  return {
+    jurisdiction: policy.jurisdiction,
+    timezone: policy.timezone,
+    product_category: productCategory,
+    age_threshold: getAgeThreshold(productCategory, policy),
+    evaluation_date: toLocalDate(at, policy.timezone)
+  };
+};
+
+/**
+ * Whether a date of birth meets an age requirement
+ */
+export const meetsAgeRequirement = (dateOfBirth: string, requirement: AgeRequirement): boolean => {
+  return calculateAge(dateOfBirth, requirement.evaluation_date) >= requirement.age_threshold;
+};
@@ -4,22 +4,29 @@ import { getDealerByAuth } from './database/dealer-accounts.js';
 import { getUserRole, createUserRole, hasUserRole } from './database/user-roles.js';
 import type { BuyerAccount, DealerAccount } from '@ca2achain/shared';
 
-// Check if user exists in BOTH auth.users AND user_roles (must be synced)
-async function userExists(email: string): Promise<{ exists: boolean; userId?: string; hasRole?: boolean }> {
+// Find the auth.users id for an email (null when there is no such user)
+export const getAuthUserIdByEmail = async (email: string): Promise<string | null> => {
   const supabase = getClient();
-  
+
   const { data: usersData } = await supabase.auth.admin.listUsers();
   const existingUser = usersData?.users?.find(u => u.email === email);
+
+  return existingUser?.id ?? null;
+};
+
+// Check if user exists in BOTH auth.users AND user_roles (must be synced)
+async function userExists(email: string): Promise<{ exists: boolean; userId?: string; hasRole?: boolean }> {
+  const userId = await getAuthUserIdByEmail(email);
   
-  if (!existingUser) {
+  if (!userId) {
     return { exists: false };
   }
   
-  const hasRole = await hasUserRole(existingUser.id);
+  const hasRole = await hasUserRole(userId);
   
   return { 
     exists: true, 
-    userId: existingUser.id,
+    userId,
     hasRole 
   };
 }
@@ -149,4 +156,11 @@ export const deleteUser = async (userId: string) => {
   const supabase = getClient();
   const { error } = await supabase.auth.admin.deleteUser(userId);
   if (error) throw error;
-};
\ No newline at end of file
+};
+// Get a user's email address (buyer/dealer accounts only store the auth id)
+export const getUserEmail = async (userId: string): Promise<string | null> => {
+  const supabase = getClient();
+  const { data, error } = await supabase.auth.admin.getUserById(userId);
+  if (error) throw error;
+  return data.user?.email ?? null;
+};
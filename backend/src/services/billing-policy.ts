@@ -0,0 +1,76 @@
+// Billing policy - which verification outcomes the dealer pays for
+//
+// POST /verify reserves a credit once the buyer passes every eligibility check (unknown and
+// unverified buyers are rejected first, uncharged and indistinguishable), then settles it when the
+// request ends:
+//   verified      committed (always billed, whether or not age and address matched)
+//   system_error  our own failure (5xx)
+// Outcomes listed in the policy are released (refunded in the credit ledger), the rest committed.
+// Reservations left unsettled by a crash are refunded by the credit-reservation-sweep job.
+//
+// Configuration:
+//   BILLING_REFUND_OUTCOMES  comma-separated outcomes to refund (default: system_error; empty = none)
+
+import { commitCreditReservation, releaseCreditReservation } from './database/credit-ledger.js';
+
+export type VerificationOutcome = 'verified' | 'system_error';
+
+export type RefundableOutcome = Exclude<VerificationOutcome, 'verified'>;
+
+export interface BillingPolicy {
+  refund_outcomes: RefundableOutcome[];
+}
+
+const REFUNDABLE_OUTCOMES: RefundableOutcome[] = ['system_error'];
+
+// =============================================
+// POLICY CONFIGURATION
+// =============================================
+
+/**
+ * Billing policy configured for this deployment
+ */
+export const getBillingPolicy = (): BillingPolicy => {
+  const configured = process.env.BILLING_REFUND_OUTCOMES;
+  if (configured === undefined) {
+    return { refund_outcomes: REFUNDABLE_OUTCOMES };
+  }
+
+  const outcomes = configured.split(',').map(outcome => outcome.trim()).filter(Boolean);
+  for (const outcome of outcomes) {
+    if (!REFUNDABLE_OUTCOMES.includes(outcome as RefundableOutcome)) {
+      throw new Error(`Invalid BILLING_REFUND_OUTCOMES entry "${outcome}"; expected any of: ${REFUNDABLE_OUTCOMES.join(', ')}`);
+    }
+  }
+
+  return { refund_outcomes: outcomes as RefundableOutcome[] };
+};
+
+/**
+ * Whether the dealer gets the credit back for an outcome
+ */
+export const isRefunded = (outcome: VerificationOutcome, policy: BillingPolicy = getBillingPolicy()): boolean => {
+  return outcome !== 'verified' && policy.refund_outcomes.includes(outcome);
+};
+
+// =============================================
+// SETTLEMENT
+// =============================================
+
+/**
+ * Commit or release a reserved verification credit per the billing policy
+ * Returns whether the credit was refunded
+ */
+export const settleVerificationCredit = async (
+  reservationId: string,
+  outcome: VerificationOutcome,
+  complianceEventId?: string
+): Promise<boolean> => {
+  if (isRefunded(outcome)) {
+    await releaseCreditReservation(reservationId, outcome);
+    return true;
+  }
+
+  await commitCreditReservation(reservationId, outcome, complianceEventId);
+  return false;
+};
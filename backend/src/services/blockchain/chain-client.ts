@@ -0,0 +1,437 @@
+// Chain client - JSON-RPC access to the ComplianceRegistry contract
+// Works against Polygon mainnet/Amoy or a local Anvil/Hardhat node (POLYGON_RPC_URL=http://127.0.0.1:8545)
+
+import { Contract, JsonRpcProvider, isHexString, zeroPadValue, type Log } from 'ethers';
+import { COMPLIANCE_REGISTRY_ABI, COMPLIANCE_RECORD_ANCHORED_EVENT, MERKLE_BATCH_ANCHORED_EVENT } from './compliance-registry-abi.js';
+import { initSigner, sendWithNonce } from './signer.js';
+
+export interface ChainConfig {
+  rpcUrl: string;
+  chainId: number;
+  network: string;
+  contractAddress: string;
+  privateKey: string;
+  confirmations: number;
+  deployBlock: number;
+}
+
+export interface AnchorReceipt {
+  network: string;
+  chain_id: number;
+  transaction_hash: string;
+  contract_address: string;
+  block_number: number;
+  event_index: number;
+  gas_used: number;
+  record_hash: string;
+  anchored_at: string;
+}
+
+export interface AnchorSubmission {
+  network: string;
+  chain_id: number;
+  transaction_hash: string;
+  contract_address: string;
+  record_hash: string;
+}
+
+export interface AnchoredRecord {
+  record_hash: string;
+  anchored_at: string;
+  submitter: string;
+}
+
+export interface BatchSubmission {
+  network: string;
+  chain_id: number;
+  transaction_hash: string;
+  contract_address: string;
+  merkle_root: string;
+}
+
+export interface BatchReceipt {
+  network: string;
+  chain_id: number;
+  transaction_hash: string;
+  contract_address: string;
+  block_number: number;
+  event_index: number;
+  gas_used: number;
+  merkle_root: string;
+  leaf_count: number;
+  anchored_at: string;
+}
+
+export interface AnchoredBatch {
+  leaf_count: number;
+  anchored_at: string;
+  submitter: string;
+}
+
+export type AnchorTransaction =
+  | {
+      type: 'record';
+      transaction_hash: string;
+      block_number: number;
+      confirmations: number;
+      compliance_event_id: string;
+      record: AnchoredRecord;
+    }
+  | {
+      type: 'batch';
+      transaction_hash: string;
+      block_number: number;
+      confirmations: number;
+      merkle_root: string;
+      batch: AnchoredBatch;
+    };
+
+let provider: JsonRpcProvider | null = null;
+let registry: Contract | null = null;
+let chainConfig: ChainConfig | null = null;
+
+// =============================================
+// CONFIGURATION
+// =============================================
+
+/**
+ * Read chain configuration from environment
+ * Returns null when anchoring is not configured (RPC URL, key and contract are all required)
+ */
+export const getChainConfig = (): ChainConfig | null => {
+  const rpcUrl = process.env.POLYGON_RPC_URL;
+  const privateKey = process.env.POLYGON_PRIVATE_KEY;
+  const contractAddress = process.env.POLYGON_CONTRACT_ADDRESS;
+
+  if (!rpcUrl || !privateKey || !contractAddress) {
+    return null;
+  }
+
+  return {
+    rpcUrl,
+    privateKey,
+    contractAddress,
+    chainId: Number(process.env.POLYGON_CHAIN_ID) || 137,
+    network: process.env.POLYGON_NETWORK || 'polygon-mainnet',
+    confirmations: Number(process.env.POLYGON_CONFIRMATIONS) || 1,
+    deployBlock: Number(process.env.POLYGON_DEPLOY_BLOCK) || 0,
+  };
+};
+
+/**
+ * Initialize provider, signer and registry contract
+ */
+export const initChainClient = (config: ChainConfig | null = getChainConfig()): boolean => {
+  if (!config) {
+    console.log('🧪 Polygon: No POLYGON_RPC_URL / POLYGON_PRIVATE_KEY / POLYGON_CONTRACT_ADDRESS, anchoring disabled');
+    return false;
+  }
+
+  provider = new JsonRpcProvider(config.rpcUrl, config.chainId, { staticNetwork: true });
+  const signer = initSigner(provider, config.privateKey);
+  registry = new Contract(config.contractAddress, COMPLIANCE_REGISTRY_ABI, signer);
+  chainConfig = config;
+
+  console.log(`✅ Polygon chain client initialized (${config.network}, chain ${config.chainId})`);
+  return true;
+};
+
+export const isChainConfigured = (): boolean => {
+  return registry !== null;
+};
+
+const getRegistry = (): { registry: Contract; provider: JsonRpcProvider; config: ChainConfig } => {
+  if (!registry || !provider || !chainConfig) {
+    throw new Error('Chain client not initialized. Call initChainClient() first.');
+  }
+  return { registry, provider, config: chainConfig };
+};
+
+// =============================================
+// ENCODING HELPERS
+// =============================================
+
+/**
+ * Compliance event UUIDs are stored on chain as left-padded bytes32
+ */
+export const toBytes32EventId = (complianceEventId: string): string => {
+  const hex = `0x${complianceEventId.replace(/-/g, '')}`;
+  if (!isHexString(hex, 16)) {
+    throw new Error(`Invalid compliance event ID: ${complianceEventId}`);
+  }
+  return zeroPadValue(hex, 32);
+};
+
+export const fromBytes32EventId = (bytes32: string): string => {
+  const hex = bytes32.slice(-32);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+/**
+ * Commitment hashes and Merkle roots are hex SHA-256 digests - prefix for bytes32
+ */
+export const toBytes32Hash = (hash: string): string => {
+  const prefixed = hash.startsWith('0x') ? hash : `0x${hash}`;
+  if (!isHexString(prefixed, 32)) {
+    throw new Error('Record hash must be a 32-byte hex digest');
+  }
+  return prefixed.toLowerCase();
+};
+
+const toIsoTimestamp = (seconds: bigint | number): string => {
+  return new Date(Number(seconds) * 1000).toISOString();
+};
+
+// =============================================
+// CONTRACT OPERATIONS
+// =============================================
+
+/**
+ * Broadcast an anchoring transaction without waiting for it to be mined
+ * Callers persist the returned hash so a restart can resume waiting instead of re-sending
+ */
+export const submitRecordHash = async (complianceEventId: string, recordHash: string): Promise<AnchorSubmission> => {
+  const { registry, config } = getRegistry();
+  const eventId = toBytes32EventId(complianceEventId);
+  const hash = toBytes32Hash(recordHash);
+
+  const tx = await sendWithNonce((signer) =>
+    (registry.connect(signer) as Contract).anchorRecord(eventId, hash)
+  );
+
+  return {
+    network: config.network,
+    chain_id: config.chainId,
+    transaction_hash: tx.hash,
+    contract_address: config.contractAddress,
+    record_hash: hash,
+  };
+};
+
+/**
+ * Wait for a registry transaction and pull out the first log of the given event
+ * Returns null if the node no longer knows the transaction (dropped from the mempool)
+ * Throws a TIMEOUT error if timeoutMs elapses first - the transaction may still confirm later
+ */
+const waitForRegistryEvent = async (transactionHash: string, eventName: string, timeoutMs?: number) => {
+  const { registry, provider, config } = getRegistry();
+
+  const tx = await provider.getTransaction(transactionHash);
+  if (!tx) {
+    return null;
+  }
+
+  const receipt = await tx.wait(config.confirmations, timeoutMs);
+
+  if (!receipt || receipt.status !== 1) {
+    throw new Error(`Anchoring transaction ${transactionHash} reverted`);
+  }
+
+  for (const log of receipt.logs as Log[]) {
+    const parsed = registry.interface.parseLog(log);
+    if (parsed?.name === eventName) {
+      return { receipt, index: log.index, args: parsed.args };
+    }
+  }
+
+  throw new Error(`Anchoring transaction ${transactionHash} did not emit ${eventName}`);
+};
+
+/**
+ * Wait for a submitted record anchoring transaction to confirm
+ */
+export const waitForAnchorReceipt = async (transactionHash: string, timeoutMs?: number): Promise<AnchorReceipt | null> => {
+  const { config } = getRegistry();
+  const event = await waitForRegistryEvent(transactionHash, COMPLIANCE_RECORD_ANCHORED_EVENT, timeoutMs);
+
+  if (!event) {
+    return null;
+  }
+
+  return {
+    network: config.network,
+    chain_id: config.chainId,
+    transaction_hash: event.receipt.hash,
+    contract_address: config.contractAddress,
+    block_number: event.receipt.blockNumber,
+    event_index: event.index,
+    gas_used: Number(event.receipt.gasUsed),
+    record_hash: event.args.recordHash,
+    anchored_at: toIsoTimestamp(event.args.anchoredAt),
+  };
+};
+
+/**
+ * Anchor a compliance record hash on chain and wait for confirmation
+ */
+export const anchorRecordHash = async (complianceEventId: string, recordHash: string): Promise<AnchorReceipt> => {
+  const submission = await submitRecordHash(complianceEventId, recordHash);
+  const receipt = await waitForAnchorReceipt(submission.transaction_hash);
+
+  if (!receipt) {
+    throw new Error(`Anchoring transaction ${submission.transaction_hash} was dropped before confirmation`);
+  }
+  return receipt;
+};
+
+/**
+ * Locate the transaction that anchored a compliance event by scanning contract logs
+ * Recovers the receipt when a record is on chain but its transaction hash was never saved
+ */
+export const findAnchorTransactionHash = async (complianceEventId: string): Promise<string | null> => {
+  const { registry, config } = getRegistry();
+  const filter = registry.filters[COMPLIANCE_RECORD_ANCHORED_EVENT](toBytes32EventId(complianceEventId));
+  const logs = await registry.queryFilter(filter, config.deployBlock);
+
+  return logs[0]?.transactionHash ?? null;
+};
+
+// =============================================
+// BATCH OPERATIONS
+// =============================================
+
+/**
+ * Broadcast a Merkle batch root without waiting for it to be mined
+ */
+export const submitBatchRoot = async (merkleRoot: string, leafCount: number): Promise<BatchSubmission> => {
+  const { registry, config } = getRegistry();
+  const root = toBytes32Hash(merkleRoot);
+
+  const tx = await sendWithNonce((signer) =>
+    (registry.connect(signer) as Contract).anchorBatch(root, leafCount)
+  );
+
+  return {
+    network: config.network,
+    chain_id: config.chainId,
+    transaction_hash: tx.hash,
+    contract_address: config.contractAddress,
+    merkle_root: root,
+  };
+};
+
+/**
+ * Wait for a submitted batch root transaction to confirm
+ * Returns null if the node no longer knows the transaction (dropped from the mempool)
+ */
+export const waitForBatchReceipt = async (transactionHash: string, timeoutMs?: number): Promise<BatchReceipt | null> => {
+  const { config } = getRegistry();
+  const event = await waitForRegistryEvent(transactionHash, MERKLE_BATCH_ANCHORED_EVENT, timeoutMs);
+
+  if (!event) {
+    return null;
+  }
+
+  return {
+    network: config.network,
+    chain_id: config.chainId,
+    transaction_hash: event.receipt.hash,
+    contract_address: config.contractAddress,
+    block_number: event.receipt.blockNumber,
+    event_index: event.index,
+    gas_used: Number(event.receipt.gasUsed),
+    merkle_root: event.args.merkleRoot,
+    leaf_count: Number(event.args.leafCount),
+    anchored_at: toIsoTimestamp(event.args.anchoredAt),
+  };
+};
+
+/**
+ * Read an anchored batch root (null if never anchored)
+ */
+export const getAnchoredBatch = async (merkleRoot: string): Promise<AnchoredBatch | null> => {
+  const { registry } = getRegistry();
+  const [leafCount, anchoredAt, submitter] = await registry.getBatch(toBytes32Hash(merkleRoot));
+
+  if (Number(anchoredAt) === 0) {
+    return null;
+  }
+
+  return {
+    leaf_count: Number(leafCount),
+    anchored_at: toIsoTimestamp(anchoredAt),
+    submitter,
+  };
+};
+
+/**
+ * Locate the transaction that anchored a batch root by scanning contract logs
+ */
+export const findBatchTransactionHash = async (merkleRoot: string): Promise<string | null> => {
+  const { registry, config } = getRegistry();
+  const filter = registry.filters[MERKLE_BATCH_ANCHORED_EVENT](toBytes32Hash(merkleRoot));
+  const logs = await registry.queryFilter(filter, config.deployBlock);
+
+  return logs[0]?.transactionHash ?? null;
+};
+
+// =============================================
+// AUDIT LOOKUPS
+// =============================================
+
+/**
+ * Read the anchored record for a compliance event (null if never anchored)
+ */
+export const getAnchoredRecord = async (complianceEventId: string): Promise<AnchoredRecord | null> => {
+  const { registry } = getRegistry();
+  const [recordHash, anchoredAt, submitter] = await registry.getRecord(toBytes32EventId(complianceEventId));
+
+  if (Number(anchoredAt) === 0) {
+    return null;
+  }
+
+  return {
+    record_hash: recordHash,
+    anchored_at: toIsoTimestamp(anchoredAt),
+    submitter,
+  };
+};
+
+/**
+ * Resolve an anchoring transaction hash to what it anchored on chain
+ * Used by auditors to confirm a transaction_hash we handed out really exists
+ */
+export const getAnchorTransaction = async (transactionHash: string): Promise<AnchorTransaction | null> => {
+  const { registry, provider, config } = getRegistry();
+  const receipt = await provider.getTransactionReceipt(transactionHash);
+
+  if (!receipt || receipt.to?.toLowerCase() !== config.contractAddress.toLowerCase()) {
+    return null;
+  }
+
+  for (const log of receipt.logs) {
+    const parsed = registry.interface.parseLog(log);
+
+    if (parsed?.name === COMPLIANCE_RECORD_ANCHORED_EVENT) {
+      return {
+        type: 'record',
+        transaction_hash: receipt.hash,
+        block_number: receipt.blockNumber,
+        confirmations: await receipt.confirmations(),
+        compliance_event_id: fromBytes32EventId(parsed.args.complianceEventId),
+        record: {
+          record_hash: parsed.args.recordHash,
+          anchored_at: toIsoTimestamp(parsed.args.anchoredAt),
+          submitter: parsed.args.submitter,
+        },
+      };
+    }
+
+    if (parsed?.name === MERKLE_BATCH_ANCHORED_EVENT) {
+      return {
+        type: 'batch',
+        transaction_hash: receipt.hash,
+        block_number: receipt.blockNumber,
+        confirmations: await receipt.confirmations(),
+        merkle_root: parsed.args.merkleRoot,
+        batch: {
+          leaf_count: Number(parsed.args.leafCount),
+          anchored_at: toIsoTimestamp(parsed.args.anchoredAt),
+          submitter: parsed.args.submitter,
+        },
+      };
+    }
+  }
+
+  return null;
+};
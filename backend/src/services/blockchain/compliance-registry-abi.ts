@@ -0,0 +1,25 @@
+// ComplianceRegistry contract ABI
+// Source: backend/contracts/ComplianceRegistry.sol (deploy with `pnpm chain:deploy`)
+
+export const COMPLIANCE_REGISTRY_ABI = [
+  'constructor()',
+  'function owner() view returns (address)',
+  'function submitters(address) view returns (bool)',
+  'function setSubmitter(address submitter, bool allowed)',
+  'function anchorRecord(bytes32 complianceEventId, bytes32 recordHash)',
+  'function getRecord(bytes32 complianceEventId) view returns (bytes32 recordHash, uint64 anchoredAt, address submitter)',
+  'function anchorBatch(bytes32 merkleRoot, uint32 leafCount)',
+  'function getBatch(bytes32 merkleRoot) view returns (uint32 leafCount, uint64 anchoredAt, address submitter)',
+  'event ComplianceRecordAnchored(bytes32 indexed complianceEventId, bytes32 recordHash, address indexed submitter, uint64 anchoredAt)',
+  'event MerkleBatchAnchored(bytes32 indexed merkleRoot, uint32 leafCount, address indexed submitter, uint64 anchoredAt)',
+  'event SubmitterUpdated(address indexed submitter, bool allowed)',
+  'error NotOwner()',
+  'error NotSubmitter()',
+  'error AlreadyAnchored(bytes32 complianceEventId)',
+  'error EmptyHash()',
+  'error BatchAlreadyAnchored(bytes32 merkleRoot)',
+  'error EmptyBatch()',
+] as const;
+
+export const COMPLIANCE_RECORD_ANCHORED_EVENT = 'ComplianceRecordAnchored';
+export const MERKLE_BATCH_ANCHORED_EVENT = 'MerkleBatchAnchored';
@@ -0,0 +1,9 @@
+// Contract ABI
+export * from './compliance-registry-abi.js';
+
+// Chain access
+export * from './chain-client.js';
+export * from './signer.js';
+
+// Batch anchoring
+export * from './merkle.js';
@@ -0,0 +1,12 @@
+// Merkle tree for batched compliance record anchoring
+// Leaves are compliance record hashes (generateCommitmentHash); only the root goes on chain.
+// The sha256-merkle-v1 implementation lives in @ca2achain/shared so the verifier SDK checks proofs
+// with the same code that builds them.
+
+export {
+  buildMerkleTree,
+  computeMerkleRoot,
+  getMerkleProof,
+  verifyMerkleProof,
+  type MerkleTree
+} from '@ca2achain/shared';
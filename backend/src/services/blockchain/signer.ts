@@ -0,0 +1,68 @@
+// Transaction signer with local nonce management
+// Serializes every write so concurrent verifications never race for the same nonce
+
+import { NonceManager, Wallet, type JsonRpcProvider } from 'ethers';
+
+let signer: NonceManager | null = null;
+let sendQueue: Promise<unknown> = Promise.resolve();
+
+// Errors that mean our cached nonce drifted from the node (e.g. a tx was sent elsewhere)
+const NONCE_ERROR_CODES = new Set(['NONCE_EXPIRED', 'REPLACEMENT_UNDERPRICED']);
+
+const isNonceError = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object') return false;
+  const code = (error as { code?: string }).code;
+  if (code && NONCE_ERROR_CODES.has(code)) return true;
+  const message = (error as { message?: string }).message || '';
+  return /nonce (too low|too high|has already been used)|correct nonce|already known/i.test(message);
+};
+
+/**
+ * Initialize the anchoring wallet for the given provider
+ */
+export const initSigner = (provider: JsonRpcProvider, privateKey: string): NonceManager => {
+  const normalizedKey = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
+  signer = new NonceManager(new Wallet(normalizedKey, provider));
+  sendQueue = Promise.resolve();
+  return signer;
+};
+
+/**
+ * Get the initialized signer
+ */
+export const getSigner = (): NonceManager => {
+  if (!signer) {
+    throw new Error('Chain signer not initialized. Call initChainClient() first.');
+  }
+  return signer;
+};
+
+/**
+ * Address that submits anchoring transactions (must be an allowed submitter on the registry)
+ */
+export const getSignerAddress = async (): Promise<string> => {
+  return await getSigner().getAddress();
+};
+
+/**
+ * Send a transaction through the nonce manager
+ * Sends are queued one at a time; on a nonce conflict the nonce is re-read from the node and retried once
+ */
+export const sendWithNonce = <T>(send: (signer: NonceManager) => Promise<T>): Promise<T> => {
+  const run = async (): Promise<T> => {
+    const activeSigner = getSigner();
+    try {
+      return await send(activeSigner);
+    } catch (error) {
+      activeSigner.reset();
+      if (!isNonceError(error)) throw error;
+
+      console.warn('⚠️ Chain signer: nonce conflict detected, resyncing from node');
+      return await send(activeSigner);
+    }
+  };
+
+  const result = sendQueue.then(run, run);
+  sendQueue = result.catch(() => undefined);
+  return result;
+};
@@ -0,0 +1,206 @@
+// Buyer verification service - starts buyer identity verification and completes it from identity provider events
+// Start: POST /buyer/verify-identity → provider inquiry + session token (buyer runs the provider's flow)
+// Webhook flow: approved / completed → fetch verified driver's license → encrypt into
+// buyer_secrets + issue credential → mark buyer verified → email; declined → rejected
+//
+// Processing is idempotent on the buyer's state: a replayed approval for the inquiry already stored
+// in buyer_secrets is a no-op, and events for an older inquiry never undo a later verification.
+
+import type {
+  BuyerAccount,
+  BuyerIdentityVerificationSession,
+  BuyerVerificationStatus,
+  BuyerVerificationStatusResponse
+} from '@ca2achain/shared';
+import {
+  getBuyerById,
+  getBuyerByVerificationInquiry,
+  setBuyerVerificationStatus,
+  updateBuyerAccount
+} from './database/buyer-accounts.js';
+import { getBuyerSecrets } from './database/buyer-secrets.js';
+import { issueBuyerCredential } from './issuer.js';
+import { getUserEmail } from './auth.js';
+import { sendBuyerVerificationComplete } from './email.js';
+import { getProviders } from './providers/index.js';
+import type { IdentityProvider, IdentityVerificationEvent } from './providers/index.js';
+
+export type IdentityEventOutcome = 'verified' | 'rejected' | 'pending' | 'duplicate' | 'ignored';
+
+export interface IdentityEventResult {
+  provider: string;
+  event_name: string;
+  inquiry_id: string;
+  buyer_id?: string;
+  outcome: IdentityEventOutcome;
+  verification_status?: BuyerVerificationStatus;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+export const REVERIFICATION_WINDOW_DAYS = 30; // Verified buyers may re-verify this close to expiry
+
+// =============================================
+// STARTING VERIFICATION
+// =============================================
+
+/**
+ * Whether a buyer may start a new identity verification
+ * Verified buyers only within REVERIFICATION_WINDOW_DAYS of their credential expiring
+ */
+export const canStartVerification = (buyer: BuyerAccount, now: Date = new Date()): boolean => {
+  if (buyer.verification_status !== 'verified' || !buyer.verification_expires_at) return true;
+
+  const renewalOpensAt = new Date(buyer.verification_expires_at).getTime() - REVERIFICATION_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  return now.getTime() >= renewalOpensAt;
+};
+
+/**
+ * Create an inquiry with the selected identity provider and remember it on the account
+ * A rejected or expired buyer goes back to pending while the new inquiry runs
+ */
+export const startBuyerVerification = async (buyer: BuyerAccount): Promise<BuyerIdentityVerificationSession> => {
+  if (!canStartVerification(buyer)) {
+    throw new Error('Identity already verified');
+  }
+
+  const { identity } = getProviders();
+  const { inquiryId, sessionToken, verificationUrl } = await identity.createBuyerInquiry(buyer.id);
+
+  await updateBuyerAccount(buyer.id, {
+    verification_inquiry_id: inquiryId,
+    verification_provider: identity.name,
+    verification_started_at: new Date().toISOString()
+  });
+  if (buyer.verification_status === 'rejected' || buyer.verification_status === 'expired') {
+    await setBuyerVerificationStatus(buyer.id, 'pending');
+  }
+
+  const session: BuyerIdentityVerificationSession = {
+    inquiry_id: inquiryId,
+    session_token: sessionToken,
+    provider: identity.name,
+    mode: identity.mode
+  };
+  if (identity.mode === 'hosted' && verificationUrl) {
+    session.verification_url = verificationUrl;
+  }
+
+  console.log(`✅ Identity verification started for buyer ${buyer.buyer_reference_id} with ${identity.name}: ${inquiryId}`);
+  return session;
+};
+
+/**
+ * Verification state for polling while the identity provider processes the buyer's inquiry
+ */
+export const getBuyerVerificationStatus = (buyer: BuyerAccount): BuyerVerificationStatusResponse => {
+  return {
+    verification_status: buyer.verification_status,
+    inquiry_id: buyer.verification_inquiry_id,
+    verification_provider: buyer.verification_provider,
+    verification_started_at: buyer.verification_started_at,
+    verified_at: buyer.verified_at,
+    verification_expires_at: buyer.verification_expires_at,
+    can_start_verification: canStartVerification(buyer),
+    last_updated: buyer.updated_at
+  };
+};
+
+// =============================================
+// EVENT PROCESSING
+// =============================================
+
+// Approved inquiry: store encrypted data, issue the credential, mark verified, notify the buyer
+const completeVerification = async (
+  provider: IdentityProvider,
+  buyer: BuyerAccount,
+  inquiryId: string
+): Promise<IdentityEventOutcome> => {
+  const driverLicense = await provider.getDriverLicenseData(inquiryId);
+  if (!driverLicense) {
+    // Completed but no approved decision yet - wait for the provider's approval / decline
+    if (buyer.verification_status !== 'verified' && buyer.verification_status !== 'pending') {
+      await setBuyerVerificationStatus(buyer.id, 'pending');
+    }
+    return 'pending';
+  }
+
+  await issueBuyerCredential(buyer, { driver_license: driverLicense, persona_session_id: inquiryId }, provider.name);
+  await setBuyerVerificationStatus(buyer.id, 'verified');
+
+  // The buyer is verified either way; a failed notification must not make the provider redeliver
+  try {
+    const email = await getUserEmail(buyer.auth_id);
+    if (email) {
+      await sendBuyerVerificationComplete(email, buyer.first_name || driverLicense.full_name.first_name);
+    }
+  } catch (error) {
+    console.error(`❌ Failed to send verification email to buyer ${buyer.buyer_reference_id}:`, error);
+  }
+
+  return 'verified';
+};
+
+/**
+ * Apply an identity provider event to the buyer it references
+ * The buyer is found by the echoed buyer ID, else by the inquiry stored on the account
+ * Unknown buyers and events without a decision are acknowledged as 'ignored' so the provider stops retrying
+ */
+export const processIdentityEvent = async (
+  provider: IdentityProvider,
+  event: IdentityVerificationEvent
+): Promise<IdentityEventResult> => {
+  const result: IdentityEventResult = {
+    provider: provider.name,
+    event_name: event.name,
+    inquiry_id: event.inquiry_id,
+    outcome: 'ignored'
+  };
+
+  if (!event.decision) {
+    return result;
+  }
+
+  try {
+    const buyer = event.reference_id && UUID_PATTERN.test(event.reference_id)
+      ? await getBuyerById(event.reference_id)
+      : await getBuyerByVerificationInquiry(provider.name, event.inquiry_id);
+    if (!buyer) {
+      console.warn(`⚠️ ${provider.name} ${event.name} for inquiry ${event.inquiry_id} references no buyer (${event.reference_id ?? 'none'})`);
+      return result;
+    }
+    result.buyer_id = buyer.id;
+
+    const secrets = await getBuyerSecrets(buyer.id);
+    const isCurrentInquiry = secrets?.verification_session === event.inquiry_id
+      && (secrets.verification_provider ?? 'persona') === provider.name;
+    const isVerified = buyer.verification_status === 'verified';
+
+    if (event.decision === 'declined') {
+      // A verified buyer keeps their credential - the decline belongs to a stale or abandoned inquiry
+      if (isVerified || buyer.verification_status === 'rejected') {
+        result.outcome = 'duplicate';
+      } else {
+        await setBuyerVerificationStatus(buyer.id, 'rejected');
+        result.outcome = 'rejected';
+      }
+    } else if (isVerified && isCurrentInquiry) {
+      result.outcome = 'duplicate';
+    } else {
+      result.outcome = await completeVerification(provider, buyer, event.inquiry_id);
+    }
+
+    const statusByOutcome: Partial<Record<IdentityEventOutcome, BuyerVerificationStatus>> = {
+      verified: 'verified',
+      rejected: 'rejected',
+      pending: isVerified ? 'verified' : 'pending'
+    };
+    result.verification_status = statusByOutcome[result.outcome] ?? buyer.verification_status;
+    console.log(`✅ ${provider.name} ${event.name} for buyer ${buyer.buyer_reference_id}: ${result.outcome}`);
+    return result;
+
+  } catch (error) {
+    console.error(`❌ Failed to process ${provider.name} event:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new Error(`Identity event processing failed: ${errorMessage}`);
+  }
+};
@@ -0,0 +1,99 @@
+import { getClient } from './connection.js';
+import type {
+  AnchorBatch,
+  BlockchainInfo,
+  MerkleProof
+} from '@ca2achain/shared';
+
+interface AnchorBatchMember {
+  compliance_event_id: string;
+  merkle_proof: MerkleProof;
+}
+
+/**
+ * Create a Merkle batch and attach its compliance events (with inclusion proofs) atomically
+ */
+export const createAnchorBatch = async (
+  merkleRoot: string,
+  members: AnchorBatchMember[]
+): Promise<string> => {
+  const { data, error } = await getClient()
+    .rpc('create_anchor_batch', {
+      p_merkle_root: merkleRoot,
+      p_leaf_count: members.length,
+      p_proofs: members
+    });
+
+  if (error) throw new Error(`Failed to create anchor batch: ${error.message}`);
+  return data;
+};
+
+/**
+ * Get anchor batch by ID
+ */
+export const getAnchorBatchById = async (id: string): Promise<AnchorBatch | null> => {
+  const { data: batch, error } = await getClient()
+    .from('anchor_batches')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to get anchor batch: ${error.message}`);
+  }
+  return batch || null;
+};
+
+/**
+ * Record a broadcast batch root transaction (member events -> submitted)
+ */
+export const markAnchorBatchSubmitted = async (
+  id: string,
+  blockchainInfo: BlockchainInfo
+): Promise<boolean> => {
+  const { data, error } = await getClient()
+    .rpc('mark_anchor_batch_submitted', {
+      p_batch_id: id,
+      p_blockchain_info: blockchainInfo
+    });
+
+  if (error) throw new Error(`Failed to mark anchor batch submitted: ${error.message}`);
+  return !!data;
+};
+
+/**
+ * Record the confirmed batch receipt on the batch and all member events (-> confirmed)
+ */
+export const confirmAnchorBatch = async (
+  id: string,
+  blockchainInfo: BlockchainInfo
+): Promise<number> => {
+  const { data, error } = await getClient()
+    .rpc('confirm_anchor_batch', {
+      p_batch_id: id,
+      p_blockchain_info: blockchainInfo
+    });
+
+  if (error) throw new Error(`Failed to confirm anchor batch: ${error.message}`);
+  return data || 0;
+};
+
+/**
+ * Record a failed batch attempt on all member events
+ * Pass retryAt = null when retries are exhausted (-> failed)
+ */
+export const recordAnchorBatchFailure = async (
+  id: string,
+  errorMessage: string,
+  retryAt: Date | null
+): Promise<number> => {
+  const { data, error } = await getClient()
+    .rpc('record_anchor_batch_failure', {
+      p_batch_id: id,
+      p_error: errorMessage,
+      p_retry_at: retryAt?.toISOString() ?? null
+    });
+
+  if (error) throw new Error(`Failed to record anchor batch failure: ${error.message}`);
+  return data || 0;
+};
@@ -61,6 +61,24 @@ export const getBuyerById = async (id: string): Promise<BuyerAccount | null> =>
   return buyer || null;
 };
 
+/**
+ * Get the buyer whose latest identity verification inquiry this is
+ * For providers whose webhooks do not echo the buyer ID back
+ */
+export const getBuyerByVerificationInquiry = async (provider: string, inquiryId: string): Promise<BuyerAccount | null> => {
+  const { data: buyer, error } = await getClient()
+    .from('buyer_accounts')
+    .select('*')
+    .eq('verification_provider', provider)
+    .eq('verification_inquiry_id', inquiryId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to get buyer by verification inquiry: ${error.message}`);
+  }
+  return buyer || null;
+};
+
 /**
  * Update buyer account (partial update with object in memory)
  */
@@ -107,6 +125,42 @@ export const setBuyerVerificationStatus = async (
   return true;
 };
 
+/**
+ * Expire verified buyers whose credential window has passed
+ * Rows are claimed atomically; the status change revokes their credentials in the database
+ */
+export const expireBuyerVerifications = async (
+  validityDays: number,
+  limit: number
+): Promise<BuyerAccount[]> => {
+  const { data, error } = await getClient()
+    .rpc('expire_buyer_verifications', {
+      p_validity_days: validityDays,
+      p_limit: limit
+    });
+
+  if (error) throw new Error(`Failed to expire buyer verifications: ${error.message}`);
+  return data || [];
+};
+
+/**
+ * Claim verified buyers due a renewal reminder within `days` of expiry
+ * Each buyer is claimed once per reminder window (renewal_reminder_days)
+ */
+export const claimRenewalReminders = async (
+  days: number,
+  limit: number
+): Promise<BuyerAccount[]> => {
+  const { data, error } = await getClient()
+    .rpc('claim_renewal_reminders', {
+      p_days: days,
+      p_limit: limit
+    });
+
+  if (error) throw new Error(`Failed to claim renewal reminders: ${error.message}`);
+  return data || [];
+};
+
 /**
  * Delete buyer account (CCPA compliance)
  */
@@ -1,30 +1,29 @@
 import { getClient } from './connection.js';
-import type { 
-  BuyerSecrets,
-  EncryptedPersonaData,
-  EncryptedPrivadoCredential
-} from '@ca2achain/shared';
+import type { BuyerSecrets } from '@ca2achain/shared';
 
 /**
- * Create buyer secrets (encrypted PII storage)
- * Called after Persona verification + Privado credential issuance
+ * Store buyer secrets (encrypted PII storage)
+ * Called after identity verification + Privado credential issuance
+ * Re-verification replaces the previous row (one set of secrets per buyer)
  */
 export const createBuyerSecrets = async (
   buyerId: string,
-  encryptedPersonaData: EncryptedPersonaData,
-  encryptedPrivadoCredential: EncryptedPrivadoCredential,
+  encryptedPersonaData: string,
+  encryptedPrivadoCredential: string,
   encryptionKeyId: string,
-  personaVerificationSession?: string
+  verificationSession?: string,
+  verificationProvider?: string
 ): Promise<boolean> => {
   const { error } = await getClient()
     .from('buyer_secrets')
-    .insert({
+    .upsert({
       buyer_id: buyerId,
       encrypted_persona_data: encryptedPersonaData,
-      encrypted_privado_credential: JSON.stringify(encryptedPrivadoCredential),
+      encrypted_privado_credential: encryptedPrivadoCredential,
       encryption_key_id: encryptionKeyId,
-      persona_verification_session: personaVerificationSession
-    });
+      verification_session: verificationSession,
+      verification_provider: verificationProvider
+    }, { onConflict: 'buyer_id' });
     
   if (error) throw new Error(`Failed to create buyer secrets: ${error.message}`);
   return true;
@@ -57,7 +57,7 @@ export const deleteBuyerData = async (buyerId: string): Promise<BuyerDataDeletio
       console.error('Failed to anonymize payments:', error);
     }
     
-    // 4. Delete buyer_accounts (account removal)
+    // 4. Delete buyer_accounts (account removal - a trigger revokes the buyer's credentials)
     try {
       await deleteBuyerAccount(buyerId);
       summary.accountDeleted = true;
@@ -1,22 +1,27 @@
 import { getClient } from './connection.js';
 import type { 
-  ComplianceEvent 
+  BlockchainInfo,
+  ComplianceEvent,
+  ProductCategory
 } from '@ca2achain/shared';
 
 interface ComplianceEventData {
+  id?: string; // Pre-generated so verification_data can reference its own event ID
   buyer_id: string;
   dealer_id: string;
   buyer_reference_id: string;
   dealer_reference_id: string;
   verification_data: Record<string, any>;
   age_verified: boolean;
+  age_threshold: number; // Minimum age applied under the age policy
+  product_category: ProductCategory; // From the verification's transaction_context
   address_verified: boolean;
   blockchain_info?: Record<string, any>;
 }
 
 /**
  * Create compliance event (immutable verification record)
- * Created with complete data including blockchain info if available
+ * Starts with blockchain_status 'pending' - the anchor worker writes blockchain_info later
  */
 export const createComplianceEvent = async (
   data: ComplianceEventData
@@ -24,12 +29,15 @@ export const createComplianceEvent = async (
   const { data: event, error } = await getClient()
     .from('compliance_events')
     .insert({
+      ...(data.id && { id: data.id }),
       buyer_id: data.buyer_id,
       dealer_id: data.dealer_id,
       buyer_reference_id: data.buyer_reference_id,
       dealer_reference_id: data.dealer_reference_id,
       verification_data: data.verification_data,
       age_verified: data.age_verified,
+      age_threshold: data.age_threshold,
+      product_category: data.product_category,
       address_verified: data.address_verified,
       blockchain_info: data.blockchain_info
     })
@@ -40,6 +48,47 @@ export const createComplianceEvent = async (
   return event;
 };
 
+/**
+ * Record confirmed blockchain anchoring result for a compliance event (blockchain_status -> confirmed)
+ * Goes through update_compliance_event_blockchain so only blockchain fields are mutable
+ */
+export const updateComplianceEventBlockchain = async (
+  id: string,
+  blockchainInfo: BlockchainInfo
+): Promise<boolean> => {
+  const { data, error } = await getClient()
+    .rpc('update_compliance_event_blockchain', {
+      p_compliance_event_id: id,
+      p_blockchain_info: blockchainInfo
+    });
+    
+  if (error) throw new Error(`Failed to update compliance event blockchain info: ${error.message}`);
+  return !!data;
+};
+
+// =============================================
+// BLOCKCHAIN ANCHOR QUEUE (OUTBOX)
+// =============================================
+
+/**
+ * Claim compliance events that are due for anchoring
+ * The lease keeps other workers off these events until it expires
+ * Batch creation, submission and confirmation live in anchor-batches.ts
+ */
+export const claimComplianceAnchorJobs = async (
+  limit: number,
+  leaseSeconds: number
+): Promise<ComplianceEvent[]> => {
+  const { data, error } = await getClient()
+    .rpc('claim_compliance_anchor_jobs', {
+      p_limit: limit,
+      p_lease_seconds: leaseSeconds
+    });
+    
+  if (error) throw new Error(`Failed to claim compliance anchor jobs: ${error.message}`);
+  return data || [];
+};
+
 /**
  * Get compliance event by ID
  */
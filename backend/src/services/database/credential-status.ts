@@ -0,0 +1,105 @@
+import { getClient } from './connection.js';
+import type {
+  CredentialStatusListRecord,
+  CredentialStatusRecord,
+  RevocationReason
+} from '@ca2achain/shared';
+
+/**
+ * Allocate a random status list index for a newly issued credential
+ */
+export const allocateCredentialStatus = async (
+  credentialId: string,
+  buyerReferenceId: string
+): Promise<{ statusListId: string; statusListIndex: number }> => {
+  const { data, error } = await getClient()
+    .rpc('allocate_credential_status', {
+      p_credential_id: credentialId,
+      p_buyer_reference_id: buyerReferenceId
+    })
+    .single();
+
+  if (error) throw new Error(`Failed to allocate credential status: ${error.message}`);
+  const { list_id, list_index } = data as { list_id: string; list_index: number };
+  return { statusListId: list_id, statusListIndex: list_index };
+};
+
+/**
+ * Get the status entry for a credential
+ */
+export const getCredentialStatus = async (credentialId: string): Promise<CredentialStatusRecord | null> => {
+  const { data: status, error } = await getClient()
+    .from('credential_statuses')
+    .select('*')
+    .eq('credential_id', credentialId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to get credential status: ${error.message}`);
+  }
+  return status || null;
+};
+
+/**
+ * Revoke one credential (no-op if already revoked)
+ */
+export const revokeCredential = async (
+  credentialId: string,
+  reason: RevocationReason
+): Promise<boolean> => {
+  const { data, error } = await getClient()
+    .rpc('revoke_credential', {
+      p_credential_id: credentialId,
+      p_reason: reason
+    });
+
+  if (error) throw new Error(`Failed to revoke credential: ${error.message}`);
+  return !!data;
+};
+
+/**
+ * Revoke every outstanding credential issued to a buyer
+ * Expiry, rejection and account deletion are handled by a buyer_accounts trigger
+ */
+export const revokeBuyerCredentials = async (
+  buyerReferenceId: string,
+  reason: RevocationReason
+): Promise<number> => {
+  const { data, error } = await getClient()
+    .rpc('revoke_buyer_credentials', {
+      p_buyer_reference_id: buyerReferenceId,
+      p_reason: reason
+    });
+
+  if (error) throw new Error(`Failed to revoke buyer credentials: ${error.message}`);
+  return data || 0;
+};
+
+/**
+ * Get status list by ID
+ */
+export const getCredentialStatusList = async (id: string): Promise<CredentialStatusListRecord | null> => {
+  const { data: statusList, error } = await getClient()
+    .from('credential_status_lists')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to get credential status list: ${error.message}`);
+  }
+  return statusList || null;
+};
+
+/**
+ * Revoked indexes of a status list (for building the published bitstring)
+ */
+export const getRevokedStatusIndexes = async (statusListId: string): Promise<number[]> => {
+  const { data, error } = await getClient()
+    .rpc('get_revoked_status_indexes', {
+      p_status_list_id: statusListId
+    });
+
+  if (error) throw new Error(`Failed to get revoked status indexes: ${error.message}`);
+  return data || [];
+};
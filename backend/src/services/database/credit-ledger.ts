@@ -0,0 +1,215 @@
+import { getClient } from './connection.js';
+import type { CreditLedgerEntry, CreditLedgerEntryType } from '@ca2achain/shared';
+
+// Outcome of consume_dealer_credit
+export type CreditConsumptionStatus = 'consumed' | 'duplicate' | 'insufficient' | 'expired' | 'not_found';
+
+export interface CreditConsumption {
+  status: CreditConsumptionStatus;
+  entry_id: string | null; // The consumption entry ('consumed', or the original one for 'duplicate')
+  balance: number;
+}
+
+export interface CreditReservation {
+  status: CreditConsumptionStatus;
+  reservation_id: string | null; // Set for 'consumed' and 'duplicate'
+  balance: number;
+}
+
+/**
+ * Dealer credit balance (sum of the dealer's ledger entries)
+ */
+export const getDealerCreditBalance = async (dealerId: string): Promise<number> => {
+  const { data, error } = await getClient()
+    .rpc('dealer_credit_balance', { p_dealer_id: dealerId });
+
+  if (error) throw new Error(`Failed to get dealer credit balance: ${error.message}`);
+  return data ?? 0;
+};
+
+/**
+ * Consume one credit atomically
+ * Idempotent on idempotencyKey: a repeated key returns 'duplicate' without charging again
+ */
+export const consumeDealerCredit = async (
+  dealerId: string,
+  idempotencyKey: string,
+  complianceEventId?: string,
+  description?: string,
+  requestId?: string
+): Promise<CreditConsumption> => {
+  const { data, error } = await getClient()
+    .rpc('consume_dealer_credit', {
+      p_dealer_id: dealerId,
+      p_idempotency_key: idempotencyKey,
+      p_compliance_event_id: complianceEventId ?? null,
+      p_description: description ?? null,
+      p_request_id: requestId ?? null
+    })
+    .single();
+
+  if (error) throw new Error(`Failed to consume dealer credit: ${error.message}`);
+  return data as CreditConsumption;
+};
+
+/**
+ * Return a consumed credit (the verification it paid for failed)
+ * Each consumption is refunded at most once; returns the refund entry ID
+ */
+export const refundDealerCredit = async (
+  consumptionId: string,
+  description?: string
+): Promise<string | null> => {
+  const { data, error } = await getClient()
+    .rpc('refund_dealer_credit', {
+      p_consumption_id: consumptionId,
+      p_description: description ?? null
+    });
+
+  if (error) throw new Error(`Failed to refund dealer credit: ${error.message}`);
+  return data ?? null;
+};
+
+/**
+ * Reserve one credit for an API request (spent in the ledger until released)
+ * Idempotent per dealer and request ID
+ */
+export const reserveDealerCredit = async (
+  dealerId: string,
+  requestId: string,
+  complianceEventId?: string
+): Promise<CreditReservation> => {
+  const { data, error } = await getClient()
+    .rpc('reserve_dealer_credit', {
+      p_dealer_id: dealerId,
+      p_request_id: requestId,
+      p_compliance_event_id: complianceEventId ?? null
+    })
+    .single();
+
+  if (error) throw new Error(`Failed to reserve dealer credit: ${error.message}`);
+  return data as CreditReservation;
+};
+
+/**
+ * Keep a reserved credit spent (returns false if the reservation was already settled)
+ */
+export const commitCreditReservation = async (
+  reservationId: string,
+  outcome: string,
+  complianceEventId?: string
+): Promise<boolean> => {
+  const { data, error } = await getClient()
+    .rpc('commit_credit_reservation', {
+      p_reservation_id: reservationId,
+      p_outcome: outcome,
+      p_compliance_event_id: complianceEventId ?? null
+    });
+
+  if (error) throw new Error(`Failed to commit credit reservation: ${error.message}`);
+  return data === true;
+};
+
+/**
+ * Refund a reserved credit; returns the refund entry ID (null if it was already committed)
+ */
+export const releaseCreditReservation = async (
+  reservationId: string,
+  outcome: string
+): Promise<string | null> => {
+  const { data, error } = await getClient()
+    .rpc('release_credit_reservation', {
+      p_reservation_id: reservationId,
+      p_outcome: outcome
+    });
+
+  if (error) throw new Error(`Failed to release credit reservation: ${error.message}`);
+  return data ?? null;
+};
+
+/**
+ * Refund reservations still 'reserved' after olderThanSeconds (the request's process crashed
+ * before settling them); returns how many were released
+ */
+export const releaseAbandonedCreditReservations = async (
+  olderThanSeconds: number,
+  limit: number
+): Promise<number> => {
+  const { data, error } = await getClient()
+    .rpc('release_abandoned_credit_reservations', {
+      p_older_than_seconds: olderThanSeconds,
+      p_limit: limit
+    });
+
+  if (error) throw new Error(`Failed to release abandoned credit reservations: ${error.message}`);
+  return data ?? 0;
+};
+
+/**
+ * Grant credits (subscription setup, credit purchase)
+ * Idempotent on idempotencyKey; returns the grant entry ID
+ */
+export const grantDealerCredits = async (
+  dealerId: string,
+  amount: number,
+  idempotencyKey: string,
+  description?: string,
+  paymentId?: string
+): Promise<string> => {
+  const { data, error } = await getClient()
+    .rpc('grant_dealer_credits', {
+      p_dealer_id: dealerId,
+      p_amount: amount,
+      p_idempotency_key: idempotencyKey,
+      p_description: description ?? null,
+      p_payment_id: paymentId ?? null
+    });
+
+  if (error) throw new Error(`Failed to grant dealer credits: ${error.message}`);
+  return data;
+};
+
+/**
+ * Grant a plan upgrade's credits for the current billing period
+ * Only what the plan credits already granted in the period don't cover (a repeated upgrade, or
+ * one back to a tier already reached, grants nothing); returns the credits granted
+ */
+export const grantDealerPlanUpgrade = async (
+  dealerId: string,
+  monthlyCredits: number,
+  description?: string
+): Promise<number> => {
+  const { data, error } = await getClient()
+    .rpc('grant_dealer_plan_upgrade', {
+      p_dealer_id: dealerId,
+      p_monthly_credits: monthlyCredits,
+      p_description: description ?? null
+    });
+
+  if (error) throw new Error(`Failed to grant plan upgrade credits: ${error.message}`);
+  return data ?? 0;
+};
+
+/**
+ * List a dealer's ledger entries (newest first) with the total count for pagination
+ */
+export const listCreditLedgerEntries = async (
+  dealerId: string,
+  options: { limit: number; offset: number; entryType?: CreditLedgerEntryType }
+): Promise<{ entries: CreditLedgerEntry[]; total: number }> => {
+  let query = getClient()
+    .from('credit_ledger')
+    .select('*', { count: 'exact' })
+    .eq('dealer_id', dealerId);
+
+  if (options.entryType) {
+    query = query.eq('entry_type', options.entryType);
+  }
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(options.offset, options.offset + options.limit - 1);
+
+  if (error) throw new Error(`Failed to list credit ledger entries: ${error.message}`);
+  return { entries: data || [], total: count ?? 0 };
+};
@@ -1,4 +1,5 @@
 import { getClient } from './connection.js';
+import { grantDealerCredits } from './credit-ledger.js';
 import type { DealerRegistration, DealerProfileUpdate, DealerAccount } from '@ca2achain/shared';
 
 // Create new dealer account - NO payment/subscription/API key
@@ -15,12 +16,8 @@ export const createDealer = async (
       business_address: data.business_address,
       business_phone: data.business_phone,
       // All payment/subscription fields are NULL by default
-      api_key_hash: null,
       subscription_tier: null,
-      subscription_status: null,
-      credits_purchased: null,
-      additional_credits_purchased: null,
-      credits_used: null
+      subscription_status: null
     })
     .select()
     .single();
@@ -51,12 +48,30 @@ export const getDealerByAuth = async (authId: string): Promise<DealerAccount | n
   return dealer as DealerAccount;
 };
 
-// Get dealer by API key hash
-export const getDealerByApiKey = async (apiKeyHash: string): Promise<DealerAccount | null> => {
+// Get dealer by ID
+export const getDealerById = async (dealerId: string): Promise<DealerAccount | null> => {
   const { data: dealer, error } = await getClient()
     .from('dealer_accounts')
     .select('*')
-    .eq('api_key_hash', apiKeyHash)
+    .eq('id', dealerId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null;
+    }
+    throw error;
+  }
+
+  return dealer as DealerAccount;
+};
+
+// Get dealer by linked Stripe subscription
+export const getDealerByStripeSubscription = async (subscriptionId: string): Promise<DealerAccount | null> => {
+  const { data: dealer, error } = await getClient()
+    .from('dealer_accounts')
+    .select('*')
+    .eq('stripe_subscription_id', subscriptionId)
     .single();
 
   if (error) {
@@ -72,7 +87,7 @@ export const getDealerByApiKey = async (apiKeyHash: string): Promise<DealerAccou
 // Update dealer account
 export const updateDealerAccount = async (
   dealerId: string, 
-  updates: Partial<DealerProfileUpdate>
+  updates: Partial<DealerProfileUpdate & Pick<DealerAccount, 'subscription_tier'>>
 ): Promise<DealerAccount> => {
   const { data: dealer, error } = await getClient()
     .from('dealer_accounts')
@@ -88,30 +103,26 @@ export const updateDealerAccount = async (
   return dealer as DealerAccount;
 };
 
-// Setup subscription (future implementation - creates API key)
+// Monthly verification credits included in each subscription tier
+export const TIER_MONTHLY_CREDITS: Record<number, number> = {
+  1: 100,   // Tier 1: 100 verifications/month
+  2: 500,   // Tier 2: 500 verifications/month
+  3: 10000  // Tier 3: Unlimited (large number)
+};
+
+// Setup subscription (future implementation - the route creates the first API key)
+// The tier's monthly credits are granted once per dealer (setup:<dealerId>)
 export const setupDealerSubscription = async (
   dealerId: string,
-  subscriptionTier: number,
-  apiKeyHash: string
+  subscriptionTier: number
 ): Promise<DealerAccount> => {
-  // Calculate credits based on tier
-  const tierCredits = {
-    1: 100,   // Tier 1: 100 verifications/month
-    2: 500,   // Tier 2: 500 verifications/month
-    3: 10000  // Tier 3: Unlimited (large number)
-  };
-
   const { data: dealer, error } = await getClient()
     .from('dealer_accounts')
     .update({
       subscription_tier: subscriptionTier,
       subscription_status: 'active',
-      api_key_hash: apiKeyHash,
-      api_key_created_at: new Date().toISOString(),
-      credits_purchased: tierCredits[subscriptionTier as keyof typeof tierCredits],
-      additional_credits_purchased: 0,
-      credits_used: 0,
       billing_date: new Date().toISOString().split('T')[0],
+      period_plan_credits: TIER_MONTHLY_CREDITS[subscriptionTier],
       updated_at: new Date().toISOString()
     })
     .eq('id', dealerId)
@@ -119,66 +130,79 @@ export const setupDealerSubscription = async (
     .single();
 
   if (error) throw error;
-  return dealer as DealerAccount;
-};
 
-// Use dealer credit (returns boolean for success)
-export const useDealerCredit = async (dealerId: string): Promise<boolean> => {
-  try {
-    const { data: dealer, error: getError } = await getClient()
-      .from('dealer_accounts')
-      .select('credits_purchased, additional_credits_purchased, credits_used')
-      .eq('id', dealerId)
-      .single();
-
-    if (getError) throw getError;
-    
-    // Check if credits are null (no subscription)
-    if (dealer.credits_purchased === null) return false;
-
-    const availableCredits = (dealer.credits_purchased + (dealer.additional_credits_purchased || 0)) - dealer.credits_used;
-    
-    if (availableCredits <= 0) return false;
-
-    const { error: updateError } = await getClient()
-      .from('dealer_accounts')
-      .update({ 
-        credits_used: dealer.credits_used + 1,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', dealerId);
-
-    if (updateError) throw updateError;
-    return true;
-  } catch (error) {
-    console.error('Use dealer credit error:', error);
-    return false;
-  }
+  await grantDealerCredits(
+    dealerId,
+    TIER_MONTHLY_CREDITS[subscriptionTier],
+    `setup:${dealerId}`,
+    `Tier ${subscriptionTier} subscription credits`
+  );
+
+  return dealer as DealerAccount;
 };
 
-// Add dealer credits
-export const addDealerCredits = async (
-  dealerId: string, 
-  amount: number
+// Update subscription and billing fields (Stripe webhooks)
+export const updateDealerBilling = async (
+  dealerId: string,
+  updates: Partial<Pick<DealerAccount,
+    'subscription_tier' | 'subscription_status' | 'stripe_subscription_id' | 'payment_info' |
+    'billing_date'
+  >>
 ): Promise<DealerAccount> => {
-  const { data: dealer, error: getError } = await getClient()
+  const { data: dealer, error } = await getClient()
     .from('dealer_accounts')
-    .select('additional_credits_purchased')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString()
+    })
     .eq('id', dealerId)
+    .select()
     .single();
 
-  if (getError) throw getError;
+  if (error) throw error;
+  return dealer as DealerAccount;
+};
 
-  const { data: updatedDealer, error: updateError } = await getClient()
+// Apply a Stripe subscription event's billing updates unless a newer subscription event was
+// already applied (Stripe doesn't deliver events in order)
+// Returns null when the event is older than the last one applied
+export const applyDealerSubscriptionEvent = async (
+  dealerId: string,
+  eventCreatedAt: string,
+  updates: Parameters<typeof updateDealerBilling>[1]
+): Promise<DealerAccount | null> => {
+  const { data: dealers, error } = await getClient()
     .from('dealer_accounts')
-    .update({ 
-      additional_credits_purchased: (dealer.additional_credits_purchased || 0) + amount,
+    .update({
+      ...updates,
+      stripe_subscription_event_at: eventCreatedAt,
       updated_at: new Date().toISOString()
     })
     .eq('id', dealerId)
-    .select()
-    .single();
+    .or(`stripe_subscription_event_at.is.null,stripe_subscription_event_at.lte."${eventCreatedAt}"`)
+    .select();
 
-  if (updateError) throw updateError;
-  return updatedDealer as DealerAccount;
-};
\ No newline at end of file
+  if (error) throw error;
+  return (dealers?.[0] as DealerAccount | undefined) ?? null;
+};
+
+// Start the billing period paid by an invoice: unused credits expire and the tier's monthly
+// credits are granted in the ledger (linked to the invoice payment)
+// Returns false when the dealer is already in this or a later period
+export const startDealerBillingPeriod = async (
+  dealerId: string,
+  periodEnd: string,
+  credits: number,
+  paymentId?: string
+): Promise<boolean> => {
+  const { data, error } = await getClient()
+    .rpc('start_dealer_billing_period', {
+      p_dealer_id: dealerId,
+      p_period_end: periodEnd,
+      p_credits: credits,
+      p_payment_id: paymentId ?? null
+    });
+
+  if (error) throw error;
+  return data === true;
+};
@@ -0,0 +1,164 @@
+import { getClient } from './connection.js';
+import type { ApiKeyScope, DealerAccount, DealerApiKey } from '@ca2achain/shared';
+
+// Columns returned to dealers (never the hash)
+const API_KEY_COLUMNS = 'id, dealer_id, label, key_prefix, scopes, created_at, last_used_at, expires_at, revoked_at, rotated_to_key_id';
+
+// Active = not revoked and not past its expiry (rotated keys stay active for their grace period)
+export const isApiKeyActive = (key: Pick<DealerApiKey, 'revoked_at' | 'expires_at'>, now = new Date()): boolean => {
+  return !key.revoked_at && (!key.expires_at || new Date(key.expires_at) > now);
+};
+
+// Create an API key (the caller generates the key and shows it once)
+export const createDealerApiKey = async (
+  dealerId: string,
+  data: {
+    label: string;
+    scopes: ApiKeyScope[];
+    keyHash: string;
+    keyPrefix: string;
+    expiresAt?: string;
+  }
+): Promise<DealerApiKey> => {
+  const { data: key, error } = await getClient()
+    .from('dealer_api_keys')
+    .insert({
+      dealer_id: dealerId,
+      label: data.label,
+      scopes: data.scopes,
+      key_hash: data.keyHash,
+      key_prefix: data.keyPrefix,
+      expires_at: data.expiresAt ?? null
+    })
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error) throw new Error(`Failed to create dealer API key: ${error.message}`);
+  return key as DealerApiKey;
+};
+
+// List a dealer's API keys, newest first (revoked and expired keys included)
+export const listDealerApiKeys = async (dealerId: string): Promise<DealerApiKey[]> => {
+  const { data: keys, error } = await getClient()
+    .from('dealer_api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('dealer_id', dealerId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(`Failed to list dealer API keys: ${error.message}`);
+  return (keys || []) as DealerApiKey[];
+};
+
+// Get one of a dealer's API keys
+export const getDealerApiKey = async (dealerId: string, keyId: string): Promise<DealerApiKey | null> => {
+  const { data: key, error } = await getClient()
+    .from('dealer_api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('dealer_id', dealerId)
+    .eq('id', keyId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null;
+    }
+    throw new Error(`Failed to get dealer API key: ${error.message}`);
+  }
+
+  return key as DealerApiKey;
+};
+
+// API key row with its dealer embedded (dealer_accounts is a to-one relation)
+type ApiKeyWithDealerRow = DealerApiKey & { dealer_accounts: DealerAccount };
+
+// Get an API key and its dealer by key hash (API authentication)
+export const getApiKeyByHash = async (
+  keyHash: string
+): Promise<{ key: DealerApiKey; dealer: DealerAccount } | null> => {
+  const { data, error } = await getClient()
+    .from('dealer_api_keys')
+    .select(`${API_KEY_COLUMNS}, dealer_accounts(*)`)
+    .eq('key_hash', keyHash)
+    .single<ApiKeyWithDealerRow>();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null;
+    }
+    throw new Error(`Failed to get API key by hash: ${error.message}`);
+  }
+
+  const { dealer_accounts: dealer, ...key } = data;
+  return { key, dealer };
+};
+
+// Update an API key's label or scopes
+export const updateDealerApiKey = async (
+  dealerId: string,
+  keyId: string,
+  updates: { label?: string; scopes?: ApiKeyScope[] }
+): Promise<DealerApiKey> => {
+  const { data: key, error } = await getClient()
+    .from('dealer_api_keys')
+    .update(updates)
+    .eq('dealer_id', dealerId)
+    .eq('id', keyId)
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error) throw new Error(`Failed to update dealer API key: ${error.message}`);
+  return key as DealerApiKey;
+};
+
+// Revoke an API key immediately (kept for the audit trail)
+export const revokeDealerApiKey = async (dealerId: string, keyId: string): Promise<DealerApiKey> => {
+  const { data: key, error } = await getClient()
+    .from('dealer_api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('dealer_id', dealerId)
+    .eq('id', keyId)
+    .is('revoked_at', null)
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error) throw new Error(`Failed to revoke dealer API key: ${error.message}`);
+  return key as DealerApiKey;
+};
+
+// Issue a replacement key; the old key works until the grace period ends
+// Returns null when the key can't be rotated (revoked, expired or already rotated)
+export const rotateDealerApiKey = async (
+  dealerId: string,
+  keyId: string,
+  newKeyHash: string,
+  newKeyPrefix: string,
+  gracePeriodSeconds: number
+): Promise<DealerApiKey | null> => {
+  const { data, error } = await getClient()
+    .rpc('rotate_dealer_api_key', {
+      p_key_id: keyId,
+      p_dealer_id: dealerId,
+      p_new_key_hash: newKeyHash,
+      p_new_key_prefix: newKeyPrefix,
+      p_grace_seconds: gracePeriodSeconds
+    });
+
+  if (error) throw new Error(`Failed to rotate dealer API key: ${error.message}`);
+  const rotated = (data || [])[0];
+  if (!rotated) return null;
+
+  const { key_hash, ...key } = rotated;
+  return key as DealerApiKey;
+};
+
+// Record API key use (best-effort, at most once a minute per key)
+export const touchApiKeyLastUsed = async (key: Pick<DealerApiKey, 'id' | 'last_used_at'>): Promise<void> => {
+  if (key.last_used_at && Date.now() - new Date(key.last_used_at).getTime() < 60 * 1000) return;
+
+  const { error } = await getClient()
+    .from('dealer_api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', key.id);
+
+  if (error) throw new Error(`Failed to update API key last used: ${error.message}`);
+};
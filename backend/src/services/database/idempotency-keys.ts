@@ -0,0 +1,94 @@
+import { getClient } from './connection.js';
+
+export type IdempotencyClaimOutcome = 'claimed' | 'replay' | 'mismatch' | 'in_progress';
+
+export interface IdempotencyClaim {
+  outcome: IdempotencyClaimOutcome;
+  response_status: number | null; // Stored response ('replay' only)
+  response_body: unknown;
+}
+
+/**
+ * Claim an idempotency key for a dealer request
+ * A completed key with the same fingerprint returns the stored response instead
+ */
+export const claimIdempotencyKey = async (
+  dealerId: string,
+  idempotencyKey: string,
+  request: { method: string; path: string; fingerprint: string; requestId: string },
+  ttlSeconds: number
+): Promise<IdempotencyClaim> => {
+  const { data, error } = await getClient()
+    .rpc('claim_idempotency_key', {
+      p_dealer_id: dealerId,
+      p_idempotency_key: idempotencyKey,
+      p_request_method: request.method,
+      p_request_path: request.path,
+      p_request_fingerprint: request.fingerprint,
+      p_request_id: request.requestId,
+      p_ttl_seconds: ttlSeconds
+    })
+    .single();
+
+  if (error) throw new Error(`Failed to claim idempotency key: ${error.message}`);
+  return data as IdempotencyClaim;
+};
+
+/**
+ * Store the response of a claimed key (replays return it until the key expires)
+ * Only the request holding the claim can complete it (a stale claim may have been taken over)
+ */
+export const completeIdempotencyKey = async (
+  dealerId: string,
+  idempotencyKey: string,
+  requestId: string,
+  responseStatus: number,
+  responseBody: unknown
+): Promise<boolean> => {
+  const { error } = await getClient()
+    .from('idempotency_keys')
+    .update({
+      status: 'completed',
+      response_status: responseStatus,
+      response_body: responseBody,
+      completed_at: new Date().toISOString()
+    })
+    .eq('dealer_id', dealerId)
+    .eq('idempotency_key', idempotencyKey)
+    .eq('request_id', requestId)
+    .eq('status', 'in_progress');
+
+  if (error) throw new Error(`Failed to complete idempotency key: ${error.message}`);
+  return true;
+};
+
+/**
+ * Drop a claimed key without storing a response (the request failed on our side - a retry runs again)
+ */
+export const releaseIdempotencyKey = async (
+  dealerId: string,
+  idempotencyKey: string,
+  requestId: string
+): Promise<boolean> => {
+  const { error } = await getClient()
+    .from('idempotency_keys')
+    .delete()
+    .eq('dealer_id', dealerId)
+    .eq('idempotency_key', idempotencyKey)
+    .eq('request_id', requestId)
+    .eq('status', 'in_progress');
+
+  if (error) throw new Error(`Failed to release idempotency key: ${error.message}`);
+  return true;
+};
+
+/**
+ * Delete keys past their TTL; returns how many were removed
+ */
+export const purgeExpiredIdempotencyKeys = async (limit: number): Promise<number> => {
+  const { data, error } = await getClient()
+    .rpc('purge_expired_idempotency_keys', { p_limit: limit });
+
+  if (error) throw new Error(`Failed to purge expired idempotency keys: ${error.message}`);
+  return data ?? 0;
+};
@@ -4,15 +4,23 @@ export * from './connection.js';
 // Buyer operations
 export * from './buyer-accounts.js';
 export * from './buyer-secrets.js';
+export * from './credential-status.js';
 
 // Dealer operations
 export * from './dealer-accounts.js';
+export * from './dealer-api-keys.js';
+export * from './credit-ledger.js';
 
 // Verification & compliance
 export * from './compliance-events.js';
+export * from './anchor-batches.js';
 
 // Payment operations
 export * from './payment-events.js';
+export * from './webhook-events.js';
+
+// Dealer API idempotency
+export * from './idempotency-keys.js';
 
 // Privacy & compliance
 export * from './ccpa-privacy.js';
\ No newline at end of file
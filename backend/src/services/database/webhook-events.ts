@@ -0,0 +1,62 @@
+import { getClient } from './connection.js';
+
+/**
+ * Claim a webhook event for processing (deduplication)
+ * Returns false when the event was already processed or is being processed elsewhere
+ */
+export const claimWebhookEvent = async (
+  provider: string,
+  eventId: string,
+  eventType: string
+): Promise<boolean> => {
+  const { data, error } = await getClient()
+    .rpc('claim_webhook_event', {
+      p_provider: provider,
+      p_event_id: eventId,
+      p_event_type: eventType
+    });
+
+  if (error) throw new Error(`Failed to claim webhook event: ${error.message}`);
+  return data === true;
+};
+
+/**
+ * Mark a claimed webhook event as processed (replays are acknowledged from now on)
+ */
+export const markWebhookEventProcessed = async (
+  provider: string,
+  eventId: string
+): Promise<boolean> => {
+  const { error } = await getClient()
+    .from('processed_webhook_events')
+    .update({
+      status: 'processed',
+      processed_at: new Date().toISOString()
+    })
+    .eq('provider', provider)
+    .eq('event_id', eventId);
+
+  if (error) throw new Error(`Failed to mark webhook event processed: ${error.message}`);
+  return true;
+};
+
+/**
+ * Record a failed attempt - the provider's retry can claim the event again
+ */
+export const markWebhookEventFailed = async (
+  provider: string,
+  eventId: string,
+  errorMessage: string
+): Promise<boolean> => {
+  const { error } = await getClient()
+    .from('processed_webhook_events')
+    .update({
+      status: 'failed',
+      last_error: errorMessage
+    })
+    .eq('provider', provider)
+    .eq('event_id', eventId);
+
+  if (error) throw new Error(`Failed to mark webhook event failed: ${error.message}`);
+  return true;
+};
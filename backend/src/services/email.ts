@@ -1,38 +1,19 @@
-import { Resend } from 'resend';
+import { getProviders } from './providers/index.js';
+import type { EmailMessage } from './providers/index.js';
 
-let resend: Resend | null = null;
-
-export const initResend = () => {
-  if (!process.env.RESEND_API_KEY) {
-    console.log('🧪 Resend: No API key provided, using mock email service');
-    return null;
-  }
-  
-  if (!resend) {
-    resend = new Resend(process.env.RESEND_API_KEY);
-    console.log('✅ Resend email service initialized');
-  }
-  return resend;
-};
-
-// Mock email sending when no API key
-const sendEmail = async (context: string, emailData?: any) => {
-  if (!process.env.RESEND_API_KEY) {
+// Sends through the email provider chosen at startup (Resend, or console output in development)
+const sendEmail = async (context: string, emailData: EmailMessage) => {
+  const { email } = getProviders();
+  if (email.standIn) {
     console.log(`🧪 Mock Email: ${context}`);
-    console.log('📧 Email data:', { to: emailData?.to, subject: emailData?.subject });
-    return { success: true, mock: true };
-  }
-  
-  if (!resend) {
-    resend = new Resend(process.env.RESEND_API_KEY);
   }
-  
+
   try {
-    const result = await resend.emails.send(emailData);
+    const result = await email.send(emailData);
     if (result.error) {
       throw result.error;
     }
-    return { success: true, data: result.data };
+    return result;
   } catch (error) {
     console.error(`Email sending failed for ${context}:`, error);
     return { success: false, error };
@@ -111,6 +92,43 @@ export const sendBuyerVerificationComplete = async (email: string, firstName?: s
   });
 };
 
+export const sendBuyerRenewalReminder = async (email: string, daysRemaining: number, expiresAt: string, firstName?: string) => {
+  const greeting = firstName ? `Hi ${firstName}` : 'Hello';
+  const expiryDate = new Date(expiresAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const remaining = daysRemaining === 1 ? '1 day' : `${daysRemaining} days`;
+
+  return await sendEmail(`${daysRemaining}-day renewal reminder to ${email}`, {
+    from: 'CA2AChain <noreply@ca2achain.com>',
+    to: email,
+    subject: `Your CA2AChain verification expires in ${remaining}`,
+    html: `
+      <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif; padding: 20px;">
+        <h2>${greeting},</h2>
+        <p>Your identity verification expires on <strong>${expiryDate}</strong> (in ${remaining}).</p>
+        <p>After it expires, dealers can no longer verify your age and address until you verify again.</p>
+        <p><a href="${process.env.FRONTEND_URL}/buyer/verify-identity">Renew your verification</a> - it only takes a few minutes.</p>
+      </div>
+    `
+  });
+};
+
+export const sendBuyerVerificationExpired = async (email: string, firstName?: string) => {
+  const greeting = firstName ? `Hi ${firstName}` : 'Hello';
+
+  return await sendEmail(`verification expired email to ${email}`, {
+    from: 'CA2AChain <noreply@ca2achain.com>',
+    to: email,
+    subject: 'Your CA2AChain verification has expired',
+    html: `
+      <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif; padding: 20px;">
+        <h2>${greeting},</h2>
+        <p>Your identity verification has expired, so dealers can no longer verify your age and address.</p>
+        <p><a href="${process.env.FRONTEND_URL}/buyer/verify-identity">Verify your identity again</a> to keep purchasing from participating dealers.</p>
+      </div>
+    `
+  });
+};
+
 export const sendBuyerDataDeletionConfirmation = async (email: string) => {
   return await sendEmail(`CCPA data deletion confirmation to ${email}`, {
     from: 'CA2AChain <noreply@ca2achain.com>',
@@ -1,10 +1,23 @@
 import crypto from 'crypto';
+import {
+  addressMatchCommitmentSchema,
+  ageCommitmentSchema,
+  canonicalize,
+  noticeAttestationSchema,
+  transactionLinkSchema
+} from '@ca2achain/shared';
 import type { 
+  Address,
+  ComplianceEvent,
   DriverLicenseData, 
   EncryptedPersonaData, 
   EncryptedPrivadoCredential,
-  HashReproducibilityData
+  EventCommitmentHashes,
+  EventCommitments,
+  HashReproducibilityData,
+  VerificationData
 } from '@ca2achain/shared';
+import { formatNormalizedAddress, normalizeStructuredAddress } from './address/index.js';
 
 // Import Supabase client for vault access
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
@@ -113,6 +126,11 @@ export const generateApiKey = (): string => {
   return `ca2a_${crypto.randomBytes(32).toString('hex')}`;
 };
 
+// Non-secret start of an API key, shown so dealers can tell their keys apart
+export const getApiKeyPrefix = (apiKey: string): string => {
+  return apiKey.slice(0, 13); // 'ca2a_' + 8 hex characters
+};
+
 // =============================================
 // BUYER SECRETS ENCRYPTION
 // =============================================
@@ -175,59 +193,171 @@ export const generateBuyerSecret = (buyerUuid: string): string => {
   return crypto.createHash('sha256').update(buyerUuid + salt).digest('hex');
 };
 
-// Normalize address for consistent hash generation
-export const normalizeAddress = (address: { street: string; city: string; state: string; zip_code: string }): string => {
-  // Normalize to: "123 MAIN ST, LOS ANGELES, CA, 90210"
-  const normalizedStreet = address.street.toUpperCase().trim();
-  const normalizedCity = address.city.toUpperCase().trim();
-  const normalizedState = address.state.toUpperCase().trim();
-  const normalizedZip = address.zip_code.replace(/[^0-9]/g, '').slice(0, 5); // First 5 digits only
-  
-  return `${normalizedStreet}, ${normalizedCity}, ${normalizedState}, ${normalizedZip}`;
+// Hash of the buyer's normalized address recorded in verification_data, which dealers can read.
+// Salted with the buyer secret so the address can't be confirmed by hashing guesses.
+export const generateBuyerAddressHash = (buyerSecret: string, normalizedBuyerAddress: string): string => {
+  return generateCommitmentHash({ buyer_secret: buyerSecret, normalized_buyer_address: normalizedBuyerAddress });
 };
 
-// Extract hash data from encrypted buyer secrets (for verification workflow)
+// Normalize address for consistent hash generation (USPS Publication 28 standardization)
+// "123 North Main Street Apt. 4B" -> "123 N MAIN ST APT 4B, LOS ANGELES, CA, 90210"
+export const normalizeAddress = (address: Pick<Address, 'street' | 'street_2' | 'city' | 'state' | 'zip_code'>): string => {
+  return formatNormalizedAddress(normalizeStructuredAddress(address));
+};
+
+// Rebuild hash data for a recorded compliance event (court reproduction / evidence export)
+// Only events recorded with canonical hashing (AB1263-2026.2) can be reproduced
 export const extractHashReproducibilityData = (
   buyerId: string,
-  buyerReferenceId: string,
   decryptedPersonaData: EncryptedPersonaData,
-  decryptedPrivadoCredential: EncryptedPrivadoCredential,
-  complianceEventId: string
+  complianceEvent: ComplianceEvent
 ): HashReproducibilityData => {
+  const verificationData = complianceEvent.verification_data as VerificationData;
+  if (verificationData.compliance_event?.version !== 'AB1263-2026.2') {
+    throw new Error(`Compliance event ${complianceEvent.id} predates canonical commitment hashing`);
+  }
+
+  const { compliance_event: event, zkp_verifications: zkp, legal_attestation: attestation } = verificationData;
+
+  // verification_data only holds a hash of the buyer's address - the address comes from buyer_secrets,
+  // which a re-verification with a different license replaces
   const buyerSecret = generateBuyerSecret(buyerId);
-  const normalizedAddress = normalizeAddress(decryptedPersonaData.driver_license.address);
-  
+  const normalizedBuyerAddress = normalizeAddress(decryptedPersonaData.driver_license.address);
+  if (generateBuyerAddressHash(buyerSecret, normalizedBuyerAddress) !== zkp.address_verification.verified_address_hash) {
+    throw new Error(`Buyer address changed since compliance event ${complianceEvent.id}`);
+  }
+
   return {
     buyer_id: buyerId,
-    buyer_reference_id: buyerReferenceId,
+    buyer_reference_id: event.buyer_reference,
     buyer_secret: buyerSecret,
+    dealer_reference_id: event.dealer_reference,
+    compliance_event_id: event.compliance_event_id,
+    verified_at_timestamp: event.timestamp,
     
     // Age commitment data
-    zkp_age_proof: JSON.stringify(decryptedPrivadoCredential.zkp_proofs.age_proof),
     date_of_birth: decryptedPersonaData.driver_license.date_of_birth,
-    age_verified: decryptedPrivadoCredential.verifiable_credential.credential_subject.age_over_18,
-    verified_at_timestamp: new Date().toISOString(),
+    zkp_age_proof_hash: zkp.age_verification.proof_hash,
+    age_verified: zkp.age_verification.verified,
+    age_threshold: zkp.age_verification.age_requirement?.age_threshold,
+    age_evaluation_date: zkp.age_verification.age_requirement?.evaluation_date,
     
     // Address commitment data
-    zkp_address_proof: JSON.stringify(decryptedPrivadoCredential.zkp_proofs.address_proof),
-    normalized_buyer_address: normalizedAddress,
-    address_verified: decryptedPrivadoCredential.verifiable_credential.credential_subject.address_verified,
+    normalized_buyer_address: normalizedBuyerAddress,
+    normalized_shipping_address: zkp.address_verification.normalized_shipping_address,
+    zkp_address_proof_hash: zkp.address_verification.proof_hash,
+    match_confidence: zkp.address_verification.confidence_score,
+    address_verified: zkp.address_verification.verified,
+    
+    // Notice attestation data
+    notice_version: attestation.notice_version,
+    ab1263_dealer_received_buyer_acceptance: attestation.ab1263_dealer_received_buyer_acceptance,
     
     // Extraction metadata
     extraction_timestamp: new Date().toISOString(),
-    compliance_event_id: complianceEventId,
   };
 };
 
+// Build the versioned commitment preimages of a compliance event
+// Parsing with the strict schemas guarantees exactly the published fields get hashed
+export const buildEventCommitments = (data: HashReproducibilityData): EventCommitments => {
+  // v2 records the age threshold and evaluation date; events from before age policies rebuild as v1
+  const ageCommitmentBase = {
+    compliance_event_id: data.compliance_event_id,
+    buyer_reference: data.buyer_reference_id,
+    buyer_secret: data.buyer_secret,
+    date_of_birth: data.date_of_birth,
+    zkp_age_proof_hash: data.zkp_age_proof_hash,
+    age_verified: data.age_verified,
+    verified_at_timestamp: data.verified_at_timestamp,
+  };
+  const ageCommitment = ageCommitmentSchema.parse(
+    data.age_threshold !== undefined
+      ? {
+          hash_schema: 'ca2achain.age-commitment.v2',
+          ...ageCommitmentBase,
+          age_threshold: data.age_threshold,
+          evaluation_date: data.age_evaluation_date,
+        }
+      : { hash_schema: 'ca2achain.age-commitment.v1', ...ageCommitmentBase }
+  );
+
+  const addressMatchCommitment = addressMatchCommitmentSchema.parse({
+    hash_schema: 'ca2achain.address-match-commitment.v1',
+    compliance_event_id: data.compliance_event_id,
+    buyer_reference: data.buyer_reference_id,
+    dealer_reference: data.dealer_reference_id,
+    normalized_buyer_address: data.normalized_buyer_address,
+    normalized_shipping_address: data.normalized_shipping_address,
+    zkp_address_proof_hash: data.zkp_address_proof_hash,
+    match_confidence: data.match_confidence,
+    address_match_verified: data.address_verified,
+    verified_at_timestamp: data.verified_at_timestamp,
+  });
+
+  const noticeAttestation = noticeAttestationSchema.parse({
+    hash_schema: 'ca2achain.notice-attestation.v1',
+    compliance_event_id: data.compliance_event_id,
+    dealer_reference: data.dealer_reference_id,
+    buyer_reference: data.buyer_reference_id,
+    notice_version: data.notice_version,
+    ab1263_dealer_received_buyer_acceptance: data.ab1263_dealer_received_buyer_acceptance,
+    verification_timestamp: data.verified_at_timestamp,
+  });
+
+  const transactionLink = transactionLinkSchema.parse({
+    hash_schema: 'ca2achain.transaction-link.v1',
+    compliance_event_id: data.compliance_event_id,
+    buyer_reference: data.buyer_reference_id,
+    dealer_reference: data.dealer_reference_id,
+    age_commitment_hash: generateCommitmentHash(ageCommitment),
+    address_match_commitment_hash: generateCommitmentHash(addressMatchCommitment),
+    attestation_hash: generateCommitmentHash(noticeAttestation),
+    verification_timestamp: data.verified_at_timestamp,
+  });
+
+  return {
+    age_commitment: ageCommitment,
+    address_match_commitment: addressMatchCommitment,
+    notice_attestation: noticeAttestation,
+    transaction_link: transactionLink,
+  };
+};
+
+// Commitment hashes of built preimages (as recorded in verification_data)
+export const hashEventCommitments = (commitments: EventCommitments): EventCommitmentHashes => {
+  return {
+    age_commitment_hash: commitments.transaction_link.age_commitment_hash,
+    address_match_commitment_hash: commitments.transaction_link.address_match_commitment_hash,
+    attestation_hash: commitments.transaction_link.attestation_hash,
+    transaction_link_hash: generateCommitmentHash(commitments.transaction_link),
+  };
+};
+
+// Commitment hashes recorded in verification_data for a compliance event
+export const generateEventCommitmentHashes = (data: HashReproducibilityData): EventCommitmentHashes => {
+  return hashEventCommitments(buildEventCommitments(data));
+};
+
 // Generate deterministic commitment hash for blockchain recording
-export const generateCommitmentHash = (data: Record<string, any>): string => {
-  // Sort keys for deterministic hash generation
+// SHA-256 of the RFC 8785 canonical JSON - independent of key order at every nesting level
+export const generateCommitmentHash = (data: unknown): string => {
+  return crypto.createHash('sha256').update(canonicalize(data)).digest('hex');
+};
+
+// Serialization used before canonical hashing (AB1263-2026.1 events): only top-level keys sorted
+// Kept so verification_hash of events recorded with it can still be recomputed
+export const serializeLegacyCommitment = (data: Record<string, any>): string => {
   const sortedKeys = Object.keys(data).sort();
   const sortedData = sortedKeys.reduce((acc, key) => {
     acc[key] = data[key];
     return acc;
   }, {} as Record<string, any>);
   
-  const dataString = JSON.stringify(sortedData);
-  return crypto.createHash('sha256').update(dataString).digest('hex');
-};
\ No newline at end of file
+  return JSON.stringify(sortedData);
+};
+
+// Commitment hash of AB1263-2026.1 events
+export const generateLegacyCommitmentHash = (data: Record<string, any>): string => {
+  return crypto.createHash('sha256').update(serializeLegacyCommitment(data)).digest('hex');
+};
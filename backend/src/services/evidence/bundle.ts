@@ -0,0 +1,221 @@
+// Court evidence bundle - signed ZIP with everything needed to re-verify one compliance event
+// Dealers download it too, so it carries no buyer PII
+//
+//   compliance-event.json    canonical compliance_events row
+//   verification-data.json   exact bytes hashed into verification_hash
+//   compliance-record.json   exact bytes hashed into the record hash (Merkle leaf)
+//   merkle-proof.json        inclusion proof for batched anchors
+//   anchor.json              anchoring transaction and on-chain lookups
+//   hashes.json              recomputed hashes and authenticity status
+//   commitments.json         buyer commitment preimages (only while buyer_secrets exist)
+//   INSTRUCTIONS.md          how to recompute every hash independently
+//   manifest.json            SHA-256 of every file above, signed by the issuer did:key
+
+import crypto from 'crypto';
+import { canonicalize } from '@ca2achain/shared';
+import type {
+  ComplianceEvent,
+  EventCommitments,
+  EvidenceFile,
+  EvidenceManifest,
+  VerificationAuthenticity
+} from '@ca2achain/shared';
+import { getComplianceEventById } from '../database/compliance-events.js';
+import {
+  buildComplianceRecord,
+  proveVerificationAuthenticity,
+  redactVerificationData,
+  reproduceEventCommitments,
+  serializeVerificationData
+} from '../polygonid.js';
+import { getChainConfig, getAnchoredBatch, getAnchoredRecord, isChainConfigured } from '../blockchain/index.js';
+import { getIssuerDid, signCredential } from '../issuer.js';
+import { getCurrentTimestamp } from '../utilities.js';
+import { createZipArchive, type ZipEntry } from './zip.js';
+
+export interface EvidenceBundle {
+  filename: string;
+  archive: Buffer;
+  manifest: EvidenceManifest;
+  authenticity: VerificationAuthenticity;
+}
+
+const sha256Hex = (data: string): string => crypto.createHash('sha256').update(data).digest('hex');
+
+// =============================================
+// BUNDLE CONTENTS
+// =============================================
+
+// On-chain state behind the stored blockchain_info (null lookups when no chain client is configured)
+const buildAnchorEvidence = async (complianceEvent: ComplianceEvent) => {
+  const chainConfig = getChainConfig();
+  const merkleRoot = complianceEvent.merkle_proof?.merkle_root;
+
+  let onChain: Record<string, unknown> | null = null;
+  if (isChainConfigured() && chainConfig) {
+    onChain = merkleRoot
+      ? { type: 'batch', merkle_root: merkleRoot, batch: await getAnchoredBatch(merkleRoot) }
+      : { type: 'record', compliance_event_id: complianceEvent.id, record: await getAnchoredRecord(complianceEvent.id) };
+  }
+
+  return {
+    blockchain_status: complianceEvent.blockchain_status,
+    anchor_batch_id: complianceEvent.anchor_batch_id,
+    blockchain_info: complianceEvent.blockchain_info ?? null,
+    contract: chainConfig
+      ? { network: chainConfig.network, chain_id: chainConfig.chainId, contract_address: chainConfig.contractAddress }
+      : null,
+    on_chain: onChain
+  };
+};
+
+// Preimages safe to hand to whoever downloads the bundle (dealers included): the age commitment carries the
+// buyer's date of birth and buyer secret and the address match commitment the buyer's address, so only
+// their hashes are included
+const buildCommitmentEvidence = (commitments: EventCommitments) => {
+  const { age_commitment: ageCommitment, address_match_commitment: addressMatchCommitment, ...disclosed } = commitments;
+  return {
+    ...disclosed,
+    age_commitment: {
+      hash_schema: ageCommitment.hash_schema,
+      withheld: 'Contains date of birth and buyer secret - recompute from buyer_secrets under court order',
+      hash: commitments.transaction_link.age_commitment_hash
+    },
+    address_match_commitment: {
+      hash_schema: addressMatchCommitment.hash_schema,
+      withheld: 'Contains the buyer\'s address - recompute from buyer_secrets under court order',
+      hash: commitments.transaction_link.address_match_commitment_hash
+    }
+  };
+};
+
+const buildInstructions = (complianceEvent: ComplianceEvent, authenticity: VerificationAuthenticity): string => {
+  const legacyEvent = authenticity.event_version === 'AB1263-2026.1';
+
+  return `# CA2AChain evidence bundle - compliance event ${complianceEvent.id}
+
+Status: **${authenticity.status}** (checked ${authenticity.checked_at})
+Event version: ${authenticity.event_version}
+AB1263 notice version: ${authenticity.notice_version ?? 'not recorded'}
+Buyer data: ${authenticity.buyer_data_status}
+
+Every file except manifest.json is listed in manifest.json with its SHA-256.
+Hashes below are lowercase hex SHA-256; none of these steps need CA2AChain systems.
+
+## 1. Manifest signature
+
+manifest.json carries an eddsa-jcs-2022 Data Integrity proof by the issuer \`issuer_did\` (did:key, Ed25519).
+Signing input: SHA-256(JCS(proof without proof_value)) || SHA-256(JCS(manifest without proof)).
+JCS is RFC 8785 JSON canonicalization. Then check each listed file's SHA-256.
+
+## 2. Verification data
+
+${legacyEvent
+    ? `This event predates canonical hashing: verification-data.json is JSON with top-level keys sorted. The buyer's
+address it recorded is withheld, so CA2AChain recomputes this hash from the stored row under court order.`
+    : 'verification-data.json is the RFC 8785 canonical JSON of compliance_events.verification_data, exactly as hashed.'}
+
+    sha256(verification-data.json) = ${authenticity.verification_hash}
+
+This must equal \`verification_hash\` inside compliance-record.json.
+
+## 3. Compliance record
+
+compliance-record.json is the canonical JSON of the hash-only record anchored for this event.
+
+    sha256(compliance-record.json) = ${authenticity.record_hash}
+
+## 4. Merkle inclusion (sha256-merkle-v1)
+
+${authenticity.merkle_root
+    ? `Start with node = sha256(0x00 || record_hash). For each entry of merkle-proof.json siblings, in order:
+node = sha256(0x01 || sibling || node) when position is "left", sha256(0x01 || node || sibling) when "right".
+The final node must equal the merkle_root ${authenticity.merkle_root}.`
+    : 'This event was not anchored in a Merkle batch; anchor.json holds its individually anchored record (if any).'}
+
+## 5. On-chain anchor
+
+anchor.json names the ComplianceRegistry contract, chain and anchoring transaction.
+Call \`getBatch(merkle_root)\` (batched) or \`getRecord(compliance_event_id)\` (individual) on that contract
+with any Polygon RPC endpoint or block explorer. A non-zero anchoredAt proves the hash existed at that block time.
+
+## 6. Buyer commitments
+
+${authenticity.buyer_data_status === 'available'
+    ? `commitments.json holds the hashed preimages. Each commitment hash is sha256(JCS(preimage)) and must match
+verification_data: zkp_verifications.*.commitment_hash and legal_attestation.attestation_hash / transaction_link_hash.
+The age and address match commitment preimages contain the buyer's date of birth and address and are withheld;
+CA2AChain can recompute them from encrypted buyer_secrets under court order.`
+    : authenticity.buyer_data_status === 'ccpa_deleted'
+      ? `The buyer exercised CCPA deletion: compliance_events.buyer_id is anonymized and buyer_secrets are gone,
+so the buyer commitments cannot be recomputed. The commitment hashes recorded in verification_data were
+anchored on chain before deletion, so they cannot have been fabricated afterwards.`
+      : 'Buyer commitments could not be recomputed (buyer secrets unavailable, buyer re-verified with a different address, or event predates canonical hashing).'}
+`;
+};
+
+// =============================================
+// BUNDLE GENERATION
+// =============================================
+
+/**
+ * Generate the signed evidence ZIP for a compliance event
+ */
+export const generateEvidenceBundle = async (complianceEventId: string): Promise<EvidenceBundle> => {
+  try {
+    console.log(`⚖️ Generating evidence bundle for compliance event ${complianceEventId}`);
+
+    const complianceEvent = await getComplianceEventById(complianceEventId);
+    if (!complianceEvent) {
+      throw new Error(`Compliance event ${complianceEventId} not found`);
+    }
+
+    const authenticity = await proveVerificationAuthenticity(complianceEvent);
+    const { commitments } = await reproduceEventCommitments(complianceEvent);
+    const verificationData = redactVerificationData(complianceEvent.verification_data);
+
+    const files: Array<ZipEntry & { data: string }> = [
+      { path: 'compliance-event.json', data: canonicalize({ ...complianceEvent, verification_data: verificationData }) },
+      { path: 'verification-data.json', data: serializeVerificationData(verificationData) },
+      { path: 'compliance-record.json', data: canonicalize(buildComplianceRecord(complianceEvent)) },
+      ...(complianceEvent.merkle_proof ? [{ path: 'merkle-proof.json', data: canonicalize(complianceEvent.merkle_proof) }] : []),
+      { path: 'anchor.json', data: canonicalize(await buildAnchorEvidence(complianceEvent)) },
+      { path: 'hashes.json', data: canonicalize(authenticity) },
+      ...(commitments ? [{ path: 'commitments.json', data: canonicalize(buildCommitmentEvidence(commitments)) }] : []),
+      { path: 'INSTRUCTIONS.md', data: buildInstructions(complianceEvent, authenticity) }
+    ];
+
+    const generatedAt = getCurrentTimestamp();
+    const manifest = signCredential({
+      type: ['CA2AChainEvidenceManifest'],
+      issuer_did: getIssuerDid(),
+      compliance_event_id: complianceEvent.id,
+      status: authenticity.status,
+      generated_at: generatedAt,
+      files: files.map((file): EvidenceFile => ({
+        path: file.path,
+        sha256: sha256Hex(file.data),
+        bytes: Buffer.byteLength(file.data)
+      }))
+    });
+
+    const archive = createZipArchive(
+      [...files, { path: 'manifest.json', data: JSON.stringify(manifest, null, 2) }],
+      new Date(generatedAt)
+    );
+
+    console.log(`✅ Evidence bundle ready: ${files.length + 1} files, ${archive.length} bytes (${authenticity.status})`);
+
+    return {
+      filename: `ca2achain-evidence-${complianceEvent.id}.zip`,
+      archive,
+      manifest,
+      authenticity
+    };
+
+  } catch (error) {
+    console.error('❌ Evidence bundle generation failed:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new Error(`Evidence bundle generation failed: ${errorMessage}`);
+  }
+};
@@ -0,0 +1,5 @@
+// Court evidence bundles
+export * from './bundle.js';
+
+// ZIP packaging
+export * from './zip.js';
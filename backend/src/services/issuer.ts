@@ -0,0 +1,336 @@
+// Credential issuer service - W3C Verifiable Credentials signed by the CA2AChain issuer DID
+// Issues age_over_18 / dl_verified / address_verified credentials after Persona approves a buyer,
+// plus the StatusList2021 credentials that publish their revocation state
+// Issuer identity is a did:key (Ed25519); credentials carry an eddsa-jcs-2022 Data Integrity proof
+
+import crypto from 'crypto';
+import { decodeBase58, encodeBase58, getBytes, toBeHex } from 'ethers';
+import { canonicalize } from '@ca2achain/shared';
+import type {
+  BuyerAccount,
+  CredentialProof,
+  EncryptedPersonaData,
+  EncryptedPrivadoCredential,
+  StatusListCredential
+} from '@ca2achain/shared';
+import { updateBuyerAccount } from './database/buyer-accounts.js';
+import { createBuyerSecrets } from './database/buyer-secrets.js';
+import { getCredentialStatusList, getRevokedStatusIndexes, revokeCredential } from './database/credential-status.js';
+import { createCredentialStatusEntry, encodeStatusList, getStatusListUrl } from './revocation.js';
+import { encryptPersonaData, encryptPrivadoCredential, getVaultKeyId } from './encryption.js';
+import { createZkpCredentialInputs, generateIssuanceProofs } from './privado.js';
+import { calculateAge, getAgePolicy, toLocalDate } from './age-policy.js';
+import { getCurrentTimestamp } from './utilities.js';
+
+// Multicodec prefix for an Ed25519 public key (varint 0xed)
+const ED25519_PUB_MULTICODEC = Buffer.from([0xed, 0x01]);
+// PKCS#8 DER header for a raw 32-byte Ed25519 seed
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+const CREDENTIAL_TYPES = ['VerifiableCredential', 'CA2AChainIdentityCredential'];
+const STATUS_LIST_CREDENTIAL_TYPES = ['VerifiableCredential', 'StatusList2021Credential'];
+const DEFAULT_VALIDITY_DAYS = 365;
+
+interface IssuerKey {
+  seed: Buffer;
+  privateKey: crypto.KeyObject;
+  did: string;
+}
+
+let issuerKey: IssuerKey | null = null;
+
+// =============================================
+// DID:KEY ENCODING
+// =============================================
+
+const base64UrlToBuffer = (value: string): Buffer => Buffer.from(value, 'base64url');
+
+// Base58 decodes to a number - restore the fixed byte width (and any leading zero bytes)
+const decodeBase58Bytes = (value: string, length: number): Buffer => {
+  return Buffer.from(getBytes(toBeHex(decodeBase58(value), length)));
+};
+
+/**
+ * Encode a raw Ed25519 public key as a did:key identifier
+ */
+export const publicKeyToDidKey = (publicKey: Uint8Array): string => {
+  return `did:key:z${encodeBase58(Buffer.concat([ED25519_PUB_MULTICODEC, publicKey]))}`;
+};
+
+/**
+ * Decode the raw Ed25519 public key from a did:key identifier (fragment ignored)
+ */
+export const didKeyToPublicKey = (did: string): Buffer => {
+  const identifier = did.split('#')[0];
+  if (!identifier.startsWith('did:key:z')) {
+    throw new Error(`Unsupported DID: ${identifier}`);
+  }
+
+  const decoded = decodeBase58Bytes(identifier.slice('did:key:z'.length), 34);
+  if (!decoded.subarray(0, 2).equals(ED25519_PUB_MULTICODEC)) {
+    throw new Error(`Not an Ed25519 did:key: ${identifier}`);
+  }
+  return decoded.subarray(2);
+};
+
+const keyPairFromSeed = (seed: Buffer): { privateKey: crypto.KeyObject; publicKey: Buffer } => {
+  const privateKey = crypto.createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+  const jwk = crypto.createPublicKey(privateKey).export({ format: 'jwk' });
+  return { privateKey, publicKey: base64UrlToBuffer(jwk.x as string) };
+};
+
+// =============================================
+// ISSUER KEY MANAGEMENT
+// =============================================
+
+/**
+ * Load the issuer keypair from ISSUER_ED25519_SEED (32-byte hex, see `pnpm issuer:keygen`)
+ * Outside production an ephemeral key is generated so local issuance works without setup
+ */
+const getIssuerKey = (): IssuerKey => {
+  if (issuerKey) return issuerKey;
+
+  let seed: Buffer;
+  if (process.env.ISSUER_ED25519_SEED) {
+    seed = Buffer.from(process.env.ISSUER_ED25519_SEED.replace(/^0x/, ''), 'hex');
+    if (seed.length !== 32) {
+      throw new Error('ISSUER_ED25519_SEED must be 32 bytes of hex');
+    }
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new Error('ISSUER_ED25519_SEED environment variable is required');
+  } else {
+    seed = crypto.randomBytes(32);
+    console.warn('⚠️ ISSUER_ED25519_SEED not set - using an ephemeral issuer key (credentials issued now are rejected after a restart)');
+  }
+
+  const { privateKey, publicKey } = keyPairFromSeed(seed);
+  issuerKey = { seed, privateKey, did: publicKeyToDidKey(publicKey) };
+  console.log(`🔑 Credential issuer: ${issuerKey.did}`);
+  return issuerKey;
+};
+
+/**
+ * The issuer DID credentials are signed with
+ */
+export const getIssuerDid = (): string => getIssuerKey().did;
+
+/**
+ * Generate a fresh issuer seed and its DID (for `pnpm issuer:keygen`)
+ */
+export const generateIssuerSeed = (): { seed: string; did: string } => {
+  const seed = crypto.randomBytes(32);
+  return { seed: seed.toString('hex'), did: publicKeyToDidKey(keyPairFromSeed(seed).publicKey) };
+};
+
+/**
+ * Subject DID for a buyer - a did:key derived from the issuer seed and the immutable buyer reference
+ * Custodial: the buyer never handles keys, and re-issuance keeps the same subject DID
+ */
+export const deriveSubjectDid = (buyerReferenceId: string): string => {
+  const subjectSeed = crypto.createHmac('sha256', getIssuerKey().seed).update(`subject:${buyerReferenceId}`).digest();
+  return publicKeyToDidKey(keyPairFromSeed(subjectSeed).publicKey);
+};
+
+// =============================================
+// SIGNING & VERIFICATION
+// =============================================
+
+// eddsa-jcs-2022 signing input: SHA-256(canonical proof config) || SHA-256(canonical document)
+const signingInput = (credential: object, proofConfig: Omit<CredentialProof, 'proof_value'>): Buffer => {
+  return Buffer.concat([
+    crypto.createHash('sha256').update(canonicalize(proofConfig)).digest(),
+    crypto.createHash('sha256').update(canonicalize(credential)).digest()
+  ]);
+};
+
+/**
+ * Sign an unsigned credential (buyer or status list) with the issuer key
+ */
+export const signCredential = <T extends object>(credential: T): T & { proof: CredentialProof } => {
+  const { privateKey, did } = getIssuerKey();
+
+  const proofConfig: Omit<CredentialProof, 'proof_value'> = {
+    type: 'DataIntegrityProof',
+    cryptosuite: 'eddsa-jcs-2022',
+    created: getCurrentTimestamp(),
+    verification_method: `${did}#${did.slice('did:key:'.length)}`,
+    proof_purpose: 'assertionMethod'
+  };
+
+  const signature = crypto.sign(null, signingInput(credential, proofConfig), privateKey);
+
+  return {
+    ...credential,
+    proof: { ...proofConfig, proof_value: `z${encodeBase58(signature)}` }
+  };
+};
+
+/**
+ * Verify a credential's Data Integrity proof and that it was issued by the expected issuer
+ * (default: our own issuer DID, so self-signed did:key credentials are rejected)
+ * Self-contained: no DID resolution or network access required
+ */
+export const verifyCredentialSignature = (
+  credential: { issuer_did: string; proof: CredentialProof },
+  expectedIssuerDid: string = getIssuerDid()
+): boolean => {
+  try {
+    const { proof, ...unsigned } = credential;
+    const { proof_value: proofValue, ...proofConfig } = proof;
+
+    if (credential.issuer_did !== expectedIssuerDid) {
+      return false;
+    }
+    if (proof.verification_method.split('#')[0] !== credential.issuer_did || !proofValue.startsWith('z')) {
+      return false;
+    }
+
+    const publicKey = crypto.createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: didKeyToPublicKey(credential.issuer_did).toString('base64url') },
+      format: 'jwk'
+    });
+    const signature = decodeBase58Bytes(proofValue.slice(1), 64);
+
+    return crypto.verify(null, signingInput(unsigned, proofConfig), publicKey, signature);
+  } catch (error) {
+    console.error('❌ Credential signature verification error:', error);
+    return false;
+  }
+};
+
+// =============================================
+// CREDENTIAL ISSUANCE
+// =============================================
+
+/**
+ * Build and sign the identity credential for a Persona-verified buyer
+ * Expires at the earlier of the driver license expiry and CREDENTIAL_VALIDITY_DAYS
+ */
+export const buildBuyerCredential = async (
+  buyer: BuyerAccount,
+  personaData: EncryptedPersonaData
+): Promise<EncryptedPrivadoCredential> => {
+  const { driver_license: driverLicense } = personaData;
+  const issuedAt = new Date();
+
+  const licenseExpiry = new Date(`${driverLicense.expires_date}T23:59:59.999Z`);
+  if (Number.isNaN(licenseExpiry.getTime()) || licenseExpiry <= issuedAt) {
+    throw new Error('Driver license is expired or has no valid expiration date');
+  }
+
+  const validityDays = parseInt(process.env.CREDENTIAL_VALIDITY_DAYS || String(DEFAULT_VALIDITY_DAYS));
+  const validityEnd = new Date(issuedAt.getTime() + validityDays * 24 * 60 * 60 * 1000);
+  const expiresAt = licenseExpiry < validityEnd ? licenseExpiry : validityEnd;
+
+  const { address } = driverLicense;
+  const subjectDid = deriveSubjectDid(buyer.buyer_reference_id);
+  const credentialId = `urn:uuid:${crypto.randomUUID()}`;
+
+  // Judged on the local issuance date of the age policy - same arithmetic as the age circuit
+  const issuanceDate = toLocalDate(issuedAt, getAgePolicy().timezone);
+  const ageOver18 = calculateAge(driverLicense.date_of_birth, issuanceDate) >= 18;
+  const addressVerified = [address.street, address.city, address.state, address.zip_code].every(part => !!part?.trim());
+
+  const { witness, commitments } = await createZkpCredentialInputs(personaData);
+  const credentialStatus = await createCredentialStatusEntry(credentialId, buyer.buyer_reference_id);
+
+  const verifiableCredential = signCredential({
+    type: CREDENTIAL_TYPES,
+    credential_id: credentialId,
+    issuer_did: getIssuerDid(),
+    subject_did: subjectDid,
+    issued_at: issuedAt.toISOString(),
+    expires_at: expiresAt.toISOString(),
+    credential_subject: {
+      id: subjectDid,
+      age_over_18: ageOver18,
+      dl_verified: true, // Persona approved the government ID
+      address_verified: addressVerified,
+      ...commitments
+    },
+    credential_status: credentialStatus
+  });
+
+  return {
+    verifiable_credential: verifiableCredential,
+    zkp_witness: witness,
+    zkp_proofs: await generateIssuanceProofs(witness, commitments, credentialId, issuanceDate)
+  };
+};
+
+/**
+ * Issue a credential for an identity-verified buyer and store it
+ * Encrypts the verified data + credential into buyer_secrets (recording the provider that verified
+ * the buyer) and links the DIDs on buyer_accounts
+ */
+export const issueBuyerCredential = async (
+  buyer: BuyerAccount,
+  personaData: EncryptedPersonaData,
+  verificationProvider: string
+): Promise<EncryptedPrivadoCredential> => {
+  try {
+    const credential = await buildBuyerCredential(buyer, personaData);
+    const vaultKeyId = getVaultKeyId();
+
+    await createBuyerSecrets(
+      buyer.id,
+      await encryptPersonaData(personaData.driver_license, personaData.persona_session_id, vaultKeyId),
+      await encryptPrivadoCredential(credential, vaultKeyId),
+      vaultKeyId,
+      personaData.persona_session_id,
+      verificationProvider
+    );
+
+    // Re-verification replaces the buyer's previous credential
+    if (buyer.privado_credential_id) {
+      await revokeCredential(buyer.privado_credential_id, 'superseded');
+    }
+
+    await updateBuyerAccount(buyer.id, {
+      privado_did: credential.verifiable_credential.subject_did,
+      privado_credential_id: credential.verifiable_credential.credential_id,
+      verification_expires_at: credential.verifiable_credential.expires_at
+    });
+
+    console.log(`✅ Credential ${credential.verifiable_credential.credential_id} issued to buyer ${buyer.buyer_reference_id}`);
+    return credential;
+
+  } catch (error) {
+    console.error('❌ Failed to issue buyer credential:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new Error(`Credential issuance failed: ${errorMessage}`);
+  }
+};
+
+// =============================================
+// STATUS LIST CREDENTIALS
+// =============================================
+
+/**
+ * Issue the current signed StatusList2021 credential for a status list
+ * Built on request so it always reflects the latest revocations
+ */
+export const issueStatusListCredential = async (statusListId: string): Promise<StatusListCredential | null> => {
+  const statusList = await getCredentialStatusList(statusListId);
+  if (!statusList) return null;
+
+  const statusListUrl = getStatusListUrl(statusList.id);
+  const revokedIndexes = await getRevokedStatusIndexes(statusList.id);
+
+  return signCredential({
+    type: STATUS_LIST_CREDENTIAL_TYPES,
+    credential_id: statusListUrl,
+    issuer_did: getIssuerDid(),
+    issued_at: getCurrentTimestamp(),
+    credential_subject: {
+      id: `${statusListUrl}#list`,
+      type: 'StatusList2021' as const,
+      status_purpose: 'revocation' as const,
+      encoded_list: encodeStatusList(statusList.list_size, revokedIndexes)
+    }
+  });
+};
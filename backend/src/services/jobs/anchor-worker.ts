@@ -0,0 +1,210 @@
+// Anchor worker - outbox processor for compliance event blockchain anchoring (scheduled job)
+// /verify writes compliance events as 'pending'; on each interval this worker batches them
+// into a Merkle tree, anchors the root on Polygon and stores every event's inclusion proof.
+// Failed batches are retried with exponential backoff.
+
+import type { BlockchainInfo, ComplianceEvent } from '@ca2achain/shared';
+import { claimComplianceAnchorJobs } from '../database/compliance-events.js';
+import {
+  confirmAnchorBatch,
+  createAnchorBatch,
+  getAnchorBatchById,
+  markAnchorBatchSubmitted,
+  recordAnchorBatchFailure
+} from '../database/anchor-batches.js';
+import {
+  buildMerkleTree,
+  findBatchTransactionHash,
+  getAnchoredBatch,
+  getMerkleProof,
+  isChainConfigured,
+  submitBatchRoot,
+  waitForBatchReceipt,
+  type BatchReceipt
+} from '../blockchain/index.js';
+import { generateComplianceRecordHash } from '../polygonid.js';
+import type { ScheduledJob } from './scheduler.js';
+
+// Batches are cut on a schedule - one root transaction per interval regardless of verification volume
+const WORKER_INTERVAL_MS = Number(process.env.ANCHOR_WORKER_INTERVAL_MS) || 5 * 60 * 1000;
+const BATCH_SIZE = Number(process.env.ANCHOR_WORKER_BATCH_SIZE) || 1000;
+const MAX_ATTEMPTS = Number(process.env.ANCHOR_WORKER_MAX_ATTEMPTS) || 8;
+
+// Claim lease must outlast one receipt wait, otherwise a second worker could pick the events up mid-wait
+const RECEIPT_TIMEOUT_MS = 120_000;
+const CLAIM_LEASE_SECONDS = 300;
+
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+// =============================================
+// RETRY POLICY
+// =============================================
+
+/**
+ * Next attempt time after a failure, or null once retries are exhausted
+ * Exponential backoff (30s, 1m, 2m ... capped at 1h) with up to 20% jitter
+ */
+export const getNextAnchorAttempt = (attempts: number, now: Date = new Date()): Date | null => {
+  if (attempts >= MAX_ATTEMPTS) {
+    return null;
+  }
+
+  const backoff = Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+  const jitter = Math.floor(backoff * 0.2 * Math.random());
+  return new Date(now.getTime() + backoff + jitter);
+};
+
+// =============================================
+// BATCH PROCESSING
+// =============================================
+
+const toBlockchainInfo = (receipt: BatchReceipt, batchId: string): BlockchainInfo => ({
+  network: receipt.network,
+  chain_id: receipt.chain_id,
+  transaction_hash: receipt.transaction_hash,
+  contract_address: receipt.contract_address,
+  block_number: receipt.block_number,
+  event_index: receipt.event_index,
+  gas_used: receipt.gas_used,
+  merkle_root: receipt.merkle_root,
+  anchored_at: receipt.anchored_at,
+  anchor_batch_id: batchId
+});
+
+/**
+ * Build a Merkle tree over newly claimed events and persist the batch with per-event proofs
+ */
+const createBatch = async (complianceEvents: ComplianceEvent[]): Promise<string> => {
+  const tree = buildMerkleTree(complianceEvents.map(generateComplianceRecordHash));
+
+  const batchId = await createAnchorBatch(
+    tree.root,
+    complianceEvents.map((complianceEvent, index) => ({
+      compliance_event_id: complianceEvent.id,
+      merkle_proof: getMerkleProof(tree, index)
+    }))
+  );
+
+  console.log(`🌳 Anchor worker: batched ${complianceEvents.length} events into ${batchId} (root ${tree.root})`);
+  return batchId;
+};
+
+/**
+ * Anchor a batch root and confirm all member events
+ * Resumes a previously submitted transaction instead of re-sending, since batch roots are write-once
+ */
+const anchorBatch = async (batchId: string): Promise<void> => {
+  const batch = await getAnchorBatchById(batchId);
+  if (!batch) {
+    throw new Error(`Anchor batch ${batchId} not found`);
+  }
+
+  const submittedTxHash = batch.blockchain_info?.transaction_hash;
+  let receipt = submittedTxHash ? await waitForBatchReceipt(submittedTxHash, RECEIPT_TIMEOUT_MS) : null;
+
+  if (!receipt) {
+    if (await getAnchoredBatch(batch.merkle_root)) {
+      // Broadcast by an earlier attempt whose transaction hash was never saved
+      const recoveredTxHash = await findBatchTransactionHash(batch.merkle_root);
+      if (!recoveredTxHash) {
+        throw new Error('Batch root is anchored but its transaction could not be located');
+      }
+      receipt = await waitForBatchReceipt(recoveredTxHash, RECEIPT_TIMEOUT_MS);
+    } else {
+      const submission = await submitBatchRoot(batch.merkle_root, batch.leaf_count);
+      await markAnchorBatchSubmitted(batch.id, { ...submission, anchor_batch_id: batch.id });
+      console.log(`🔗 Anchor worker: submitted batch ${batch.id} (${submission.transaction_hash})`);
+
+      receipt = await waitForBatchReceipt(submission.transaction_hash, RECEIPT_TIMEOUT_MS);
+    }
+  }
+
+  if (!receipt) {
+    throw new Error('Batch transaction was dropped before confirmation');
+  }
+
+  const confirmed = await confirmAnchorBatch(batch.id, toBlockchainInfo(receipt, batch.id));
+  console.log(`✅ Anchor worker: confirmed batch ${batch.id} (${confirmed} events) in block ${receipt.block_number}`);
+};
+
+/**
+ * Anchor one batch, recording failures with backoff on every member event
+ */
+const processBatch = async (batchId: string, complianceEvents: ComplianceEvent[]): Promise<void> => {
+  const attempts = Math.max(...complianceEvents.map((complianceEvent) => complianceEvent.blockchain_attempts));
+
+  try {
+    await anchorBatch(batchId);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const retryAt = getNextAnchorAttempt(attempts);
+
+    await recordAnchorBatchFailure(batchId, errorMessage, retryAt);
+
+    if (retryAt) {
+      console.warn(`⚠️ Anchor worker: attempt ${attempts} for batch ${batchId} failed, retrying at ${retryAt.toISOString()}: ${errorMessage}`);
+    } else {
+      console.error(`❌ Anchor worker: giving up on batch ${batchId} after ${attempts} attempts: ${errorMessage}`);
+    }
+  }
+};
+
+/**
+ * Claim due compliance events, batch the new ones and anchor every batch
+ * Events already assigned to a batch (retries, crashed workers) resume through that batch.
+ * Batches run concurrently (sends are still serialized by the signer) so they finish within the claim lease.
+ * Returns the number of events claimed.
+ */
+export const processAnchorQueue = async (): Promise<number> => {
+  const complianceEvents = await claimComplianceAnchorJobs(BATCH_SIZE, CLAIM_LEASE_SECONDS);
+
+  const batches = new Map<string, ComplianceEvent[]>();
+  const unbatched: ComplianceEvent[] = [];
+
+  for (const complianceEvent of complianceEvents) {
+    if (complianceEvent.anchor_batch_id) {
+      const members = batches.get(complianceEvent.anchor_batch_id) || [];
+      members.push(complianceEvent);
+      batches.set(complianceEvent.anchor_batch_id, members);
+    } else {
+      unbatched.push(complianceEvent);
+    }
+  }
+
+  if (unbatched.length > 0) {
+    try {
+      batches.set(await createBatch(unbatched), unbatched);
+    } catch (error) {
+      // Leave the events unbatched - they are claimed again once the lease expires
+      console.error(`❌ Anchor worker: failed to create batch for ${unbatched.length} events:`, error);
+    }
+  }
+
+  await Promise.all(
+    [...batches.entries()].map(([batchId, members]) => processBatch(batchId, members))
+  );
+
+  return complianceEvents.length;
+};
+
+// =============================================
+// JOB
+// =============================================
+
+export const anchorJob: ScheduledJob = {
+  name: 'anchor-worker',
+  intervalMs: WORKER_INTERVAL_MS,
+  // Without a chain client compliance events stay pending
+  isEnabled: () => {
+    if (isChainConfigured()) return true;
+    console.log('🧪 Anchor worker: chain client not configured, compliance events will stay pending');
+    return false;
+  },
+  describe: () => `batch every ${WORKER_INTERVAL_MS / 1000}s, up to ${BATCH_SIZE} events`,
+  run: async () => {
+    const claimed = await processAnchorQueue();
+    // A full batch means a backlog is waiting - drain it without the schedule delay
+    return { backlog: claimed >= BATCH_SIZE };
+  }
+};
@@ -0,0 +1,24 @@
+// Credit reservation sweep - refunds reservations a crashed request never settled
+// POST /verify commits or releases its reservation when the request ends; if the process dies in
+// between, the credit would stay spent. Reservations still 'reserved' after the timeout are released
+// with outcome 'abandoned' (our failure, so the dealer gets the credit back).
+
+import { releaseAbandonedCreditReservations } from '../database/credit-ledger.js';
+import type { ScheduledJob } from './scheduler.js';
+
+const JOB_INTERVAL_MS = Number(process.env.CREDIT_RESERVATION_SWEEP_INTERVAL_MS) || 5 * 60 * 1000;
+const RESERVATION_TIMEOUT_SECONDS = Number(process.env.CREDIT_RESERVATION_TIMEOUT_SECONDS) || 15 * 60;
+const BATCH_SIZE = 100;
+
+export const creditReservationSweepJob: ScheduledJob = {
+  name: 'credit-reservation-sweep',
+  intervalMs: JOB_INTERVAL_MS,
+  describe: () => `every ${JOB_INTERVAL_MS / 1000}s, reservations older than ${RESERVATION_TIMEOUT_SECONDS}s`,
+  run: async () => {
+    const released = await releaseAbandonedCreditReservations(RESERVATION_TIMEOUT_SECONDS, BATCH_SIZE);
+    if (released > 0) {
+      console.log(`💳 Credit reservation sweep: ${released} abandoned reservations refunded`);
+    }
+    return { backlog: released >= BATCH_SIZE };
+  }
+};
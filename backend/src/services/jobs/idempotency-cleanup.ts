@@ -0,0 +1,22 @@
+// Idempotency key cleanup - deletes dealer API idempotency keys past their TTL
+// Claims already replace an expired key on reuse; this keeps the table from growing with keys
+// that are never retried.
+
+import { purgeExpiredIdempotencyKeys } from '../database/idempotency-keys.js';
+import type { ScheduledJob } from './scheduler.js';
+
+const JOB_INTERVAL_MS = Number(process.env.IDEMPOTENCY_CLEANUP_INTERVAL_MS) || 60 * 60 * 1000;
+const BATCH_SIZE = 1000;
+
+export const idempotencyCleanupJob: ScheduledJob = {
+  name: 'idempotency-cleanup',
+  intervalMs: JOB_INTERVAL_MS,
+  describe: () => `every ${JOB_INTERVAL_MS / 1000}s, up to ${BATCH_SIZE} keys`,
+  run: async () => {
+    const purged = await purgeExpiredIdempotencyKeys(BATCH_SIZE);
+    if (purged > 0) {
+      console.log(`🧹 Idempotency cleanup: ${purged} expired keys deleted`);
+    }
+    return { backlog: purged >= BATCH_SIZE };
+  }
+};
@@ -0,0 +1,9 @@
+// Scheduler
+export * from './scheduler.js';
+export * from './registry.js';
+
+// Jobs
+export * from './anchor-worker.js';
+export * from './verification-expiry.js';
+export * from './idempotency-cleanup.js';
+export * from './credit-reservation-sweep.js';
@@ -0,0 +1,25 @@
+// Job registry - every background job the API server runs
+import { registerJob, startScheduler, stopScheduler } from './scheduler.js';
+import { anchorJob } from './anchor-worker.js';
+import { verificationExpiryJob } from './verification-expiry.js';
+import { idempotencyCleanupJob } from './idempotency-cleanup.js';
+import { creditReservationSweepJob } from './credit-reservation-sweep.js';
+
+/**
+ * Register and start every background job
+ * Returns the names of the jobs that were started
+ */
+export const startJobs = (): string[] => {
+  registerJob(anchorJob);
+  registerJob(verificationExpiryJob);
+  registerJob(idempotencyCleanupJob);
+  registerJob(creditReservationSweepJob);
+  return startScheduler();
+};
+
+/**
+ * Stop every background job (in-flight runs finish)
+ */
+export const stopJobs = () => {
+  stopScheduler();
+};
@@ -0,0 +1,136 @@
+// Job scheduler - runs registered background jobs on fixed intervals inside the API process
+// Each job runs at most once at a time; the next run is scheduled when the previous one finishes.
+// Jobs must be safe to run on several instances at once (claim rows in the database).
+
+export interface JobRunResult {
+  backlog?: boolean; // More work is waiting - run again without the interval delay
+}
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<JobRunResult | void>;
+  // Checked at start; a job that can't run here (missing configuration) returns false and is skipped
+  isEnabled?: () => boolean;
+  describe?: () => string; // Shown in the startup log
+}
+
+interface JobState {
+  job: ScheduledJob;
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+  lastRunAt: string | null;
+  lastError: string | null;
+}
+
+const jobs = new Map<string, JobState>();
+let schedulerStopped = true;
+
+// =============================================
+// REGISTRATION
+// =============================================
+
+/**
+ * Register a job (replaces any job with the same name)
+ */
+export const registerJob = (job: ScheduledJob) => {
+  const existing = jobs.get(job.name);
+  if (existing?.timer) clearTimeout(existing.timer);
+
+  jobs.set(job.name, { job, timer: null, running: false, lastRunAt: null, lastError: null });
+};
+
+// =============================================
+// EXECUTION
+// =============================================
+
+const scheduleRun = (state: JobState, delayMs: number) => {
+  if (schedulerStopped) return;
+  if (state.timer) clearTimeout(state.timer);
+  state.timer = setTimeout(() => runJob(state), delayMs);
+};
+
+const runJob = async (state: JobState) => {
+  state.timer = null;
+  state.running = true;
+  let backlog = false;
+
+  try {
+    const result = await state.job.run();
+    backlog = !!result?.backlog;
+    state.lastError = null;
+  } catch (error) {
+    state.lastError = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`❌ Job ${state.job.name}: run failed:`, error);
+  } finally {
+    state.running = false;
+    state.lastRunAt = new Date().toISOString();
+  }
+
+  scheduleRun(state, backlog ? 0 : state.job.intervalMs);
+};
+
+/**
+ * Run a registered job once, outside its schedule (operations scripts, manual triggers)
+ */
+export const runJobNow = async (name: string): Promise<JobRunResult | void> => {
+  const state = jobs.get(name);
+  if (!state) {
+    throw new Error(`Unknown job ${name}`);
+  }
+  if (state.running) {
+    throw new Error(`Job ${name} is already running`);
+  }
+  return state.job.run();
+};
+
+// =============================================
+// SCHEDULER LIFECYCLE
+// =============================================
+
+/**
+ * Start every enabled job (first run immediately)
+ * Returns the names of the jobs that were started
+ */
+export const startScheduler = (): string[] => {
+  schedulerStopped = false;
+  const started: string[] = [];
+
+  for (const state of jobs.values()) {
+    if (state.job.isEnabled && !state.job.isEnabled()) continue;
+    if (!state.timer && !state.running) {
+      scheduleRun(state, 0);
+    }
+    started.push(state.job.name);
+    console.log(`✅ Job ${state.job.name} started (${state.job.describe?.() ?? `every ${state.job.intervalMs / 1000}s`})`);
+  }
+
+  return started;
+};
+
+/**
+ * Stop scheduling (in-flight runs finish, but nothing new starts)
+ */
+export const stopScheduler = () => {
+  schedulerStopped = true;
+  for (const state of jobs.values()) {
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+  }
+};
+
+/**
+ * Registered jobs and their last run (for status endpoints and debugging)
+ */
+export const getJobStatus = () => {
+  return [...jobs.values()].map(state => ({
+    name: state.job.name,
+    interval_ms: state.job.intervalMs,
+    scheduled: !!state.timer || state.running,
+    running: state.running,
+    last_run_at: state.lastRunAt,
+    last_error: state.lastError
+  }));
+};
@@ -0,0 +1,119 @@
+// Verification expiry job - automatic buyer status transitions and renewal reminders
+// verification_expires_at is the earlier of the driver license expires_date and the credential
+// validity window (set at issuance), so passing it covers both. On each run:
+//   1. verified buyers past expiry → 'expired' (credentials revoked by the status change) + email
+//   2. renewal reminders 30, 7 and 1 days before expiry (most urgent window first, once per window)
+// Re-verification issues a new credential, which supersedes the previous verification and
+// restarts the reminder schedule (trigger_supersede_buyer_verification).
+
+import type { BuyerAccount } from '@ca2achain/shared';
+import { claimRenewalReminders, expireBuyerVerifications } from '../database/buyer-accounts.js';
+import { getUserEmail } from '../auth.js';
+import { sendBuyerRenewalReminder, sendBuyerVerificationExpired } from '../email.js';
+import type { ScheduledJob } from './scheduler.js';
+
+const JOB_INTERVAL_MS = Number(process.env.VERIFICATION_EXPIRY_INTERVAL_MS) || 60 * 60 * 1000;
+const BATCH_SIZE = Number(process.env.VERIFICATION_EXPIRY_BATCH_SIZE) || 100;
+const DEFAULT_VALIDITY_DAYS = 365;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Ascending: a buyer inside several windows is claimed by the most urgent one only
+export const RENEWAL_REMINDER_DAYS = [1, 7, 30];
+
+export interface VerificationExpiryRunResult {
+  expired: number;
+  reminded: number;
+}
+
+// Notifications are best-effort - the status change or reminder claim has already happened
+const notifyBuyer = async (buyer: BuyerAccount, context: string, send: (email: string) => Promise<unknown>) => {
+  try {
+    const email = await getUserEmail(buyer.auth_id);
+    if (email) {
+      await send(email);
+    }
+  } catch (error) {
+    console.error(`❌ Verification expiry: failed to send ${context} to buyer ${buyer.buyer_reference_id}:`, error);
+  }
+};
+
+// =============================================
+// EXPIRY
+// =============================================
+
+/**
+ * Move every verified buyer past their expiry to 'expired' and notify them
+ */
+export const expireVerifications = async (): Promise<number> => {
+  const validityDays = parseInt(process.env.CREDENTIAL_VALIDITY_DAYS || String(DEFAULT_VALIDITY_DAYS));
+  let total = 0;
+
+  for (;;) {
+    const expired = await expireBuyerVerifications(validityDays, BATCH_SIZE);
+    for (const buyer of expired) {
+      await notifyBuyer(buyer, 'expiry notice', email => sendBuyerVerificationExpired(email, buyer.first_name));
+    }
+
+    total += expired.length;
+    if (expired.length < BATCH_SIZE) break;
+  }
+
+  if (total > 0) {
+    console.log(`⏰ Verification expiry: expired ${total} buyer verifications`);
+  }
+  return total;
+};
+
+// =============================================
+// RENEWAL REMINDERS
+// =============================================
+
+/**
+ * Send the renewal reminders that are due (30, 7 and 1 days before expiry)
+ */
+export const sendRenewalReminders = async (now: Date = new Date()): Promise<number> => {
+  let total = 0;
+
+  for (const days of RENEWAL_REMINDER_DAYS) {
+    for (;;) {
+      const buyers = await claimRenewalReminders(days, BATCH_SIZE);
+      for (const buyer of buyers) {
+        const expiresAt = buyer.verification_expires_at!;
+        const daysRemaining = Math.max(1, Math.ceil((new Date(expiresAt).getTime() - now.getTime()) / MS_PER_DAY));
+        await notifyBuyer(buyer, `${days}-day renewal reminder`, email =>
+          sendBuyerRenewalReminder(email, daysRemaining, expiresAt, buyer.first_name)
+        );
+      }
+
+      total += buyers.length;
+      if (buyers.length < BATCH_SIZE) break;
+    }
+  }
+
+  if (total > 0) {
+    console.log(`📧 Verification expiry: sent ${total} renewal reminders`);
+  }
+  return total;
+};
+
+// =============================================
+// JOB
+// =============================================
+
+/**
+ * Expire first so buyers past expiry are never sent a reminder
+ */
+export const processVerificationExpiry = async (): Promise<VerificationExpiryRunResult> => {
+  const expired = await expireVerifications();
+  const reminded = await sendRenewalReminders();
+  return { expired, reminded };
+};
+
+export const verificationExpiryJob: ScheduledJob = {
+  name: 'verification-expiry',
+  intervalMs: JOB_INTERVAL_MS,
+  describe: () => `every ${JOB_INTERVAL_MS / 1000}s, reminders ${[...RENEWAL_REMINDER_DAYS].reverse().join('/')} days before expiry`,
+  run: async () => {
+    await processVerificationExpiry();
+  }
+};
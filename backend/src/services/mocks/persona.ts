@@ -4,12 +4,13 @@
  */
 
 import { randomUUID } from 'crypto';
+import type { DriverLicenseData } from '@ca2achain/shared';
+import { verifyPersonaWebhook as verifyPersonaSignature } from '../persona.js';
+import type { IdentityInquiry } from '../providers/types.js';
 
 // Mock delay to simulate network requests
 const mockDelay = (ms: number = 200) => new Promise(resolve => setTimeout(resolve, ms));
 
-console.log('🧪 Using MOCK Persona service for development');
-
 // In-memory storage for mock inquiries
 const mockInquiries = new Map();
 const mockVerifiedData = new Map();
@@ -35,7 +36,8 @@ const generateMockPersonaData = (buyerId: string) => {
 // BUYER VERIFICATION FUNCTIONS
 // =============================================
 
-export const createBuyerInquiry = async (buyerId: string) => {
+// Same shape as persona.createBuyerInquiry
+export const createBuyerInquiry = async (buyerId: string): Promise<IdentityInquiry> => {
   await mockDelay();
   
   const inquiryId = `inq_mock_${randomUUID().slice(0, 8)}`;
@@ -54,7 +56,29 @@ export const createBuyerInquiry = async (buyerId: string) => {
   mockInquiries.set(inquiryId, inquiry);
   
   console.log(`🧪 Mock Persona: Created inquiry ${inquiryId} for buyer ${buyerId}`);
-  return inquiry;
+  return { inquiryId, sessionToken };
+};
+
+// Local stand-in for the buyer finishing Persona's hosted flow: approve or decline an inquiry
+// Returns the inquiry as Persona would send it in the webhook payload
+export const completeMockInquiry = async (inquiryId: string, decision: 'approved' | 'declined') => {
+  await mockDelay();
+
+  const inquiry = mockInquiries.get(inquiryId);
+  if (!inquiry) {
+    throw new Error('Mock inquiry not found');
+  }
+
+  inquiry.attributes.status = decision;
+  inquiry.attributes['completed-at'] = new Date().toISOString();
+  if (decision === 'approved') {
+    mockVerifiedData.set(inquiryId, generateMockPersonaData(inquiry.attributes['reference-id']));
+  } else {
+    mockVerifiedData.delete(inquiryId);
+  }
+
+  console.log(`🧪 Mock Persona: Inquiry ${inquiryId} ${decision}`);
+  return { type: 'inquiry', ...inquiry };
 };
 
 export const getInquiryStatus = async (inquiryId: string) => {
@@ -104,6 +128,34 @@ export const getVerifiedPersonaData = async (inquiryId: string) => {
   return verifiedData;
 };
 
+// Same shape as persona.getDriverLicenseData - driver's license data for approved inquiries
+export const getDriverLicenseData = async (inquiryId: string): Promise<DriverLicenseData | null> => {
+  const personaData = await getVerifiedPersonaData(inquiryId);
+  if (!personaData) return null;
+
+  const [firstName, ...lastNameParts] = personaData.name.split(' ');
+  const issuedDate = new Date();
+  issuedDate.setFullYear(issuedDate.getFullYear() - 3);
+
+  return {
+    dl_number: personaData.dl_number,
+    date_of_birth: personaData.dob,
+    full_name: {
+      first_name: firstName,
+      last_name: lastNameParts.join(' ')
+    },
+    address: {
+      street: '1234 Main Street',
+      city: 'Los Angeles',
+      state: 'CA',
+      zip_code: '90001',
+      country: 'US'
+    },
+    issued_date: issuedDate.toISOString().split('T')[0],
+    expires_date: personaData.dl_expiration
+  };
+};
+
 export const getInquiryByBuyerId = async (buyerId: string) => {
   await mockDelay();
   
@@ -122,10 +174,9 @@ export const isBuyerVerified = async (buyerId: string): Promise<boolean> => {
   return inquiry?.attributes.status === 'approved' || false;
 };
 
-export const verifyPersonaWebhook = (payload: string, signature: string): boolean => {
-  // Mock webhook verification - always return true for development
-  console.log(`🧪 Mock Persona: Webhook verification (always passes)`);
-  return true;
+// Webhook signatures are always checked for real - sign mock events with PERSONA_WEBHOOK_SECRET
+export const verifyPersonaWebhook = (payload: string, signature: string | undefined): boolean => {
+  return verifyPersonaSignature(payload, signature);
 };
 
 // =============================================
@@ -163,5 +214,11 @@ export const getVerifiedData = async (inquiryId: string) => {
   };
 };
 
-console.log('🧪 Mock Persona service initialized');
-console.log('💡 To use real Persona, set PERSONA_API_KEY in .env and restart');
\ No newline at end of file
+// =============================================
+// INITIALIZATION
+// =============================================
+
+export const initPersona = () => {
+  console.log('🧪 Mock Persona service initialized');
+  console.log('💡 To use real Persona, set PERSONA_API_KEY in .env and restart');
+};
@@ -0,0 +1,199 @@
+/**
+ * Signed Stripe Webhook Fixtures for Development
+ * Builds the events POST /webhooks/stripe handles, shaped like Stripe's (fields the handlers read),
+ * and signs them with STRIPE_WEBHOOK_SECRET so the whole webhook path runs without network access.
+ * Used by scripts/stripe-webhook-fixture.ts (pnpm stripe:fixture)
+ */
+
+import { randomUUID } from 'crypto';
+import type { StripeLifecycleEventType, StripeWebhookEvent } from '../stripe-webhooks.js';
+import { signStripeWebhook } from '../stripe-signature.js';
+
+const STRIPE_API_VERSION = '2023-10-16';
+const DAY_SECONDS = 24 * 60 * 60;
+
+export interface StripeFixtureOptions {
+  buyerId?: string;
+  dealerId?: string;
+  paymentId?: string;
+  subscriptionId?: string;
+  customerId?: string;
+  planTier?: 'tier1' | 'tier2' | 'tier3';
+  mode?: 'payment' | 'subscription'; // checkout.session.completed (default: subscription when dealerId is set)
+  status?: string; // Stripe subscription status for customer.subscription.* (default: active)
+  billingReason?: 'subscription_create' | 'subscription_cycle' | 'subscription_update';
+  amountCents?: number;
+  periodEnd?: Date; // End of the billing period (default: 30 days from now)
+  createdAt?: Date; // Event created time (default: now) - older subscription events are ignored
+}
+
+export interface SignedStripeFixture {
+  event: StripeWebhookEvent;
+  payload: string; // Exact bytes that were signed - send these unchanged
+  signature: string; // Stripe-Signature header
+}
+
+const mockId = (prefix: string) => `${prefix}_mock_${randomUUID().replace(/-/g, '').slice(0, 14)}`;
+
+const TIER_PRICES: Record<string, number> = { tier1: 19900, tier2: 99900, tier3: 379900 };
+
+// =============================================
+// EVENT OBJECTS
+// =============================================
+
+const checkoutSession = (options: StripeFixtureOptions, ids: { customer: string; subscription: string }) => {
+  const mode = options.mode ?? (options.dealerId ? 'subscription' : 'payment');
+
+  if (mode === 'payment') {
+    return {
+      id: mockId('cs'),
+      object: 'checkout.session',
+      mode,
+      status: 'complete',
+      payment_status: 'paid',
+      customer: ids.customer,
+      payment_intent: mockId('pi'),
+      amount_total: options.amountCents ?? 3900,
+      metadata: {
+        buyer_id: options.buyerId,
+        payment_type: 'verification',
+        ...(options.paymentId && { payment_id: options.paymentId })
+      }
+    };
+  }
+
+  return {
+    id: mockId('cs'),
+    object: 'checkout.session',
+    mode,
+    status: 'complete',
+    payment_status: 'paid',
+    customer: ids.customer,
+    subscription: ids.subscription,
+    metadata: {
+      dealer_id: options.dealerId,
+      plan_tier: options.planTier ?? 'tier1',
+      ...(options.paymentId && { payment_id: options.paymentId })
+    }
+  };
+};
+
+const subscription = (options: StripeFixtureOptions, ids: { customer: string; subscription: string }, period: { start: number; end: number }) => ({
+  id: ids.subscription,
+  object: 'subscription',
+  status: options.status ?? 'active',
+  customer: ids.customer,
+  current_period_start: period.start,
+  current_period_end: period.end,
+  items: {
+    object: 'list',
+    data: [{ id: mockId('si'), current_period_start: period.start, current_period_end: period.end }]
+  },
+  metadata: {
+    ...(options.dealerId && { dealer_id: options.dealerId }),
+    plan_tier: options.planTier ?? 'tier1'
+  }
+});
+
+const invoice = (
+  options: StripeFixtureOptions,
+  ids: { customer: string; subscription: string },
+  period: { start: number; end: number },
+  paid: boolean
+) => {
+  const amount = options.amountCents ?? TIER_PRICES[options.planTier ?? 'tier1'];
+  return {
+    id: mockId('in'),
+    object: 'invoice',
+    customer: ids.customer,
+    subscription: ids.subscription,
+    billing_reason: options.billingReason ?? 'subscription_cycle',
+    status: paid ? 'paid' : 'open',
+    amount_due: amount,
+    amount_paid: paid ? amount : 0,
+    attempt_count: 1,
+    payment_intent: mockId('pi'),
+    lines: {
+      object: 'list',
+      data: [{ id: mockId('il'), amount, period }]
+    },
+    subscription_details: {
+      metadata: {
+        ...(options.dealerId && { dealer_id: options.dealerId }),
+        plan_tier: options.planTier ?? 'tier1'
+      }
+    }
+  };
+};
+
+// =============================================
+// FIXTURES
+// =============================================
+
+/**
+ * Build a Stripe event of the given type
+ */
+export const buildStripeEvent = (
+  type: StripeLifecycleEventType,
+  options: StripeFixtureOptions = {}
+): StripeWebhookEvent => {
+  const ids = {
+    customer: options.customerId ?? mockId('cus'),
+    subscription: options.subscriptionId ?? mockId('sub')
+  };
+  const end = Math.floor((options.periodEnd?.getTime() ?? Date.now() + 30 * DAY_SECONDS * 1000) / 1000);
+  const period = { start: end - 30 * DAY_SECONDS, end };
+
+  let object: Record<string, unknown>;
+  switch (type) {
+    case 'checkout.session.completed':
+      object = checkoutSession(options, ids);
+      break;
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+      object = subscription(options, ids, period);
+      break;
+    case 'customer.subscription.deleted':
+      object = { ...subscription(options, ids, period), status: 'canceled', canceled_at: Math.floor(Date.now() / 1000) };
+      break;
+    case 'invoice.paid':
+      object = invoice(options, ids, period, true);
+      break;
+    case 'invoice.payment_failed':
+      object = invoice(options, ids, period, false);
+      break;
+    default:
+      throw new Error(`No Stripe fixture for event type ${type}`);
+  }
+
+  return {
+    id: mockId('evt'),
+    object: 'event',
+    api_version: STRIPE_API_VERSION,
+    created: Math.floor((options.createdAt?.getTime() ?? Date.now()) / 1000),
+    livemode: false,
+    type,
+    data: { object }
+  } as unknown as StripeWebhookEvent; // Raw Stripe JSON - more fields than the handlers read
+};
+
+/**
+ * Serialize and sign an event the way Stripe delivers it
+ */
+export const signStripeEvent = (
+  event: StripeWebhookEvent,
+  secret: string | undefined = process.env.STRIPE_WEBHOOK_SECRET,
+  timestamp?: number
+): SignedStripeFixture => {
+  const payload = JSON.stringify(event, null, 2);
+  return { event, payload, signature: signStripeWebhook(payload, secret, timestamp) };
+};
+
+/**
+ * Build and sign a Stripe event in one step
+ */
+export const createSignedStripeFixture = (
+  type: StripeLifecycleEventType,
+  options: StripeFixtureOptions = {},
+  secret?: string
+): SignedStripeFixture => signStripeEvent(buildStripeEvent(type, options), secret);
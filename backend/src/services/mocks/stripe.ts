@@ -4,12 +4,11 @@
  */
 
 import { randomUUID } from 'crypto';
+import { verifyStripeSignature } from '../stripe-signature.js';
 
 // Mock delay to simulate network requests
 const mockDelay = (ms: number = 100) => new Promise(resolve => setTimeout(resolve, ms));
 
-console.log('🧪 Using MOCK Stripe service for development');
-
 // In-memory storage for mock data
 const mockCustomers = new Map();
 const mockSessions = new Map();
@@ -21,7 +20,8 @@ const mockSubscriptions = new Map();
 
 export const createBuyerCheckoutSession = async (
   buyerEmail: string,
-  buyerId: string
+  buyerId: string,
+  paymentId?: string
 ) => {
   await mockDelay();
   
@@ -34,7 +34,8 @@ export const createBuyerCheckoutSession = async (
     payment_intent: paymentIntentId,
     metadata: {
       buyer_id: buyerId,
-      payment_type: 'verification'
+      payment_type: 'verification',
+      ...(paymentId && { payment_id: paymentId }) // Matched by the checkout.session.completed webhook
     },
     mode: 'payment',
     status: 'open'
@@ -99,7 +100,8 @@ export const createDealerSubscriptionCheckout = async (
   dealerEmail: string,
   companyName: string,
   dealerId: string,
-  plan: 'tier1' | 'tier2' | 'tier3'
+  plan: 'tier1' | 'tier2' | 'tier3',
+  paymentId?: string
 ) => {
   await mockDelay();
   
@@ -121,7 +123,8 @@ export const createDealerSubscriptionCheckout = async (
     metadata: {
       dealer_id: dealerId,
       monthly_query_limit: planLimits[plan].toString(),
-      plan_tier: plan
+      plan_tier: plan,
+      ...(paymentId && { payment_id: paymentId })
     },
     mode: 'subscription',
     status: 'open'
@@ -178,17 +181,11 @@ export const verifyDealerSubscription = async (sessionId: string) => {
 
 export const verifyWebhookSignature = (
   payload: string,
-  signature: string,
-  secret: string
-): any => {
-  // Mock webhook event - just parse the payload
-  try {
-    const event = JSON.parse(payload);
-    console.log(`🧪 Mock Stripe: Webhook event ${event.type}`);
-    return event;
-  } catch (err) {
-    throw new Error('Mock webhook signature verification failed');
-  }
+  signature: string | undefined,
+  secret: string | undefined = process.env.STRIPE_WEBHOOK_SECRET
+): boolean => {
+  // Signatures are checked for real - local fixtures are signed with STRIPE_WEBHOOK_SECRET
+  return verifyStripeSignature(payload, signature, secret);
 };
 
 export const getSubscriptionDetails = async (subscriptionId: string) => {
@@ -0,0 +1,213 @@
+// Onfido service - Identity verification through an Onfido Studio workflow
+// Core workflow: Create applicant → Start workflow run (hosted link + SDK token) → Buyer verifies ID →
+// workflow_run.completed webhook → Extract driver's license from the document report
+
+import crypto from 'crypto';
+import type { DriverLicenseData } from '@ca2achain/shared';
+import type { IdentityInquiry, IdentityVerificationEvent } from './providers/types.js';
+
+// =============================================
+// ONFIDO API INTEGRATION
+// =============================================
+
+const getOnfidoApiUrl = () => `https://api.${process.env.ONFIDO_REGION || 'eu'}.onfido.com/v3.6`;
+
+const onfidoRequest = async (path: string, init: { method?: string; body?: unknown } = {}): Promise<any> => {
+  if (!process.env.ONFIDO_API_TOKEN) {
+    throw new Error('ONFIDO_API_TOKEN environment variable is required');
+  }
+
+  const response = await fetch(`${getOnfidoApiUrl()}${path}`, {
+    method: init.method ?? 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Token token=${process.env.ONFIDO_API_TOKEN}`,
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Onfido API error: ${response.status}`);
+  }
+  return response.json();
+};
+
+/**
+ * Create an applicant and a workflow run for the buyer
+ * The workflow run is the inquiry; the buyer ID rides along as customer_user_id
+ */
+export const createBuyerInquiry = async (buyerId: string): Promise<IdentityInquiry> => {
+  if (!process.env.ONFIDO_WORKFLOW_ID) {
+    throw new Error('ONFIDO_WORKFLOW_ID environment variable is required');
+  }
+
+  try {
+    const applicant = await onfidoRequest('/applicants', { method: 'POST', body: {} });
+    if (!applicant?.id) {
+      throw new Error('Invalid Onfido applicant response format');
+    }
+
+    const workflowRun = await onfidoRequest('/workflow_runs', {
+      method: 'POST',
+      body: {
+        workflow_id: process.env.ONFIDO_WORKFLOW_ID,
+        applicant_id: applicant.id,
+        customer_user_id: buyerId,
+        link: {
+          completed_redirect_url: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/buyer/verify-identity`
+        }
+      }
+    });
+    const sdkToken = await onfidoRequest('/sdk_token', { method: 'POST', body: { applicant_id: applicant.id } });
+
+    if (!workflowRun?.id || !sdkToken?.token) {
+      throw new Error('Invalid Onfido workflow run response format');
+    }
+
+    console.log(`✅ Onfido workflow run created for buyer ${buyerId}: ${workflowRun.id}`);
+
+    return {
+      inquiryId: workflowRun.id,
+      sessionToken: sdkToken.token,
+      verificationUrl: workflowRun.link?.url
+    };
+
+  } catch (error) {
+    console.error('❌ Failed to create Onfido workflow run:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new Error(`Onfido inquiry creation failed: ${errorMessage}`);
+  }
+};
+
+/**
+ * Get workflow run status ('awaiting_input', 'processing', 'approved', 'declined', 'review', 'abandoned', 'error')
+ */
+export const getInquiryStatus = async (inquiryId: string): Promise<{ status: string; decision?: string }> => {
+  try {
+    const workflowRun = await onfidoRequest(`/workflow_runs/${inquiryId}`);
+    if (!workflowRun?.status) {
+      throw new Error('Invalid Onfido workflow run response format');
+    }
+
+    const decided = workflowRun.status === 'approved' || workflowRun.status === 'declined';
+    return {
+      status: workflowRun.status,
+      decision: decided ? workflowRun.status : undefined
+    };
+
+  } catch (error) {
+    console.error('❌ Failed to get Onfido workflow run status:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new Error(`Inquiry status check failed: ${errorMessage}`);
+  }
+};
+
+/**
+ * Extract the verified driver's license from the applicant's document report
+ * Returns null until the workflow run is approved
+ */
+export const getDriverLicenseData = async (inquiryId: string): Promise<DriverLicenseData | null> => {
+  try {
+    const workflowRun = await onfidoRequest(`/workflow_runs/${inquiryId}`);
+    if (workflowRun?.status !== 'approved') {
+      console.log(`⏳ Verification not complete for workflow run ${inquiryId}: ${workflowRun?.status || 'unknown'}`);
+      return null;
+    }
+
+    const { checks } = await onfidoRequest(`/checks?applicant_id=${workflowRun.applicant_id}`);
+    const reportIds: string[] = (checks ?? []).flatMap((check: any) => check.report_ids ?? []);
+    const reports = await Promise.all(reportIds.map(id => onfidoRequest(`/reports/${id}`)));
+    const documentReport = reports.find((report: any) =>
+      report.name === 'document' && report.properties?.document_type === 'driving_licence'
+    );
+
+    if (!documentReport) {
+      throw new Error('Driver\'s license verification not found');
+    }
+
+    const properties = documentReport.properties;
+    const address = properties.address_lines ?? {};
+    const documentNumber = properties.document_numbers?.find((number: any) => number.type === 'document_number');
+
+    const driverLicense: DriverLicenseData = {
+      dl_number: documentNumber?.value || '',
+      date_of_birth: properties.date_of_birth || '',
+      full_name: {
+        first_name: properties.first_name || '',
+        last_name: properties.last_name || ''
+      },
+      address: {
+        street: address.street_address || '',
+        city: address.city || '',
+        state: address.state || '',
+        zip_code: address.postal_code || '',
+        country: 'US'
+      },
+      issued_date: properties.issuing_date || '',
+      expires_date: properties.date_of_expiry || ''
+    };
+
+    console.log(`✅ Verification data extracted for workflow run ${inquiryId}`);
+    return driverLicense;
+
+  } catch (error) {
+    console.error('❌ Failed to get Onfido verification data:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new Error(`Verification data retrieval failed: ${errorMessage}`);
+  }
+};
+
+// =============================================
+// WEBHOOKS
+// =============================================
+
+/**
+ * Verify an X-SHA2-Signature header (hex HMAC-SHA256 of the raw body keyed with the webhook token)
+ */
+export const verifyOnfidoWebhook = (
+  payload: string,
+  signature: string | undefined,
+  secret: string | undefined = process.env.ONFIDO_WEBHOOK_TOKEN
+): boolean => {
+  if (!secret) {
+    throw new Error('ONFIDO_WEBHOOK_TOKEN environment variable is required');
+  }
+  if (!signature) return false;
+
+  const expected = crypto.createHmac('sha256', secret).update(payload).digest();
+  const received = Buffer.from(signature, 'hex');
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+};
+
+const WORKFLOW_RUN_DECISIONS: Record<string, IdentityVerificationEvent['decision']> = {
+  approved: 'approved',
+  declined: 'declined',
+  abandoned: 'declined'
+};
+
+/**
+ * Extract the workflow run from an Onfido webhook body
+ * { payload: { resource_type: 'workflow_run', action, object: { id, status, href } } }
+ * Onfido does not echo customer_user_id, so the buyer is found by the stored inquiry ID
+ */
+export const parseOnfidoWebhookEvent = (body: any): IdentityVerificationEvent => {
+  const payload = body?.payload;
+  const action = payload?.action;
+  const workflowRun = payload?.object;
+
+  if (typeof action !== 'string' || typeof workflowRun?.id !== 'string') {
+    throw new Error('Invalid Onfido webhook event format');
+  }
+
+  // Only completed workflow runs matter; 'review' and 'error' finish without a decision yet
+  const decision = payload.resource_type === 'workflow_run' && action === 'workflow_run.completed'
+    ? WORKFLOW_RUN_DECISIONS[workflowRun.status] ?? 'completed'
+    : null;
+
+  return {
+    name: action,
+    decision,
+    inquiry_id: workflowRun.id,
+    inquiry_status: workflowRun.status
+  };
+};
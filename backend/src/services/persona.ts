@@ -2,20 +2,23 @@
 // Handles driver's license verification and data extraction for CA2ACHAIN identity-as-a-service
 // Core workflow: Create inquiry → Verify ID → Extract data → Store encrypted
 
-import type { EncryptedPersonaData } from '@ca2achain/shared';
-import { getCurrentTimestamp } from './utilities.js';
+import crypto from 'crypto';
+import type { DriverLicenseData } from '@ca2achain/shared';
+import type { IdentityInquiry, IdentityVerificationEvent } from './providers/types.js';
 
 // =============================================
 // PERSONA API INTEGRATION
 // =============================================
 
 const PERSONA_API_URL = 'https://withpersona.com/api/v1';
+const PERSONA_HOSTED_FLOW_URL = 'https://withpersona.com/verify';
+const WEBHOOK_TOLERANCE_SECONDS = 300; // Reject signatures older (or newer) than 5 minutes
 
 /**
  * Create new identity verification inquiry for buyer
  * Returns session token for buyer to complete verification
  */
-export const createBuyerInquiry = async (buyerId: string): Promise<{ inquiryId: string; sessionToken: string }> => {
+export const createBuyerInquiry = async (buyerId: string): Promise<IdentityInquiry> => {
   if (!process.env.PERSONA_API_KEY) {
     throw new Error('PERSONA_API_KEY environment variable is required');
   }
@@ -55,9 +58,13 @@ export const createBuyerInquiry = async (buyerId: string): Promise<{ inquiryId:
     
     console.log(`✅ Persona inquiry created for buyer ${buyerId}: ${data.data.id}`);
     
+    const inquiryId: string = data.data.id;
+    const sessionToken: string = data.data.attributes['session-token'];
+    const params = new URLSearchParams({ 'inquiry-id': inquiryId, 'session-token': sessionToken });
     return {
-      inquiryId: data.data.id,
-      sessionToken: data.data.attributes['session-token']
+      inquiryId,
+      sessionToken,
+      verificationUrl: `${PERSONA_HOSTED_FLOW_URL}?${params}`
     };
 
   } catch (error) {
@@ -68,10 +75,10 @@ export const createBuyerInquiry = async (buyerId: string): Promise<{ inquiryId:
 };
 
 /**
- * Check verification status and extract verified data
+ * Check verification status and extract the verified driver's license
  * Called after buyer completes verification to get results
  */
-export const getVerificationData = async (inquiryId: string): Promise<EncryptedPersonaData | null> => {
+export const getDriverLicenseData = async (inquiryId: string): Promise<DriverLicenseData | null> => {
   if (!process.env.PERSONA_API_KEY) {
     throw new Error('PERSONA_API_KEY environment variable is required');
   }
@@ -96,8 +103,10 @@ export const getVerificationData = async (inquiryId: string): Promise<EncryptedP
     
     const inquiry = data.data;
 
-    // Check if verification is complete and approved
-    if (inquiry.attributes?.status !== 'completed' || inquiry.attributes?.['decision-status'] !== 'approved') {
+    // Check if verification is approved (status 'approved', or 'completed' with an approved decision)
+    const status = inquiry.attributes?.status;
+    const approved = status === 'approved' || (status === 'completed' && inquiry.attributes?.['decision-status'] === 'approved');
+    if (!approved) {
       console.log(`⏳ Verification not complete for inquiry ${inquiryId}: ${inquiry.attributes?.status || 'unknown'}`);
       return null;
     }
@@ -116,30 +125,27 @@ export const getVerificationData = async (inquiryId: string): Promise<EncryptedP
     // Extract verified data using existing schema structure
     const extractedData = documentVerification.attributes?.extracted || {};
     
-    const personaData: EncryptedPersonaData = {
-      driver_license: {
-        dl_number: extractedData['identification-number'] || '',
-        date_of_birth: extractedData.birthdate || '',
-        full_name: {
-          first_name: extractedData['first-name'] || '',
-          last_name: extractedData['last-name'] || ''
-        },
-        address: {
-          street: extractedData['address-street-1'] || '',
-          street_2: extractedData['address-street-2'],
-          city: extractedData['address-city'] || '',
-          state: extractedData['address-subdivision'] || '',
-          zip_code: extractedData['address-postal-code'] || '',
-          country: 'US'
-        },
-        issued_date: extractedData['identification-issue-date'] || '',
-        expires_date: extractedData['identification-expiration-date'] || ''
+    const driverLicense: DriverLicenseData = {
+      dl_number: extractedData['identification-number'] || '',
+      date_of_birth: extractedData.birthdate || '',
+      full_name: {
+        first_name: extractedData['first-name'] || '',
+        last_name: extractedData['last-name'] || ''
       },
-      persona_session_id: inquiryId
+      address: {
+        street: extractedData['address-street-1'] || '',
+        street_2: extractedData['address-street-2'],
+        city: extractedData['address-city'] || '',
+        state: extractedData['address-subdivision'] || '',
+        zip_code: extractedData['address-postal-code'] || '',
+        country: 'US'
+      },
+      issued_date: extractedData['identification-issue-date'] || '',
+      expires_date: extractedData['identification-expiration-date'] || ''
     };
 
     console.log(`✅ Verification data extracted for inquiry ${inquiryId}`);
-    return personaData;
+    return driverLicense;
 
   } catch (error) {
     console.error('❌ Failed to get verification data:', error);
@@ -185,4 +191,92 @@ export const getInquiryStatus = async (inquiryId: string): Promise<{ status: str
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     throw new Error(`Inquiry status check failed: ${errorMessage}`);
   }
-};
\ No newline at end of file
+};
+
+// =============================================
+// WEBHOOK SIGNATURES
+// =============================================
+
+const computeWebhookSignature = (payload: string, timestamp: string, secret: string): Buffer => {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest();
+};
+
+/**
+ * Build a Persona-Signature header for a payload (local stand-in events and webhook fixtures)
+ */
+export const signPersonaWebhook = (
+  payload: string,
+  secret: string | undefined = process.env.PERSONA_WEBHOOK_SECRET,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string => {
+  if (!secret) {
+    throw new Error('PERSONA_WEBHOOK_SECRET environment variable is required');
+  }
+  return `t=${timestamp},v1=${computeWebhookSignature(payload, String(timestamp), secret).toString('hex')}`;
+};
+
+/**
+ * Verify a Persona-Signature header against the raw request body
+ * Header is 't=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">'; several space-separated
+ * signatures are sent while a webhook secret is being rotated and any one of them may match
+ */
+export const verifyPersonaWebhook = (
+  payload: string,
+  signatureHeader: string | undefined,
+  secret: string | undefined = process.env.PERSONA_WEBHOOK_SECRET,
+  now: number = Date.now()
+): boolean => {
+  if (!secret) {
+    throw new Error('PERSONA_WEBHOOK_SECRET environment variable is required');
+  }
+  if (!signatureHeader) return false;
+
+  return signatureHeader.split(' ').filter(Boolean).some(signature => {
+    const parts = Object.fromEntries(
+      signature.split(',').map(part => {
+        const [key, ...value] = part.split('=');
+        return [key.trim(), value.join('=')];
+      })
+    );
+    const timestamp = Number(parts.t);
+    if (!parts.v1 || !Number.isInteger(timestamp)) return false;
+    if (Math.abs(now / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) return false;
+
+    const expected = computeWebhookSignature(payload, parts.t, secret);
+    const received = Buffer.from(parts.v1, 'hex');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  });
+};
+
+// =============================================
+// WEBHOOK EVENTS
+// =============================================
+
+const EVENT_DECISIONS: Record<string, IdentityVerificationEvent['decision']> = {
+  'inquiry.completed': 'completed',
+  'inquiry.approved': 'approved',
+  'inquiry.declined': 'declined'
+};
+
+/**
+ * Extract the inquiry from a Persona webhook body
+ * { data: { id, attributes: { name, payload: { data: { type: 'inquiry', id, attributes } } } } }
+ */
+export const parsePersonaWebhookEvent = (body: any): IdentityVerificationEvent => {
+  const event = body?.data;
+  const name = event?.attributes?.name;
+  const inquiry = event?.attributes?.payload?.data;
+
+  if (typeof name !== 'string' || inquiry?.type !== 'inquiry' || typeof inquiry.id !== 'string') {
+    throw new Error('Invalid Persona webhook event format');
+  }
+
+  return {
+    event_id: event.id,
+    name,
+    decision: EVENT_DECISIONS[name] ?? null,
+    inquiry_id: inquiry.id,
+    reference_id: inquiry.attributes?.['reference-id'],
+    inquiry_status: inquiry.attributes?.status
+  };
+};
@@ -1,48 +1,146 @@
 // Privado ZKP service - Core zero-knowledge proof generation and verification
-// Handles ZKP commitments for age and address verification using Privado ID
+// Handles Groth16 proofs for age and address verification (circuits/src/*.circom)
 // Used in buyer-secret verification flow for CA AB1263 compliance
 
-import type { 
-  EncryptedPersonaData, 
-  EncryptedPrivadoCredential 
+import type {
+  AgeRequirement,
+  EncryptedPersonaData,
+  EncryptedPrivadoCredential,
+  PrivadoAddressProof,
+  PrivadoAgeProof,
+  ZkpProofsData,
+  ZkpWitness
 } from '@ca2achain/shared';
-import { generateCommitmentHash } from './encryption.js';
-import { calculateAge, getCurrentTimestamp } from './utilities.js';
+import { normalizeAddress } from './encryption.js';
+import { getCurrentTimestamp } from './utilities.js';
+import {
+  computeProofBinding,
+  generateProof,
+  hashToField,
+  poseidonCommitment,
+  randomFieldElement,
+  toCircuitDate,
+  verifyProof
+} from './zkp/index.js';
+
+export interface ZkpCommitments {
+  dob_commitment: string;
+  address_commitment: string;
+}
 
 // =============================================
-// ZKP AGE VERIFICATION
+// ISSUANCE
 // =============================================
 
 /**
- * Generate ZKP age commitment from buyer-secret data
- * Creates cryptographic proof of age >= threshold without revealing birth date
+ * Create the private circuit witness and public commitments for a new credential
+ * The witness is stored encrypted in buyer_secrets; commitments go in the credential subject
+ */
+export const createZkpCredentialInputs = async (
+  personaData: EncryptedPersonaData
+): Promise<{ witness: ZkpWitness; commitments: ZkpCommitments }> => {
+  const witness: ZkpWitness = {
+    birth_date: toCircuitDate(personaData.driver_license.date_of_birth),
+    dob_salt: randomFieldElement(),
+    address_hash: hashToField(normalizeAddress(personaData.driver_license.address)),
+    address_salt: randomFieldElement()
+  };
+
+  return {
+    witness,
+    commitments: {
+      dob_commitment: await poseidonCommitment(witness.birth_date, witness.dob_salt),
+      address_commitment: await poseidonCommitment(witness.address_hash, witness.address_salt)
+    }
+  };
+};
+
+/**
+ * Generate issuance-time proofs stored alongside the credential
+ * Age is proven as of the (local, YYYY-MM-DD) issuance date; the address proof shows the commitment opens to the verified address
  */
-export const generateAgeCommitment = (
-  personaData: EncryptedPersonaData,
+export const generateIssuanceProofs = async (
+  witness: ZkpWitness,
+  commitments: ZkpCommitments,
+  credentialId: string,
+  issuanceDate: string,
   ageThreshold: number = 18
-) => {
-  const birthDate = new Date(personaData.driver_license.date_of_birth);
-  const age = calculateAge(birthDate);
-  const ageVerified = age >= ageThreshold;
-
-  // Generate ZKP commitment data for blockchain storage
-  const commitmentData = {
-    age_threshold: ageThreshold,
-    age_meets_threshold: ageVerified,
-    birth_date_hash: generateCommitmentHash({ date: personaData.driver_license.date_of_birth }),
-    verification_timestamp: getCurrentTimestamp(),
-    zkp_circuit: 'age-verification-groth16'
+): Promise<ZkpProofsData> => {
+  const binding = computeProofBinding('credential', credentialId);
+
+  const [ageProof, addressProof] = await Promise.all([
+    generateProof('age_verification', {
+      birthDate: witness.birth_date,
+      salt: witness.dob_salt,
+      currentDate: toCircuitDate(issuanceDate),
+      ageThreshold,
+      dobCommitment: commitments.dob_commitment,
+      eventBinding: binding
+    }),
+    generateProof('address_verification', {
+      addressHash: witness.address_hash,
+      salt: witness.address_salt,
+      addressCommitment: commitments.address_commitment,
+      shippingAddressHash: witness.address_hash,
+      eventBinding: binding
+    })
+  ]);
+
+  return {
+    age_proof: ageProof,
+    address_proof: addressProof,
+    generated_at: getCurrentTimestamp()
   };
+};
 
-  const proofHash = generateCommitmentHash(commitmentData);
+// =============================================
+// ZKP AGE VERIFICATION
+// =============================================
 
+/**
+ * Prove age >= threshold on the requirement's evaluation date for one compliance event
+ * The proof reveals only the outcome, the date, the threshold and the issuance commitment
+ */
+export const proveAge = async (
+  privadoCredential: EncryptedPrivadoCredential,
+  params: { complianceEventId: string; ageRequirement: AgeRequirement }
+): Promise<PrivadoAgeProof> => {
+  const { zkp_witness: witness, verifiable_credential: credential } = privadoCredential;
+
+  return await generateProof('age_verification', {
+    birthDate: witness.birth_date,
+    salt: witness.dob_salt,
+    currentDate: toCircuitDate(params.ageRequirement.evaluation_date),
+    ageThreshold: params.ageRequirement.age_threshold,
+    dobCommitment: credential.credential_subject.dob_commitment,
+    eventBinding: computeProofBinding('compliance-event', params.complianceEventId)
+  });
+};
+
+/**
+ * Decode the public signals of an age proof
+ */
+export const readAgeProofSignals = (ageProof: PrivadoAgeProof) => {
+  const [ageVerified, currentDate, ageThreshold, dobCommitment, eventBinding] = ageProof.public_signals;
   return {
-    verified: ageVerified,
-    proof_hash: proofHash,
-    commitment: commitmentData
+    age_verified: ageVerified === '1',
+    current_date: Number(currentDate),
+    age_threshold: Number(ageThreshold),
+    dob_commitment: dobCommitment,
+    event_binding: eventBinding
   };
 };
 
+/**
+ * Verify an age proof and, optionally, that it belongs to the expected compliance event
+ */
+export const verifyAgeProof = async (ageProof: PrivadoAgeProof, complianceEventId?: string): Promise<boolean> => {
+  if (complianceEventId && readAgeProofSignals(ageProof).event_binding !== computeProofBinding('compliance-event', complianceEventId)) {
+    return false;
+  }
+  return await verifyProof(ageProof);
+};
+
 /**
  * Verify age from existing ZKP credential in buyer-secrets
  * Used when dealer requests verification of stored buyer data
@@ -59,33 +157,47 @@ export const verifyAgeFromCredential = (
 // =============================================
 
 /**
- * Generate ZKP address commitment
- * Creates cryptographic proof of address verification without exposing addresses
- * Note: Address matching/normalization handled by external service
+ * Prove the committed (verified) address equals the dealer's normalized shipping address
+ * Note: fuzzy matching is scored outside the circuit - the proof attests exact equality only
  */
-export const generateAddressCommitment = (
-  verifiedAddress: EncryptedPersonaData['driver_license']['address'],
-  addressMatchResult: { verified: boolean; confidence: number }
-) => {
-  // Generate ZKP commitment using external service results
-  const commitmentData = {
-    address_verified: addressMatchResult.verified,
-    match_confidence: addressMatchResult.confidence,
-    verified_address_hash: generateCommitmentHash(verifiedAddress),
-    verification_timestamp: getCurrentTimestamp(),
-    zkp_circuit: 'address-verification-groth16'
-  };
+export const proveAddressMatch = async (
+  privadoCredential: EncryptedPrivadoCredential,
+  params: { complianceEventId: string; normalizedShippingAddress: string }
+): Promise<PrivadoAddressProof> => {
+  const { zkp_witness: witness, verifiable_credential: credential } = privadoCredential;
 
-  const proofHash = generateCommitmentHash(commitmentData);
+  return await generateProof('address_verification', {
+    addressHash: witness.address_hash,
+    salt: witness.address_salt,
+    addressCommitment: credential.credential_subject.address_commitment,
+    shippingAddressHash: hashToField(params.normalizedShippingAddress),
+    eventBinding: computeProofBinding('compliance-event', params.complianceEventId)
+  });
+};
 
+/**
+ * Decode the public signals of an address proof
+ */
+export const readAddressProofSignals = (addressProof: PrivadoAddressProof) => {
+  const [addressVerified, addressCommitment, shippingAddressHash, eventBinding] = addressProof.public_signals;
   return {
-    verified: addressMatchResult.verified,
-    match_confidence: addressMatchResult.confidence,
-    proof_hash: proofHash,
-    commitment: commitmentData
+    address_verified: addressVerified === '1',
+    address_commitment: addressCommitment,
+    shipping_address_hash: shippingAddressHash,
+    event_binding: eventBinding
   };
 };
 
+/**
+ * Verify an address proof and, optionally, that it belongs to the expected compliance event
+ */
+export const verifyAddressProof = async (addressProof: PrivadoAddressProof, complianceEventId?: string): Promise<boolean> => {
+  if (complianceEventId && readAddressProofSignals(addressProof).event_binding !== computeProofBinding('compliance-event', complianceEventId)) {
+    return false;
+  }
+  return await verifyProof(addressProof);
+};
+
 /**
  * Verify address from existing ZKP credential in buyer-secrets
  * Returns the stored verification result from credential
@@ -96,4 +208,4 @@ export const verifyAddressFromCredential = (
   return {
     verified: privadoCredential.verifiable_credential.credential_subject.address_verified
   };
-};
\ No newline at end of file
+};
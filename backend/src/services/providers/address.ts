@@ -0,0 +1,15 @@
+// Address providers - local USPS Publication 28 parsing and component matching (no network)
+
+import { matchAddresses, parseAddress, parseStructuredAddress } from '../address/index.js';
+import type { AddressProvider } from './types.js';
+
+export const uspsAddressProvider: AddressProvider = {
+  name: 'usps-pub28',
+  standIn: false,
+  isConfigured: () => true,
+  parseAddress,
+  parseStructuredAddress,
+  matchAddresses
+};
+
+export const ADDRESS_PROVIDERS = [uspsAddressProvider];
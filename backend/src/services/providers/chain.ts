@@ -0,0 +1,29 @@
+// Chain providers - Polygon anchoring when POLYGON_RPC_URL / POLYGON_PRIVATE_KEY /
+// POLYGON_CONTRACT_ADDRESS are set; otherwise anchoring is disabled and events stay pending
+
+import { getChainConfig, initChainClient } from '../blockchain/index.js';
+import type { ChainProvider, ProviderDetails } from './types.js';
+
+export const polygonChainProvider: ChainProvider = {
+  name: 'polygon',
+  standIn: false,
+  isConfigured: () => getChainConfig() !== null,
+  init: () => {
+    initChainClient();
+  },
+  describe: (): ProviderDetails => {
+    const config = getChainConfig();
+    return config ? { network: config.network, chain_id: config.chainId } : {};
+  }
+};
+
+export const disabledChainProvider: ChainProvider = {
+  name: 'disabled',
+  standIn: false,
+  isConfigured: () => true,
+  init: () => {
+    console.log('🧪 Polygon: No POLYGON_RPC_URL / POLYGON_PRIVATE_KEY / POLYGON_CONTRACT_ADDRESS, anchoring disabled');
+  }
+};
+
+export const CHAIN_PROVIDERS = [polygonChainProvider, disabledChainProvider];
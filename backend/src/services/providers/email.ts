@@ -0,0 +1,44 @@
+// Email providers - Resend, or console output when no RESEND_API_KEY is set
+
+import { Resend } from 'resend';
+import type { EmailProvider } from './types.js';
+
+let resend: Resend | null = null;
+
+export const resendEmailProvider: EmailProvider = {
+  name: 'resend',
+  standIn: false,
+  isConfigured: () => !!process.env.RESEND_API_KEY,
+  init: () => {
+    if (!resend) {
+      resend = new Resend(process.env.RESEND_API_KEY);
+      console.log('✅ Resend email service initialized');
+    }
+  },
+  send: async (message) => {
+    if (!resend) {
+      throw new Error('Resend not initialized. Call initProviders() first.');
+    }
+
+    const result = await resend.emails.send(message);
+    if (result.error) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data };
+  }
+};
+
+export const consoleEmailProvider: EmailProvider = {
+  name: 'console',
+  standIn: true,
+  isConfigured: () => true,
+  init: () => {
+    console.log('🧪 Resend: No API key provided, using mock email service');
+  },
+  send: async (message) => {
+    console.log('📧 Email data:', { to: message.to, subject: message.subject });
+    return { success: true, mock: true };
+  }
+};
+
+export const EMAIL_PROVIDERS = [resendEmailProvider, consoleEmailProvider];
@@ -0,0 +1,75 @@
+// Identity providers - Persona, Onfido or Veriff, or the local stand-in (mock inquiries completed
+// through routes/persona-sandbox.ts) when none is configured
+// Every provider keeps its own webhook (/webhooks/identity/<name>) so inquiries started before a
+// provider switch still complete through the provider that ran them
+
+import * as Persona from '../persona.js';
+import * as Onfido from '../onfido.js';
+import * as Veriff from '../veriff.js';
+import * as MockPersona from '../mocks/persona.js';
+import type { IdentityProvider } from './types.js';
+
+export const personaIdentityProvider: IdentityProvider = {
+  name: 'persona',
+  mode: 'hosted',
+  standIn: false,
+  webhookSignatureHeader: 'persona-signature',
+  isConfigured: () => !!process.env.PERSONA_API_KEY && !!process.env.PERSONA_TEMPLATE_ID,
+  createBuyerInquiry: Persona.createBuyerInquiry,
+  getInquiryStatus: Persona.getInquiryStatus,
+  getDriverLicenseData: Persona.getDriverLicenseData,
+  verifyWebhook: (payload, signature) => Persona.verifyPersonaWebhook(payload, signature),
+  parseWebhookEvent: Persona.parsePersonaWebhookEvent
+};
+
+export const onfidoIdentityProvider: IdentityProvider = {
+  name: 'onfido',
+  mode: 'hosted',
+  standIn: false,
+  webhookSignatureHeader: 'x-sha2-signature',
+  isConfigured: () => !!process.env.ONFIDO_API_TOKEN && !!process.env.ONFIDO_WORKFLOW_ID,
+  describe: () => ({ region: process.env.ONFIDO_REGION || 'eu' }),
+  createBuyerInquiry: Onfido.createBuyerInquiry,
+  getInquiryStatus: Onfido.getInquiryStatus,
+  getDriverLicenseData: Onfido.getDriverLicenseData,
+  verifyWebhook: (payload, signature) => Onfido.verifyOnfidoWebhook(payload, signature),
+  parseWebhookEvent: Onfido.parseOnfidoWebhookEvent
+};
+
+export const veriffIdentityProvider: IdentityProvider = {
+  name: 'veriff',
+  mode: 'hosted',
+  standIn: false,
+  webhookSignatureHeader: 'x-hmac-signature',
+  isConfigured: () => !!process.env.VERIFF_API_KEY && !!process.env.VERIFF_SHARED_SECRET,
+  createBuyerInquiry: Veriff.createBuyerInquiry,
+  getInquiryStatus: Veriff.getInquiryStatus,
+  getDriverLicenseData: Veriff.getDriverLicenseData,
+  verifyWebhook: (payload, signature) => Veriff.verifyVeriffWebhook(payload, signature),
+  parseWebhookEvent: Veriff.parseVeriffWebhookEvent
+};
+
+// Persona-shaped fake: same event format and signatures, decided through the sandbox route
+export const localIdentityProvider: IdentityProvider = {
+  name: 'local',
+  mode: 'local',
+  standIn: true,
+  webhookSignatureHeader: 'persona-signature',
+  isConfigured: () => true,
+  init: MockPersona.initPersona,
+  createBuyerInquiry: MockPersona.createBuyerInquiry,
+  getInquiryStatus: async (inquiryId) => {
+    const inquiry = await MockPersona.getInquiryStatus(inquiryId);
+    return { status: inquiry.attributes.status };
+  },
+  getDriverLicenseData: MockPersona.getDriverLicenseData,
+  verifyWebhook: MockPersona.verifyPersonaWebhook,
+  parseWebhookEvent: Persona.parsePersonaWebhookEvent
+};
+
+export const IDENTITY_PROVIDERS = [
+  personaIdentityProvider,
+  onfidoIdentityProvider,
+  veriffIdentityProvider,
+  localIdentityProvider
+];
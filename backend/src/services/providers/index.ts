@@ -0,0 +1,12 @@
+// Interfaces
+export * from './types.js';
+
+// Registry
+export * from './registry.js';
+
+// Providers
+export * from './payment.js';
+export * from './identity.js';
+export * from './chain.js';
+export * from './email.js';
+export * from './address.js';
@@ -0,0 +1,38 @@
+// Payment providers - Stripe, or the in-memory mock when no STRIPE_SECRET_KEY is set
+
+import * as StripeService from '../stripe.js';
+import * as MockStripe from '../mocks/stripe.js';
+import type { PaymentProvider } from './types.js';
+
+export const stripePaymentProvider: PaymentProvider = {
+  name: 'stripe',
+  standIn: false,
+  isConfigured: () => !!process.env.STRIPE_SECRET_KEY,
+  init: () => {
+    StripeService.initStripe();
+  },
+  describe: () => ({
+    mode: process.env.STRIPE_SECRET_KEY?.startsWith('sk_live_') ? 'live' : 'test'
+  }),
+  createBuyerCheckoutSession: StripeService.createBuyerCheckoutSession,
+  verifyBuyerPayment: StripeService.verifyBuyerPayment,
+  createDealerSubscriptionCheckout: StripeService.createDealerSubscriptionCheckout,
+  verifyDealerSubscription: StripeService.verifyDealerSubscription,
+  verifyWebhookSignature: (payload, signature) => StripeService.verifyWebhookSignature(payload, signature)
+};
+
+export const mockPaymentProvider: PaymentProvider = {
+  name: 'mock',
+  standIn: true,
+  isConfigured: () => true,
+  init: () => {
+    MockStripe.initStripe();
+  },
+  createBuyerCheckoutSession: MockStripe.createBuyerCheckoutSession,
+  verifyBuyerPayment: MockStripe.verifyBuyerPayment,
+  createDealerSubscriptionCheckout: MockStripe.createDealerSubscriptionCheckout,
+  verifyDealerSubscription: MockStripe.verifyDealerSubscription,
+  verifyWebhookSignature: (payload, signature) => MockStripe.verifyWebhookSignature(payload, signature)
+};
+
+export const PAYMENT_PROVIDERS = [stripePaymentProvider, mockPaymentProvider];
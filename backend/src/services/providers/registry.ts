@@ -0,0 +1,133 @@
+// Provider registry - picks one provider per kind at startup
+// <KIND>_PROVIDER (PAYMENT_PROVIDER=stripe, IDENTITY_PROVIDER=local, ...) selects a provider by name;
+// otherwise the first configured one wins (real providers are listed before stand-ins).
+// Production never runs on a stand-in: startup fails instead of silently taking mock payments.
+
+import { PAYMENT_PROVIDERS } from './payment.js';
+import { IDENTITY_PROVIDERS } from './identity.js';
+import { CHAIN_PROVIDERS } from './chain.js';
+import { EMAIL_PROVIDERS } from './email.js';
+import { ADDRESS_PROVIDERS } from './address.js';
+import type { ProviderKind, Providers, ProviderStatus } from './types.js';
+
+const CANDIDATES: { [K in ProviderKind]: Providers[K][] } = {
+  payment: PAYMENT_PROVIDERS,
+  identity: IDENTITY_PROVIDERS,
+  chain: CHAIN_PROVIDERS,
+  email: EMAIL_PROVIDERS,
+  address: ADDRESS_PROVIDERS
+};
+
+const PROVIDER_KINDS = Object.keys(CANDIDATES) as ProviderKind[];
+
+type SelectedBy = ProviderStatus['selected_by'];
+
+let providers: Providers | null = null;
+let selectedBy: Record<ProviderKind, SelectedBy> | null = null;
+
+const envVarFor = (kind: ProviderKind) => `${kind.toUpperCase()}_PROVIDER`;
+
+// =============================================
+// SELECTION
+// =============================================
+
+const selectProvider = <K extends ProviderKind>(kind: K): { provider: Providers[K]; selectedBy: SelectedBy } => {
+  const candidates = CANDIDATES[kind];
+  const production = process.env.NODE_ENV === 'production';
+  const requested = process.env[envVarFor(kind)];
+
+  if (requested) {
+    const provider = candidates.find(candidate => candidate.name === requested);
+    if (!provider) {
+      throw new Error(`Unknown ${kind} provider "${requested}" (${envVarFor(kind)}); expected one of: ${candidates.map(c => c.name).join(', ')}`);
+    }
+    if (!provider.isConfigured()) {
+      throw new Error(`${kind} provider "${requested}" is not configured`);
+    }
+    if (production && provider.standIn) {
+      throw new Error(`${kind} provider "${requested}" is a development stand-in and cannot run in production`);
+    }
+    return { provider, selectedBy: 'environment' };
+  }
+
+  const provider = candidates.find(candidate => candidate.isConfigured() && !(production && candidate.standIn));
+  if (!provider) {
+    const required = candidates.filter(c => !c.standIn).map(c => c.name).join(', ');
+    throw new Error(`No ${kind} provider configured for production (configure one of: ${required})`);
+  }
+  return { provider, selectedBy: 'default' };
+};
+
+/**
+ * Select and initialize every provider (call once at startup, before routes handle requests)
+ * Selection is checked for all kinds before any provider is initialized
+ */
+export const initProviders = (): Providers => {
+  const selections = Object.fromEntries(
+    PROVIDER_KINDS.map(kind => [kind, selectProvider(kind)])
+  ) as { [K in ProviderKind]: { provider: Providers[K]; selectedBy: SelectedBy } };
+
+  for (const kind of PROVIDER_KINDS) {
+    selections[kind].provider.init?.();
+  }
+
+  providers = Object.fromEntries(PROVIDER_KINDS.map(kind => [kind, selections[kind].provider])) as unknown as Providers;
+  selectedBy = Object.fromEntries(PROVIDER_KINDS.map(kind => [kind, selections[kind].selectedBy])) as Record<ProviderKind, SelectedBy>;
+  return providers;
+};
+
+/**
+ * The providers chosen at startup
+ */
+export const getProviders = (): Providers => {
+  if (!providers) {
+    throw new Error('Providers not initialized. Call initProviders() first.');
+  }
+  return providers;
+};
+
+/**
+ * A configured provider by name, whether or not it was the one selected
+ * Webhooks use this so events for work started under a previous provider still land
+ */
+export const findProvider = <K extends ProviderKind>(kind: K, name: string): Providers[K] | null => {
+  const production = process.env.NODE_ENV === 'production';
+  const provider = CANDIDATES[kind].find(candidate => candidate.name === name);
+  if (!provider || !provider.isConfigured() || (production && provider.standIn)) {
+    return null;
+  }
+  return provider;
+};
+
+// =============================================
+// STATUS
+// =============================================
+
+/**
+ * Chosen providers for GET /status (names and non-secret details only)
+ */
+export const getProviderStatus = (): Record<ProviderKind, ProviderStatus> => {
+  const current = getProviders();
+
+  return Object.fromEntries(PROVIDER_KINDS.map(kind => {
+    const provider = current[kind];
+    const details = provider.describe?.();
+    return [kind, {
+      name: provider.name,
+      stand_in: provider.standIn,
+      selected_by: selectedBy![kind],
+      ...(details && Object.keys(details).length > 0 && { details })
+    }];
+  })) as Record<ProviderKind, ProviderStatus>;
+};
+
+export const logProviderStatus = () => {
+  const status = getProviderStatus();
+  console.log('\n🔧 Providers:');
+  console.log('==================');
+  for (const [kind, provider] of Object.entries(status)) {
+    const emoji = provider.stand_in ? '🧪' : provider.name === 'disabled' ? '❌' : '✅';
+    console.log(`   ${emoji} ${kind}: ${provider.name}${provider.selected_by === 'environment' ? ` (${envVarFor(kind as ProviderKind)})` : ''}`);
+  }
+  console.log('');
+};
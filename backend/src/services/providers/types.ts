@@ -0,0 +1,160 @@
+// Provider interfaces - the external services the API depends on, each with a real implementation
+// and (where one exists) a development stand-in. The registry picks one per kind at startup.
+
+import type { DriverLicenseData, ParsedAddress } from '@ca2achain/shared';
+import type { AddressMatchResult } from '../address/match.js';
+import type { parseStructuredAddress } from '../address/parser.js';
+
+export type ProviderKind = 'payment' | 'identity' | 'chain' | 'email' | 'address';
+
+export type ProviderDetails = Record<string, string | number | boolean>;
+
+interface ProviderBase {
+  name: string;
+  // Development stand-in (in-memory mock, console output) - never selected in production
+  standIn: boolean;
+  // Whether the environment has what this provider needs (API keys, RPC URLs)
+  isConfigured: () => boolean;
+  init?: () => void;
+  // Non-secret details for GET /status (network, mode)
+  describe?: () => ProviderDetails;
+}
+
+// =============================================
+// PAYMENTS
+// =============================================
+
+export type SubscriptionPlan = 'tier1' | 'tier2' | 'tier3';
+
+export interface CheckoutSession {
+  id: string;
+  url: string | null;
+}
+
+export interface BuyerPaymentResult {
+  buyerId: string;
+  paymentIntentId: string | null;
+  amountPaid: number;
+}
+
+export interface DealerSubscriptionResult {
+  dealerId: string;
+  stripeCustomerId: string | null;
+  subscriptionId: string;
+  subscriptionStatus: string;
+  monthlyQueryLimit: number;
+  planTier: string;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+}
+
+export interface PaymentProvider extends ProviderBase {
+  createBuyerCheckoutSession: (buyerEmail: string, buyerId: string, paymentId?: string) => Promise<CheckoutSession>;
+  verifyBuyerPayment: (sessionId: string) => Promise<BuyerPaymentResult>;
+  createDealerSubscriptionCheckout: (
+    dealerEmail: string,
+    companyName: string,
+    dealerId: string,
+    plan: SubscriptionPlan,
+    paymentId?: string
+  ) => Promise<CheckoutSession>;
+  verifyDealerSubscription: (sessionId: string) => Promise<DealerSubscriptionResult>;
+  // Webhook signatures are always checked for real (stripe-signature.ts)
+  verifyWebhookSignature: (payload: string, signature: string | undefined) => boolean;
+}
+
+// =============================================
+// IDENTITY VERIFICATION
+// =============================================
+
+export interface IdentityInquiry {
+  inquiryId: string;
+  sessionToken: string;
+  verificationUrl?: string; // Provider's hosted flow, when it has one
+}
+
+// A provider webhook reduced to what buyer verification acts on
+// decision: 'approved' / 'declined' are final; 'completed' means the buyer finished and a decision
+// may follow (the data is fetched and the buyer stays pending until it is approved); null is ignored
+export interface IdentityVerificationEvent {
+  event_id?: string;
+  name: string; // Provider's own event name ('inquiry.approved', 'workflow_run.completed', ...)
+  decision: 'completed' | 'approved' | 'declined' | null;
+  inquiry_id: string;
+  reference_id?: string; // Buyer ID, when the provider echoes it back
+  inquiry_status?: string;
+}
+
+export interface IdentityProvider extends ProviderBase {
+  // 'hosted': buyer completes the provider's hosted flow; 'local': the development stand-in completes it
+  mode: 'hosted' | 'local';
+  // Request header carrying the provider's webhook signature
+  webhookSignatureHeader: string;
+  createBuyerInquiry: (buyerId: string) => Promise<IdentityInquiry>;
+  getInquiryStatus: (inquiryId: string) => Promise<{ status: string; decision?: string }>;
+  // Verified driver's license once the inquiry is approved, null before that
+  getDriverLicenseData: (inquiryId: string) => Promise<DriverLicenseData | null>;
+  verifyWebhook: (payload: string, signature: string | undefined) => boolean;
+  parseWebhookEvent: (body: unknown) => IdentityVerificationEvent;
+}
+
+// =============================================
+// BLOCKCHAIN ANCHORING
+// =============================================
+
+// Anchoring itself goes through services/blockchain (initialized here); 'disabled' leaves
+// compliance events pending until a chain is configured
+export interface ChainProvider extends ProviderBase {}
+
+// =============================================
+// EMAIL
+// =============================================
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+}
+
+export interface EmailSendResult {
+  success: boolean;
+  mock?: boolean;
+  data?: unknown;
+  error?: unknown;
+}
+
+export interface EmailProvider extends ProviderBase {
+  send: (message: EmailMessage) => Promise<EmailSendResult>;
+}
+
+// =============================================
+// ADDRESSES
+// =============================================
+
+// Parsing and matching of dealer-supplied shipping addresses. Credential address commitments
+// always use the canonical USPS normalization (services/address) so they stay reproducible.
+export interface AddressProvider extends ProviderBase {
+  parseAddress: (address: string) => ParsedAddress;
+  parseStructuredAddress: (address: Parameters<typeof parseStructuredAddress>[0]) => ParsedAddress;
+  matchAddresses: (verified: ParsedAddress, shipping: ParsedAddress) => AddressMatchResult;
+}
+
+// =============================================
+// REGISTRY
+// =============================================
+
+export interface Providers {
+  payment: PaymentProvider;
+  identity: IdentityProvider;
+  chain: ChainProvider;
+  email: EmailProvider;
+  address: AddressProvider;
+}
+
+export interface ProviderStatus {
+  name: string;
+  stand_in: boolean;
+  selected_by: 'environment' | 'default';
+  details?: ProviderDetails;
+}
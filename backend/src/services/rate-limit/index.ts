@@ -0,0 +1,26 @@
+// Interfaces
+export * from './types.js';
+
+// Policy
+export * from './policy.js';
+
+// Stores
+export * from './memory-store.js';
+export * from './redis-store.js';
+
+import { createMemoryRateLimitStore } from './memory-store.js';
+import type { RateLimitStore } from './types.js';
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Store the limiters use (in-memory unless a shared store was set at startup)
+ */
+export const getRateLimitStore = (): RateLimitStore => store;
+
+/**
+ * Replace the store, e.g. setRateLimitStore(createRedisRateLimitStore(redis)) before routes are registered
+ */
+export const setRateLimitStore = (rateLimitStore: RateLimitStore): void => {
+  store = rateLimitStore;
+};
@@ -0,0 +1,50 @@
+// In-memory token buckets - limits are per process, so use the Redis store behind a load balancer
+
+import type { RateLimit, RateLimitResult, RateLimitStore } from './types.js';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  fullAt: number; // A bucket idle past this is full - same as no bucket
+}
+
+export const createMemoryRateLimitStore = (now: () => number = Date.now): RateLimitStore => {
+  const buckets = new Map<string, Bucket>();
+  let lastSweep = now();
+
+  // Drop full buckets so idle keys don't accumulate
+  const sweep = (time: number) => {
+    for (const [key, bucket] of buckets) {
+      if (bucket.fullAt <= time) buckets.delete(key);
+    }
+    lastSweep = time;
+  };
+
+  return {
+    name: 'memory',
+    consume: async (key: string, limit: RateLimit): Promise<RateLimitResult> => {
+      const time = now();
+      if (time - lastSweep >= SWEEP_INTERVAL_MS) sweep(time);
+
+      const bucket = buckets.get(key);
+      let tokens = bucket
+        ? Math.min(limit.capacity, bucket.tokens + ((time - bucket.updatedAt) / 1000) * limit.refillPerSecond)
+        : limit.capacity;
+
+      const allowed = tokens >= 1;
+      if (allowed) tokens -= 1;
+
+      const resetSeconds = (limit.capacity - tokens) / limit.refillPerSecond;
+      buckets.set(key, { tokens, updatedAt: time, fullAt: time + resetSeconds * 1000 });
+
+      return {
+        allowed,
+        remaining: Math.floor(tokens),
+        retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / limit.refillPerSecond),
+        resetSeconds: Math.ceil(resetSeconds)
+      };
+    }
+  };
+};
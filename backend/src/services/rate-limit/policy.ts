@@ -0,0 +1,103 @@
+// Rate limit policy - requests per minute for each limited bucket
+//
+//   verify   POST /verify, per dealer (shared by all its API keys), by subscription tier
+//   history  verification reads (/verify/:id, proof, evidence, history), per dealer, by subscription tier
+//   auth     unauthenticated auth routes (/auth/login, /auth/register), per client IP
+// Each bucket holds a minute's worth of requests and refills continuously.
+//
+// Configuration:
+//   RATE_LIMIT_ENABLED             false turns rate limiting off (default on)
+//   RATE_LIMIT_VERIFY_PER_MINUTE   per tier, comma-separated tiers 1,2,3 (default 30,60,120)
+//   RATE_LIMIT_HISTORY_PER_MINUTE  per tier, comma-separated tiers 1,2,3 (default 60,120,300)
+//   RATE_LIMIT_AUTH_PER_MINUTE     per client IP (default 5)
+//   TRUST_PROXY_HOPS               reverse proxies in front of the API; the client IP is read from
+//                                  X-Forwarded-For only this many hops deep (default 0 = socket address)
+
+import type { RateLimit } from './types.js';
+
+export type RateLimitBucket = 'verify' | 'history' | 'auth';
+
+export interface RateLimitPolicy {
+  enabled: boolean;
+  verify_per_minute: number[]; // Index 0 = tier 1
+  history_per_minute: number[];
+  auth_per_minute: number;
+}
+
+const DEFAULT_VERIFY_PER_MINUTE = [30, 60, 120];
+const DEFAULT_HISTORY_PER_MINUTE = [60, 120, 300];
+const DEFAULT_AUTH_PER_MINUTE = 5;
+
+const parsePositive = (name: string, value: string): number => {
+  const parsed = Number(value.trim());
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name} entry "${value}"; expected a positive integer`);
+  }
+  return parsed;
+};
+
+const parseTierLimits = (name: string, fallback: number[]): number[] => {
+  const configured = process.env[name];
+  if (configured === undefined) return fallback;
+
+  const limits = configured.split(',').map(value => parsePositive(name, value));
+  if (limits.length !== fallback.length) {
+    throw new Error(`${name} needs ${fallback.length} comma-separated limits (tiers 1-${fallback.length})`);
+  }
+  return limits;
+};
+
+// =============================================
+// POLICY CONFIGURATION
+// =============================================
+
+let policy: RateLimitPolicy | null = null;
+
+/**
+ * Read and validate the rate limit policy (call once at startup - an invalid RATE_LIMIT_* value
+ * fails startup instead of turning limiting off)
+ */
+export const initRateLimitPolicy = (): RateLimitPolicy => {
+  policy = {
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    verify_per_minute: parseTierLimits('RATE_LIMIT_VERIFY_PER_MINUTE', DEFAULT_VERIFY_PER_MINUTE),
+    history_per_minute: parseTierLimits('RATE_LIMIT_HISTORY_PER_MINUTE', DEFAULT_HISTORY_PER_MINUTE),
+    auth_per_minute: process.env.RATE_LIMIT_AUTH_PER_MINUTE === undefined
+      ? DEFAULT_AUTH_PER_MINUTE
+      : parsePositive('RATE_LIMIT_AUTH_PER_MINUTE', process.env.RATE_LIMIT_AUTH_PER_MINUTE)
+  };
+  return policy;
+};
+
+/**
+ * Rate limit policy configured for this deployment
+ */
+export const getRateLimitPolicy = (): RateLimitPolicy => {
+  if (!policy) {
+    throw new Error('Rate limit policy not initialized. Call initRateLimitPolicy() first.');
+  }
+  return policy;
+};
+
+/**
+ * Requests per minute for a bucket (dealers without a tier get tier 1 limits)
+ */
+export const getRequestsPerMinute = (
+  bucket: RateLimitBucket,
+  subscriptionTier: number | null = null,
+  policy: RateLimitPolicy = getRateLimitPolicy()
+): number => {
+  if (bucket === 'auth') return policy.auth_per_minute;
+
+  const limits = bucket === 'verify' ? policy.verify_per_minute : policy.history_per_minute;
+  const tierIndex = Math.min(Math.max((subscriptionTier ?? 1) - 1, 0), limits.length - 1);
+  return limits[tierIndex];
+};
+
+/**
+ * Token bucket for a requests-per-minute limit
+ */
+export const toTokenBucket = (requestsPerMinute: number): RateLimit => ({
+  capacity: requestsPerMinute,
+  refillPerSecond: requestsPerMinute / 60
+});
@@ -0,0 +1,55 @@
+// Redis token buckets - shared by every API instance
+// One Lua script refills and takes a token atomically, using the Redis clock so instance clocks
+// don't matter. Buckets expire once they would be full again.
+
+import type { RateLimit, RateLimitResult, RateLimitStore, RedisEvalClient } from './types.js';
+
+// KEYS[1] bucket, ARGV[1] capacity, ARGV[2] refill per second
+// Returns { allowed, remaining, retry after ms, reset ms }
+const CONSUME_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updated_at')
+local tokens = capacity
+if bucket[1] then
+  tokens = math.min(capacity, tonumber(bucket[1]) + ((now - tonumber(bucket[2])) / 1000) * refill)
+end
+
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+
+local reset_ms = math.ceil(((capacity - tokens) / refill) * 1000)
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated_at', now)
+redis.call('PEXPIRE', KEYS[1], math.max(reset_ms, 1))
+
+local retry_ms = 0
+if allowed == 0 then
+  retry_ms = math.ceil(((1 - tokens) / refill) * 1000)
+end
+
+return { allowed, math.floor(tokens), retry_ms, reset_ms }
+`;
+
+export const createRedisRateLimitStore = (client: RedisEvalClient, keyPrefix = 'ratelimit:'): RateLimitStore => ({
+  name: 'redis',
+  consume: async (key: string, limit: RateLimit): Promise<RateLimitResult> => {
+    const reply = await client.eval(CONSUME_SCRIPT, 1, `${keyPrefix}${key}`, limit.capacity, limit.refillPerSecond);
+    if (!Array.isArray(reply) || reply.length !== 4) {
+      throw new Error('Unexpected rate limit script reply from Redis');
+    }
+
+    const [allowed, remaining, retryAfterMs, resetMs] = reply.map(Number);
+    return {
+      allowed: allowed === 1,
+      remaining,
+      retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+      resetSeconds: Math.ceil(resetMs / 1000)
+    };
+  }
+});
@@ -0,0 +1,23 @@
+// Token bucket limit: `capacity` requests at once, refilled at `refillPerSecond`
+export interface RateLimit {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number; // Whole tokens left after this request
+  retryAfterSeconds: number; // Until the next token (0 when allowed)
+  resetSeconds: number; // Until the bucket is full again
+}
+
+// Where buckets live - in process for a single instance, Redis when several instances share limits
+export interface RateLimitStore {
+  name: string;
+  consume(key: string, limit: RateLimit): Promise<RateLimitResult>;
+}
+
+// The one Redis command the Redis store needs (ioredis signature; wrap node-redis' eval({ keys, arguments }))
+export interface RedisEvalClient {
+  eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+}
@@ -0,0 +1,103 @@
+// Credential revocation service - StatusList2021 bitstrings backed by credential_statuses
+// Each credential points at one bit of a published status list; a set bit means revoked
+// The signed status list credential itself is issued by issuer.ts
+
+import { gunzipSync, gzipSync } from 'zlib';
+import type {
+  CredentialRevocationStatus,
+  CredentialStatus,
+  PrivadoCredential
+} from '@ca2achain/shared';
+import { allocateCredentialStatus, getCredentialStatus } from './database/credential-status.js';
+import { getCurrentTimestamp } from './utilities.js';
+
+// =============================================
+// BITSTRING ENCODING
+// =============================================
+
+/**
+ * Encode revoked indexes as a StatusList2021 bitstring (GZIP + base64url, index 0 = most significant bit)
+ */
+export const encodeStatusList = (listSize: number, revokedIndexes: number[]): string => {
+  const bitstring = Buffer.alloc(Math.ceil(listSize / 8));
+  for (const index of revokedIndexes) {
+    if (index < 0 || index >= listSize) {
+      throw new Error(`Status list index ${index} out of range`);
+    }
+    bitstring[index >> 3] |= 0x80 >> (index & 7);
+  }
+  return gzipSync(bitstring).toString('base64url');
+};
+
+/**
+ * Read one bit from an encoded StatusList2021 bitstring
+ */
+export const isStatusListBitSet = (encodedList: string, index: number): boolean => {
+  const bitstring = gunzipSync(Buffer.from(encodedList, 'base64url'));
+  if (index < 0 || index >= bitstring.length * 8) {
+    throw new Error(`Status list index ${index} out of range`);
+  }
+  return (bitstring[index >> 3] & (0x80 >> (index & 7))) !== 0;
+};
+
+// =============================================
+// CREDENTIAL STATUS ENTRIES
+// =============================================
+
+/**
+ * Public URL of a status list credential (served by GET /verify/status-lists/:list_id)
+ */
+export const getStatusListUrl = (statusListId: string): string => {
+  const baseUrl = (process.env.API_BASE_URL || 'http://localhost:3001').replace(/\/$/, '');
+  return `${baseUrl}/verify/status-lists/${statusListId}`;
+};
+
+/**
+ * Register a new credential in the revocation registry and build its credentialStatus entry
+ */
+export const createCredentialStatusEntry = async (
+  credentialId: string,
+  buyerReferenceId: string
+): Promise<CredentialStatus> => {
+  const { statusListId, statusListIndex } = await allocateCredentialStatus(credentialId, buyerReferenceId);
+  const statusListUrl = getStatusListUrl(statusListId);
+
+  return {
+    id: `${statusListUrl}#${statusListIndex}`,
+    type: 'StatusList2021Entry',
+    status_purpose: 'revocation',
+    status_list_index: String(statusListIndex),
+    status_list_credential: statusListUrl
+  };
+};
+
+// =============================================
+// STATUS CHECKS
+// =============================================
+
+/**
+ * Current revocation status of a credential, or null if it was never registered
+ */
+export const getCredentialRevocationStatus = async (credentialId: string): Promise<CredentialRevocationStatus | null> => {
+  const status = await getCredentialStatus(credentialId);
+  if (!status) return null;
+
+  return {
+    credential_id: status.credential_id,
+    status_list_credential: getStatusListUrl(status.status_list_id),
+    status_list_index: status.status_list_index,
+    revoked: status.revoked,
+    revoked_at: status.revoked_at || undefined,
+    revocation_reason: status.revocation_reason || undefined,
+    checked_at: getCurrentTimestamp()
+  };
+};
+
+/**
+ * Whether a credential may still be used for verification
+ * Unregistered credentials are treated as revoked (issued before the registry existed)
+ */
+export const isCredentialActive = async (credential: PrivadoCredential): Promise<boolean> => {
+  const status = await getCredentialRevocationStatus(credential.credential_id);
+  return !!status && !status.revoked;
+};
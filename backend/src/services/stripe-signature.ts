@@ -0,0 +1,65 @@
+// Stripe webhook signatures - Stripe-Signature verification against the raw request body
+// Header is 't=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">[,v1=...]'; Stripe sends one v1
+// per active endpoint secret while a secret is being rolled, and any one of them may match.
+// Used for real Stripe deliveries and for the locally signed fixtures (mocks/stripe-events.ts).
+
+import crypto from 'crypto';
+
+const DEFAULT_TOLERANCE_SECONDS = 300; // Stripe's default replay window
+
+export const STRIPE_WEBHOOK_TOLERANCE_SECONDS =
+  Number(process.env.STRIPE_WEBHOOK_TOLERANCE_SECONDS) || DEFAULT_TOLERANCE_SECONDS;
+
+const computeStripeSignature = (payload: string, timestamp: string, secret: string): Buffer => {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest();
+};
+
+/**
+ * Build a Stripe-Signature header for a payload (webhook fixtures)
+ */
+export const signStripeWebhook = (
+  payload: string,
+  secret: string | undefined = process.env.STRIPE_WEBHOOK_SECRET,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string => {
+  if (!secret) {
+    throw new Error('STRIPE_WEBHOOK_SECRET environment variable is required');
+  }
+  return `t=${timestamp},v1=${computeStripeSignature(payload, String(timestamp), secret).toString('hex')}`;
+};
+
+/**
+ * Verify a Stripe-Signature header against the raw request body
+ * Rejects timestamps outside the tolerance window (past or future) so captured deliveries can't be replayed
+ */
+export const verifyStripeSignature = (
+  payload: string,
+  signatureHeader: string | undefined,
+  secret: string | undefined = process.env.STRIPE_WEBHOOK_SECRET,
+  toleranceSeconds: number = STRIPE_WEBHOOK_TOLERANCE_SECONDS,
+  now: number = Date.now()
+): boolean => {
+  if (!secret) {
+    throw new Error('STRIPE_WEBHOOK_SECRET environment variable is required');
+  }
+  if (!signatureHeader) return false;
+
+  let timestamp = '';
+  const signatures: string[] = [];
+  for (const part of signatureHeader.split(',')) {
+    const [key, ...value] = part.split('=');
+    if (key.trim() === 't') timestamp = value.join('=');
+    if (key.trim() === 'v1') signatures.push(value.join('='));
+  }
+
+  // v0 (test-mode legacy scheme) is deliberately ignored
+  const timestampSeconds = Number(timestamp);
+  if (!signatures.length || !timestamp || !Number.isInteger(timestampSeconds)) return false;
+  if (Math.abs(now / 1000 - timestampSeconds) > toleranceSeconds) return false;
+
+  const expected = computeStripeSignature(payload, timestamp, secret);
+  return signatures.some(signature => {
+    const received = Buffer.from(signature, 'hex');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  });
+};
@@ -0,0 +1,428 @@
+// Stripe webhook service - applies checkout, subscription and invoice events to buyers and dealers
+// checkout.session.completed         → buyer payment_status 'succeeded' / dealer linked to its Stripe subscription
+// customer.subscription.created      → dealer subscription_status, tier, next billing date
+// customer.subscription.updated      → same (status changes; an upgrade grants the extra monthly credits)
+// customer.subscription.deleted      → dealer subscription_status 'canceled'
+//                                      (subscription events older than the last one applied are ignored)
+// invoice.paid                       → new billing period: unused credits expire, monthly credits granted (credit_ledger)
+// invoice.payment_failed             → dealer subscription_status 'past_due'
+//
+// Stripe delivers events at least once and retries failures, so every handled event is claimed in
+// processed_webhook_events first: replays are acknowledged as duplicates, failed attempts can be retried.
+
+import type { DealerAccount, SubscriptionStatus } from '@ca2achain/shared';
+import { updateBuyerAccount } from './database/buyer-accounts.js';
+import {
+  getDealerById,
+  getDealerByStripeSubscription,
+  updateDealerBilling,
+  applyDealerSubscriptionEvent,
+  startDealerBillingPeriod,
+  TIER_MONTHLY_CREDITS
+} from './database/dealer-accounts.js';
+import { grantDealerPlanUpgrade } from './database/credit-ledger.js';
+import { createPaymentEvent, updatePaymentStatus } from './database/payment-events.js';
+import { claimWebhookEvent, markWebhookEventFailed, markWebhookEventProcessed } from './database/webhook-events.js';
+
+export type StripeLifecycleEventType =
+  | 'checkout.session.completed'
+  | 'customer.subscription.created'
+  | 'customer.subscription.updated'
+  | 'customer.subscription.deleted'
+  | 'invoice.paid'
+  | 'invoice.payment_failed';
+
+// Stripe object shapes - the fields the handlers read (payloads carry many more)
+// Expandable fields arrive as an ID or as the expanded object
+type StripeExpandable = string | { id: string } | null;
+type StripeMetadata = Record<string, string>;
+
+export interface StripeCheckoutSession {
+  id: string;
+  mode: 'payment' | 'setup' | 'subscription';
+  payment_status: 'paid' | 'unpaid' | 'no_payment_required';
+  customer?: StripeExpandable;
+  subscription?: StripeExpandable;
+  payment_intent?: StripeExpandable;
+  metadata?: StripeMetadata | null;
+}
+
+export interface StripeSubscription {
+  id: string;
+  status: string;
+  customer?: StripeExpandable;
+  current_period_end?: number; // Older API versions
+  items?: { data: Array<{ current_period_end?: number }> }; // Newer API versions keep the period here
+  metadata?: StripeMetadata | null;
+}
+
+export interface StripeInvoice {
+  id: string;
+  customer?: StripeExpandable;
+  billing_reason?: string | null;
+  amount_due: number;
+  amount_paid: number;
+  attempt_count?: number;
+  payment_intent?: StripeExpandable;
+  lines?: { data: Array<{ period?: { start: number; end: number } }> };
+  // Older API versions
+  subscription?: StripeExpandable;
+  subscription_details?: { metadata?: StripeMetadata | null } | null;
+  // Newer API versions
+  parent?: {
+    subscription_details?: { subscription?: StripeExpandable; metadata?: StripeMetadata | null } | null;
+  } | null;
+}
+
+export type StripeEventObject = StripeCheckoutSession | StripeSubscription | StripeInvoice;
+
+export interface StripeWebhookEvent {
+  id: string;
+  type: string;
+  created: number; // Unix seconds (Stripe doesn't deliver events in order)
+  data: { object: StripeEventObject };
+}
+
+// data.object of each handled event type
+interface StripeEventObjects {
+  'checkout.session.completed': StripeCheckoutSession;
+  'customer.subscription.created': StripeSubscription;
+  'customer.subscription.updated': StripeSubscription;
+  'customer.subscription.deleted': StripeSubscription;
+  'invoice.paid': StripeInvoice;
+  'invoice.payment_failed': StripeInvoice;
+}
+
+export type StripeEventOutcome = 'processed' | 'duplicate' | 'ignored';
+
+export interface StripeEventResult {
+  event_id: string;
+  event_type: string;
+  outcome: StripeEventOutcome;
+  buyer_id?: string;
+  dealer_id?: string;
+}
+
+interface HandlerResult {
+  outcome: 'processed' | 'ignored';
+  buyer_id?: string;
+  dealer_id?: string;
+}
+
+const WEBHOOK_PROVIDER = 'stripe';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Stripe subscription statuses collapsed onto dealer_accounts.subscription_status
+const SUBSCRIPTION_STATUS_MAP: Record<string, SubscriptionStatus> = {
+  active: 'active',
+  trialing: 'trialing',
+  past_due: 'past_due',
+  unpaid: 'past_due',
+  incomplete: 'past_due',
+  paused: 'past_due',
+  canceled: 'canceled',
+  incomplete_expired: 'canceled'
+};
+
+// =============================================
+// PAYLOAD HELPERS
+// =============================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Every handled object type carries its Stripe ID; handlers read the rest by event type
+const isStripeObject = (value: unknown): value is StripeEventObject => isRecord(value) && typeof value.id === 'string';
+
+/**
+ * Validate the shape of a Stripe event body
+ */
+export const parseStripeWebhookEvent = (body: unknown): StripeWebhookEvent => {
+  if (!isRecord(body) || typeof body.id !== 'string' || typeof body.type !== 'string') {
+    throw new Error('Stripe event is missing id or type');
+  }
+  if (typeof body.created !== 'number') {
+    throw new Error('Stripe event is missing created');
+  }
+  if (!isRecord(body.data) || !isStripeObject(body.data.object)) {
+    throw new Error('Stripe event is missing data.object');
+  }
+  return { id: body.id, type: body.type, created: body.created, data: { object: body.data.object } };
+};
+
+// Expandable Stripe fields arrive as an ID or as the expanded object
+const stripeId = (value: StripeExpandable | undefined): string | undefined => {
+  return typeof value === 'string' ? value : value?.id;
+};
+
+const toIsoTimestamp = (unixSeconds: unknown): string | undefined =>
+  typeof unixSeconds === 'number' ? new Date(unixSeconds * 1000).toISOString() : undefined;
+
+// 'tier1' | 'tier2' | 'tier3' (checkout metadata) → 1 | 2 | 3
+const parsePlanTier = (planTier: unknown): number | undefined => {
+  const tier = typeof planTier === 'string' ? parseInt(planTier.replace(/^tier/, '')) : NaN;
+  return tier in TIER_MONTHLY_CREDITS ? tier : undefined;
+};
+
+// Newer API versions moved the period onto subscription items
+const subscriptionPeriodEnd = (subscription: StripeSubscription): string | undefined =>
+  toIsoTimestamp(subscription.current_period_end ?? subscription.items?.data?.[0]?.current_period_end);
+
+const invoiceSubscription = (invoice: StripeInvoice) => ({
+  subscriptionId: stripeId(invoice.subscription ?? invoice.parent?.subscription_details?.subscription),
+  metadata: invoice.subscription_details?.metadata ?? invoice.parent?.subscription_details?.metadata ?? {}
+});
+
+/**
+ * Find the dealer for a Stripe subscription (linked ID first, then the dealer_id we put in metadata)
+ */
+const resolveDealer = async (subscriptionId?: string, metadata?: StripeMetadata | null): Promise<DealerAccount | null> => {
+  if (subscriptionId) {
+    const dealer = await getDealerByStripeSubscription(subscriptionId);
+    if (dealer) return dealer;
+  }
+
+  const dealerId = metadata?.dealer_id;
+  if (dealerId && UUID_PATTERN.test(dealerId)) {
+    return getDealerById(dealerId);
+  }
+  return null;
+};
+
+// =============================================
+// CHECKOUT
+// =============================================
+
+const handleCheckoutSessionCompleted = async (session: StripeCheckoutSession): Promise<HandlerResult> => {
+  const metadata: StripeMetadata = session.metadata ?? {};
+  const paid = session.payment_status === 'paid' || session.payment_status === 'no_payment_required';
+  const customerId = stripeId(session.customer);
+
+  // Buyer one-time verification fee
+  if (session.mode === 'payment' && metadata.payment_type === 'verification' && UUID_PATTERN.test(metadata.buyer_id ?? '')) {
+    // Delayed payment methods complete checkout unpaid - the buyer stays pending
+    if (!paid) {
+      return { outcome: 'ignored', buyer_id: metadata.buyer_id };
+    }
+
+    await updateBuyerAccount(metadata.buyer_id, { payment_status: 'succeeded' });
+    if (UUID_PATTERN.test(metadata.payment_id ?? '')) {
+      await updatePaymentStatus(metadata.payment_id, 'succeeded', {
+        stripe_info: { stripe_customer_id: customerId },
+        stripe_payment_intent_id: stripeId(session.payment_intent)
+      });
+    }
+
+    console.log(`💳 Stripe: verification fee paid by buyer ${metadata.buyer_id}`);
+    return { outcome: 'processed', buyer_id: metadata.buyer_id };
+  }
+
+  // Dealer subscription - link the Stripe subscription; its own events set status and credits
+  if (session.mode === 'subscription') {
+    const subscriptionId = stripeId(session.subscription);
+    const dealer = await resolveDealer(undefined, metadata);
+    if (!dealer || !subscriptionId) {
+      return { outcome: 'ignored' };
+    }
+
+    await updateDealerBilling(dealer.id, {
+      stripe_subscription_id: subscriptionId,
+      payment_info: {
+        ...dealer.payment_info,
+        stripe_info: { ...dealer.payment_info?.stripe_info, stripe_customer_id: customerId }
+      }
+    });
+    if (paid && UUID_PATTERN.test(metadata.payment_id ?? '')) {
+      await updatePaymentStatus(metadata.payment_id, 'succeeded', {
+        stripe_info: { stripe_customer_id: customerId }
+      });
+    }
+
+    console.log(`💳 Stripe: subscription ${subscriptionId} linked to dealer ${dealer.dealer_reference_id}`);
+    return { outcome: 'processed', dealer_id: dealer.id };
+  }
+
+  return { outcome: 'ignored' };
+};
+
+// =============================================
+// SUBSCRIPTIONS
+// =============================================
+
+// Subscription events are applied only if no newer one was (a late 'updated' must not undo a
+// cancellation or a later status change); events from the same second are applied in arrival order
+const handleSubscriptionChange = async (subscription: StripeSubscription, event: StripeWebhookEvent): Promise<HandlerResult> => {
+  const dealer = await resolveDealer(subscription.id, subscription.metadata);
+  if (!dealer) {
+    return { outcome: 'ignored' };
+  }
+
+  const subscriptionStatus = SUBSCRIPTION_STATUS_MAP[subscription.status];
+  if (!subscriptionStatus) {
+    console.log(`Unhandled Stripe subscription status: ${subscription.status}`);
+    return { outcome: 'ignored', dealer_id: dealer.id };
+  }
+
+  const tier = parsePlanTier(subscription.metadata?.plan_tier) ?? dealer.subscription_tier ?? undefined;
+  const periodEnd = subscriptionPeriodEnd(subscription);
+
+  const updates: Parameters<typeof updateDealerBilling>[1] = {
+    subscription_status: subscriptionStatus,
+    stripe_subscription_id: subscription.id
+  };
+  if (periodEnd) {
+    updates.billing_date = periodEnd.split('T')[0];
+  }
+  if (tier && tier !== dealer.subscription_tier) {
+    updates.subscription_tier = tier;
+  }
+
+  const applied = await applyDealerSubscriptionEvent(dealer.id, toIsoTimestamp(event.created)!, updates);
+  if (!applied) {
+    console.log(`💳 Stripe: ignored out-of-order ${event.type} for dealer ${dealer.dealer_reference_id}`);
+    return { outcome: 'ignored', dealer_id: dealer.id };
+  }
+
+  // An upgrade adds the monthly credits not yet granted in the period immediately; a downgrade applies
+  // from the next invoice. The first period's credits come with the first invoice. The grant compares
+  // against the plan credits granted, not the tier updated above, so a retry after a failed grant
+  // (the tier already changed) still grants, and never twice.
+  if (tier) {
+    await grantDealerPlanUpgrade(dealer.id, TIER_MONTHLY_CREDITS[tier], `Upgrade to tier ${tier}`);
+  }
+
+  console.log(`💳 Stripe: dealer ${dealer.dealer_reference_id} subscription ${subscription.status} (tier ${tier ?? 'unchanged'})`);
+  return { outcome: 'processed', dealer_id: dealer.id };
+};
+
+const handleSubscriptionDeleted = async (subscription: StripeSubscription, event: StripeWebhookEvent): Promise<HandlerResult> => {
+  const dealer = await resolveDealer(subscription.id, subscription.metadata);
+  if (!dealer) {
+    return { outcome: 'ignored' };
+  }
+
+  const applied = await applyDealerSubscriptionEvent(dealer.id, toIsoTimestamp(event.created)!, {
+    subscription_status: 'canceled'
+  });
+  if (!applied) {
+    console.log(`💳 Stripe: ignored out-of-order ${event.type} for dealer ${dealer.dealer_reference_id}`);
+    return { outcome: 'ignored', dealer_id: dealer.id };
+  }
+
+  console.log(`💳 Stripe: dealer ${dealer.dealer_reference_id} subscription canceled`);
+  return { outcome: 'processed', dealer_id: dealer.id };
+};
+
+// =============================================
+// INVOICES
+// =============================================
+
+/**
+ * Record a renewal invoice in the payments log (the first invoice is the checkout payment)
+ * Returns the payment ID, if one was recorded
+ */
+const recordInvoicePayment = async (dealer: DealerAccount, invoice: StripeInvoice, status: 'succeeded' | 'failed'): Promise<string | undefined> => {
+  const amount = status === 'succeeded' ? invoice.amount_paid : invoice.amount_due;
+  if (invoice.billing_reason === 'subscription_create' || !amount) return undefined;
+
+  const payment = await createPaymentEvent({
+    dealer_id: dealer.id,
+    transaction_type: 'subscription',
+    amount_cents: amount,
+    customer_reference_id: dealer.dealer_reference_id,
+    payment_provider_info: {
+      stripe_info: { stripe_customer_id: stripeId(invoice.customer) },
+      stripe_payment_intent_id: stripeId(invoice.payment_intent)
+    }
+  });
+  await updatePaymentStatus(payment.id, status);
+  return payment.id;
+};
+
+const handleInvoicePaid = async (invoice: StripeInvoice): Promise<HandlerResult> => {
+  const { subscriptionId, metadata } = invoiceSubscription(invoice);
+  const dealer = await resolveDealer(subscriptionId, metadata);
+  if (!dealer) {
+    return { outcome: 'ignored' };
+  }
+
+  const periodEnd = toIsoTimestamp(invoice.lines?.data?.[0]?.period?.end);
+  if (!periodEnd) {
+    await updateDealerBilling(dealer.id, { subscription_status: 'active' });
+    return { outcome: 'processed', dealer_id: dealer.id };
+  }
+
+  // The period's credit grant links to the invoice payment
+  const tier = parsePlanTier(metadata?.plan_tier) ?? dealer.subscription_tier;
+  const credits = tier ? TIER_MONTHLY_CREDITS[tier] : 0;
+  const paymentId = await recordInvoicePayment(dealer, invoice, 'succeeded');
+
+  const started = await startDealerBillingPeriod(dealer.id, periodEnd, credits, paymentId);
+  if (started) {
+    console.log(`💳 Stripe: dealer ${dealer.dealer_reference_id} granted ${credits} credits, period ends ${periodEnd}`);
+  } else {
+    // Paying an overdue invoice for the current period reactivates without touching credits
+    await updateDealerBilling(dealer.id, { subscription_status: 'active' });
+  }
+
+  return { outcome: 'processed', dealer_id: dealer.id };
+};
+
+const handleInvoicePaymentFailed = async (invoice: StripeInvoice): Promise<HandlerResult> => {
+  const { subscriptionId, metadata } = invoiceSubscription(invoice);
+  const dealer = await resolveDealer(subscriptionId, metadata);
+  if (!dealer) {
+    return { outcome: 'ignored' };
+  }
+
+  await updateDealerBilling(dealer.id, { subscription_status: 'past_due' });
+  await recordInvoicePayment(dealer, invoice, 'failed');
+
+  console.log(`💳 Stripe: dealer ${dealer.dealer_reference_id} invoice payment failed (attempt ${invoice.attempt_count ?? 1})`);
+  return { outcome: 'processed', dealer_id: dealer.id };
+};
+
+// =============================================
+// EVENT PROCESSING
+// =============================================
+
+type StripeEventHandler<T extends StripeEventObject> = (object: T, event: StripeWebhookEvent) => Promise<HandlerResult>;
+
+const HANDLERS: { [T in StripeLifecycleEventType]: StripeEventHandler<StripeEventObjects[T]> } = {
+  'checkout.session.completed': handleCheckoutSessionCompleted,
+  'customer.subscription.created': handleSubscriptionChange,
+  'customer.subscription.updated': handleSubscriptionChange,
+  'customer.subscription.deleted': handleSubscriptionDeleted,
+  'invoice.paid': handleInvoicePaid,
+  'invoice.payment_failed': handleInvoicePaymentFailed
+};
+
+export const STRIPE_LIFECYCLE_EVENTS = Object.keys(HANDLERS) as StripeLifecycleEventType[];
+
+/**
+ * Apply a verified Stripe event exactly once
+ * Throws when the handler fails - the event is left claimable so Stripe's retry reprocesses it
+ */
+export const processStripeEvent = async (event: StripeWebhookEvent): Promise<StripeEventResult> => {
+  const handler = HANDLERS[event.type as StripeLifecycleEventType] as StripeEventHandler<StripeEventObject> | undefined;
+  if (!handler) {
+    console.log(`Unhandled Stripe webhook event: ${event.type}`);
+    return { event_id: event.id, event_type: event.type, outcome: 'ignored' };
+  }
+
+  const claimed = await claimWebhookEvent(WEBHOOK_PROVIDER, event.id, event.type);
+  if (!claimed) {
+    return { event_id: event.id, event_type: event.type, outcome: 'duplicate' };
+  }
+
+  try {
+    const result = await handler(event.data.object, event);
+    await markWebhookEventProcessed(WEBHOOK_PROVIDER, event.id);
+    return { event_id: event.id, event_type: event.type, ...result };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    await markWebhookEventFailed(WEBHOOK_PROVIDER, event.id, errorMessage).catch(markError => {
+      console.error(`❌ Stripe: failed to release webhook event ${event.id}:`, markError);
+    });
+    throw new Error(`Stripe event ${event.type} failed: ${errorMessage}`);
+  }
+};
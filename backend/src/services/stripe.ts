@@ -1,326 +1,240 @@
-/**
- * Mock Stripe Service for Development
- * Use this when you don't have Stripe API keys yet
- */
+// Stripe service - buyer verification fee and dealer subscription billing
+// Checkout sessions carry buyer_id / dealer_id / payment_id metadata; the webhook handlers
+// (stripe-webhooks.ts) apply the results, the verify functions confirm a session on redirect.
+
+import Stripe from 'stripe';
+import { TIER_MONTHLY_CREDITS } from './database/dealer-accounts.js';
+import { verifyStripeSignature } from './stripe-signature.js';
+import type {
+  BuyerPaymentResult,
+  CheckoutSession,
+  DealerSubscriptionResult,
+  SubscriptionPlan
+} from './providers/types.js';
 
-import { randomUUID } from 'crypto';
+const STRIPE_API_VERSION = '2023-10-16';
+const BUYER_VERIFICATION_FEE_CENTS = 3900; // $39 one-time identity verification
 
-// Mock delay to simulate network requests
-const mockDelay = (ms: number = 100) => new Promise(resolve => setTimeout(resolve, ms));
+let stripe: Stripe | null = null;
 
-console.log('🧪 Using MOCK Stripe service for development');
+const getStripe = (): Stripe => {
+  if (!stripe) {
+    throw new Error('Stripe not initialized. Call initStripe() first.');
+  }
+  return stripe;
+};
 
-// In-memory storage for mock data
-const mockCustomers = new Map();
-const mockSessions = new Map();
-const mockSubscriptions = new Map();
+const frontendUrl = () => process.env.FRONTEND_URL || 'http://localhost:3000';
+
+// STRIPE_TIER1_PRICE_ID etc. - recurring monthly prices created in the Stripe dashboard
+const getPlanPriceId = (plan: SubscriptionPlan): string => {
+  const priceId = process.env[`STRIPE_${plan.toUpperCase()}_PRICE_ID`];
+  if (!priceId) {
+    throw new Error(`STRIPE_${plan.toUpperCase()}_PRICE_ID environment variable is required`);
+  }
+  return priceId;
+};
+
+const planTierNumber = (plan: SubscriptionPlan): number => Number(plan.replace('tier', ''));
+
+const stripeId = (value: string | { id: string } | null | undefined): string | null =>
+  typeof value === 'string' ? value : value?.id ?? null;
 
 // =============================================
-// BUYER PAYMENT FUNCTIONS (One-time $2 fee)
+// BUYER PAYMENT FUNCTIONS (One-time verification fee)
 // =============================================
 
+/**
+ * Create a Checkout session for the buyer's one-time verification fee
+ */
 export const createBuyerCheckoutSession = async (
   buyerEmail: string,
-  buyerId: string
-) => {
-  await mockDelay();
-  
-  const sessionId = `cs_mock_${randomUUID().slice(0, 8)}`;
-  const paymentIntentId = `pi_mock_${randomUUID().slice(0, 8)}`;
-  
-  const session = {
-    id: sessionId,
-    url: `https://checkout.stripe.com/pay/mock_${sessionId}`,
-    payment_intent: paymentIntentId,
-    metadata: {
+  buyerId: string,
+  paymentId?: string
+): Promise<CheckoutSession> => {
+  try {
+    const metadata = {
       buyer_id: buyerId,
-      payment_type: 'verification'
-    },
-    mode: 'payment',
-    status: 'open'
-  };
-  
-  mockSessions.set(sessionId, session);
-  
-  console.log(`🧪 Mock Stripe: Created buyer checkout session for ${buyerEmail}`);
-  return session;
+      payment_type: 'verification',
+      ...(paymentId && { payment_id: paymentId })
+    };
+
+    const session = await getStripe().checkout.sessions.create({
+      mode: 'payment',
+      customer_email: buyerEmail,
+      client_reference_id: buyerId,
+      line_items: [{
+        quantity: 1,
+        price_data: {
+          currency: 'usd',
+          unit_amount: BUYER_VERIFICATION_FEE_CENTS,
+          product_data: { name: 'CA2AChain identity verification' }
+        }
+      }],
+      metadata,
+      payment_intent_data: { metadata },
+      success_url: `${frontendUrl()}/buyer/profile?payment=success&session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${frontendUrl()}/buyer/profile?payment=canceled`
+    });
+
+    console.log(`✅ Stripe checkout session created for buyer ${buyerId}: ${session.id}`);
+    return { id: session.id, url: session.url };
+
+  } catch (error) {
+    console.error('❌ Failed to create buyer checkout session:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new Error(`Stripe checkout creation failed: ${errorMessage}`);
+  }
 };
 
-export const verifyBuyerPayment = async (sessionId: string) => {
-  await mockDelay();
-  
-  const session = mockSessions.get(sessionId);
-  if (!session) {
-    throw new Error('Mock payment session not found');
+/**
+ * Confirm a buyer checkout session was paid
+ */
+export const verifyBuyerPayment = async (sessionId: string): Promise<BuyerPaymentResult> => {
+  const session = await getStripe().checkout.sessions.retrieve(sessionId);
+
+  if (session.payment_status !== 'paid' || !session.metadata?.buyer_id) {
+    throw new Error('Stripe payment session is not paid');
   }
-  
-  // Mark as completed
-  session.status = 'complete';
-  mockSessions.set(sessionId, session);
-  
-  const result = {
+
+  return {
     buyerId: session.metadata.buyer_id,
-    paymentIntentId: session.payment_intent,
-    amountPaid: 3900, // $39.00 in cents
+    paymentIntentId: stripeId(session.payment_intent),
+    amountPaid: session.amount_total ?? 0
   };
-  
-  console.log(`🧪 Mock Stripe: Verified buyer payment for buyer ${result.buyerId}`);
-  return result;
 };
 
 // =============================================
 // DEALER SUBSCRIPTION FUNCTIONS
 // =============================================
 
-export const createDealerCustomer = async (
-  email: string,
-  companyName: string
-) => {
-  await mockDelay();
-  
-  const customerId = `cus_mock_${randomUUID().slice(0, 8)}`;
-  const customer = {
-    id: customerId,
+export const createDealerCustomer = async (email: string, companyName: string) => {
+  return getStripe().customers.create({
     email,
-    metadata: {
-      account_type: 'dealer',
-      company_name: companyName
-    },
-    created: Math.floor(Date.now() / 1000)
-  };
-  
-  mockCustomers.set(customerId, customer);
-  
-  console.log(`🧪 Mock Stripe: Created dealer customer for ${companyName}`);
-  return customer;
+    name: companyName,
+    metadata: { account_type: 'dealer', company_name: companyName }
+  });
 };
 
+/**
+ * Create a subscription Checkout session - dealer_id and plan_tier are copied onto the
+ * subscription so its lifecycle webhooks can be matched to the dealer
+ */
 export const createDealerSubscriptionCheckout = async (
   dealerEmail: string,
   companyName: string,
   dealerId: string,
-  plan: 'tier1' | 'tier2' | 'tier3'
-) => {
-  await mockDelay();
-  
-  const sessionId = `cs_mock_${randomUUID().slice(0, 8)}`;
-  const subscriptionId = `sub_mock_${randomUUID().slice(0, 8)}`;
-  const customerId = `cus_mock_${randomUUID().slice(0, 8)}`;
-  
-  const planLimits = {
-    tier1: 50,    // Starter: $199/month for 50 verifications
-    tier2: 350,   // Business: $999/month for 350 verifications  
-    tier3: 3000   // Enterprise: $3799/month for 3000 verifications
-  };
-  
-  const session = {
-    id: sessionId,
-    url: `https://checkout.stripe.com/pay/mock_${sessionId}`,
-    customer: customerId,
-    subscription: subscriptionId,
-    metadata: {
+  plan: SubscriptionPlan,
+  paymentId?: string
+): Promise<CheckoutSession> => {
+  try {
+    const subscriptionMetadata = {
       dealer_id: dealerId,
-      monthly_query_limit: planLimits[plan].toString(),
-      plan_tier: plan
-    },
-    mode: 'subscription',
-    status: 'open'
-  };
-  
-  mockSessions.set(sessionId, session);
-  
-  console.log(`🧪 Mock Stripe: Created ${plan} subscription checkout for ${companyName}`);
-  return session;
-};
+      plan_tier: plan,
+      monthly_query_limit: String(TIER_MONTHLY_CREDITS[planTierNumber(plan)])
+    };
 
-export const verifyDealerSubscription = async (sessionId: string) => {
-  await mockDelay();
-  
-  const session = mockSessions.get(sessionId);
-  if (!session || !session.subscription) {
-    throw new Error('Mock subscription session not found');
-  }
-  
-  // Mark as completed
-  session.status = 'complete';
-  mockSessions.set(sessionId, session);
-  
-  // Create mock subscription
-  const subscription = {
-    id: session.subscription,
-    customer: session.customer,
-    status: 'active',
-    current_period_start: new Date(),
-    current_period_end: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-    metadata: session.metadata
-  };
-  
-  mockSubscriptions.set(session.subscription, subscription);
-  
-  const result = {
-    dealerId: session.metadata.dealer_id,
-    stripeCustomerId: session.customer,
-    subscriptionId: session.subscription,
-    subscriptionStatus: 'active',
-    monthlyQueryLimit: parseInt(session.metadata.monthly_query_limit),
-    planTier: session.metadata.plan_tier,
-    currentPeriodStart: subscription.current_period_start,
-    currentPeriodEnd: subscription.current_period_end,
-  };
-  
-  console.log(`🧪 Mock Stripe: Verified ${result.planTier} subscription for dealer ${result.dealerId}`);
-  return result;
-};
+    const session = await getStripe().checkout.sessions.create({
+      mode: 'subscription',
+      customer_email: dealerEmail,
+      client_reference_id: dealerId,
+      line_items: [{ price: getPlanPriceId(plan), quantity: 1 }],
+      metadata: {
+        ...subscriptionMetadata,
+        ...(paymentId && { payment_id: paymentId })
+      },
+      subscription_data: { metadata: subscriptionMetadata },
+      success_url: `${frontendUrl()}/dealer/billing?subscription=success&session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${frontendUrl()}/dealer/billing?subscription=canceled`
+    });
 
-// =============================================
-// WEBHOOK SUPPORT
-// =============================================
+    console.log(`✅ Stripe ${plan} subscription checkout created for ${companyName}: ${session.id}`);
+    return { id: session.id, url: session.url };
 
-export const verifyWebhookSignature = (
-  payload: string,
-  signature: string,
-  secret: string
-): any => {
-  // Mock webhook event - just parse the payload
-  try {
-    const event = JSON.parse(payload);
-    console.log(`🧪 Mock Stripe: Webhook event ${event.type}`);
-    return event;
-  } catch (err) {
-    throw new Error('Mock webhook signature verification failed');
+  } catch (error) {
+    console.error('❌ Failed to create dealer subscription checkout:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new Error(`Stripe subscription checkout failed: ${errorMessage}`);
   }
 };
 
-export const getSubscriptionDetails = async (subscriptionId: string) => {
-  await mockDelay();
-  
-  const subscription = mockSubscriptions.get(subscriptionId);
-  if (!subscription) {
-    throw new Error('Mock subscription not found');
-  }
-  
-  return subscription;
-};
+/**
+ * Confirm a subscription Checkout session completed and return the subscription
+ */
+export const verifyDealerSubscription = async (sessionId: string): Promise<DealerSubscriptionResult> => {
+  const session = await getStripe().checkout.sessions.retrieve(sessionId, { expand: ['subscription'] });
+  const subscription = session.subscription as Stripe.Subscription | null;
 
-export const getCustomerDetails = async (customerId: string) => {
-  await mockDelay();
-  
-  const customer = mockCustomers.get(customerId);
-  if (!customer) {
-    throw new Error('Mock customer not found');
+  if (session.status !== 'complete' || !subscription || !session.metadata?.dealer_id) {
+    throw new Error('Stripe subscription session is not complete');
   }
-  
-  return customer;
+
+  const planTier = subscription.metadata.plan_tier ?? session.metadata.plan_tier;
+  return {
+    dealerId: session.metadata.dealer_id,
+    stripeCustomerId: stripeId(session.customer),
+    subscriptionId: subscription.id,
+    subscriptionStatus: subscription.status,
+    monthlyQueryLimit: parseInt(subscription.metadata.monthly_query_limit ?? session.metadata.monthly_query_limit ?? '0'),
+    planTier,
+    currentPeriodStart: new Date(subscription.current_period_start * 1000),
+    currentPeriodEnd: new Date(subscription.current_period_end * 1000)
+  };
 };
 
 // =============================================
 // SUBSCRIPTION MANAGEMENT FUNCTIONS
 // =============================================
 
-export const getDealerSubscriptionDetails = async (subscriptionId: string) => {
-  await mockDelay();
-  
-  const subscription = mockSubscriptions.get(subscriptionId);
-  if (!subscription) {
-    throw new Error('Mock subscription not found');
-  }
-  
-  console.log(`🧪 Mock Stripe: Retrieved subscription details for ${subscriptionId}`);
-  return subscription;
+export const getSubscriptionDetails = async (subscriptionId: string) => {
+  return getStripe().subscriptions.retrieve(subscriptionId);
 };
 
-export const cancelDealerSubscription = async (subscriptionId: string) => {
-  await mockDelay();
-  
-  const subscription = mockSubscriptions.get(subscriptionId);
-  if (!subscription) {
-    throw new Error('Mock subscription not found');
-  }
-  
-  // Update subscription status to cancelled
-  subscription.status = 'canceled';
-  subscription.canceledAt = new Date();
-  subscription.cancelAtPeriodEnd = true;
-  
-  mockSubscriptions.set(subscriptionId, subscription);
-  
-  console.log(`🧪 Mock Stripe: Cancelled subscription ${subscriptionId}`);
-  return subscription;
+export const getCustomerDetails = async (customerId: string) => {
+  return getStripe().customers.retrieve(customerId);
 };
 
-export const updateDealerSubscriptionPlan = async (
-  subscriptionId: string, 
-  newPlan: 'tier1' | 'tier2' | 'tier3'
-) => {
-  await mockDelay();
-  
-  const subscription = mockSubscriptions.get(subscriptionId);
-  if (!subscription) {
-    throw new Error('Mock subscription not found');
-  }
-  
-  const planLimits = {
-    tier1: 50,    // Starter: $199/month for 50 verifications
-    tier2: 350,   // Business: $999/month for 350 verifications  
-    tier3: 3000   // Enterprise: $3799/month for 3000 verifications
-  };
-  
-  const planPrices = {
-    tier1: 19900,  // $199.00 in cents
-    tier2: 99900,  // $999.00 in cents
-    tier3: 379900  // $3799.00 in cents
-  };
-  
-  // Update subscription details
-  subscription.planTier = newPlan;
-  subscription.monthlyQueryLimit = planLimits[newPlan];
-  subscription.amount = planPrices[newPlan];
-  subscription.updatedAt = new Date();
-  
-  mockSubscriptions.set(subscriptionId, subscription);
-  
-  console.log(`🧪 Mock Stripe: Updated subscription ${subscriptionId} to plan ${newPlan}`);
-  return subscription;
+/**
+ * Cancel at the end of the paid period (customer.subscription.deleted follows then)
+ */
+export const cancelDealerSubscription = async (subscriptionId: string) => {
+  return getStripe().subscriptions.update(subscriptionId, { cancel_at_period_end: true });
 };
 
 export const resumeDealerSubscription = async (subscriptionId: string) => {
-  await mockDelay();
-  
-  const subscription = mockSubscriptions.get(subscriptionId);
-  if (!subscription) {
-    throw new Error('Mock subscription not found');
-  }
-  
-  // Resume cancelled subscription
-  subscription.status = 'active';
-  subscription.canceledAt = null;
-  subscription.cancelAtPeriodEnd = false;
-  
-  mockSubscriptions.set(subscriptionId, subscription);
-  
-  console.log(`🧪 Mock Stripe: Resumed subscription ${subscriptionId}`);
-  return subscription;
+  return getStripe().subscriptions.update(subscriptionId, { cancel_at_period_end: false });
 };
 
-export const updateDealerBillingInfo = async (customerId: string, billingData: any) => {
-  await mockDelay();
-  
-  const customer = mockCustomers.get(customerId);
-  if (!customer) {
-    throw new Error('Mock customer not found');
+/**
+ * Switch the subscription's price (customer.subscription.updated applies the new tier)
+ */
+export const updateDealerSubscriptionPlan = async (subscriptionId: string, newPlan: SubscriptionPlan) => {
+  const subscription = await getStripe().subscriptions.retrieve(subscriptionId);
+  const item = subscription.items.data[0];
+  if (!item) {
+    throw new Error(`Stripe subscription ${subscriptionId} has no items`);
   }
-  
-  // Update customer billing information
-  customer.billingDetails = {
-    ...customer.billingDetails,
-    ...billingData,
-    updatedAt: new Date().toISOString()
-  };
-  
-  mockCustomers.set(customerId, customer);
-  
-  console.log(`🧪 Mock Stripe: Updated billing info for customer ${customerId}`);
-  return customer;
+
+  return getStripe().subscriptions.update(subscriptionId, {
+    items: [{ id: item.id, price: getPlanPriceId(newPlan) }],
+    metadata: {
+      plan_tier: newPlan,
+      monthly_query_limit: String(TIER_MONTHLY_CREDITS[planTierNumber(newPlan)])
+    },
+    proration_behavior: 'create_prorations'
+  });
+};
+
+// =============================================
+// WEBHOOK SUPPORT
+// =============================================
+
+export const verifyWebhookSignature = (
+  payload: string,
+  signature: string | undefined,
+  secret: string | undefined = process.env.STRIPE_WEBHOOK_SECRET
+): boolean => {
+  return verifyStripeSignature(payload, signature, secret);
 };
 
 // =============================================
@@ -328,7 +242,16 @@ export const updateDealerBillingInfo = async (customerId: string, billingData: a
 // =============================================
 
 export const initStripe = () => {
-  console.log('🧪 Mock Stripe service initialized');
-  console.log('💡 To use real Stripe, set STRIPE_SECRET_KEY in .env and restart');
-  return { mock: true };
-};
\ No newline at end of file
+  if (!process.env.STRIPE_SECRET_KEY) {
+    throw new Error('STRIPE_SECRET_KEY environment variable is required');
+  }
+
+  if (!stripe) {
+    stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: STRIPE_API_VERSION,
+      appInfo: { name: 'ca2achain-api' }
+    });
+    console.log('✅ Stripe service initialized');
+  }
+  return stripe;
+};
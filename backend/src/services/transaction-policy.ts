@@ -0,0 +1,48 @@
+// Transaction policy - what a sale requires under the configured jurisdiction
+//
+//   US-CA   ammunition  18+  CA-DOJ-2026-V1          (AB1263 ammunition notice)
+//           long_gun    18+  CA-DOJ-2026-FIREARM-V1
+//           handgun     21+  CA-DOJ-2026-FIREARM-V1
+//
+// Thresholds and the local evaluation date come from the age policy (age-policy.ts).
+
+import type { AgeRequirement, NoticeVersion, ProductCategory, TransactionContext } from '@ca2achain/shared';
+import { getAgePolicy, getAgeRequirement, type AgePolicy } from './age-policy.js';
+
+export interface TransactionRequirements {
+  age_requirement: AgeRequirement;
+  notice_version: NoticeVersion;
+}
+
+const NOTICE_VERSIONS: Record<string, Record<ProductCategory, NoticeVersion>> = {
+  'US-CA': {
+    ammunition: 'CA-DOJ-2026-V1',
+    long_gun: 'CA-DOJ-2026-FIREARM-V1',
+    handgun: 'CA-DOJ-2026-FIREARM-V1'
+  }
+};
+
+/**
+ * Notice version the dealer must have provided for a product category
+ */
+export const getNoticeVersion = (productCategory: ProductCategory, policy: AgePolicy = getAgePolicy()): NoticeVersion => {
+  const noticeVersions = NOTICE_VERSIONS[policy.jurisdiction];
+  if (!noticeVersions) {
+    throw new Error(`No notice versions for jurisdiction ${policy.jurisdiction}`);
+  }
+  return noticeVersions[productCategory];
+};
+
+/**
+ * Age requirement and notice version for a sale at a given instant
+ */
+export const getTransactionRequirements = (
+  transactionContext: TransactionContext,
+  at: string | Date = new Date()
+): TransactionRequirements => {
+  const policy = getAgePolicy();
+  return {
+    age_requirement: getAgeRequirement(transactionContext.product_category, at, policy),
+    notice_version: getNoticeVersion(transactionContext.product_category, policy)
+  };
+};
@@ -0,0 +1,221 @@
+// Veriff service - Identity verification through Veriff sessions
+// Core workflow: Create session (hosted URL) → Buyer verifies ID → decision webhook →
+// Extract driver's license from the session decision
+
+import crypto from 'crypto';
+import type { DriverLicenseData } from '@ca2achain/shared';
+import type { IdentityInquiry, IdentityVerificationEvent } from './providers/types.js';
+
+// =============================================
+// VERIFF API INTEGRATION
+// =============================================
+
+const getVeriffApiUrl = () => process.env.VERIFF_API_URL || 'https://stationapi.veriff.com';
+
+// Veriff signs requests and webhooks with the shared secret: hex HMAC-SHA256 of the body
+// (or of the session ID for GET requests)
+const signVeriffPayload = (payload: string, secret: string): Buffer => {
+  return crypto.createHmac('sha256', secret).update(payload).digest();
+};
+
+const veriffRequest = async (path: string, init: { method?: string; body?: unknown; signedPayload?: string } = {}): Promise<any> => {
+  if (!process.env.VERIFF_API_KEY) {
+    throw new Error('VERIFF_API_KEY environment variable is required');
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-AUTH-CLIENT': process.env.VERIFF_API_KEY,
+  };
+  if (init.signedPayload !== undefined) {
+    if (!process.env.VERIFF_SHARED_SECRET) {
+      throw new Error('VERIFF_SHARED_SECRET environment variable is required');
+    }
+    headers['X-HMAC-SIGNATURE'] = signVeriffPayload(init.signedPayload, process.env.VERIFF_SHARED_SECRET).toString('hex');
+  }
+
+  const response = await fetch(`${getVeriffApiUrl()}${path}`, {
+    method: init.method ?? 'GET',
+    headers,
+    body: init.body === undefined ? undefined : JSON.stringify(init.body)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Veriff API error: ${response.status}`);
+  }
+  return response.json();
+};
+
+/**
+ * Create a verification session for the buyer (buyer ID is sent as vendorData)
+ */
+export const createBuyerInquiry = async (buyerId: string): Promise<IdentityInquiry> => {
+  try {
+    const data = await veriffRequest('/v1/sessions', {
+      method: 'POST',
+      body: {
+        verification: {
+          callback: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/buyer/verify-identity`,
+          vendorData: buyerId
+        }
+      }
+    });
+
+    if (!data?.verification?.id || !data.verification.url) {
+      throw new Error('Invalid Veriff API response format');
+    }
+
+    console.log(`✅ Veriff session created for buyer ${buyerId}: ${data.verification.id}`);
+
+    return {
+      inquiryId: data.verification.id,
+      sessionToken: data.verification.sessionToken ?? '',
+      verificationUrl: data.verification.url
+    };
+
+  } catch (error) {
+    console.error('❌ Failed to create Veriff session:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new Error(`Veriff inquiry creation failed: ${errorMessage}`);
+  }
+};
+
+// Session decision; verification is null until Veriff has decided
+const getSessionDecision = async (sessionId: string): Promise<any | null> => {
+  const data = await veriffRequest(`/v1/sessions/${sessionId}/decision`, { signedPayload: sessionId });
+  if (data?.status !== 'success') {
+    throw new Error('Invalid Veriff decision response format');
+  }
+  return data.verification ?? null;
+};
+
+/**
+ * Get session status ('submitted' until decided, then 'approved', 'declined', 'resubmission_requested', ...)
+ */
+export const getInquiryStatus = async (inquiryId: string): Promise<{ status: string; decision?: string }> => {
+  try {
+    const verification = await getSessionDecision(inquiryId);
+    if (!verification) {
+      return { status: 'submitted' };
+    }
+    return { status: verification.status, decision: verification.status };
+
+  } catch (error) {
+    console.error('❌ Failed to get Veriff session status:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new Error(`Inquiry status check failed: ${errorMessage}`);
+  }
+};
+
+/**
+ * Extract the verified driver's license from the session decision
+ * Returns null until the session is approved; the address needs Veriff's address extraction enabled
+ */
+export const getDriverLicenseData = async (inquiryId: string): Promise<DriverLicenseData | null> => {
+  try {
+    const verification = await getSessionDecision(inquiryId);
+    if (verification?.status !== 'approved') {
+      console.log(`⏳ Verification not complete for session ${inquiryId}: ${verification?.status || 'submitted'}`);
+      return null;
+    }
+
+    const { person, document } = verification;
+    if (document?.type !== 'DRIVERS_LICENSE') {
+      throw new Error('Driver\'s license verification not found');
+    }
+
+    const address = person?.addresses?.[0]?.parsedAddress;
+    if (!address) {
+      throw new Error('Driver\'s license address not extracted');
+    }
+
+    const driverLicense: DriverLicenseData = {
+      dl_number: document.number || '',
+      date_of_birth: person.dateOfBirth || '',
+      full_name: {
+        first_name: person.firstName || '',
+        last_name: person.lastName || ''
+      },
+      address: {
+        street: [address.houseNumber, address.street].filter(Boolean).join(' '),
+        street_2: address.unit || undefined,
+        city: address.city || '',
+        state: address.state || '',
+        zip_code: address.postcode || '',
+        country: 'US'
+      },
+      issued_date: document.validFrom || '',
+      expires_date: document.validUntil || ''
+    };
+
+    console.log(`✅ Verification data extracted for session ${inquiryId}`);
+    return driverLicense;
+
+  } catch (error) {
+    console.error('❌ Failed to get Veriff verification data:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new Error(`Verification data retrieval failed: ${errorMessage}`);
+  }
+};
+
+// =============================================
+// WEBHOOKS
+// =============================================
+
+/**
+ * Verify an X-HMAC-SIGNATURE header (hex HMAC-SHA256 of the raw body keyed with the shared secret)
+ */
+export const verifyVeriffWebhook = (
+  payload: string,
+  signature: string | undefined,
+  secret: string | undefined = process.env.VERIFF_SHARED_SECRET
+): boolean => {
+  if (!secret) {
+    throw new Error('VERIFF_SHARED_SECRET environment variable is required');
+  }
+  if (!signature) return false;
+
+  const expected = signVeriffPayload(payload, secret);
+  const received = Buffer.from(signature, 'hex');
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+};
+
+const DECISIONS: Record<string, IdentityVerificationEvent['decision']> = {
+  approved: 'approved',
+  declined: 'declined',
+  expired: 'declined',
+  abandoned: 'declined'
+};
+
+/**
+ * Extract the session from a Veriff webhook body
+ * Decision webhook: { status: 'success', verification: { id, status, vendorData } }
+ * Event webhook: { id, action: 'started' | 'submitted', vendorData }
+ */
+export const parseVeriffWebhookEvent = (body: any): IdentityVerificationEvent => {
+  const verification = body?.verification;
+
+  if (verification && typeof verification.id === 'string' && typeof verification.status === 'string') {
+    return {
+      name: `decision.${verification.status}`,
+      // 'resubmission_requested' and 'review' keep the buyer pending until a final decision
+      decision: DECISIONS[verification.status] ?? 'completed',
+      inquiry_id: verification.id,
+      reference_id: verification.vendorData ?? undefined,
+      inquiry_status: verification.status
+    };
+  }
+
+  if (typeof body?.id === 'string' && typeof body.action === 'string') {
+    return {
+      event_id: body.attemptId,
+      name: `event.${body.action}`,
+      decision: body.action === 'submitted' ? 'completed' : null,
+      inquiry_id: body.id,
+      reference_id: body.vendorData ?? undefined,
+      inquiry_status: body.action
+    };
+  }
+
+  throw new Error('Invalid Veriff webhook event format');
+};
@@ -0,0 +1,118 @@
+// Groth16 prover/verifier for the CA2AChain circuits (snarkjs)
+// Artifacts (wasm, zkey, verification key) are built by `pnpm circuits:build` into circuits/artifacts
+// (not committed - production keys come from a ceremony powers of tau, see scripts/build-circuits.ts)
+
+import { existsSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import path from 'path';
+import * as snarkjs from 'snarkjs';
+import type { Groth16Proof, VerificationKey } from 'snarkjs';
+
+export type CircuitName = 'age_verification' | 'address_verification';
+
+const CIRCUITS: CircuitName[] = ['age_verification', 'address_verification'];
+const ARTIFACT_EXTENSIONS = ['wasm', 'zkey', 'vkey.json'] as const;
+
+export interface CircuitProof<C extends CircuitName = CircuitName> {
+  circuit: C;
+  proof: {
+    proof_a: string[];
+    proof_b: string[][];
+    proof_c: string[];
+    protocol: 'groth16';
+    curve: 'bn128';
+  };
+  public_signals: string[];
+}
+
+const verificationKeys = new Map<CircuitName, VerificationKey>();
+
+/**
+ * Directory holding the circuit artifacts (override with ZKP_CIRCUITS_DIR)
+ */
+export const getCircuitsDir = (): string => {
+  return process.env.ZKP_CIRCUITS_DIR
+    || path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../circuits/artifacts');
+};
+
+const artifactPath = (circuit: CircuitName, extension: typeof ARTIFACT_EXTENSIONS[number]): string => {
+  const file = path.join(getCircuitsDir(), `${circuit}.${extension}`);
+  if (!existsSync(file)) {
+    throw new Error(`Circuit artifact ${file} not found - run pnpm circuits:build or set ZKP_CIRCUITS_DIR`);
+  }
+  return file;
+};
+
+/**
+ * Check every circuit's artifacts at startup and load the verification keys
+ * Throws naming the missing files, so the API doesn't start and fail each proof request with a 500
+ */
+export const initCircuitArtifacts = (): void => {
+  const missing = CIRCUITS.flatMap(circuit => ARTIFACT_EXTENSIONS.map(extension => path.join(getCircuitsDir(), `${circuit}.${extension}`)))
+    .filter(file => !existsSync(file));
+  if (missing.length > 0) {
+    throw new Error(`Circuit artifacts missing (${missing.join(', ')}) - run pnpm circuits:build or set ZKP_CIRCUITS_DIR`);
+  }
+
+  for (const circuit of CIRCUITS) {
+    getVerificationKey(circuit);
+  }
+};
+
+/**
+ * Verification key for a circuit (from the artifacts directory)
+ */
+export const getVerificationKey = (circuit: CircuitName): VerificationKey => {
+  let verificationKey = verificationKeys.get(circuit);
+  if (!verificationKey) {
+    verificationKey = JSON.parse(readFileSync(artifactPath(circuit, 'vkey.json'), 'utf8')) as VerificationKey;
+    verificationKeys.set(circuit, verificationKey);
+  }
+  return verificationKey;
+};
+
+/**
+ * Generate a Groth16 proof for a circuit from its full input set
+ */
+export const generateProof = async <C extends CircuitName>(
+  circuit: C,
+  input: Record<string, string | number>
+): Promise<CircuitProof<C>> => {
+  const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+    input,
+    artifactPath(circuit, 'wasm'),
+    artifactPath(circuit, 'zkey')
+  );
+
+  return {
+    circuit,
+    proof: {
+      proof_a: proof.pi_a,
+      proof_b: proof.pi_b,
+      proof_c: proof.pi_c,
+      protocol: 'groth16',
+      curve: 'bn128'
+    },
+    public_signals: publicSignals
+  };
+};
+
+/**
+ * Verify a Groth16 proof against the circuit's verification key
+ * Returns false (rather than throwing) for malformed proofs
+ */
+export const verifyProof = async (circuitProof: CircuitProof): Promise<boolean> => {
+  try {
+    const proof: Groth16Proof = {
+      pi_a: circuitProof.proof.proof_a,
+      pi_b: circuitProof.proof.proof_b,
+      pi_c: circuitProof.proof.proof_c,
+      protocol: 'groth16',
+      curve: circuitProof.proof.curve
+    };
+    return await snarkjs.groth16.verify(getVerificationKey(circuitProof.circuit), circuitProof.public_signals, proof);
+  } catch (error) {
+    console.error(`❌ ZKP: ${circuitProof.circuit} proof verification error:`, error);
+    return false;
+  }
+};
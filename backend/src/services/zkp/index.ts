@@ -0,0 +1,5 @@
+// Circuit input encoding
+export * from './inputs.js';
+
+// Groth16 proving and verification
+export * from './groth16.js';
@@ -0,0 +1,56 @@
+// Circuit input encoding - turns verification data into BN128 field elements
+// Must stay in sync with circuits/src/*.circom and with any offline verifier
+
+import crypto from 'crypto';
+import { buildPoseidon, type Poseidon } from 'circomlibjs';
+
+let poseidonPromise: Promise<Poseidon> | null = null;
+
+const getPoseidon = (): Promise<Poseidon> => {
+  if (!poseidonPromise) {
+    poseidonPromise = buildPoseidon();
+  }
+  return poseidonPromise;
+};
+
+/**
+ * SHA-256 a string and keep the first 31 bytes so the result always fits the BN128 field
+ */
+export const hashToField = (value: string): string => {
+  const digest = crypto.createHash('sha256').update(value).digest('hex');
+  return BigInt(`0x${digest.slice(0, 62)}`).toString();
+};
+
+/**
+ * Random 31-byte salt as a field element
+ */
+export const randomFieldElement = (): string => {
+  return BigInt(`0x${crypto.randomBytes(31).toString('hex')}`).toString();
+};
+
+/**
+ * Poseidon(value, salt) commitment as a decimal field element
+ */
+export const poseidonCommitment = async (value: string | number | bigint, salt: string): Promise<string> => {
+  const poseidon = await getPoseidon();
+  return poseidon.F.toObject(poseidon([BigInt(value), BigInt(salt)])).toString();
+};
+
+/**
+ * YYYY-MM-DD (or a Date, taken in UTC) to the YYYYMMDD integer the age circuit compares
+ */
+export const toCircuitDate = (date: string | Date): number => {
+  const isoDate = typeof date === 'string' ? date : date.toISOString().slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(isoDate)) {
+    throw new Error(`Invalid circuit date: ${isoDate}`);
+  }
+  return Number(isoDate.replace(/-/g, ''));
+};
+
+/**
+ * Binds a proof to one context (a compliance event, or the credential at issuance)
+ * so it cannot be replayed for another
+ */
+export const computeProofBinding = (context: 'compliance-event' | 'credential', id: string): string => {
+  return hashToField(`ca2achain:${context}:${id}`);
+};
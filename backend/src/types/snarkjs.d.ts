@@ -0,0 +1,53 @@
+// Minimal typings for the parts of snarkjs and circomlibjs we use (neither ships declarations)
+declare module 'snarkjs' {
+  export interface Groth16Proof {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+    protocol: 'groth16';
+    curve: string;
+  }
+
+  export type PublicSignals = string[];
+
+  export interface VerificationKey {
+    protocol: string;
+    curve: string;
+    nPublic: number;
+    [key: string]: unknown;
+  }
+
+  export const groth16: {
+    fullProve(
+      input: Record<string, string | number | bigint>,
+      wasmFile: string,
+      zkeyFile: string
+    ): Promise<{ proof: Groth16Proof; publicSignals: PublicSignals }>;
+    verify(verificationKey: VerificationKey, publicSignals: PublicSignals, proof: Groth16Proof): Promise<boolean>;
+  };
+
+  export const zKey: {
+    newZKey(r1csFile: string, ptauFile: string, zkeyFile: string): Promise<unknown>;
+    contribute(oldZkeyFile: string, newZkeyFile: string, name: string, entropy: string): Promise<unknown>;
+    exportVerificationKey(zkeyFile: string): Promise<VerificationKey>;
+  };
+
+  export const powersOfTau: {
+    newAccumulator(curve: unknown, power: number, ptauFile: string): Promise<unknown>;
+    contribute(oldPtauFile: string, newPtauFile: string, name: string, entropy: string): Promise<unknown>;
+    preparePhase2(oldPtauFile: string, newPtauFile: string): Promise<unknown>;
+  };
+
+  export const curves: {
+    getCurveFromName(name: string): Promise<{ terminate(): Promise<void> }>;
+  };
+}
+
+declare module 'circomlibjs' {
+  export interface Poseidon {
+    (inputs: (bigint | number | string)[]): Uint8Array;
+    F: { toObject(element: Uint8Array): bigint };
+  }
+
+  export function buildPoseidon(): Promise<Poseidon>;
+}
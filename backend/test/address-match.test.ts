@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchAddresses, parseAddress } from '../src/services/address/index.js';
+
+const BUYER_ADDRESS = '123 N Main St Apt 4B, Los Angeles, CA 90210';
+
+const match = (shipping: string, buyer = BUYER_ADDRESS) => matchAddresses(parseAddress(buyer), parseAddress(shipping));
+
+test('the same address in another spelling is a full match', () => {
+  const result = match('123 North Main Street Apartment 4B Los Angeles California 90210-1234');
+  assert.equal(result.verified, true);
+  assert.equal(result.confidence, 1);
+  for (const component of Object.values(result.breakdown)) {
+    assert.equal(component, 'match');
+  }
+});
+
+test('a typo in the street name is a partial match that still verifies', () => {
+  const result = match('123 N Mian St Apt 4B, Los Angeles, CA 90210');
+  assert.equal(result.breakdown.street_name, 'partial');
+  assert.equal(result.verified, true);
+});
+
+test('spelled-out and numbered ordinal streets match', () => {
+  const result = match('350 5th Ave, New York, NY 10118', '350 Fifth Avenue, New York, NY 10118');
+  assert.equal(result.breakdown.street_name, 'match');
+  assert.equal(result.verified, true);
+});
+
+test('a different house number is a different delivery point', () => {
+  const result = match('125 N Main St Apt 4B, Los Angeles, CA 90210');
+  assert.equal(result.breakdown.primary_number, 'mismatch');
+  assert.equal(result.verified, false);
+
+  assert.equal(match('12 N Main St Apt 4B, Los Angeles, CA 90210').verified, false);
+});
+
+test('a different unit, street, city or state fails', () => {
+  assert.equal(match('123 N Main St Apt 5C, Los Angeles, CA 90210').breakdown.unit, 'mismatch');
+  assert.equal(match('123 N Main St Apt 5C, Los Angeles, CA 90210').verified, false);
+  assert.equal(match('123 N Oak St Apt 4B, Los Angeles, CA 90210').verified, false);
+  assert.equal(match('123 N Main St Apt 4B, Pasadena, CA 90210').verified, false);
+  assert.equal(match('123 N Main St Apt 4B, Los Angeles, NV 90210').verified, false);
+});
+
+test('any difference in the 5-digit ZIP fails', () => {
+  const result = match('123 N Main St Apt 4B, Los Angeles, CA 90211');
+  assert.equal(result.breakdown.zip_code, 'mismatch');
+  assert.equal(result.verified, false);
+
+  assert.equal(match('123 N Main St Apt 4B, Los Angeles, CA 90210-9999').verified, true);
+});
+
+test('a unit on one side only fails', () => {
+  const extraUnit = match('123 N Main St Apt 4B, Los Angeles, CA 90210', '123 N Main St, Los Angeles, CA 90210');
+  assert.equal(extraUnit.breakdown.unit, 'mismatch');
+  assert.equal(extraUnit.verified, false);
+
+  assert.equal(match('123 N Main St, Los Angeles, CA 90210').verified, false);
+  assert.equal(match('123 N Main St # 4B, Los Angeles, CA 90210').breakdown.unit, 'match');
+});
+
+test('a conflicting directional is a different street', () => {
+  const result = match('123 S Main St Apt 4B, Los Angeles, CA 90210');
+  assert.equal(result.breakdown.directionals, 'mismatch');
+  assert.equal(result.verified, false);
+
+  assert.equal(match('123 Main St NE, Seattle, WA 98101', '123 Main St NW, Seattle, WA 98101').verified, false);
+  assert.equal(match('123 N Main St NE, Seattle, WA 98101', '123 N Main St NW, Seattle, WA 98101').verified, false);
+});
+
+test('a conflicting street suffix is a different street', () => {
+  const result = match('123 N Main Ave Apt 4B, Los Angeles, CA 90210');
+  assert.equal(result.breakdown.street_suffix, 'mismatch');
+  assert.equal(result.verified, false);
+});
+
+test('a directional or suffix missing on one side is partial and still verifies', () => {
+  const noDirectional = match('123 Main St Apt 4B, Los Angeles, CA 90210');
+  assert.equal(noDirectional.breakdown.directionals, 'partial');
+  assert.equal(noDirectional.verified, true);
+
+  const noSuffix = match('123 N Main Apt 4B, Los Angeles, CA 90210');
+  assert.equal(noSuffix.breakdown.street_suffix, 'partial');
+  assert.equal(noSuffix.verified, true);
+});
+
+test('PO boxes match on the box number', () => {
+  assert.equal(match('PO Box 55, Sacramento, CA 95812', 'P.O. Box 55 Sacramento CA 95812').verified, true);
+  assert.equal(match('PO Box 56, Sacramento, CA 95812', 'P.O. Box 55 Sacramento CA 95812').verified, false);
+});
+
+test('the breakdown carries only per-component results', () => {
+  const { breakdown } = match('123 N Mian St Apt 4B, Los Angeles, CA 90210');
+  for (const component of Object.values(breakdown)) {
+    assert.ok(['match', 'partial', 'mismatch'].includes(component));
+  }
+});
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  formatNormalizedAddress,
+  normalizeAddressLine,
+  normalizeStructuredAddress
+} from '../src/services/address/index.js';
+
+test('normalizeAddressLine builds USPS street, unit, city, state and ZIP fields', () => {
+  assert.deepEqual(normalizeAddressLine('123 North Main Street Apt. 4B, Los Angeles, California 90210-1234'), {
+    street_normalized: '123 N MAIN ST',
+    street_2_normalized: 'APT 4B',
+    city_normalized: 'LOS ANGELES',
+    state: 'CA',
+    zip_code: '90210',
+    zip_plus_4: '1234',
+    country: 'US'
+  });
+});
+
+test('normalizeAddressLine writes PO boxes as PO BOX <number>', () => {
+  assert.deepEqual(normalizeAddressLine('P.O. Box 1234 Fresno CA 93721'), {
+    street_normalized: 'PO BOX 1234',
+    city_normalized: 'FRESNO',
+    state: 'CA',
+    zip_code: '93721',
+    country: 'US'
+  });
+});
+
+test('formatNormalizedAddress leaves out ZIP+4', () => {
+  const address = normalizeAddressLine('123 North Main Street Apt. 4B, Los Angeles, California 90210-1234');
+  assert.equal(formatNormalizedAddress(address), '123 N MAIN ST APT 4B, LOS ANGELES, CA, 90210');
+});
+
+test('spellings of the same address format identically', () => {
+  const spellings = [
+    '123 N. Main St. Apt 4B, Los Angeles, CA 90210',
+    '123 NORTH MAIN STREET APARTMENT 4B LOS ANGELES CALIFORNIA 90210-1234',
+    '123 n main st, apt 4b, los angeles, ca 90210, USA'
+  ];
+  const formatted = spellings.map(spelling => formatNormalizedAddress(normalizeAddressLine(spelling)));
+  assert.deepEqual(formatted, spellings.map(() => '123 N MAIN ST APT 4B, LOS ANGELES, CA, 90210'));
+});
+
+test('structured and one-line forms of an address normalize the same', () => {
+  const structured = normalizeStructuredAddress({
+    street: '500 Capitol Mall',
+    street_2: 'Suite 200',
+    city: 'Sacramento',
+    state: 'CA',
+    zip_code: '95814'
+  });
+  assert.deepEqual(structured, normalizeAddressLine('500 Capitol Mall Ste 200 Sacramento CA 95814'));
+});
@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseAddress, parseStreetLine, parseStructuredAddress } from '../src/services/address/index.js';
+
+// Parsers leave absent components undefined - compare only the ones that are set
+const defined = (value: object) => Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined));
+
+const ONE_LINE_FIXTURES: Array<[string, Record<string, string>]> = [
+  ['123 North Main Street Apt. 4B, Los Angeles, California 90210-1234', {
+    primary_number: '123', predirectional: 'N', street_name: 'MAIN', street_suffix: 'ST',
+    unit_designator: 'APT', unit_number: '4B', city: 'LOS ANGELES', state: 'CA', zip_code: '90210', zip_plus_4: '1234'
+  }],
+  ['123 Main St, Sacramento, CA 95814', {
+    primary_number: '123', street_name: 'MAIN', street_suffix: 'ST', city: 'SACRAMENTO', state: 'CA', zip_code: '95814'
+  }],
+  ['123 main st sacramento ca 95814', {
+    primary_number: '123', street_name: 'MAIN', street_suffix: 'ST', city: 'SACRAMENTO', state: 'CA', zip_code: '95814'
+  }],
+  ['10 Downing St West Sacramento CA 95691', {
+    primary_number: '10', street_name: 'DOWNING', street_suffix: 'ST', city: 'WEST SACRAMENTO', state: 'CA', zip_code: '95691'
+  }],
+  ['15 Ocean Blvd South Palm Beach FL 33480', {
+    primary_number: '15', street_name: 'OCEAN', street_suffix: 'BLVD', city: 'SOUTH PALM BEACH', state: 'FL', zip_code: '33480'
+  }],
+  ['10 Downing St West, Sacramento, CA 95814', {
+    primary_number: '10', street_name: 'DOWNING', street_suffix: 'ST', postdirectional: 'W', city: 'SACRAMENTO', state: 'CA', zip_code: '95814'
+  }],
+  ['1600 Pennsylvania Ave NW, Washington, DC 20500', {
+    primary_number: '1600', street_name: 'PENNSYLVANIA', street_suffix: 'AVE', postdirectional: 'NW',
+    city: 'WASHINGTON', state: 'DC', zip_code: '20500'
+  }],
+  ['1600 Pennsylvania Ave NW Washington DC 20500', {
+    primary_number: '1600', street_name: 'PENNSYLVANIA', street_suffix: 'AVE', postdirectional: 'NW',
+    city: 'WASHINGTON', state: 'DC', zip_code: '20500'
+  }],
+  ['2000 W Charleston Blvd, Las Vegas, NV 89102', {
+    primary_number: '2000', predirectional: 'W', street_name: 'CHARLESTON', street_suffix: 'BLVD',
+    city: 'LAS VEGAS', state: 'NV', zip_code: '89102'
+  }],
+  ['12 North St, Boston, MA 02113', {
+    primary_number: '12', street_name: 'NORTH', street_suffix: 'ST', city: 'BOSTON', state: 'MA', zip_code: '02113'
+  }],
+  ['350 Fifth Avenue, New York, New York 10118', {
+    primary_number: '350', street_name: 'FIFTH', street_suffix: 'AVE', city: 'NEW YORK', state: 'NY', zip_code: '10118'
+  }],
+  ['123 Main St, Charleston, West Virginia 25301', {
+    primary_number: '123', street_name: 'MAIN', street_suffix: 'ST', city: 'CHARLESTON', state: 'WV', zip_code: '25301'
+  }],
+  ['221 1/2 Baker St, San Francisco, CA 94117', {
+    primary_number: '221 1/2', street_name: 'BAKER', street_suffix: 'ST', city: 'SAN FRANCISCO', state: 'CA', zip_code: '94117'
+  }],
+  ['W180N8085 Town Hall Rd, Menomonee Falls, WI 53051', {
+    primary_number: 'W180N8085', street_name: 'TOWN HALL', street_suffix: 'RD', city: 'MENOMONEE FALLS', state: 'WI', zip_code: '53051'
+  }],
+  ['742 Evergreen Terrace #12, Springfield, IL 62701', {
+    primary_number: '742', street_name: 'EVERGREEN', street_suffix: 'TER', unit_designator: '#', unit_number: '12',
+    city: 'SPRINGFIELD', state: 'IL', zip_code: '62701'
+  }],
+  ['100 Main Street, Suite 300, Austin, Texas 78701', {
+    primary_number: '100', street_name: 'MAIN', street_suffix: 'ST', unit_designator: 'STE', unit_number: '300',
+    city: 'AUSTIN', state: 'TX', zip_code: '78701'
+  }],
+  ['500 Capitol Mall Ste 200 Sacramento CA 95814', {
+    primary_number: '500', street_name: 'CAPITOL', street_suffix: 'MALL', unit_designator: 'STE', unit_number: '200',
+    city: 'SACRAMENTO', state: 'CA', zip_code: '95814'
+  }],
+  ['4 Privet Drive Apt 2 Springfield IL 62704', {
+    primary_number: '4', street_name: 'PRIVET', street_suffix: 'DR', unit_designator: 'APT', unit_number: '2',
+    city: 'SPRINGFIELD', state: 'IL', zip_code: '62704'
+  }],
+  ['55 Park Ave Rear, New York, NY 10016', {
+    primary_number: '55', street_name: 'PARK', street_suffix: 'AVE', unit_designator: 'REAR',
+    city: 'NEW YORK', state: 'NY', zip_code: '10016'
+  }],
+  ['PO Box 55, Sacramento, CA 95812', {
+    po_box: '55', city: 'SACRAMENTO', state: 'CA', zip_code: '95812'
+  }],
+  ['P.O. Box 1234 Fresno CA 93721', {
+    po_box: '1234', city: 'FRESNO', state: 'CA', zip_code: '93721'
+  }],
+  ['Post Office Box 9, Reno, NV 89501', {
+    po_box: '9', city: 'RENO', state: 'NV', zip_code: '89501'
+  }],
+  ['8 Elm St, Boston, MA 02108 1234', {
+    primary_number: '8', street_name: 'ELM', street_suffix: 'ST', city: 'BOSTON', state: 'MA', zip_code: '02108', zip_plus_4: '1234'
+  }],
+  ['1 Infinite Loop, Cupertino, CA 95014, USA', {
+    primary_number: '1', street_name: 'INFINITE', street_suffix: 'LOOP', city: 'CUPERTINO', state: 'CA', zip_code: '95014'
+  }],
+  ['77 Massachusetts Ave, Cambridge, MA 02139, United States', {
+    primary_number: '77', street_name: 'MASSACHUSETTS', street_suffix: 'AVE', city: 'CAMBRIDGE', state: 'MA', zip_code: '02139'
+  }]
+];
+
+for (const [address, expected] of ONE_LINE_FIXTURES) {
+  test(`parseAddress: ${address}`, () => {
+    assert.deepEqual(defined(parseAddress(address)), expected);
+  });
+}
+
+test('parseAddress rejects addresses missing a required component', () => {
+  assert.throws(() => parseAddress('123 Main St, Los Angeles, CA'), /Missing ZIP code/);
+  assert.throws(() => parseAddress('123 Main St, Los Angeles, ZZ 90210'), /Unknown state/);
+  assert.throws(() => parseAddress('123 Main St, Los Angeles, CA 9021'), /Invalid ZIP code/);
+  assert.throws(() => parseAddress('123 Los Angeles CA 90210'), /separate them with a comma/);
+  assert.throws(() => parseAddress('123, Los Angeles, CA 90210'), /Missing street name/);
+});
+
+test('parseStreetLine keeps suffix words that are the street name', () => {
+  assert.deepEqual(defined(parseStreetLine('1 Park')), { primary_number: '1', street_name: 'PARK' });
+  assert.deepEqual(defined(parseStreetLine('9 N Park Rd')), { primary_number: '9', predirectional: 'N', street_name: 'PARK', street_suffix: 'RD' });
+});
+
+test('parseStructuredAddress reads the unit from street_2', () => {
+  const base = { street: '123 N Main Street', city: 'Los Angeles', state: 'California', zip_code: '90210-1234' };
+
+  assert.deepEqual(defined(parseStructuredAddress({ ...base, street_2: 'Apt 4B' })), {
+    primary_number: '123', predirectional: 'N', street_name: 'MAIN', street_suffix: 'ST',
+    unit_designator: 'APT', unit_number: '4B', city: 'LOS ANGELES', state: 'CA', zip_code: '90210', zip_plus_4: '1234'
+  });
+  assert.equal(parseStructuredAddress({ ...base, street_2: '#4B' }).unit_designator, '#');
+  assert.equal(parseStructuredAddress({ ...base, street_2: '4B' }).unit_number, '4B');
+  assert.throws(() => parseStructuredAddress({ ...base, street_2: 'Around the back' }), /Unrecognized secondary address/);
+  assert.throws(() => parseStructuredAddress({ ...base, state: 'Narnia' }), /Unknown state/);
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateAge, getAgeRequirement, meetsAgeRequirement, type AgePolicy } from '../src/services/age-policy.js';
+
+const CA_POLICY: AgePolicy = {
+  jurisdiction: 'US-CA',
+  timezone: 'America/Los_Angeles',
+  thresholds: { ammunition: 18, long_gun: 18, handgun: 21 }
+};
+
+test('a birthday today reaches the new age', () => {
+  assert.equal(calculateAge('2005-03-03', '2026-03-03'), 21);
+  assert.equal(calculateAge('2005-03-03', '2026-03-02'), 20);
+});
+
+test('a Feb 29 birthday reaches the new age on March 1 in common years', () => {
+  assert.equal(calculateAge('2004-02-29', '2025-02-28'), 20);
+  assert.equal(calculateAge('2004-02-29', '2025-03-01'), 21);
+  assert.equal(calculateAge('2004-02-29', '2028-02-29'), 24);
+});
+
+test('a 20-year-old can buy a long gun but not a handgun', () => {
+  const at = '2026-06-15T18:00:00Z';
+  const longGun = getAgeRequirement('long_gun', at, CA_POLICY);
+  const handgun = getAgeRequirement('handgun', at, CA_POLICY);
+
+  assert.equal(handgun.age_threshold, 21);
+  assert.equal(meetsAgeRequirement('2005-06-16', longGun), true);
+  assert.equal(meetsAgeRequirement('2005-06-16', handgun), false);
+  assert.equal(meetsAgeRequirement('2005-06-15', handgun), true);
+});
+
+test('the evaluation date follows midnight Pacific, not midnight UTC', () => {
+  // 2026-03-03 03:00 UTC is still the evening of March 2 in Los Angeles
+  const beforePacificMidnight = getAgeRequirement('handgun', '2026-03-03T03:00:00Z', CA_POLICY);
+  assert.equal(beforePacificMidnight.evaluation_date, '2026-03-02');
+  assert.equal(meetsAgeRequirement('2005-03-03', beforePacificMidnight), false);
+
+  // 08:00 UTC is midnight PST
+  const atPacificMidnight = getAgeRequirement('handgun', '2026-03-03T08:00:00Z', CA_POLICY);
+  assert.equal(atPacificMidnight.evaluation_date, '2026-03-03');
+  assert.equal(meetsAgeRequirement('2005-03-03', atPacificMidnight), true);
+});
@@ -0,0 +1,151 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { ContractFactory, JsonRpcProvider, NonceManager, Wallet } from 'ethers';
+import {
+  anchorRecordHash,
+  findAnchorTransactionHash,
+  fromBytes32EventId,
+  getAnchoredBatch,
+  getAnchoredRecord,
+  getAnchorTransaction,
+  getSignerAddress,
+  initChainClient,
+  initSigner,
+  sendWithNonce,
+  submitBatchRoot,
+  toBytes32EventId,
+  toBytes32Hash,
+  waitForBatchReceipt
+} from '../src/services/blockchain/index.js';
+
+// Anchoring against a local node runs when one is given:
+//   anvil &
+//   LOCAL_CHAIN_RPC_URL=http://127.0.0.1:8545 pnpm test
+// LOCAL_CHAIN_PRIVATE_KEY defaults to anvil's first funded account
+const LOCAL_CHAIN_RPC_URL = process.env.LOCAL_CHAIN_RPC_URL;
+const LOCAL_CHAIN_PRIVATE_KEY = process.env.LOCAL_CHAIN_PRIVATE_KEY
+  ?? '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const EVENT_ID = '0193e4a0-7c1a-7000-8000-000000000001';
+const randomHash = () => crypto.randomBytes(32).toString('hex');
+const randomEventId = () => crypto.randomUUID();
+
+// =============================================
+// ENCODING
+// =============================================
+
+test('compliance event IDs round-trip through bytes32', () => {
+  const bytes32 = toBytes32EventId(EVENT_ID);
+  assert.equal(bytes32, '0x000000000000000000000000000000000193e4a07c1a70008000000000000001');
+  assert.equal(fromBytes32EventId(bytes32), EVENT_ID);
+  assert.throws(() => toBytes32EventId('not-a-uuid'), /Invalid compliance event ID/);
+});
+
+test('record hashes must be 32-byte hex digests', () => {
+  const hash = 'AB'.repeat(32);
+  assert.equal(toBytes32Hash(hash), `0x${'ab'.repeat(32)}`);
+  assert.equal(toBytes32Hash(`0x${hash}`), `0x${'ab'.repeat(32)}`);
+  assert.throws(() => toBytes32Hash('abcd'), /32-byte hex digest/);
+});
+
+// =============================================
+// NONCE MANAGEMENT
+// =============================================
+
+test('sendWithNonce runs sends one at a time', async () => {
+  initSigner(new JsonRpcProvider('http://127.0.0.1:1', 31337, { staticNetwork: true }), LOCAL_CHAIN_PRIVATE_KEY);
+
+  const order: string[] = [];
+  const send = (name: string, delayMs: number) => sendWithNonce(async () => {
+    order.push(`start ${name}`);
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+    order.push(`end ${name}`);
+    return name;
+  });
+
+  assert.deepEqual(await Promise.all([send('a', 20), send('b', 0)]), ['a', 'b']);
+  assert.deepEqual(order, ['start a', 'end a', 'start b', 'end b']);
+});
+
+test('sendWithNonce resyncs and retries once on a nonce conflict', async () => {
+  initSigner(new JsonRpcProvider('http://127.0.0.1:1', 31337, { staticNetwork: true }), LOCAL_CHAIN_PRIVATE_KEY);
+
+  let attempts = 0;
+  const result = await sendWithNonce(async (signer: NonceManager) => {
+    attempts++;
+    if (attempts === 1) throw Object.assign(new Error('nonce too low'), { code: 'NONCE_EXPIRED' });
+    return signer;
+  });
+  assert.equal(attempts, 2);
+  assert.ok(result instanceof NonceManager);
+
+  attempts = 0;
+  await assert.rejects(sendWithNonce(async () => {
+    attempts++;
+    throw new Error('execution reverted');
+  }), /execution reverted/);
+  assert.equal(attempts, 1);
+
+  // A failed send doesn't block the queue
+  assert.equal(await sendWithNonce(async () => 'next'), 'next');
+});
+
+// =============================================
+// LOCAL NODE
+// =============================================
+
+test('anchors records and batches on a local node', { skip: !LOCAL_CHAIN_RPC_URL && 'LOCAL_CHAIN_RPC_URL not set' }, async () => {
+  const { compileComplianceRegistry } = await import('../scripts/compile-compliance-registry.js');
+  const { abi, bytecode } = compileComplianceRegistry();
+
+  const provider = new JsonRpcProvider(LOCAL_CHAIN_RPC_URL);
+  const { chainId } = await provider.getNetwork();
+  const deployer = new NonceManager(new Wallet(LOCAL_CHAIN_PRIVATE_KEY, provider));
+  const contract = await new ContractFactory(abi, bytecode, deployer).deploy();
+  await contract.waitForDeployment();
+  const deployBlock = await provider.getBlockNumber();
+  provider.destroy();
+
+  const contractAddress = await contract.getAddress();
+  assert.equal(initChainClient({
+    rpcUrl: LOCAL_CHAIN_RPC_URL!,
+    chainId: Number(chainId),
+    network: 'local',
+    contractAddress,
+    privateKey: LOCAL_CHAIN_PRIVATE_KEY,
+    confirmations: 1,
+    deployBlock
+  }), true);
+
+  // Concurrent anchors share the signer - every one gets its own nonce
+  const eventIds = [randomEventId(), randomEventId(), randomEventId()];
+  const recordHashes = eventIds.map(() => randomHash());
+  const receipts = await Promise.all(eventIds.map((eventId, i) => anchorRecordHash(eventId, recordHashes[i])));
+  assert.equal(new Set(receipts.map(receipt => receipt.transaction_hash)).size, eventIds.length);
+
+  const [receipt] = receipts;
+  assert.equal(receipt.record_hash, `0x${recordHashes[0]}`);
+  assert.equal(receipt.contract_address, contractAddress);
+
+  const record = await getAnchoredRecord(eventIds[0]);
+  assert.equal(record?.record_hash, `0x${recordHashes[0]}`);
+  assert.equal(record?.submitter, await getSignerAddress());
+  assert.equal(await getAnchoredRecord(randomEventId()), null);
+
+  // The transaction hash handed to auditors resolves to the anchored record
+  const transaction = await getAnchorTransaction(receipt.transaction_hash);
+  assert.equal(transaction?.type, 'record');
+  assert.equal(transaction?.type === 'record' && transaction.compliance_event_id, eventIds[0]);
+  assert.equal(await findAnchorTransactionHash(eventIds[0]), receipt.transaction_hash);
+
+  // Anchoring the same event twice is rejected by the contract
+  await assert.rejects(anchorRecordHash(eventIds[0], randomHash()));
+
+  const merkleRoot = randomHash();
+  const submission = await submitBatchRoot(merkleRoot, 4);
+  const batchReceipt = await waitForBatchReceipt(submission.transaction_hash);
+  assert.equal(batchReceipt?.leaf_count, 4);
+  assert.equal((await getAnchoredBatch(merkleRoot))?.leaf_count, 4);
+  assert.equal((await getAnchorTransaction(submission.transaction_hash))?.type, 'batch');
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { buildMerkleTree, getMerkleProof, verifyMerkleProof } from '../src/services/blockchain/index.js';
+
+const sha256 = (...parts: Buffer[]) => crypto.createHash('sha256').update(Buffer.concat(parts)).digest();
+const recordHashes = (count: number) => Array.from({ length: count }, (_, i) => sha256(Buffer.from(`record ${i}`)).toString('hex'));
+
+test('the root follows sha256-merkle-v1 (domain-separated leaves, unpaired node carried up)', () => {
+  const hashes = recordHashes(3);
+  const [a, b, c] = hashes.map(hash => sha256(Buffer.from([0x00]), Buffer.from(hash, 'hex')));
+  const expectedRoot = sha256(Buffer.from([0x01]), sha256(Buffer.from([0x01]), a, b), c);
+
+  assert.equal(buildMerkleTree(hashes).root, `0x${expectedRoot.toString('hex')}`);
+  assert.equal(buildMerkleTree(hashes.slice(0, 1)).root, `0x${a.toString('hex')}`);
+});
+
+test('every leaf has a proof that verifies against the root', () => {
+  for (let count = 1; count <= 9; count++) {
+    const hashes = recordHashes(count);
+    const tree = buildMerkleTree(hashes);
+
+    hashes.forEach((hash, index) => {
+      const proof = getMerkleProof(tree, index);
+      assert.equal(proof.merkle_root, tree.root);
+      assert.equal(verifyMerkleProof(hash, proof), true, `leaf ${index} of ${count}`);
+      assert.equal(verifyMerkleProof(`0x${hash.toUpperCase()}`, proof), true);
+    });
+  }
+});
+
+test('tampered proofs fail', () => {
+  const hashes = recordHashes(5);
+  const tree = buildMerkleTree(hashes);
+  const proof = getMerkleProof(tree, 2);
+
+  assert.equal(verifyMerkleProof(hashes[3], proof), false);
+  assert.equal(verifyMerkleProof(hashes[2], { ...proof, merkle_root: buildMerkleTree(recordHashes(4)).root }), false);
+  assert.equal(verifyMerkleProof(hashes[2], {
+    ...proof,
+    siblings: proof.siblings.map((sibling, i) => i === 0 ? { ...sibling, position: sibling.position === 'left' ? 'right' : 'left' } : sibling)
+  }), false);
+  assert.equal(verifyMerkleProof(hashes[2], { ...proof, siblings: [{ position: 'left', hash: 'not-a-hash' }] }), false);
+  assert.throws(() => getMerkleProof(tree, 5), /out of range/);
+  assert.throws(() => buildMerkleTree([]), /no leaves/);
+});
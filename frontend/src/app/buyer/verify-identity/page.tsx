@@ -1,68 +1,281 @@
 'use client'
 
-import { useEffect } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/context/AuthContext'
+import { buyerApi } from '@/lib/api/buyer'
+import { formatDate } from '@/lib/utils/format'
+import LocalPersonaStandIn from '@/components/buyer/LocalPersonaStandIn'
+import type { BuyerIdentityVerificationSession, BuyerVerificationStatusResponse } from '@ca2achain/shared'
+
+type Step = 'start' | 'verify' | 'processing' | 'complete'
+
+const STEPS: { id: Step; label: string }[] = [
+  { id: 'start', label: 'Start' },
+  { id: 'verify', label: 'Verify ID' },
+  { id: 'processing', label: 'Review' },
+  { id: 'complete', label: 'Credential' },
+]
+
+// Display names for the identity providers the backend may pick
+const PROVIDER_NAMES: Record<string, string> = {
+  persona: 'Persona',
+  onfido: 'Onfido',
+  veriff: 'Veriff',
+  local: 'The local test provider',
+}
+
+const POLL_INTERVAL_MS = 3000
+const MAX_POLLS = 40 // ~2 minutes, after that the buyer is told to wait for the email
 
 export default function BuyerVerifyIdentityPage() {
   const router = useRouter()
-  const { user } = useAuth()
+  const { user, isLoading, refreshUser } = useAuth()
+  const [step, setStep] = useState<Step>('start')
+  const [status, setStatus] = useState<BuyerVerificationStatusResponse | null>(null)
+  const [session, setSession] = useState<BuyerIdentityVerificationSession | null>(null)
+  const [isStarting, setIsStarting] = useState(false)
+  const [pollTimedOut, setPollTimedOut] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const pollCount = useRef(0)
+  const providerKey = session?.provider ?? status?.verification_provider
+  const providerName = (providerKey && PROVIDER_NAMES[providerKey]) || 'Your identity provider'
 
   useEffect(() => {
-    if (!user) {
-      router.push('/auth/login')
-      return
+    if (!isLoading) {
+      if (!user) {
+        router.push('/auth/login')
+        return
+      }
+
+      if (user.role !== 'buyer') {
+        router.push('/auth/login')
+        return
+      }
+
+      if (!user.account_data) {
+        router.push('/buyer/complete-profile')
+      }
     }
+  }, [user, isLoading, router])
 
-    if (user.role !== 'buyer') {
-      router.push('/auth/login')
-      return
+  const loadStatus = useCallback(async () => {
+    const response = await buyerApi.getVerificationStatus()
+    if (response.success && response.data) {
+      setStatus(response.data)
+      return response.data
     }
+    return null
+  }, [])
+
+  // Initial status: already verified buyers go straight to their credential
+  useEffect(() => {
+    if (!user?.account_data) return
+
+    loadStatus()
+      .then(current => {
+        if (current?.verification_status === 'verified' && !current.can_start_verification) {
+          setStep('complete')
+        }
+      })
+      .catch(err => {
+        console.error('Verification status error:', err)
+        setError('Failed to load verification status')
+      })
+  }, [user, loadStatus])
 
-    if (!user.account_data) {
-      router.push('/buyer/complete-profile')
+  // Poll while the identity provider reviews the inquiry; the webhook moves the buyer out of pending
+  useEffect(() => {
+    if (step !== 'processing') return
+
+    pollCount.current = 0
+    setPollTimedOut(false)
+
+    const interval = setInterval(async () => {
+      pollCount.current += 1
+      try {
+        const current = await loadStatus()
+        const decided = current?.inquiry_id === session?.inquiry_id && current?.verification_status !== 'pending'
+        if (decided && current?.verification_status === 'verified') {
+          clearInterval(interval)
+          await refreshUser()
+          setStep('complete')
+        } else if (decided && current?.verification_status === 'rejected') {
+          clearInterval(interval)
+          setSession(null)
+          setStep('start')
+        }
+      } catch (err) {
+        console.error('Verification status error:', err)
+      }
+
+      if (pollCount.current >= MAX_POLLS) {
+        clearInterval(interval)
+        setPollTimedOut(true)
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [step, session, loadStatus, refreshUser])
+
+  const handleStart = async () => {
+    setError(null)
+    setIsStarting(true)
+
+    try {
+      const response = await buyerApi.startVerification()
+      if (response.success && response.data) {
+        setSession(response.data)
+        setStep('verify')
+      } else {
+        setError(response.error || 'Failed to start identity verification')
+      }
+    } catch (err: any) {
+      console.error('Start verification error:', err)
+      setError(err.response?.data?.error || err.message || 'Failed to start identity verification')
+    } finally {
+      setIsStarting(false)
     }
-  }, [user, router])
+  }
 
-  if (!user || !user.account_data) {
-    return <div className="max-w-4xl mx-auto px-4 py-8">Loading...</div>
+  if (isLoading || !user || !user.account_data) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <p>Loading...</p>
+      </div>
+    )
   }
 
+  const currentIndex = STEPS.findIndex(s => s.id === step)
+
   return (
     <div className="max-w-4xl mx-auto px-4 py-8">
       <h1 className="text-3xl mb-8">Verify Your Identity</h1>
 
-      <div className="border p-6 mb-6">
-        <h2 className="text-xl mb-4">Identity Verification Status</h2>
-        <div className="mb-4">
-          <span className="inline-block px-3 py-1 bg-yellow-100 text-yellow-800 rounded">
-            Pending Verification
-          </span>
+      <ol className="flex gap-4 mb-8 text-sm">
+        {STEPS.map((s, index) => (
+          <li
+            key={s.id}
+            className={index === currentIndex ? 'font-bold' : index < currentIndex ? 'text-green-700' : 'text-gray-400'}
+          >
+            {index + 1}. {s.label}
+          </li>
+        ))}
+      </ol>
+
+      {error && (
+        <div className="mb-6 p-3 border border-red-500 text-red-500">
+          {error}
         </div>
-        <p className="text-gray-600">
-          Complete identity verification to enable age and address verification for dealers.
-        </p>
-      </div>
+      )}
 
-      <div className="border p-6 mb-6">
-        <h2 className="text-xl mb-4">Step 1: Persona Identity Verification</h2>
-        <p className="text-gray-600 mb-4">
-          Verify your identity securely using Persona. We'll verify your driver's license.
-        </p>
-        <button className="border px-4 py-2 hover:bg-gray-100">
-          Start Persona Verification
-        </button>
-      </div>
+      {step === 'start' && (
+        <div className="border p-6 mb-6">
+          <h2 className="text-xl mb-4">Step 1: Start Identity Verification</h2>
 
-      <div className="border p-6 bg-gray-50">
-        <h2 className="text-xl mb-4">Step 2: Polygon ID Credential</h2>
-        <p className="text-gray-600">
-          After Persona verification, you'll receive a Polygon ID credential for privacy-preserving verification.
-        </p>
-        <p className="text-sm text-gray-500 mt-2">
-          This step will be available after completing Persona verification.
-        </p>
-      </div>
+          {status?.verification_status === 'rejected' && (
+            <div className="p-4 border-l-4 border-red-500 bg-red-50 mb-4">
+              <p className="font-bold mb-2">Verification Declined</p>
+              <p>Your last verification could not be approved. Make sure your driver&apos;s license is valid and the photos are clear, then try again.</p>
+            </div>
+          )}
+
+          {status?.verification_status === 'verified' && status.verification_expires_at && (
+            <div className="p-4 border-l-4 border-yellow-500 bg-yellow-50 mb-4">
+              <p>Your credential expires on {formatDate(status.verification_expires_at)}. Verify again to renew it.</p>
+            </div>
+          )}
+
+          <p className="text-gray-600 mb-4">
+            We use a trusted identity verification partner to verify your California driver&apos;s license. Your license data is encrypted
+            and never shared with dealers - they only receive zero-knowledge proofs of your age and address.
+          </p>
+          <button
+            onClick={handleStart}
+            disabled={isStarting || status?.can_start_verification === false}
+            className="border px-4 py-2 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isStarting ? 'Starting...' : 'Start Identity Verification'}
+          </button>
+        </div>
+      )}
+
+      {step === 'verify' && session && (
+        <div className="border p-6 mb-6">
+          <h2 className="text-xl mb-4">Step 2: Verify Your Driver&apos;s License</h2>
+
+          {session.mode === 'hosted' && session.verification_url ? (
+            <>
+              <p className="text-gray-600 mb-4">
+                Complete the verification in {providerName}&apos;s secure window, then come back to this page.
+              </p>
+              <div className="flex gap-3">
+                <a
+                  href={session.verification_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="border px-4 py-2 hover:bg-gray-100"
+                >
+                  Open {providerName}
+                </a>
+                <button
+                  onClick={() => setStep('processing')}
+                  className="border px-4 py-2 hover:bg-gray-100"
+                >
+                  I&apos;ve Finished
+                </button>
+              </div>
+            </>
+          ) : (
+            <LocalPersonaStandIn inquiryId={session.inquiry_id} onSubmitted={() => setStep('processing')} />
+          )}
+        </div>
+      )}
+
+      {step === 'processing' && (
+        <div className="border p-6 mb-6">
+          <h2 className="text-xl mb-4">Step 3: Reviewing Your Verification</h2>
+          <div className="mb-4">
+            <span className="inline-block px-3 py-1 bg-yellow-100 text-yellow-800 rounded">
+              Pending Verification
+            </span>
+          </div>
+          {pollTimedOut ? (
+            <p className="text-gray-600">
+              Your verification is still being reviewed. We&apos;ll email you as soon as it&apos;s complete.
+            </p>
+          ) : (
+            <p className="text-gray-600">
+              {providerName} is reviewing your driver&apos;s license. This usually takes less than a minute.
+            </p>
+          )}
+        </div>
+      )}
+
+      {step === 'complete' && (
+        <div className="border p-6 mb-6">
+          <h2 className="text-xl mb-4">Step 4: Credential Issued</h2>
+          <div className="mb-4">
+            <span className="inline-block px-3 py-1 bg-green-100 text-green-800 rounded">
+              Verified
+            </span>
+          </div>
+          <p className="text-gray-600 mb-4">
+            Your identity is verified. Dealers can now confirm your age and address with zero-knowledge proofs.
+          </p>
+          {status?.verification_expires_at && (
+            <p className="text-sm text-gray-500 mb-4">
+              Credential valid until {formatDate(status.verification_expires_at)}
+            </p>
+          )}
+          <button
+            onClick={() => router.push('/buyer/profile')}
+            className="border px-4 py-2 hover:bg-gray-100"
+          >
+            Back to Profile
+          </button>
+        </div>
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -1,12 +1,23 @@
 'use client'
 
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/context/AuthContext'
+import { dealerApi } from '@/lib/api/dealer'
+import { formatDateTime } from '@/lib/utils/format'
+import type { CreditLedgerEntryType, DealerCreditsResponse } from '@ca2achain/shared'
+
+const ENTRY_LABELS: Record<CreditLedgerEntryType, string> = {
+  grant: 'Credits added',
+  consumption: 'Verification',
+  refund: 'Refund',
+  expiration: 'Expired',
+}
 
 export default function DealerBillingPage() {
   const router = useRouter()
   const { user } = useAuth()
+  const [credits, setCredits] = useState<DealerCreditsResponse['data'] | null>(null)
 
   useEffect(() => {
     if (!user) {
@@ -24,6 +35,18 @@ export default function DealerBillingPage() {
     }
   }, [user, router])
 
+  useEffect(() => {
+    if (!user?.account_data?.subscription_status) return
+
+    dealerApi.getCredits({ limit: 10 })
+      .then(response => {
+        if (response.success && response.data) {
+          setCredits(response.data)
+        }
+      })
+      .catch(() => setCredits(null))
+  }, [user])
+
   if (!user || !user.account_data) {
     return <div className="max-w-4xl mx-auto px-4 py-8">Loading...</div>
   }
@@ -52,15 +75,37 @@ export default function DealerBillingPage() {
             <div className="space-y-2">
               <p><strong>Tier:</strong> {dealer.subscription_tier}</p>
               <p><strong>Status:</strong> {dealer.subscription_status}</p>
-              <p><strong>Credits Available:</strong> {
-                (dealer.credits_purchased || 0) + (dealer.additional_credits_purchased || 0) - (dealer.credits_used || 0)
-              }</p>
+              <p><strong>Credits Available:</strong> {credits ? credits.credits_available : '...'}</p>
+              {credits?.credits_expire_at && (
+                <p><strong>{credits.credits_expired ? 'Credits Expired:' : 'Credits Expire:'}</strong> {formatDateTime(credits.credits_expire_at)}</p>
+              )}
             </div>
           </div>
 
           <div className="border p-6 mb-6">
-            <h2 className="text-xl mb-4">Usage This Month</h2>
-            <p><strong>Credits Used:</strong> {dealer.credits_used || 0}</p>
+            <h2 className="text-xl mb-4">Recent Credit Activity</h2>
+            {!credits || credits.entries.length === 0 ? (
+              <p className="text-gray-600">No credit activity yet</p>
+            ) : (
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="border-b">
+                    <th className="py-2">Date</th>
+                    <th className="py-2">Activity</th>
+                    <th className="py-2 text-right">Credits</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {credits.entries.map(entry => (
+                    <tr key={entry.id} className="border-b">
+                      <td className="py-2">{formatDateTime(entry.created_at)}</td>
+                      <td className="py-2">{entry.description || ENTRY_LABELS[entry.entry_type]}</td>
+                      <td className="py-2 text-right">{entry.amount > 0 ? `+${entry.amount}` : entry.amount}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
           </div>
 
           <div className="border p-6 mb-6">
@@ -1,12 +1,14 @@
 'use client'
 
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/context/AuthContext'
+import { dealerApi } from '@/lib/api/dealer'
 
 export default function DealerProfilePage() {
   const router = useRouter()
   const { user } = useAuth()
+  const [creditsAvailable, setCreditsAvailable] = useState<number | null>(null)
 
   useEffect(() => {
     if (!user) {
@@ -24,6 +26,18 @@ export default function DealerProfilePage() {
     }
   }, [user, router])
 
+  useEffect(() => {
+    if (!user?.account_data?.subscription_status) return
+
+    dealerApi.getCredits({ limit: 1 })
+      .then(response => {
+        if (response.success && response.data) {
+          setCreditsAvailable(response.data.credits_available)
+        }
+      })
+      .catch(() => setCreditsAvailable(null))
+  }, [user])
+
   if (!user || !user.account_data) {
     return <div className="max-w-4xl mx-auto px-4 py-8">Loading...</div>
   }
@@ -58,11 +72,7 @@ export default function DealerProfilePage() {
           <div className="space-y-2">
             <p><strong>Status:</strong> {dealer.subscription_status}</p>
             <p><strong>Tier:</strong> {dealer.subscription_tier || 'Not set'}</p>
-            <p><strong>Credits Available:</strong> {
-              dealer.credits_purchased !== null 
-                ? (dealer.credits_purchased + (dealer.additional_credits_purchased || 0) - (dealer.credits_used || 0))
-                : 'No subscription'
-            }</p>
+            <p><strong>Credits Available:</strong> {creditsAvailable ?? '...'}</p>
           </div>
         ) : (
           <div>
@@ -3,6 +3,7 @@
 import { useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/context/AuthContext'
+import ApiKeyManager from '@/components/dealer/ApiKeyManager'
 
 export default function DealerSettingsPage() {
   const router = useRouter()
@@ -43,11 +44,17 @@ export default function DealerSettingsPage() {
       </div>
 
       <div className="border p-6 mb-6">
-        <h2 className="text-xl mb-4">API Settings</h2>
-        <p className="text-gray-600 mb-4">Manage your API keys and integration settings.</p>
-        <button className="border px-4 py-2 hover:bg-gray-100">
-          Regenerate API Key
-        </button>
+        <h2 className="text-xl mb-4">API Keys</h2>
+        {user.account_data.subscription_status ? (
+          <>
+            <p className="text-gray-600 mb-4">
+              Create a key per integration, limit what each key can do, and rotate keys without downtime.
+            </p>
+            <ApiKeyManager />
+          </>
+        ) : (
+          <p className="text-gray-600">Set up your subscription to create API keys.</p>
+        )}
       </div>
 
       <div className="border p-6 mb-6">
@@ -53,14 +53,19 @@ export default function DealerVerificationsPage() {
           <div className="border p-6 mb-6">
             <h2 className="text-xl mb-4">API Integration</h2>
             <p className="text-gray-600 mb-4">
-              Use your API key to integrate verification into your system.
+              Use your API keys to integrate verification into your system.
             </p>
-            <div className="bg-gray-100 p-3 rounded font-mono text-sm">
-              API Key: {dealer.api_key_hash ? 'ca2a_****' : 'Not generated'}
+            <div className="flex gap-2">
+              <button
+                onClick={() => router.push('/dealer/settings')}
+                className="border px-4 py-2 hover:bg-gray-100"
+              >
+                Manage API Keys
+              </button>
+              <button className="border px-4 py-2 hover:bg-gray-100">
+                View API Documentation
+              </button>
             </div>
-            <button className="mt-4 border px-4 py-2 hover:bg-gray-100">
-              View API Documentation
-            </button>
           </div>
 
           <div className="border p-6">
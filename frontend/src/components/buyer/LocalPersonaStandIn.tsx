@@ -0,0 +1,64 @@
+'use client'
+
+import { useState } from 'react'
+import { buyerApi } from '@/lib/api/buyer'
+
+interface LocalPersonaStandInProps {
+  inquiryId: string
+  onSubmitted: () => void
+}
+
+// Development stand-in for Persona's hosted flow - the backend plays Persona and sends the signed webhooks
+export default function LocalPersonaStandIn({ inquiryId, onSubmitted }: LocalPersonaStandInProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const complete = async (decision: 'approved' | 'declined') => {
+    setError(null)
+    setIsSubmitting(true)
+
+    try {
+      await buyerApi.completeLocalInquiry(inquiryId, decision)
+      onSubmitted()
+    } catch (err: any) {
+      console.error('Local Persona stand-in error:', err)
+      setError(err.response?.data?.message || err.response?.data?.error || err.message || 'Failed to complete inquiry')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="border border-dashed border-gray-400 p-4 bg-gray-50">
+      <p className="text-sm font-bold mb-2">Local Persona stand-in (development)</p>
+      <p className="text-sm text-gray-600 mb-4">
+        Persona is not configured, so no documents are collected. Choose the decision Persona would
+        make for inquiry <span className="font-mono">{inquiryId}</span>. A sample California driver&apos;s
+        license is used when approved.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 border border-red-500 text-red-500">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => complete('approved')}
+          disabled={isSubmitting}
+          className="border px-4 py-2 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Approve
+        </button>
+        <button
+          onClick={() => complete('declined')}
+          disabled={isSubmitting}
+          className="border px-4 py-2 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Decline
+        </button>
+      </div>
+    </div>
+  )
+}
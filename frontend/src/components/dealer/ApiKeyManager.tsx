@@ -0,0 +1,185 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { dealerApi } from '@/lib/api/dealer'
+import { formatDateTime } from '@/lib/utils/format'
+import type { ApiKeyScope, DealerApiKey } from '@ca2achain/shared'
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  verify: 'Run verifications',
+  'history:read': 'Read verification history',
+}
+
+const ALL_SCOPES = Object.keys(SCOPE_LABELS) as ApiKeyScope[]
+
+const keyStatus = (key: DealerApiKey): string => {
+  if (key.revoked_at) return 'Revoked'
+  if (key.expires_at && new Date(key.expires_at) <= new Date()) return 'Expired'
+  if (key.rotated_to_key_id) return `Rotated - expires ${formatDateTime(key.expires_at!)}`
+  if (key.expires_at) return `Active - expires ${formatDateTime(key.expires_at)}`
+  return 'Active'
+}
+
+export default function ApiKeyManager() {
+  const [keys, setKeys] = useState<DealerApiKey[] | null>(null)
+  const [label, setLabel] = useState('')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(ALL_SCOPES)
+  const [newKey, setNewKey] = useState<{ label: string; api_key: string } | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadKeys = useCallback(() => {
+    dealerApi.listApiKeys()
+      .then(response => {
+        if (response.success && response.data) {
+          setKeys(response.data)
+        }
+      })
+      .catch(() => setKeys([]))
+  }, [])
+
+  useEffect(() => {
+    loadKeys()
+  }, [loadKeys])
+
+  // Run a key action, surfacing the API error message and refreshing the list
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null)
+    setIsLoading(true)
+    try {
+      await action()
+      loadKeys()
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.response?.data?.error || err.message || 'API key update failed')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    runAction(async () => {
+      const response = await dealerApi.createApiKey({ label, scopes })
+      if (response.success && response.data) {
+        setNewKey({ label: response.data.label, api_key: response.data.api_key })
+        setLabel('')
+        setScopes(ALL_SCOPES)
+      }
+    })
+  }
+
+  const handleRotate = (key: DealerApiKey) => {
+    if (!confirm(`Rotate "${key.label}"? The current key keeps working for 24 hours.`)) return
+    runAction(async () => {
+      const response = await dealerApi.rotateApiKey(key.id)
+      if (response.success && response.data) {
+        setNewKey({ label: response.data.label, api_key: response.data.api_key })
+      }
+    })
+  }
+
+  const handleRevoke = (key: DealerApiKey) => {
+    if (!confirm(`Revoke "${key.label}"? Requests using it will fail immediately.`)) return
+    runAction(async () => {
+      await dealerApi.revokeApiKey(key.id)
+    })
+  }
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(current => current.includes(scope)
+      ? current.filter(s => s !== scope)
+      : [...current, scope])
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="border border-red-500 bg-red-50 p-3 mb-4 text-red-600">{error}</div>
+      )}
+
+      {newKey && (
+        <div className="border border-yellow-500 bg-yellow-50 p-4 mb-4">
+          <p className="mb-2"><strong>{newKey.label}</strong> - copy this key now. It will not be shown again.</p>
+          <div className="bg-gray-100 p-3 rounded font-mono text-sm break-all">{newKey.api_key}</div>
+          <button onClick={() => setNewKey(null)} className="mt-2 border px-4 py-2 hover:bg-gray-100">
+            Done
+          </button>
+        </div>
+      )}
+
+      {!keys ? (
+        <p className="text-gray-600 mb-4">Loading API keys...</p>
+      ) : keys.length === 0 ? (
+        <p className="text-gray-600 mb-4">No API keys yet</p>
+      ) : (
+        <table className="w-full text-left mb-6">
+          <thead>
+            <tr className="border-b">
+              <th className="py-2">Name</th>
+              <th className="py-2">Key</th>
+              <th className="py-2">Scopes</th>
+              <th className="py-2">Last Used</th>
+              <th className="py-2">Status</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {keys.map(key => {
+              const usable = !key.revoked_at && !key.rotated_to_key_id &&
+                (!key.expires_at || new Date(key.expires_at) > new Date())
+              return (
+                <tr key={key.id} className="border-b">
+                  <td className="py-2">{key.label}</td>
+                  <td className="py-2 font-mono text-sm">{key.key_prefix}…</td>
+                  <td className="py-2">{key.scopes.join(', ')}</td>
+                  <td className="py-2">{key.last_used_at ? formatDateTime(key.last_used_at) : 'Never'}</td>
+                  <td className="py-2">{keyStatus(key)}</td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    {usable && (
+                      <>
+                        <button onClick={() => handleRotate(key)} disabled={isLoading} className="border px-2 py-1 mr-2 hover:bg-gray-100">
+                          Rotate
+                        </button>
+                        <button onClick={() => handleRevoke(key)} disabled={isLoading} className="border border-red-500 text-red-500 px-2 py-1 hover:bg-red-50">
+                          Revoke
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-3">
+        <h3 className="text-lg">Create API Key</h3>
+        <input
+          type="text"
+          value={label}
+          onChange={e => setLabel(e.target.value)}
+          placeholder="Key name (e.g. Point of sale)"
+          maxLength={100}
+          required
+          className="border px-3 py-2 w-full"
+        />
+        <div className="space-y-1">
+          {ALL_SCOPES.map(scope => (
+            <label key={scope} className="flex items-center gap-2">
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              {SCOPE_LABELS[scope]} <span className="font-mono text-sm text-gray-600">({scope})</span>
+            </label>
+          ))}
+        </div>
+        <button
+          type="submit"
+          disabled={isLoading || !label.trim() || scopes.length === 0}
+          className="border px-4 py-2 hover:bg-gray-100"
+        >
+          Create API Key
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -1,6 +1,11 @@
 import apiClient from './client'
 import { API_ENDPOINTS } from '@/lib/constants/api-endpoints'
-import type { BuyerRegistration, BuyerAccount } from '@ca2achain/shared'
+import type {
+  BuyerRegistration,
+  BuyerIdentityVerificationSession,
+  BuyerVerificationStatusResponse
+} from '@ca2achain/shared'
+import type { ApiResponse } from '@/lib/types/api'
 
 export const buyerApi = {
   register: async (data: BuyerRegistration) => {
@@ -13,8 +18,22 @@ export const buyerApi = {
     return response.data
   },
 
+  startVerification: async () => {
+    const response = await apiClient.post<ApiResponse<BuyerIdentityVerificationSession>>(API_ENDPOINTS.BUYER_VERIFY_IDENTITY, {})
+    return response.data
+  },
+
+  getVerificationStatus: async () => {
+    const response = await apiClient.get<ApiResponse<BuyerVerificationStatusResponse>>(API_ENDPOINTS.BUYER_VERIFICATION_STATUS)
+    return response.data
+  },
+
+  // Local Persona stand-in: approve or decline the inquiry as if the buyer finished Persona's flow
+  completeLocalInquiry: async (inquiryId: string, decision: 'approved' | 'declined') => {
+    const response = await apiClient.post(API_ENDPOINTS.DEV_PERSONA_COMPLETE_INQUIRY(inquiryId), { decision })
+    return response.data
+  },
+
   // TODO: Add more buyer API functions
   // updateProfile: (data) => Promise
-  // startVerification: () => Promise
-  // getVerificationStatus: () => Promise
 }
\ No newline at end of file
@@ -1,9 +1,55 @@
 import apiClient from './client'
+import { API_ENDPOINTS } from '@/lib/constants/api-endpoints'
+import type {
+  CreditLedgerEntryType,
+  DealerApiKey,
+  DealerApiKeyCreatedResponse,
+  DealerApiKeyUpdate,
+  DealerCreditsResponse,
+  ApiKeyScope
+} from '@ca2achain/shared'
+import type { ApiResponse } from '@/lib/types/api'
 
-// TODO: Implement dealer API calls
 export const dealerApi = {
+  // Credit balance (derived from the credit ledger) and ledger entries, newest first
+  getCredits: async (params?: { entry_type?: CreditLedgerEntryType; limit?: number; offset?: number }) => {
+    const response = await apiClient.get<ApiResponse<DealerCreditsResponse['data']>>(API_ENDPOINTS.DEALER_CREDITS, { params })
+    return response.data
+  },
+
+  // API keys, newest first (revoked and expired included)
+  listApiKeys: async () => {
+    const response = await apiClient.get<ApiResponse<DealerApiKey[]>>(API_ENDPOINTS.DEALER_API_KEYS)
+    return response.data
+  },
+
+  // Create a key - api_key in the response is shown once
+  createApiKey: async (data: { label: string; scopes?: ApiKeyScope[]; expires_at?: string }) => {
+    const response = await apiClient.post<ApiResponse<DealerApiKeyCreatedResponse['data']>>(API_ENDPOINTS.DEALER_API_KEYS, data)
+    return response.data
+  },
+
+  updateApiKey: async (id: string, data: DealerApiKeyUpdate) => {
+    const response = await apiClient.patch<ApiResponse<DealerApiKey>>(API_ENDPOINTS.DEALER_API_KEY_BY_ID(id), data)
+    return response.data
+  },
+
+  // Issue a replacement key; the old key keeps working for the grace period
+  rotateApiKey: async (id: string, gracePeriodHours?: number) => {
+    const response = await apiClient.post<ApiResponse<DealerApiKeyCreatedResponse['data']>>(
+      API_ENDPOINTS.DEALER_API_KEY_ROTATE(id),
+      { grace_period_hours: gracePeriodHours }
+    )
+    return response.data
+  },
+
+  revokeApiKey: async (id: string) => {
+    const response = await apiClient.delete<ApiResponse<DealerApiKey>>(API_ENDPOINTS.DEALER_API_KEY_BY_ID(id))
+    return response.data
+  },
+
+  // TODO: Implement remaining dealer API calls
   // getProfile: () => Promise
-  // generateApiKey: () => Promise
   // getVerifications: () => Promise
   // getVerificationById: (id: string) => Promise
   // purchaseCredits: (amount: number) => Promise
@@ -11,14 +11,20 @@ export const API_ENDPOINTS = {
   
   // Dealer
   DEALER_PROFILE: '/dealer/profile',
-  DEALER_GENERATE_API_KEY: '/dealer/generate-api-key',
+  DEALER_API_KEYS: '/dealer/api-keys',
+  DEALER_API_KEY_BY_ID: (id: string) => `/dealer/api-keys/${id}`,
+  DEALER_API_KEY_ROTATE: (id: string) => `/dealer/api-keys/${id}/rotate`,
   DEALER_VERIFICATIONS: '/dealer/verifications',
   DEALER_VERIFICATION_BY_ID: (id: string) => `/dealer/verifications/${id}`,
+  DEALER_CREDITS: '/dealer/credits',
   
   // Verification API
   VERIFY: '/verify',
   VERIFY_BY_ID: (id: string) => `/verify/${id}`,
   VERIFY_HISTORY: '/verify/history',
+
+  // Local Persona stand-in (development only)
+  DEV_PERSONA_COMPLETE_INQUIRY: (inquiryId: string) => `/dev/persona/inquiries/${inquiryId}/complete`,
 } as const
 
 export default API_ENDPOINTS
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import { addressSchema, dateOfBirthSchema } from '../common/schema.js';
-import { privadoAgeProofSchema, privadoAddressProofSchema } from '../verification/schema.js';
+import { noticeVersionSchema, privadoAgeProofSchema, privadoAddressProofSchema } from '../verification/schema.js';
 
 // =============================================
 // ENCRYPTED PERSONA DATA STRUCTURES
@@ -22,16 +22,36 @@ export const driverLicenseDataSchema = z.object({
 // Complete encrypted persona data structure
 export const encryptedPersonaDataSchema = z.object({
   driver_license: driverLicenseDataSchema,
-  persona_session_id: z.string(),
+  persona_session_id: z.string(), // Provider inquiry/session ID (name predates non-Persona providers)
 });
 
 // =============================================
 // ENCRYPTED PRIVADO CREDENTIAL STRUCTURES
 // =============================================
 
+// Data Integrity proof over the credential (eddsa-jcs-2022: Ed25519 over canonical JSON)
+export const credentialProofSchema = z.object({
+  type: z.literal('DataIntegrityProof'),
+  cryptosuite: z.literal('eddsa-jcs-2022'),
+  created: z.string().datetime(),
+  verification_method: z.string(), // '<issuer did:key>#<key fragment>'
+  proof_purpose: z.literal('assertionMethod'),
+  proof_value: z.string(), // Multibase (base58btc) Ed25519 signature
+});
+
+// StatusList2021 entry pointing at the credential's bit in a published status list
+export const credentialStatusSchema = z.object({
+  id: z.string(), // '<status list credential URL>#<index>'
+  type: z.literal('StatusList2021Entry'),
+  status_purpose: z.literal('revocation'),
+  status_list_index: z.string(), // Decimal string, per StatusList2021
+  status_list_credential: z.string().url(),
+});
+
 // Privado verifiable credential structure
 export const privadoCredentialSchema = z.object({
-  credential_id: z.string(),
+  type: z.array(z.string()), // ['VerifiableCredential', 'CA2AChainIdentityCredential']
+  credential_id: z.string(), // 'urn:uuid:...'
   issuer_did: z.string(),
   subject_did: z.string(), // Buyer's DID
   issued_at: z.string().datetime(),
@@ -41,10 +61,22 @@ export const privadoCredentialSchema = z.object({
     age_over_18: z.boolean(),
     dl_verified: z.boolean(),
     address_verified: z.boolean(),
+    dob_commitment: z.string(), // Poseidon(birth_date, dob_salt) - public input to the age circuit
+    address_commitment: z.string(), // Poseidon(address_hash, address_salt) - public input to the address circuit
   }),
+  credential_status: credentialStatusSchema,
+  proof: credentialProofSchema,
+});
+
+// Private circuit inputs fixed at issuance (never leave buyer_secrets)
+export const zkpWitnessSchema = z.object({
+  birth_date: z.number().int(), // YYYYMMDD
+  dob_salt: z.string(), // Field element (decimal)
+  address_hash: z.string(), // Field element of SHA-256(normalized address)
+  address_salt: z.string(), // Field element (decimal)
 });
 
-// ZKP proofs generated from credential
+// ZKP proofs generated from credential at issuance
 export const zkpProofsDataSchema = z.object({
   age_proof: privadoAgeProofSchema,
   address_proof: privadoAddressProofSchema,
@@ -54,9 +86,69 @@ export const zkpProofsDataSchema = z.object({
 // Complete encrypted Privado credential structure
 export const encryptedPrivadoCredentialSchema = z.object({
   verifiable_credential: privadoCredentialSchema,
+  zkp_witness: zkpWitnessSchema,
   zkp_proofs: zkpProofsDataSchema,
 });
 
+// =============================================
+// CREDENTIAL REVOCATION (STATUSLIST2021)
+// =============================================
+
+export const revocationReasonSchema = z.enum([
+  'verification_expired',
+  'verification_rejected',
+  'account_deleted', // Includes CCPA deletion
+  'superseded', // Replaced by a credential from re-verification
+  'administrative',
+]);
+
+// credential_status_lists table - one bitstring per row
+export const credentialStatusListRecordSchema = z.object({
+  id: z.string().uuid(),
+  status_purpose: z.literal('revocation'),
+  list_size: z.number().int().positive(), // Bits
+  allocated_count: z.number().int().nonnegative(),
+  created_at: z.string().datetime(),
+});
+
+// credential_statuses table - one row per issued credential (survives CCPA deletion, no PII)
+export const credentialStatusRecordSchema = z.object({
+  credential_id: z.string(),
+  status_list_id: z.string().uuid(),
+  status_list_index: z.number().int().nonnegative(),
+  buyer_reference_id: z.string(), // 'BUY_a8b9c2d1'
+  revoked: z.boolean(),
+  revoked_at: z.string().datetime().nullable(),
+  revocation_reason: revocationReasonSchema.nullable(),
+  created_at: z.string().datetime(),
+});
+
+// Signed, published status list - bit N set = credential at index N revoked
+export const statusListCredentialSchema = z.object({
+  type: z.array(z.string()), // ['VerifiableCredential', 'StatusList2021Credential']
+  credential_id: z.string().url(), // Status list URL
+  issuer_did: z.string(),
+  issued_at: z.string().datetime(),
+  credential_subject: z.object({
+    id: z.string(), // '<status list URL>#list'
+    type: z.literal('StatusList2021'),
+    status_purpose: z.literal('revocation'),
+    encoded_list: z.string(), // Base64url GZIP bitstring, most significant bit first
+  }),
+  proof: credentialProofSchema,
+});
+
+// Revocation status lookup by credential ID (no buyer data)
+export const credentialRevocationStatusSchema = z.object({
+  credential_id: z.string(),
+  status_list_credential: z.string().url(),
+  status_list_index: z.number().int().nonnegative(),
+  revoked: z.boolean(),
+  revoked_at: z.string().datetime().optional(),
+  revocation_reason: revocationReasonSchema.optional(),
+  checked_at: z.string().datetime(),
+});
+
 // =============================================
 // BUYER SECRETS DATABASE ENTITY
 // =============================================
@@ -67,14 +159,15 @@ export const buyerSecretsSchema = z.object({
   buyer_id: z.string().uuid(), // References buyer_accounts(id)
   
   // Encrypted PII data (contains DOB, address for hash reproducibility)
-  encrypted_persona_data: encryptedPersonaDataSchema,
+  encrypted_persona_data: z.string(), // AES-256-GCM ciphertext of encryptedPersonaDataSchema
   
   // Encrypted ZKP credential data
-  encrypted_privado_credential: encryptedPrivadoCredentialSchema,
+  encrypted_privado_credential: z.string(), // AES-256-GCM ciphertext of encryptedPrivadoCredentialSchema
   
   // Encryption metadata
   encryption_key_id: z.string().uuid(),
-  persona_verification_session: z.string().optional(),
+  verification_session: z.string().optional(), // Provider inquiry/session that verified the buyer
+  verification_provider: z.string().optional(), // 'persona' | 'onfido' | 'veriff' | 'local'
   
   created_at: z.string().datetime(),
 });
@@ -83,24 +176,34 @@ export const buyerSecretsSchema = z.object({
 // HASH REPRODUCIBILITY EXTRACTION
 // =============================================
 
-// Data extraction for hash generation (aligns with verification schema)
+// Everything needed to rebuild the canonical commitments of one compliance event
+// PII fields come from decrypted buyer_secrets; the rest is read back from verification_data
 export const hashReproducibilityDataSchema = z.object({
   buyer_id: z.string().uuid(),
   buyer_reference_id: z.string(), // 'BUY_a8b9c2d1'
   buyer_secret: z.string(), // SHA256(buyer_uuid + secret_salt)
+  dealer_reference_id: z.string(), // 'DLR_f3e4d5c6'
+  compliance_event_id: z.string().uuid(),
+  verified_at_timestamp: z.string().datetime(), // Single timestamp captured for the event
   
-  // Age commitment data (from verification schema)
-  zkp_age_proof: z.string(), // Serialized privadoAgeProofSchema
+  // Age commitment data
   date_of_birth: dateOfBirthSchema, // Use common date validation for hash reproducibility
+  zkp_age_proof_hash: z.string(),
   age_verified: z.boolean(),
-  verified_at_timestamp: z.string().datetime(),
+  age_threshold: z.number().int().min(1).optional(), // Set -> age commitment v2; absent on events before age policies
+  age_evaluation_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // Local date the age was judged on (v2)
   
-  // Address commitment data (from verification schema)  
-  zkp_address_proof: z.string(), // Serialized privadoAddressProofSchema
+  // Address commitment data
   normalized_buyer_address: z.string(), // Extracted and normalized from persona data
+  normalized_shipping_address: z.string(),
+  zkp_address_proof_hash: z.string(),
+  match_confidence: z.number().min(0).max(1),
   address_verified: z.boolean(),
   
+  // Notice attestation data
+  notice_version: noticeVersionSchema.default('CA-DOJ-2026-V1'), // Events before transaction contexts were all ammunition
+  ab1263_dealer_received_buyer_acceptance: z.boolean(),
+  
   // Extraction metadata
   extraction_timestamp: z.string().datetime(),
-  compliance_event_id: z.string().uuid(),
-});
\ No newline at end of file
+});
@@ -2,9 +2,17 @@ import { z } from 'zod';
 import {
   driverLicenseDataSchema,
   encryptedPersonaDataSchema,
+  credentialProofSchema,
+  credentialStatusSchema,
   privadoCredentialSchema,
+  zkpWitnessSchema,
   zkpProofsDataSchema,
   encryptedPrivadoCredentialSchema,
+  revocationReasonSchema,
+  credentialStatusListRecordSchema,
+  credentialStatusRecordSchema,
+  statusListCredentialSchema,
+  credentialRevocationStatusSchema,
   buyerSecretsSchema,
   hashReproducibilityDataSchema
 } from './schema.js';
@@ -16,9 +24,17 @@ import {
 // Main types from schemas
 export type DriverLicenseData = z.infer<typeof driverLicenseDataSchema>;
 export type EncryptedPersonaData = z.infer<typeof encryptedPersonaDataSchema>;
+export type CredentialProof = z.infer<typeof credentialProofSchema>;
+export type CredentialStatus = z.infer<typeof credentialStatusSchema>;
 export type PrivadoCredential = z.infer<typeof privadoCredentialSchema>;
+export type ZkpWitness = z.infer<typeof zkpWitnessSchema>;
 export type ZkpProofsData = z.infer<typeof zkpProofsDataSchema>;
 export type EncryptedPrivadoCredential = z.infer<typeof encryptedPrivadoCredentialSchema>;
+export type RevocationReason = z.infer<typeof revocationReasonSchema>;
+export type CredentialStatusListRecord = z.infer<typeof credentialStatusListRecordSchema>;
+export type CredentialStatusRecord = z.infer<typeof credentialStatusRecordSchema>;
+export type StatusListCredential = z.infer<typeof statusListCredentialSchema>;
+export type CredentialRevocationStatus = z.infer<typeof credentialRevocationStatusSchema>;
 export type BuyerSecrets = z.infer<typeof buyerSecretsSchema>;
 export type HashReproducibilityData = z.infer<typeof hashReproducibilityDataSchema>;
 
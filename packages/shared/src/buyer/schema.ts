@@ -33,9 +33,16 @@ export const buyerAccountSchema = z.object({
   verification_status: z.enum(['pending', 'verified', 'expired', 'rejected']).default('pending'),
   verified_at: z.string().datetime().optional(),
   verification_expires_at: z.string().datetime().optional(),
+  renewal_reminder_days: z.number().int().positive().optional(), // Smallest renewal reminder already sent (30 / 7 / 1)
   
   // Current verification tracking (links to compliance_events)
   current_verification_id: z.string().uuid().optional(), // compliance_events.id
+  superseded_verification_id: z.string().uuid().optional(), // current_verification_id before the latest re-verification
+
+  // Latest identity verification inquiry started by the buyer
+  verification_inquiry_id: z.string().optional(),
+  verification_provider: z.string().optional(), // 'persona' | 'onfido' | 'veriff' | 'local'
+  verification_started_at: z.string().datetime().optional(),
   
   // Privado ID integration (DIDs only, secrets in separate table)
   privado_did: z.string().optional(),
@@ -62,6 +69,28 @@ export const buyerProfileUpdateSchema = z.object({
 // VERIFICATION INTEGRATION
 // =============================================
 
+// Identity verification session started from POST /buyer/verify-identity
+// 'local' sessions are completed through the development stand-in instead of the provider's hosted flow
+export const buyerIdentityVerificationSessionSchema = z.object({
+  inquiry_id: z.string(),
+  session_token: z.string(),
+  provider: z.string(), // 'persona' | 'onfido' | 'veriff' | 'local'
+  mode: z.enum(['hosted', 'local']),
+  verification_url: z.string().url().optional(), // Provider's hosted flow
+});
+
+// Polling response for GET /buyer/verification-status
+export const buyerVerificationStatusSchema = z.object({
+  verification_status: z.enum(['pending', 'verified', 'expired', 'rejected']),
+  inquiry_id: z.string().optional(),
+  verification_provider: z.string().optional(),
+  verification_started_at: z.string().datetime().optional(),
+  verified_at: z.string().datetime().optional(),
+  verification_expires_at: z.string().datetime().optional(),
+  can_start_verification: z.boolean(), // False while verified and outside the renewal window
+  last_updated: z.string().datetime(),
+});
+
 // Buyer verification history (connects to compliance_events)
 export const buyerVerificationHistorySchema = z.object({
   buyer_id: z.string().uuid(),
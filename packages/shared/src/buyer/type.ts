@@ -5,6 +5,8 @@ import {
   buyerAccountSchema,
   buyerProfileUpdateSchema,
   buyerVerificationHistorySchema,
+  buyerIdentityVerificationSessionSchema,
+  buyerVerificationStatusSchema,
   buyerDataRequestSchema,
   buyerDataExportSchema
 } from './schema.js';
@@ -28,6 +30,10 @@ export type BuyerVerificationStatus = 'pending' | 'verified' | 'expired' | 'reje
 // Verification history type
 export type BuyerVerificationHistory = z.infer<typeof buyerVerificationHistorySchema>;
 
+// Identity verification flow types
+export type BuyerIdentityVerificationSession = z.infer<typeof buyerIdentityVerificationSessionSchema>;
+export type BuyerVerificationStatusResponse = z.infer<typeof buyerVerificationStatusSchema>;
+
 // =============================================
 // CCPA COMPLIANCE TYPES
 // =============================================
@@ -0,0 +1,2 @@
+// Canonical JSON Module - RFC 8785 serialization for commitment hashes and signatures
+export * from './jcs';
@@ -0,0 +1,44 @@
+// =============================================
+// RFC 8785 JSON CANONICALIZATION SCHEME (JCS)
+// =============================================
+
+// Shared by the backend, the verifier SDK and anyone re-deriving a commitment hash:
+// the same JSON value always serializes to the same string, whatever its key order.
+// Strings and numbers use ECMAScript serialization (as RFC 8785 specifies), object keys
+// are sorted by UTF-16 code units and no whitespace is emitted.
+
+/**
+ * Canonical JSON serialization of a value (RFC 8785)
+ * undefined properties are dropped and objects with toJSON (e.g. Date) are serialized through it,
+ * matching JSON.stringify; non-finite numbers and other non-JSON values are rejected
+ */
+export const canonicalize = (value: unknown): string => {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot canonicalize non-finite number ${value}`);
+    }
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return canonicalize((value as { toJSON: () => unknown }).toJSON());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+  }
+
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalize(item)}`).join(',')}}`;
+  }
+
+  throw new Error(`Cannot canonicalize value of type ${typeof value}`);
+};
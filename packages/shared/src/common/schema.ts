@@ -42,9 +42,26 @@ export const normalizedAddressSchema = z.object({
   city_normalized: z.string(), // Standardized city format
   state: z.string().length(2), // Always 2-letter state code
   zip_code: z.string().regex(/^\d{5}$/, 'ZIP code must be 5 digits'), // Always 5-digit ZIP
+  zip_plus_4: z.string().regex(/^\d{4}$/).optional(), // ZIP+4 add-on when provided
   country: z.string().default('US'),
 });
 
+// USPS Publication 28 address components (uppercase, standard abbreviations)
+export const parsedAddressSchema = z.object({
+  primary_number: z.string().optional(), // '123', '123A', '123 1/2'
+  predirectional: z.string().optional(), // 'N', 'SW'
+  street_name: z.string().optional(), // 'MAIN', 'MARTIN LUTHER KING JR'
+  street_suffix: z.string().optional(), // 'ST', 'AVE', 'BLVD'
+  postdirectional: z.string().optional(),
+  po_box: z.string().optional(), // Box number for 'PO BOX' addresses (no street components)
+  unit_designator: z.string().optional(), // 'APT', 'STE', '#'
+  unit_number: z.string().optional(), // '4B' (absent for designators like 'REAR')
+  city: z.string(),
+  state: z.string().length(2),
+  zip_code: z.string().regex(/^\d{5}$/),
+  zip_plus_4: z.string().regex(/^\d{4}$/).optional(),
+});
+
 // Raw address string (for dealer API input)
 export const addressStringSchema = z.string().min(10, 'Complete address required');
 
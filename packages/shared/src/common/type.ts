@@ -4,6 +4,7 @@ import {
   emailSchema,
   addressSchema,
   normalizedAddressSchema,
+  parsedAddressSchema,
   addressStringSchema,
   phoneNumberSchema,
   dateOfBirthSchema,
@@ -25,6 +26,7 @@ export type Email = z.infer<typeof emailSchema>;
 // Address types for consistent address handling
 export type Address = z.infer<typeof addressSchema>;
 export type NormalizedAddress = z.infer<typeof normalizedAddressSchema>;
+export type ParsedAddress = z.infer<typeof parsedAddressSchema>;
 export type AddressString = z.infer<typeof addressStringSchema>;
 
 // Phone number type
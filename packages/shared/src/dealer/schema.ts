@@ -27,21 +27,19 @@ export const dealerAccountSchema = z.object({
   // Immutable reference for audit trail (CCPA compliant)
   dealer_reference_id: z.string(),
   
-  // API authentication (NULL until subscription active)
-  api_key_hash: z.string().nullable(),
-  api_key_created_at: z.string().datetime().optional(),
-  
+  // API authentication: keys live in dealer_api_keys (see dealerApiKeySchema)
+
   // SaaS billing system (all NULL until dealer subscribes)
   subscription_tier: z.number().int().min(1).max(3).nullable(),
   subscription_status: z.enum(['active', 'past_due', 'canceled', 'trialing']).nullable(),
   billing_date: z.string().optional(),
   billing_due_date: z.string().optional(),
-  
-  // Credit system (NULL until subscription active)
-  credits_purchased: z.number().int().nullable(),
-  additional_credits_purchased: z.number().int().nullable(),
-  credits_used: z.number().int().nullable(),
+  stripe_subscription_id: z.string().nullable().optional(), // Linked by the checkout webhook
+  stripe_subscription_event_at: z.string().datetime().nullable().optional(), // Last subscription event applied
+
+  // Credit system: the balance is derived from credit_ledger (see creditLedgerEntrySchema)
   credits_expire_at: z.string().datetime().optional(),
+  period_plan_credits: z.number().int().nonnegative().nullable().optional(), // Plan credits granted this billing period
   
   // Payment method (using common payment structure)
   payment_info: paymentInfoSchema.optional(),
@@ -77,21 +75,86 @@ export const dealerCreditPurchaseSchema = z.object({
   payment_method_id: z.string().optional(),
 });
 
-// API key management schema (for future API key operations)
+// Credit ledger listing query (GET /dealer/credits)
+export const creditLedgerQuerySchema = z.object({
+  entry_type: z.enum(['grant', 'consumption', 'refund', 'expiration']).optional(),
+  limit: z.number().int().min(1).max(100).default(25),
+  offset: z.number().int().min(0).default(0),
+});
+
+// =============================================
+// API KEY SCHEMAS
+// =============================================
+
+// What an API key may call: POST /verify, and reading verifications (/verify/:id, /verify/history, ...)
+export const apiKeyScopeSchema = z.enum(['verify', 'history:read']);
+
+// Dealer API key database entity (the key itself is only returned once, at creation or rotation)
 export const dealerApiKeySchema = z.object({
-  api_key: z.string().min(32, 'API key must be at least 32 characters'),
+  id: z.string().uuid(),
+  dealer_id: z.string().uuid(),
+  label: z.string(),
+  key_prefix: z.string(), // 'ca2a_' + first characters of the key
+  scopes: z.array(apiKeyScopeSchema),
+  created_at: z.string().datetime(),
+  last_used_at: z.string().datetime().nullable(),
+  expires_at: z.string().datetime().nullable(),
+  revoked_at: z.string().datetime().nullable(),
+  rotated_to_key_id: z.string().uuid().nullable(), // Replacement issued by rotation
+});
+
+// Create API key request
+export const dealerApiKeyCreateSchema = z.object({
+  label: z.string().trim().min(1).max(100),
+  scopes: z.array(apiKeyScopeSchema).min(1).default(['verify', 'history:read']),
+  expires_at: z.string().datetime().optional(),
+});
+
+// Update API key request (label and scopes only - rotate or revoke to change the key)
+export const dealerApiKeyUpdateSchema = z.object({
+  label: z.string().trim().min(1).max(100).optional(),
+  scopes: z.array(apiKeyScopeSchema).min(1).optional(),
+}).refine(data => data.label !== undefined || data.scopes !== undefined, {
+  message: 'Provide a label or scopes to update',
+});
+
+// Rotate API key request - the old key keeps working for the grace period
+export const dealerApiKeyRotateSchema = z.object({
+  grace_period_hours: z.number().int().min(0).max(168).default(24),
 });
 
 // =============================================
 // RESPONSE SCHEMAS
 // =============================================
 
+// Credit ledger entry (append-only; amount is signed)
+export const creditLedgerEntrySchema = z.object({
+  id: z.string().uuid(),
+  dealer_id: z.string().uuid(),
+  entry_type: z.enum(['grant', 'consumption', 'refund', 'expiration']),
+  amount: z.number().int(), // Grants and refunds > 0, consumptions and expirations < 0
+  idempotency_key: z.string(),
+  compliance_event_id: z.string().uuid().nullable(), // Consumptions and refunds
+  payment_id: z.string().uuid().nullable(), // Grants paid by an invoice
+  reverses_entry_id: z.string().uuid().nullable(), // Refunds: the consumption returned
+  request_id: z.string().nullable(), // API request that consumed or was refunded the credit
+  description: z.string().nullable(),
+  created_at: z.string().datetime(),
+});
+
+// Dealer credit balance (derived from the ledger)
+export const dealerCreditBalanceSchema = z.object({
+  credits_available: z.number().int(), // Sum of all ledger entries
+  credits_expire_at: z.string().datetime().nullable(),
+  credits_expired: z.boolean(),
+});
+
 // Dealer billing summary schema (for dashboard display)
 export const dealerBillingSummarySchema = z.object({
   subscription_tier: z.number().int(),
   subscription_status: z.string(),
-  credits_available: z.number().int(), // Calculated: (purchased + additional) - used
-  credits_used: z.number().int(),
+  credits_available: z.number().int(), // Derived from the credit ledger
+  credits_used: z.number().int(), // Consumptions net of refunds in the current period
   credits_expire_at: z.string().datetime(),
   next_billing_date: z.string().optional(),
   payment_method: z.object({
@@ -7,7 +7,14 @@ import {
   dealerProfileUpdateSchema,
   dealerCreditPurchaseSchema,
   dealerApiKeySchema,
-  dealerBillingSummarySchema
+  apiKeyScopeSchema,
+  dealerApiKeyCreateSchema,
+  dealerApiKeyUpdateSchema,
+  dealerApiKeyRotateSchema,
+  dealerBillingSummarySchema,
+  creditLedgerEntrySchema,
+  creditLedgerQuerySchema,
+  dealerCreditBalanceSchema
 } from './schema.js';
 
 // Inferred types from Zod schemas
@@ -18,7 +25,15 @@ export type DealerSubscriptionUpdate = z.infer<typeof dealerSubscriptionUpdateSc
 export type DealerProfileUpdate = z.infer<typeof dealerProfileUpdateSchema>;
 export type DealerCreditPurchase = z.infer<typeof dealerCreditPurchaseSchema>;
 export type DealerApiKey = z.infer<typeof dealerApiKeySchema>;
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+export type DealerApiKeyCreate = z.infer<typeof dealerApiKeyCreateSchema>;
+export type DealerApiKeyUpdate = z.infer<typeof dealerApiKeyUpdateSchema>;
+export type DealerApiKeyRotate = z.infer<typeof dealerApiKeyRotateSchema>;
 export type DealerBillingSummary = z.infer<typeof dealerBillingSummarySchema>;
+export type CreditLedgerEntry = z.infer<typeof creditLedgerEntrySchema>;
+export type CreditLedgerEntryType = CreditLedgerEntry['entry_type'];
+export type CreditLedgerQuery = z.infer<typeof creditLedgerQuerySchema>;
+export type DealerCreditBalance = z.infer<typeof dealerCreditBalanceSchema>;
 
 // Subscription status enum
 export type SubscriptionStatus = 'active' | 'past_due' | 'canceled' | 'trialing';
@@ -40,16 +55,24 @@ export interface DealerProfileResponse {
   dealer: DealerAccount;
 }
 
-// Updated usage response for credit system
-export interface DealerUsageResponse {
+// Credit balance and ledger history (GET /dealer/credits)
+export interface DealerCreditsResponse {
   success: boolean;
-  usage: {
-    credits_available: number; // (purchased + additional) - used
-    credits_purchased: number;
-    additional_credits_purchased: number;
-    credits_used: number;
-    credits_expire_at: string;
-    subscription_tier: SubscriptionTier;
+  data: DealerCreditBalance & {
+    entries: CreditLedgerEntry[];
+    pagination: {
+      limit: number;
+      offset: number;
+      total: number;
+    };
+  };
+}
+
+// API key creation / rotation response - api_key is shown once and cannot be retrieved again
+export interface DealerApiKeyCreatedResponse {
+  success: boolean;
+  data: DealerApiKey & {
+    api_key: string;
   };
 }
 
@@ -57,6 +80,6 @@ export interface DealerUsageResponse {
 export interface DealerCreditPurchaseResponse {
   success: boolean;
   credits_added?: number;
-  new_balance?: number;
+  new_balance?: number; // Ledger balance after the grant
   error?: string;
 }
\ No newline at end of file
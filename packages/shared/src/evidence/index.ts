@@ -0,0 +1,3 @@
+// Evidence Module - Court evidence bundles for compliance events
+export * from './schema';
+export * from './type';
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { credentialProofSchema } from '../buyer-secrets/schema.js';
+import { blockchainInfoSchema, eventCommitmentHashesSchema } from '../verification/schema.js';
+
+// =============================================
+// VERIFICATION AUTHENTICITY
+// =============================================
+
+// Overall outcome for one compliance event, derived from the checks below
+export const evidenceStatusSchema = z.enum([
+  'verified_authentic', // Hashes recompute, anchor found, buyer commitments reproduced
+  'ccpa_deletion_compliant', // Hashes recompute and anchor found; buyer data deleted under CCPA
+  'integrity_failed', // Stored data no longer matches its anchor or recorded commitments
+  'not_anchored', // Not anchored on chain yet
+]);
+
+export const buyerDataStatusSchema = z.enum([
+  'available', // buyer_secrets present - buyer commitments recomputed
+  'ccpa_deleted', // compliance_events.buyer_id anonymized (NULL)
+  'unavailable', // Buyer linked but secrets missing, or event predates canonical hashing
+]);
+
+// Recomputed authenticity checks for a compliance event (no PII)
+export const verificationAuthenticitySchema = z.object({
+  compliance_event_id: z.string().uuid(),
+  status: evidenceStatusSchema,
+  buyer_data_status: buyerDataStatusSchema,
+  event_version: z.string(), // verification_data.compliance_event.version
+  notice_version: z.string().nullable(), // AB1263 notice shown to the buyer
+  verification_hash: z.string(), // Recomputed from verification_data
+  record_hash: z.string(), // Recomputed compliance record hash (Merkle leaf input)
+  merkle_root: z.string().nullable(),
+  merkle_proof_valid: z.boolean().nullable(), // null for individually anchored or unanchored events
+  anchored_on_chain: z.boolean().nullable(), // null when no chain client is configured
+  recorded_commitments: eventCommitmentHashesSchema.nullable(), // null for events before AB1263-2026.2
+  recomputed_commitments: eventCommitmentHashesSchema.nullable(), // null unless buyer_data_status is 'available'
+  commitments_match: z.boolean().nullable(),
+  blockchain_info: blockchainInfoSchema.nullable(),
+  checked_at: z.string().datetime(),
+});
+
+// =============================================
+// EVIDENCE BUNDLE
+// =============================================
+
+// One file in the evidence ZIP
+export const evidenceFileSchema = z.object({
+  path: z.string(),
+  sha256: z.string(), // Hex digest of the file bytes
+  bytes: z.number().int().nonnegative(),
+});
+
+// manifest.json - lists every other file, signed by the issuer did:key (eddsa-jcs-2022)
+export const evidenceManifestSchema = z.object({
+  type: z.array(z.string()), // ['CA2AChainEvidenceManifest']
+  issuer_did: z.string(),
+  compliance_event_id: z.string().uuid(),
+  status: evidenceStatusSchema,
+  generated_at: z.string().datetime(),
+  files: z.array(evidenceFileSchema),
+  proof: credentialProofSchema,
+});
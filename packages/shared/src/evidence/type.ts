@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import {
+  evidenceStatusSchema,
+  buyerDataStatusSchema,
+  verificationAuthenticitySchema,
+  evidenceFileSchema,
+  evidenceManifestSchema
+} from './schema.js';
+
+// =============================================
+// COURT EVIDENCE TYPES
+// =============================================
+
+export type EvidenceStatus = z.infer<typeof evidenceStatusSchema>;
+export type BuyerDataStatus = z.infer<typeof buyerDataStatusSchema>;
+export type VerificationAuthenticity = z.infer<typeof verificationAuthenticitySchema>;
+export type EvidenceFile = z.infer<typeof evidenceFileSchema>;
+export type EvidenceManifest = z.infer<typeof evidenceManifestSchema>;
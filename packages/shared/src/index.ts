@@ -1,7 +1,10 @@
 export * from './auth';
 export * from './common';
+export * from './canonical';
+export * from './merkle';
 export * from './buyer';
 export * from './buyer-secrets';
 export * from './dealer';
 export * from './payments';
-export * from './verification';
\ No newline at end of file
+export * from './verification';
+export * from './evidence';
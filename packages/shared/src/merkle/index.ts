@@ -0,0 +1,2 @@
+// Merkle Module - sha256-merkle-v1 trees and inclusion proofs for batched anchoring
+export * from './sha256-merkle';
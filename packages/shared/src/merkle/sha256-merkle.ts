@@ -0,0 +1,126 @@
+// =============================================
+// SHA256-MERKLE-V1
+// =============================================
+
+// Shared by the backend (building batches) and the verifier SDK (checking inclusion proofs).
+// Leaves are compliance record hashes; only the root goes on chain.
+//
+// Hashing (SHA-256, domain separated so a leaf can never be passed off as an inner node):
+//   leaf node  = sha256(0x00 || record_hash)
+//   inner node = sha256(0x01 || left || right)
+// An unpaired node at the end of a level is carried up unchanged.
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, concatBytes, hexToBytes } from '@noble/hashes/utils';
+import type { MerkleProof, MerkleProofStep } from '../verification/type.js';
+
+export const MERKLE_ALGORITHM = 'sha256-merkle-v1';
+
+const LEAF_PREFIX = new Uint8Array([0x00]);
+const NODE_PREFIX = new Uint8Array([0x01]);
+
+export interface MerkleTree {
+  root: string;
+  leaves: string[];
+  levels: Uint8Array[][];
+}
+
+const toBytes = (hash: string): Uint8Array => {
+  const hex = hash.startsWith('0x') ? hash.slice(2) : hash;
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error(`Invalid Merkle hash: ${hash}`);
+  }
+  return hexToBytes(hex);
+};
+
+const toHex = (bytes: Uint8Array): string => `0x${bytesToHex(bytes)}`;
+
+const hashLeaf = (leaf: Uint8Array): Uint8Array => sha256(concatBytes(LEAF_PREFIX, leaf));
+
+const hashNode = (left: Uint8Array, right: Uint8Array): Uint8Array => sha256(concatBytes(NODE_PREFIX, left, right));
+
+/**
+ * Build a Merkle tree over record hashes (hex, with or without 0x)
+ * Leaf order is preserved - proofs are positional
+ */
+export const buildMerkleTree = (recordHashes: string[]): MerkleTree => {
+  if (recordHashes.length === 0) {
+    throw new Error('Cannot build a Merkle tree with no leaves');
+  }
+
+  const leaves = recordHashes.map((hash) => toHex(toBytes(hash)));
+  const levels: Uint8Array[][] = [leaves.map((leaf) => hashLeaf(toBytes(leaf)))];
+
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: Uint8Array[] = [];
+
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+
+  return { root: toHex(levels[levels.length - 1][0]), leaves, levels };
+};
+
+/**
+ * Inclusion proof for the leaf at leafIndex
+ */
+export const getMerkleProof = (tree: MerkleTree, leafIndex: number): MerkleProof => {
+  if (leafIndex < 0 || leafIndex >= tree.leaves.length) {
+    throw new Error(`Leaf index ${leafIndex} out of range (${tree.leaves.length} leaves)`);
+  }
+
+  const siblings: MerkleProofStep[] = [];
+  let index = leafIndex;
+
+  for (const level of tree.levels.slice(0, -1)) {
+    const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+    if (siblingIndex < level.length) {
+      siblings.push({
+        position: index % 2 === 0 ? 'right' : 'left',
+        hash: toHex(level[siblingIndex])
+      });
+    }
+    index = Math.floor(index / 2);
+  }
+
+  return {
+    algorithm: MERKLE_ALGORITHM,
+    leaf_hash: tree.leaves[leafIndex],
+    leaf_index: leafIndex,
+    leaf_count: tree.leaves.length,
+    merkle_root: tree.root,
+    siblings
+  };
+};
+
+/**
+ * Recompute the root from a leaf and its sibling path
+ */
+export const computeMerkleRoot = (leafHash: string, siblings: MerkleProofStep[]): string => {
+  let node = hashLeaf(toBytes(leafHash));
+
+  for (const sibling of siblings) {
+    const siblingHash = toBytes(sibling.hash);
+    node = sibling.position === 'left' ? hashNode(siblingHash, node) : hashNode(node, siblingHash);
+  }
+
+  return toHex(node);
+};
+
+/**
+ * Check that a proof links leafHash to the root it claims
+ * Returns false (rather than throwing) for malformed proofs
+ */
+export const verifyMerkleProof = (leafHash: string, proof: MerkleProof): boolean => {
+  try {
+    if (proof.algorithm !== MERKLE_ALGORITHM || toHex(toBytes(leafHash)) !== toHex(toBytes(proof.leaf_hash))) {
+      return false;
+    }
+    return computeMerkleRoot(leafHash, proof.siblings) === toHex(toBytes(proof.merkle_root));
+  } catch {
+    return false;
+  }
+};
@@ -1,29 +1,121 @@
 import { z } from 'zod';
-import { addressStringSchema } from '../common/schema.js';
+import { addressStringSchema, dateOfBirthSchema } from '../common/schema.js';
+
+// =============================================
+// PRIVADO ZKP SCHEMAS
+// =============================================
+
+// Groth16 proof (BN128) - snarkjs pi_a/pi_b/pi_c renamed to proof_a/proof_b/proof_c
+const groth16ProofSchema = z.object({
+  proof_a: z.array(z.string()),
+  proof_b: z.array(z.array(z.string())),
+  proof_c: z.array(z.string()),
+  protocol: z.literal('groth16'),
+  curve: z.literal('bn128'),
+});
+
+// Privado ID proof structure for age verification
+// public_signals: [age_verified, current_date (YYYYMMDD), age_threshold, dob_commitment, event_binding]
+export const privadoAgeProofSchema = z.object({
+  circuit: z.literal('age_verification'), // Verification key: GET /verify/zkp/verification-keys
+  proof: groth16ProofSchema,
+  public_signals: z.array(z.string()),
+});
+
+// Privado ID proof structure for address verification
+// public_signals: [address_verified, address_commitment, shipping_address_hash, event_binding]
+export const privadoAddressProofSchema = z.object({
+  circuit: z.literal('address_verification'), // Verification key: GET /verify/zkp/verification-keys
+  proof: groth16ProofSchema,
+  public_signals: z.array(z.string()),
+});
 
 // =============================================
 // DEALER API SCHEMAS
 // =============================================
 
+// What is being sold - decides the minimum buyer age and the notice the buyer must be given
+export const productCategorySchema = z.enum(['ammunition', 'long_gun', 'handgun']);
+
+// Size of the sale, for dealer reporting
+export const quantityClassSchema = z.enum([
+  'single', // One firearm or box of ammunition
+  'multiple',
+  'bulk', // Case quantities / wholesale
+]);
+
+// CA DOJ notice versions a dealer can attest to having provided
+export const noticeVersionSchema = z.enum([
+  'CA-DOJ-2026-V1', // AB1263 ammunition purchase notice
+  'CA-DOJ-2026-FIREARM-V1', // Firearm purchase notice (long guns and handguns)
+]);
+
+// Sale the verification is for (recorded with the compliance event - no buyer PII)
+export const transactionContextSchema = z.object({
+  product_category: productCategorySchema,
+  quantity_class: quantityClassSchema.default('single'),
+  order_reference: z.string().trim().min(1).max(128).optional(), // Dealer's own order ID
+});
+
+// Age rule applied to one verification (recorded with the compliance event)
+export const ageRequirementSchema = z.object({
+  jurisdiction: z.string(), // 'US-CA'
+  timezone: z.string(), // IANA zone the evaluation date is taken in, 'America/Los_Angeles'
+  product_category: productCategorySchema,
+  age_threshold: z.number().int().min(1),
+  evaluation_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // Local calendar date (YYYY-MM-DD) the age was judged on
+});
+
 // Dealer verification request to our API
 export const verificationRequestSchema = z.object({
   buyer_email: z.string().email(),
   shipping_address: addressStringSchema, // Use common address schema
+  transaction_context: transactionContextSchema.default({ product_category: 'ammunition' }), // Picks age threshold and notice version
   ab1263_compliance_completed: z.boolean().refine(val => val === true, {
     message: 'AB 1263 compliance must be completed before API request'
   }),
 });
 
+// Per-component address comparison (results only - never the buyer's address values)
+export const addressComponentSchema = z.enum([
+  'primary_number', // House number or PO box number
+  'street_name',
+  'street_suffix',
+  'directionals', // Pre- and postdirectional together
+  'unit',
+  'city',
+  'state',
+  'zip_code',
+]);
+
+export const addressComponentMatchResultSchema = z.enum(['match', 'partial', 'mismatch']);
+
+// Per-component results only - similarity scores stay internal to address_match_confidence
+export const addressMatchBreakdownSchema = z.object({
+  primary_number: addressComponentMatchResultSchema,
+  street_name: addressComponentMatchResultSchema,
+  street_suffix: addressComponentMatchResultSchema,
+  directionals: addressComponentMatchResultSchema,
+  unit: addressComponentMatchResultSchema,
+  city: addressComponentMatchResultSchema,
+  state: addressComponentMatchResultSchema,
+  zip_code: addressComponentMatchResultSchema,
+});
+
 // Enhanced verification response to dealer
 export const verificationResponseSchema = z.object({
   // Echo back dealer's request data
   buyer_email: z.string().email(), // Same email dealer provided
   
   // Verification results (clear boolean outcomes)
-  age_verified: z.boolean(), // Age verification met (18+)
+  age_verified: z.boolean(), // Buyer meets age_threshold
+  age_threshold: z.number().int(), // Minimum age applied for the product category
+  transaction_context: transactionContextSchema, // Sale the verification was recorded for
+  notice_version: noticeVersionSchema, // Notice the dealer attested to for this sale
   address_verified: z.boolean(), // Address match verification met
-  address_match_confidence: z.number().min(0).max(1), // Match confidence score
-  normalized_address_used: z.string(), // Normalized address used in verification
+  address_match_confidence: z.number().min(0).max(1), // Weighted sum of component similarities
+  address_match_breakdown: addressMatchBreakdownSchema, // Which components matched, partially matched or differ
+  normalized_address_used: z.string(), // Normalized shipping address that was compared and proven
   
   // Timestamps and tracking
   verified_at: z.string().datetime(), // When verification was performed
@@ -32,39 +124,15 @@ export const verificationResponseSchema = z.object({
   // Optional message for errors/details
   message: z.string().optional(),
   
-  // ZKP Proofs - Include for transparency and audit purposes
+  // ZKP Proofs - Groth16 proofs a dealer can check offline against the published verification keys
   zkp_proofs: z.object({
-    age_proof_hash: z.string(), // Hash of ZKP age proof (not full proof)
-    address_proof_hash: z.string(), // Hash of ZKP address proof (not full proof) 
+    age_proof_hash: z.string(), // Commitment hash of age_proof (recorded in the compliance event)
+    address_proof_hash: z.string(), // Commitment hash of address_proof (recorded in the compliance event)
+    age_proof: privadoAgeProofSchema,
+    address_proof: privadoAddressProofSchema, // Attests exact match of normalized addresses
   }).optional(),
 });
 
-// =============================================
-// PRIVADO ZKP SCHEMAS
-// =============================================
-
-// Privado ID proof structure for age verification
-export const privadoAgeProofSchema = z.object({
-  proof: z.object({
-    proof_a: z.array(z.string()),
-    proof_b: z.array(z.array(z.string())),
-    proof_c: z.array(z.string()),
-    protocol: z.literal('groth16'),
-  }),
-  public_signals: z.array(z.string()),
-});
-
-// Privado ID proof structure for address verification
-export const privadoAddressProofSchema = z.object({
-  proof: z.object({
-    proof_a: z.array(z.string()),
-    proof_b: z.array(z.array(z.string())), 
-    proof_c: z.array(z.string()),
-    protocol: z.literal('groth16'),
-  }),
-  public_signals: z.array(z.string()),
-});
-
 // =============================================
 // BLOCKCHAIN INTEGRATION SCHEMAS
 // =============================================
@@ -72,10 +140,58 @@ export const privadoAddressProofSchema = z.object({
 // Blockchain information schema for JSON storage
 export const blockchainInfoSchema = z.object({
   network: z.string().default('polygon-mainnet'),
+  chain_id: z.number().int().optional(),
   transaction_hash: z.string().optional(),
   contract_address: z.string().optional(),
   event_index: z.number().int().optional(),
   block_number: z.number().int().optional(),
+  gas_used: z.number().int().optional(),
+  record_hash: z.string().optional(), // bytes32 anchored in ComplianceRegistry
+  anchored_at: z.string().datetime().optional(), // Block timestamp of the anchor
+  merkle_root: z.string().optional(), // Set when the event was anchored as part of a batch
+  anchor_batch_id: z.string().uuid().optional(),
+});
+
+// One sibling hash on the path from a leaf to the Merkle root
+export const merkleProofStepSchema = z.object({
+  position: z.enum(['left', 'right']), // Side the sibling sits on when hashing the pair
+  hash: z.string(),
+});
+
+// Inclusion proof linking a compliance record hash to an anchored batch root
+export const merkleProofSchema = z.object({
+  algorithm: z.literal('sha256-merkle-v1'),
+  leaf_hash: z.string(), // Compliance record hash (0x-prefixed)
+  leaf_index: z.number().int().min(0),
+  leaf_count: z.number().int().min(1),
+  merkle_root: z.string(),
+  siblings: z.array(merkleProofStepSchema),
+});
+
+// Anchoring lifecycle: pending -> submitted (tx broadcast) -> confirmed, or failed once retries run out
+export const blockchainStatusSchema = z.enum(['pending', 'submitted', 'confirmed', 'failed']);
+
+// Hash-only record anchored for a compliance event (Merkle leaf = commitment hash of this record, no PII)
+export const complianceRecordSchema = z.object({
+  compliance_event_id: z.string().uuid(),
+  buyer_reference: z.string(), // 'BUY_a8b9c2d1'
+  dealer_reference: z.string(), // 'DLR_f3e4d5c6'
+  verification_hash: z.string(), // Commitment hash of compliance_events.verification_data
+  age_verified: z.boolean(),
+  address_verified: z.boolean(),
+  ab1263_compliant: z.literal(true),
+  ccpa_compliant: z.literal(true),
+});
+
+// Merkle batch of compliance events anchored with a single root transaction
+export const anchorBatchSchema = z.object({
+  id: z.string().uuid(),
+  merkle_root: z.string(),
+  leaf_count: z.number().int().min(1),
+  blockchain_info: blockchainInfoSchema.nullable(),
+  submitted_at: z.string().datetime().nullable(),
+  confirmed_at: z.string().datetime().nullable(),
+  created_at: z.string().datetime(),
 });
 
 // =============================================
@@ -99,53 +215,174 @@ export const complianceEventSchema = z.object({
   
   // Quick-access verification results (extracted from JSON for efficient queries)
   age_verified: z.boolean(),
+  age_threshold: z.number().int().nullable(), // Minimum age applied (null on events before age policies)
+  product_category: productCategorySchema, // From transaction_context, for per-category reporting
   address_verified: z.boolean(),
   
   // Blockchain integration (single JSON blob)
   blockchain_info: blockchainInfoSchema.optional(),
+  blockchain_status: blockchainStatusSchema,
+  blockchain_attempts: z.number().int().min(0),
+  blockchain_next_attempt_at: z.string().datetime().nullable(), // Also the anchor worker's claim lease
+  blockchain_last_error: z.string().nullable(),
+  anchor_batch_id: z.string().uuid().nullable(), // Merkle batch this event was anchored in
+  merkle_proof: merkleProofSchema.nullable(),
   
   verified_at: z.string().datetime(),
 });
 
+// Anchor proof for one compliance event (GET /verify/:verification_id/proof)
+// Everything a dealer needs to recompute the leaf and check it against the on-chain root offline
+export const verificationAnchorProofSchema = z.object({
+  compliance_event_id: z.string().uuid(),
+  blockchain_status: blockchainStatusSchema,
+  compliance_record: complianceRecordSchema,
+  verification_data: z.record(z.any()),
+  merkle_proof: merkleProofSchema,
+  blockchain_info: blockchainInfoSchema.nullable(),
+  proof_valid: z.boolean(), // Our own inclusion check - dealers should recompute it
+});
+
+// =============================================
+// CANONICAL HASH SCHEMAS (FOR HASH REPRODUCIBILITY)
+// =============================================
+
+// Commitment hash = SHA-256(RFC 8785 canonical JSON of one of the objects below)
+// Each object names its schema version, so a court can re-derive the hash with exactly the
+// fields that produced it. Add a new version instead of changing a published one.
+// All timestamps are the single verified_at captured for the compliance event.
+
+// AgeCommitment_Hash - binds the buyer's date of birth to the age proof of one event
+// v1 (events before age policies, threshold always 18) is kept so those events stay reproducible
+const ageCommitmentV1Schema = z.object({
+  hash_schema: z.literal('ca2achain.age-commitment.v1'),
+  compliance_event_id: z.string().uuid(),
+  buyer_reference: z.string(), // 'BUY_a8b9c2d1'
+  buyer_secret: z.string(), // SHA256(buyer_uuid + secret_salt)
+  date_of_birth: dateOfBirthSchema, // YYYY-MM-DD from the decrypted driver's license
+  zkp_age_proof_hash: z.string(), // Commitment hash of the Groth16 age proof
+  age_verified: z.boolean(),
+  verified_at_timestamp: z.string().datetime(),
+}).strict();
+
+const ageCommitmentV2Schema = ageCommitmentV1Schema.extend({
+  hash_schema: z.literal('ca2achain.age-commitment.v2'),
+  age_threshold: z.number().int().min(1), // Minimum age the proof was generated for
+  evaluation_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // Local date in the age policy timezone (the proof's current_date)
+}).strict();
+
+export const ageCommitmentSchema = z.discriminatedUnion('hash_schema', [ageCommitmentV1Schema, ageCommitmentV2Schema]);
+
+// Address_Match_Commitment_Hash - binds both normalized addresses to the address proof of one event
+export const addressMatchCommitmentSchema = z.object({
+  hash_schema: z.literal('ca2achain.address-match-commitment.v1'),
+  compliance_event_id: z.string().uuid(),
+  buyer_reference: z.string(), // 'BUY_a8b9c2d1'
+  dealer_reference: z.string(), // 'DLR_f3e4d5c6'
+  normalized_buyer_address: z.string(),
+  normalized_shipping_address: z.string(),
+  zkp_address_proof_hash: z.string(), // Commitment hash of the Groth16 address proof
+  match_confidence: z.number().min(0).max(1), // Rounded to 2 decimals before hashing
+  address_match_verified: z.boolean(),
+  verified_at_timestamp: z.string().datetime(),
+}).strict();
+
+// Dealer_Attestation_Hash - dealer confirmed the AB1263 notice was given to the buyer
+export const noticeAttestationSchema = z.object({
+  hash_schema: z.literal('ca2achain.notice-attestation.v1'),
+  compliance_event_id: z.string().uuid(),
+  dealer_reference: z.string(), // 'DLR_f3e4d5c6'
+  buyer_reference: z.string(), // 'BUY_a8b9c2d1'
+  notice_version: noticeVersionSchema,
+  ab1263_dealer_received_buyer_acceptance: z.boolean(),
+  verification_timestamp: z.string().datetime(),
+}).strict();
+
+// Transaction_Link_Hash - ties the three commitments above to one compliance event
+export const transactionLinkSchema = z.object({
+  hash_schema: z.literal('ca2achain.transaction-link.v1'),
+  compliance_event_id: z.string().uuid(),
+  buyer_reference: z.string(), // 'BUY_a8b9c2d1'
+  dealer_reference: z.string(), // 'DLR_f3e4d5c6'
+  age_commitment_hash: z.string(),
+  address_match_commitment_hash: z.string(),
+  attestation_hash: z.string(),
+  verification_timestamp: z.string().datetime(),
+}).strict();
+
+// Hash preimages of one compliance event (what a court recomputes from decrypted buyer_secrets)
+export const eventCommitmentsSchema = z.object({
+  age_commitment: ageCommitmentSchema,
+  address_match_commitment: addressMatchCommitmentSchema,
+  notice_attestation: noticeAttestationSchema,
+  transaction_link: transactionLinkSchema,
+});
+
+// Commitment hashes recorded in verification_data
+export const eventCommitmentHashesSchema = z.object({
+  age_commitment_hash: z.string(),
+  address_match_commitment_hash: z.string(),
+  attestation_hash: z.string(),
+  transaction_link_hash: z.string(),
+});
+
 // =============================================
 // VERIFICATION DATA STRUCTURE (FOR HASH REPRODUCIBILITY)
 // =============================================
 
-// Enhanced verification data structure for blockchain hash reproducibility
+// compliance_events.verification_data as written by POST /verify (hashed into verification_hash)
+// AB1263-2026.2: canonical (RFC 8785) hashing and versioned commitments
+// AB1263-2026.1 events predate canonical hashing and keep the legacy top-level-sorted hash
 export const verificationDataSchema = z.object({
   compliance_event: z.object({
-    version: z.literal("AB1263-2026.1"),
+    version: z.literal('AB1263-2026.2'),
     compliance_event_id: z.string().uuid(), // Main compliance_events.id
-    timestamp: z.string().datetime(),
+    timestamp: z.string().datetime(), // The event's single verified_at timestamp
     buyer_reference: z.string(), // 'BUY_a8b9c2d1'
     dealer_reference: z.string(), // 'DLR_f3e4d5c6'
+    ab1263_notice_provided: z.boolean(),
+    transaction_context: transactionContextSchema.optional(), // Absent on events before transaction contexts (ammunition)
+  }),
+  credential_verification: z.object({
+    credential_id: z.string(),
+    issuer_did: z.string(),
+    signature_valid: z.boolean(),
+    status_list_credential: z.string().url(),
+    status_list_index: z.number().int().nonnegative(),
+    revoked: z.boolean(),
+    status_checked_at: z.string().datetime(),
   }),
   zkp_verifications: z.object({
-    age_check: z.object({
-      zkp_age_proof: z.string(), // Privado proof JSON
-      buyer_secret: z.string(), // buyer_uuid_hash
-      date_of_birth: z.string().date(), // YYYY-MM-DD format for hash reproducibility
-      age_verified: z.boolean(),
-      verified_at_timestamp: z.string().datetime(),
+    age_verification: z.object({
+      verified: z.boolean(),
+      proof_hash: z.string(),
+      circuit_used: z.literal('age_verification'),
+      public_signals: z.array(z.string()),
+      age_requirement: ageRequirementSchema.optional(), // Absent on events before age policies (18+, UTC date)
+      verification_timestamp: z.string().datetime(),
       commitment_hash: z.string(), // AgeCommitment_Hash
     }),
     address_verification: z.object({
-      zkp_address_proof: z.string(), // Privado proof JSON
-      normalized_buyer_address: z.string(),
+      verified: z.boolean(),
+      confidence_score: z.number().min(0).max(1),
+      match_breakdown: addressMatchBreakdownSchema.optional(), // Absent on events recorded before component matching
+      proof_hash: z.string(),
+      circuit_used: z.literal('address_verification'),
+      public_signals: z.array(z.string()),
+      exact_match_proven: z.boolean(),
+      verified_address_hash: z.string(), // Buyer's normalized address hashed with the buyer secret - never the address
       normalized_shipping_address: z.string(),
-      match_confidence: z.number().min(0).max(1),
-      address_match_verified: z.boolean(),
-      verified_at_timestamp: z.string().datetime(),
+      verification_timestamp: z.string().datetime(),
       commitment_hash: z.string(), // Address_Match_Commitment_Hash
-    })
+    }),
   }),
   legal_attestation: z.object({
-    notice_version: z.literal("CA-DOJ-2026-V1"),
+    notice_version: noticeVersionSchema,
     ab1263_dealer_received_buyer_acceptance: z.boolean(),
     verification_timestamp: z.string().datetime(),
     attestation_hash: z.string(), // Dealer_Attestation_Hash
     transaction_link_hash: z.string(), // Transaction_Link_Hash
-  })
+  }),
 });
 
 // =============================================
@@ -1,11 +1,31 @@
 import { z } from 'zod';
 import {
   verificationRequestSchema,
+  productCategorySchema,
+  quantityClassSchema,
+  noticeVersionSchema,
+  transactionContextSchema,
+  ageRequirementSchema,
+  addressComponentSchema,
+  addressComponentMatchResultSchema,
+  addressMatchBreakdownSchema,
   privadoAgeProofSchema,
   privadoAddressProofSchema,
   blockchainInfoSchema,
+  blockchainStatusSchema,
+  merkleProofStepSchema,
+  merkleProofSchema,
+  complianceRecordSchema,
+  anchorBatchSchema,
   complianceEventSchema,
+  verificationAnchorProofSchema,
   verificationDataSchema,
+  ageCommitmentSchema,
+  addressMatchCommitmentSchema,
+  noticeAttestationSchema,
+  transactionLinkSchema,
+  eventCommitmentsSchema,
+  eventCommitmentHashesSchema,
   verificationResponseSchema,
   complianceHistoryRequestSchema,
   ccpaRequestSchema
@@ -18,6 +38,14 @@ import {
 // Dealer API types
 export type VerificationRequest = z.infer<typeof verificationRequestSchema>;
 export type VerificationResponse = z.infer<typeof verificationResponseSchema>;
+export type ProductCategory = z.infer<typeof productCategorySchema>;
+export type QuantityClass = z.infer<typeof quantityClassSchema>;
+export type NoticeVersion = z.infer<typeof noticeVersionSchema>;
+export type TransactionContext = z.infer<typeof transactionContextSchema>;
+export type AgeRequirement = z.infer<typeof ageRequirementSchema>;
+export type AddressComponent = z.infer<typeof addressComponentSchema>;
+export type AddressComponentMatchResult = z.infer<typeof addressComponentMatchResultSchema>;
+export type AddressMatchBreakdown = z.infer<typeof addressMatchBreakdownSchema>;
 
 // Privado ZKP types
 export type PrivadoAgeProof = z.infer<typeof privadoAgeProofSchema>;
@@ -26,6 +54,12 @@ export type PrivadoAddressProof = z.infer<typeof privadoAddressProofSchema>;
 // Database types
 export type ComplianceEvent = z.infer<typeof complianceEventSchema>;
 export type BlockchainInfo = z.infer<typeof blockchainInfoSchema>;
+export type BlockchainStatus = z.infer<typeof blockchainStatusSchema>;
+export type MerkleProofStep = z.infer<typeof merkleProofStepSchema>;
+export type MerkleProof = z.infer<typeof merkleProofSchema>;
+export type ComplianceRecord = z.infer<typeof complianceRecordSchema>;
+export type AnchorBatch = z.infer<typeof anchorBatchSchema>;
+export type VerificationAnchorProof = z.infer<typeof verificationAnchorProofSchema>;
 export type VerificationData = z.infer<typeof verificationDataSchema>;
 
 // CCPA types
@@ -36,43 +70,13 @@ export type CCPARequest = z.infer<typeof ccpaRequestSchema>;
 // HASH COMMITMENT TYPES (FOR BLOCKCHAIN)
 // =============================================
 
-// Age commitment hash data structure
-export interface AgeCommitment {
-  zkp_age_proof: string; // Privado proof JSON
-  buyer_reference: string; // 'BUY_a8b9c2d1'
-  buyer_secret: string; // buyer_uuid_hash
-  date_of_birth: string; // YYYY-MM-DD format for hash reproducibility
-  age_verified: boolean;
-  verified_at_timestamp: string; // ISO timestamp
-}
-
-// Address match commitment hash data structure
-export interface AddressMatchCommitment {
-  zkp_address_proof: string; // Privado proof JSON
-  buyer_reference: string; // 'BUY_a8b9c2d1'
-  normalized_buyer_address: string; // Normalized address for hash comparison
-  dealer_reference: string; // 'DLR_f3e4d5c6'
-  normalized_shipping_address: string; // Normalized address for hash comparison
-  match_confidence: number; // 0.0 to 1.0
-  address_match_verified: boolean;
-  verified_at_timestamp: string; // ISO timestamp
-}
-
-// Notice attestation hash data structure
-export interface NoticeAttestation {
-  dealer_reference: string; // 'DLR_f3e4d5c6'
-  notice_version: 'CA-DOJ-2026-V1';
-  ab1263_dealer_received_buyer_acceptance: boolean;
-  buyer_reference: string; // 'BUY_a8b9c2d1'
-  verification_timestamp: string; // ISO timestamp
-}
-
-// Transaction link hash data structure
-export interface TransactionLink {
-  compliance_event_id: string; // compliance_events.id UUID
-  buyer_reference: string; // 'BUY_a8b9c2d1'
-  dealer_reference: string; // 'DLR_f3e4d5c6'
-}
+// Hash preimages (SHA-256 of their RFC 8785 canonical JSON is recorded in verification_data)
+export type AgeCommitment = z.infer<typeof ageCommitmentSchema>;
+export type AddressMatchCommitment = z.infer<typeof addressMatchCommitmentSchema>;
+export type NoticeAttestation = z.infer<typeof noticeAttestationSchema>;
+export type TransactionLink = z.infer<typeof transactionLinkSchema>;
+export type EventCommitments = z.infer<typeof eventCommitmentsSchema>;
+export type EventCommitmentHashes = z.infer<typeof eventCommitmentHashesSchema>;
 
 // =============================================
 // API RESPONSE INTERFACES
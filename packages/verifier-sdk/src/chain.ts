@@ -0,0 +1,34 @@
+// Read-only ComplianceRegistry lookups - no wallet or CA2AChain API access needed
+
+import { Contract, JsonRpcProvider } from 'ethers';
+import type { AnchoredBatch, ChainOptions } from './types.js';
+import { normalizeHash } from './hash.js';
+
+const REGISTRY_ABI = [
+  'function getBatch(bytes32 merkleRoot) view returns (uint32 leafCount, uint64 anchoredAt, address submitter)'
+] as const;
+
+/**
+ * Look up an anchored Merkle root on the ComplianceRegistry contract (null if never anchored)
+ */
+export const getAnchoredBatch = async (merkleRoot: string, chain: ChainOptions): Promise<AnchoredBatch | null> => {
+  const ownedProvider = 'provider' in chain ? null : new JsonRpcProvider(chain.rpcUrl);
+  const provider = 'provider' in chain ? chain.provider : ownedProvider!;
+
+  try {
+    const registry = new Contract(chain.contractAddress, REGISTRY_ABI, provider);
+    const [leafCount, anchoredAt, submitter] = await registry.getBatch(normalizeHash(merkleRoot));
+
+    if (Number(anchoredAt) === 0) {
+      return null;
+    }
+
+    return {
+      leaf_count: Number(leafCount),
+      anchored_at: new Date(Number(anchoredAt) * 1000).toISOString(),
+      submitter
+    };
+  } finally {
+    ownedProvider?.destroy();
+  }
+};
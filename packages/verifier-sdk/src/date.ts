@@ -0,0 +1,33 @@
+// Date helpers - mirrors of the CA2AChain backend so proof dates can be recomputed offline
+//   toLocalDate    <- backend services/age-policy.ts
+//   toCircuitDate  <- backend services/zkp/inputs.ts
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export const toLocalDate = (at: string | Date, timezone: string): string => {
+  const instant = typeof at === 'string' ? new Date(at) : at;
+  if (Number.isNaN(instant.getTime())) {
+    throw new Error(`Invalid date: ${at}`);
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+/**
+ * YYYY-MM-DD to the YYYYMMDD integer the age circuit compares
+ */
+export const toCircuitDate = (isoDate: string): number => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(isoDate)) {
+    throw new Error(`Invalid circuit date: ${isoDate}`);
+  }
+  return Number(isoDate.replace(/-/g, ''));
+};
@@ -0,0 +1,48 @@
+// Hash helpers - byte-for-byte mirrors of the CA2AChain backend so results can be recomputed offline
+//   commitmentHash       <- backend services/encryption.ts generateCommitmentHash
+//   legacyCommitmentHash <- backend services/encryption.ts generateLegacyCommitmentHash
+//   computeProofBinding  <- backend services/zkp/inputs.ts
+
+import { createHash } from 'crypto';
+import { canonicalize } from '@ca2achain/shared';
+
+/**
+ * Commitment hash as recorded by CA2AChain: SHA-256 of RFC 8785 canonical JSON
+ */
+export const commitmentHash = (data: unknown): string => {
+  return createHash('sha256').update(canonicalize(data)).digest('hex');
+};
+
+/**
+ * Commitment hash of events recorded before canonical hashing (AB1263-2026.1): top-level keys sorted only
+ */
+export const legacyCommitmentHash = (data: Record<string, unknown>): string => {
+  const sortedData = Object.keys(data).sort().reduce((acc, key) => {
+    acc[key] = data[key];
+    return acc;
+  }, {} as Record<string, unknown>);
+
+  return createHash('sha256').update(JSON.stringify(sortedData)).digest('hex');
+};
+
+/**
+ * SHA-256 a string and keep the first 31 bytes so the result fits the BN128 field
+ */
+export const hashToField = (value: string): string => {
+  const digest = createHash('sha256').update(value).digest('hex');
+  return BigInt(`0x${digest.slice(0, 62)}`).toString();
+};
+
+/**
+ * Public signal that binds a ZK proof to one compliance event
+ */
+export const computeProofBinding = (context: 'compliance-event' | 'credential', id: string): string => {
+  return hashToField(`ca2achain:${context}:${id}`);
+};
+
+/**
+ * Lowercase, 0x-prefixed form for comparing hex digests
+ */
+export const normalizeHash = (hash: string): string => {
+  return (hash.startsWith('0x') ? hash : `0x${hash}`).toLowerCase();
+};
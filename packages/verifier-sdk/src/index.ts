@@ -0,0 +1,8 @@
+// CA2AChain Verifier SDK - offline checks for dealer verification responses
+export * from './types.js';
+export * from './hash.js';
+export * from './date.js';
+export * from './merkle.js';
+export * from './zkp.js';
+export * from './chain.js';
+export * from './verify.js';
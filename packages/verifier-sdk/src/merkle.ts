@@ -0,0 +1,5 @@
+// Merkle inclusion proofs (sha256-merkle-v1) - the implementation the backend builds batches with
+//   leaf node  = sha256(0x00 || record_hash)
+//   inner node = sha256(0x01 || left || right)
+
+export { computeMerkleRoot, verifyMerkleProof } from '@ca2achain/shared';
@@ -0,0 +1,34 @@
+import type { Provider } from 'ethers';
+
+// Groth16 verification keys as published by GET /verify/zkp/verification-keys
+export interface VerificationKeys {
+  age_verification: object;
+  address_verification: object;
+}
+
+// Where to read the ComplianceRegistry contract (omit to skip the on-chain check)
+export type ChainOptions =
+  | { rpcUrl: string; contractAddress: string }
+  | { provider: Provider; contractAddress: string };
+
+export type CheckStatus = 'passed' | 'failed' | 'skipped';
+
+export interface VerificationCheck {
+  check: string;
+  status: CheckStatus;
+  detail?: string;
+}
+
+export interface VerificationReport {
+  valid: boolean; // Every check that ran passed
+  compliance_event_id: string;
+  merkle_root: string | null;
+  checks: VerificationCheck[];
+  verified_at: string;
+}
+
+export interface AnchoredBatch {
+  leaf_count: number;
+  anchored_at: string;
+  submitter: string;
+}
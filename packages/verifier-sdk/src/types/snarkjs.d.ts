@@ -0,0 +1,10 @@
+// Minimal typings for the part of snarkjs the verifier uses (snarkjs ships no declarations)
+declare module 'snarkjs' {
+  export const groth16: {
+    verify(
+      verificationKey: object,
+      publicSignals: string[],
+      proof: { pi_a: string[]; pi_b: string[][]; pi_c: string[]; protocol: string; curve: string }
+    ): Promise<boolean>;
+  };
+}
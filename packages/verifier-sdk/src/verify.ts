@@ -0,0 +1,150 @@
+// End-to-end offline verification of one CA2AChain compliance event
+//
+//   POST /verify response ──► Groth16 proofs valid, bound to the event, date and address, hashes match
+//            │
+//   GET /verify/:id/proof ──► proof hashes recorded in verification_data
+//            │                 verification_data ─hash─► compliance_record ─hash─► Merkle leaf
+//            ▼
+//   ComplianceRegistry   ──► Merkle root anchored on Polygon
+
+import type { VerificationAnchorProof, VerificationResponse } from '@ca2achain/shared';
+import type { ChainOptions, CheckStatus, VerificationCheck, VerificationKeys, VerificationReport } from './types.js';
+import { commitmentHash, computeProofBinding, hashToField, legacyCommitmentHash, normalizeHash } from './hash.js';
+import { toCircuitDate, toLocalDate } from './date.js';
+import { verifyMerkleProof } from './merkle.js';
+import { readAgeProofSignals, readAddressProofSignals, verifyGroth16Proof } from './zkp.js';
+import { getAnchoredBatch } from './chain.js';
+
+export interface VerifyComplianceEventInput {
+  response: VerificationResponse; // Body `data` of POST /verify
+  anchorProof: VerificationAnchorProof; // Body `data` of GET /verify/:verification_id/proof
+  verificationKeys: VerificationKeys; // Body `data` of GET /verify/zkp/verification-keys (fetch once, keep a copy)
+  chain?: ChainOptions; // Omit to skip the on-chain root lookup
+  minimumAgeThreshold?: number; // Default: the response's age_threshold (18 for responses without one)
+}
+
+/**
+ * Verify a verification response and its anchor proof without trusting the CA2AChain API
+ * Every check is reported; `valid` is true only if all checks that ran passed
+ */
+export const verifyComplianceEvent = async (input: VerifyComplianceEventInput): Promise<VerificationReport> => {
+  const { response, anchorProof, verificationKeys, chain } = input;
+  const responseAgeThreshold: number | undefined = response.age_threshold; // Absent in responses from before age policies
+  const minimumAgeThreshold = input.minimumAgeThreshold ?? responseAgeThreshold ?? 18;
+  const checks: VerificationCheck[] = [];
+
+  const record = (check: string, passed: boolean | null, detail?: string) => {
+    const status: CheckStatus = passed === null ? 'skipped' : passed ? 'passed' : 'failed';
+    checks.push({ check, status, ...(detail && { detail }) });
+  };
+
+  // Events recorded before canonical hashing keep the legacy hash for proofs and verification_data
+  const hash = anchorProof.verification_data?.compliance_event?.version === 'AB1263-2026.1'
+    ? legacyCommitmentHash
+    : commitmentHash;
+
+  // The age proof's date is verified_at in the age policy timezone (UTC for events before age policies);
+  // the anchored timezone is trustworthy once verification_data_hash_matches passes
+  const ageTimezone = anchorProof.verification_data?.zkp_verifications?.age_verification?.age_requirement?.timezone ?? 'UTC';
+  let expectedProofDate: number | null = null;
+  try {
+    expectedProofDate = toCircuitDate(toLocalDate(response.verified_at, ageTimezone));
+  } catch {
+    // Reported as a failed age_proof_date_matches_event check
+  }
+
+  const eventId = response.compliance_event_id;
+  const eventBinding = computeProofBinding('compliance-event', eventId);
+  const zkpProofs = response.zkp_proofs;
+
+  // === ZERO-KNOWLEDGE PROOFS ===
+  if (!zkpProofs) {
+    record('zkp_proofs_present', false, 'Response carries no zkp_proofs');
+  } else {
+    const ageSignals = readAgeProofSignals(zkpProofs.age_proof);
+    const addressSignals = readAddressProofSignals(zkpProofs.address_proof);
+
+    record('age_proof_valid', await verifyGroth16Proof(zkpProofs.age_proof, verificationKeys));
+    record('address_proof_valid', await verifyGroth16Proof(zkpProofs.address_proof, verificationKeys));
+    record('age_proof_bound_to_event', ageSignals.event_binding === eventBinding);
+    record('address_proof_bound_to_event', addressSignals.event_binding === eventBinding);
+    record(
+      'age_result_matches_proof',
+      ageSignals.age_verified === response.age_verified,
+      `Proof output age_verified=${ageSignals.age_verified} on ${ageSignals.current_date}`
+    );
+    record(
+      'age_threshold_sufficient',
+      ageSignals.age_threshold >= minimumAgeThreshold,
+      `Proven threshold ${ageSignals.age_threshold}, required ${minimumAgeThreshold}`
+    );
+    record(
+      'age_threshold_matches_response',
+      responseAgeThreshold === undefined ? null : ageSignals.age_threshold === responseAgeThreshold,
+      `Proven threshold ${ageSignals.age_threshold}, response age_threshold ${responseAgeThreshold ?? 'absent'}`
+    );
+    record(
+      'age_proof_date_matches_event',
+      expectedProofDate !== null && ageSignals.current_date === expectedProofDate,
+      `Proof current_date ${ageSignals.current_date}, local date of verified_at in ${ageTimezone} ${expectedProofDate}`
+    );
+    record(
+      'address_proof_matches_shipping_address',
+      addressSignals.shipping_address_hash === hashToField(response.normalized_address_used),
+      'Proof shipping_address_hash against the hash of normalized_address_used'
+    );
+    record('age_proof_hash_matches', hash(zkpProofs.age_proof) === zkpProofs.age_proof_hash);
+    record('address_proof_hash_matches', hash(zkpProofs.address_proof) === zkpProofs.address_proof_hash);
+  }
+
+  // === COMPLIANCE RECORD ===
+  const complianceRecord = anchorProof.compliance_record;
+  const zkpVerifications = anchorProof.verification_data?.zkp_verifications;
+
+  record(
+    'compliance_record_matches_response',
+    anchorProof.compliance_event_id === eventId
+      && complianceRecord.compliance_event_id === eventId
+      && complianceRecord.age_verified === response.age_verified
+      && complianceRecord.address_verified === response.address_verified
+  );
+  record('verification_data_hash_matches', hash(anchorProof.verification_data) === complianceRecord.verification_hash);
+  record(
+    'proof_hashes_recorded',
+    zkpProofs
+      ? zkpVerifications?.age_verification?.proof_hash === zkpProofs.age_proof_hash
+        && zkpVerifications?.address_verification?.proof_hash === zkpProofs.address_proof_hash
+      : null
+  );
+
+  // === MERKLE INCLUSION ===
+  const { merkle_proof: merkleProof } = anchorProof;
+  const leafHash = commitmentHash(complianceRecord);
+
+  record('record_hash_matches_leaf', normalizeHash(leafHash) === normalizeHash(merkleProof.leaf_hash));
+  record('merkle_inclusion_valid', verifyMerkleProof(leafHash, merkleProof));
+
+  // === ON-CHAIN ANCHOR ===
+  if (!chain) {
+    record('root_anchored_on_chain', null, 'No chain options provided');
+  } else {
+    try {
+      const batch = await getAnchoredBatch(merkleProof.merkle_root, chain);
+      record(
+        'root_anchored_on_chain',
+        !!batch && batch.leaf_count === merkleProof.leaf_count,
+        batch ? `Anchored ${batch.anchored_at} by ${batch.submitter} (${batch.leaf_count} leaves)` : 'Root not found on chain'
+      );
+    } catch (error) {
+      record('root_anchored_on_chain', false, `Chain lookup failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return {
+    valid: checks.every(check => check.status !== 'failed'),
+    compliance_event_id: eventId,
+    merkle_root: merkleProof.merkle_root ?? null,
+    checks,
+    verified_at: new Date().toISOString()
+  };
+};
@@ -0,0 +1,54 @@
+// Groth16 proof checks for the age and address circuits (snarkjs)
+// Public signal layouts follow backend circuits/src/*.circom
+
+import * as snarkjs from 'snarkjs';
+import type { PrivadoAddressProof, PrivadoAgeProof } from '@ca2achain/shared';
+import type { VerificationKeys } from './types.js';
+
+/**
+ * Verify a proof against the published verification key for its circuit
+ * Returns false (rather than throwing) for malformed proofs
+ */
+export const verifyGroth16Proof = async (
+  circuitProof: PrivadoAgeProof | PrivadoAddressProof,
+  verificationKeys: VerificationKeys
+): Promise<boolean> => {
+  try {
+    return await snarkjs.groth16.verify(verificationKeys[circuitProof.circuit], circuitProof.public_signals, {
+      pi_a: circuitProof.proof.proof_a,
+      pi_b: circuitProof.proof.proof_b,
+      pi_c: circuitProof.proof.proof_c,
+      protocol: circuitProof.proof.protocol,
+      curve: circuitProof.proof.curve
+    });
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Decode age proof public signals: [age_verified, current_date, age_threshold, dob_commitment, event_binding]
+ */
+export const readAgeProofSignals = (ageProof: PrivadoAgeProof) => {
+  const [ageVerified, currentDate, ageThreshold, dobCommitment, eventBinding] = ageProof.public_signals;
+  return {
+    age_verified: ageVerified === '1',
+    current_date: Number(currentDate),
+    age_threshold: Number(ageThreshold),
+    dob_commitment: dobCommitment,
+    event_binding: eventBinding
+  };
+};
+
+/**
+ * Decode address proof public signals: [address_verified, address_commitment, shipping_address_hash, event_binding]
+ */
+export const readAddressProofSignals = (addressProof: PrivadoAddressProof) => {
+  const [addressVerified, addressCommitment, shippingAddressHash, eventBinding] = addressProof.public_signals;
+  return {
+    address_verified: addressVerified === '1',
+    address_commitment: addressCommitment,
+    shipping_address_hash: shippingAddressHash,
+    event_binding: eventBinding
+  };
+};
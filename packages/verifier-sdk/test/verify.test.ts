@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeProofBinding, hashToField, verifyComplianceEvent } from '../src/index.js';
+
+const EVENT_ID = '0193e4a0-7c1a-7000-8000-000000000001';
+const SHIPPING_ADDRESS = '123 MAIN ST, SACRAMENTO, CA 95814';
+const VERIFIED_AT = '2026-01-02T05:00:00.000Z'; // 2026-01-01 in Los Angeles
+
+const proof = { proof_a: [], proof_b: [], proof_c: [], protocol: 'groth16', curve: 'bn128' };
+
+// Response and anchor proof whose public signals agree with the event; the Groth16 and Merkle
+// checks fail against these placeholders, the checks under test don't depend on them
+const fixture = (overrides: { currentDate?: string; shippingAddressHash?: string; timezone?: string | null } = {}) => {
+  const binding = computeProofBinding('compliance-event', EVENT_ID);
+  const response = {
+    compliance_event_id: EVENT_ID,
+    age_verified: true,
+    age_threshold: 18,
+    address_verified: true,
+    normalized_address_used: SHIPPING_ADDRESS,
+    verified_at: VERIFIED_AT,
+    zkp_proofs: {
+      age_proof_hash: 'age',
+      address_proof_hash: 'address',
+      age_proof: {
+        circuit: 'age_verification',
+        proof,
+        public_signals: ['1', overrides.currentDate ?? '20260101', '18', '1', binding]
+      },
+      address_proof: {
+        circuit: 'address_verification',
+        proof,
+        public_signals: ['1', '1', overrides.shippingAddressHash ?? hashToField(SHIPPING_ADDRESS), binding]
+      }
+    }
+  };
+
+  const timezone = overrides.timezone === undefined ? 'America/Los_Angeles' : overrides.timezone;
+  const anchorProof = {
+    compliance_event_id: EVENT_ID,
+    compliance_record: { compliance_event_id: EVENT_ID, age_verified: true, address_verified: true },
+    verification_data: {
+      compliance_event: { version: 'AB1263-2026.2' },
+      zkp_verifications: {
+        age_verification: timezone === null ? {} : {
+          age_requirement: { jurisdiction: 'US-CA', timezone, product_category: 'ammunition', age_threshold: 18, evaluation_date: '2026-01-01' }
+        },
+        address_verification: {}
+      }
+    },
+    merkle_proof: { algorithm: 'sha256-merkle-v1', leaf_hash: '0x00', merkle_root: '0x00', siblings: [], leaf_count: 1 }
+  };
+
+  return { response, anchorProof } as any;
+};
+
+const checkStatus = async (input: ReturnType<typeof fixture>, check: string) => {
+  const report = await verifyComplianceEvent({
+    ...input,
+    verificationKeys: { age_verification: {}, address_verification: {} }
+  });
+  const result = report.checks.find(c => c.check === check);
+  assert.ok(result, `check ${check} not reported`);
+  return { status: result.status, valid: report.valid };
+};
+
+test('age proof date matching the local date of verified_at passes', async () => {
+  const { status } = await checkStatus(fixture(), 'age_proof_date_matches_event');
+  assert.equal(status, 'passed');
+});
+
+test('age proof for an older date fails', async () => {
+  const { status, valid } = await checkStatus(fixture({ currentDate: '20251231' }), 'age_proof_date_matches_event');
+  assert.equal(status, 'failed');
+  assert.equal(valid, false);
+});
+
+test('age proof dated in UTC instead of the policy timezone fails', async () => {
+  const { status } = await checkStatus(fixture({ currentDate: '20260102' }), 'age_proof_date_matches_event');
+  assert.equal(status, 'failed');
+});
+
+test('events before age policies are dated in UTC', async () => {
+  const { status } = await checkStatus(fixture({ currentDate: '20260102', timezone: null }), 'age_proof_date_matches_event');
+  assert.equal(status, 'passed');
+});
+
+test('tampered verified_at fails the age proof date check', async () => {
+  const input = fixture();
+  input.response.verified_at = '2026-03-01T20:00:00.000Z';
+  const { status } = await checkStatus(input, 'age_proof_date_matches_event');
+  assert.equal(status, 'failed');
+});
+
+test('address proof for the normalized shipping address passes', async () => {
+  const { status } = await checkStatus(fixture(), 'address_proof_matches_shipping_address');
+  assert.equal(status, 'passed');
+});
+
+test('address proof for a different address fails', async () => {
+  const input = fixture({ shippingAddressHash: hashToField('456 OAK AVE, FRESNO, CA 93701') });
+  const { status, valid } = await checkStatus(input, 'address_proof_matches_shipping_address');
+  assert.equal(status, 'failed');
+  assert.equal(valid, false);
+});
+
+test('tampered normalized_address_used fails the address check', async () => {
+  const input = fixture();
+  input.response.normalized_address_used = '456 OAK AVE, FRESNO, CA 93701';
+  const { status } = await checkStatus(input, 'address_proof_matches_shipping_address');
+  assert.equal(status, 'failed');
+});
@@ -5,8 +5,16 @@
 -- Use only for development or complete fresh start
 
 -- Drop all tables and reset completely
+DROP TABLE IF EXISTS dealer_api_keys CASCADE;
+DROP TABLE IF EXISTS idempotency_keys CASCADE;
+DROP TABLE IF EXISTS credit_reservations CASCADE;
+DROP TABLE IF EXISTS credit_ledger CASCADE;
+DROP TABLE IF EXISTS processed_webhook_events CASCADE;
 DROP TABLE IF EXISTS payments CASCADE;
 DROP TABLE IF EXISTS compliance_events CASCADE;
+DROP TABLE IF EXISTS anchor_batches CASCADE;
+DROP TABLE IF EXISTS credential_statuses CASCADE;
+DROP TABLE IF EXISTS credential_status_lists CASCADE;
 DROP TABLE IF EXISTS buyer_secrets CASCADE; 
 DROP TABLE IF EXISTS dealer_accounts CASCADE;
 DROP TABLE IF EXISTS buyer_accounts CASCADE;
@@ -28,9 +36,41 @@ DROP FUNCTION IF EXISTS reset_dealer_monthly_credits(UUID) CASCADE;
 DROP FUNCTION IF EXISTS update_last_login(TEXT, UUID) CASCADE;
 DROP FUNCTION IF EXISTS update_compliance_event_blockchain(UUID, JSONB) CASCADE;
 DROP FUNCTION IF EXISTS get_compliance_event_by_blockchain_tx(TEXT) CASCADE;
+DROP FUNCTION IF EXISTS claim_compliance_anchor_jobs(INTEGER, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS mark_compliance_event_anchor_submitted(UUID, JSONB) CASCADE;
+DROP FUNCTION IF EXISTS record_compliance_event_anchor_failure(UUID, TEXT, TIMESTAMPTZ) CASCADE;
+DROP FUNCTION IF EXISTS requeue_failed_compliance_anchors() CASCADE;
+DROP FUNCTION IF EXISTS create_anchor_batch(TEXT, INTEGER, JSONB) CASCADE;
+DROP FUNCTION IF EXISTS mark_anchor_batch_submitted(UUID, JSONB) CASCADE;
+DROP FUNCTION IF EXISTS confirm_anchor_batch(UUID, JSONB) CASCADE;
+DROP FUNCTION IF EXISTS record_anchor_batch_failure(UUID, TEXT, TIMESTAMPTZ) CASCADE;
+DROP FUNCTION IF EXISTS allocate_credential_status(TEXT, TEXT) CASCADE;
+DROP FUNCTION IF EXISTS revoke_credential(TEXT, TEXT) CASCADE;
+DROP FUNCTION IF EXISTS revoke_buyer_credentials(TEXT, TEXT) CASCADE;
+DROP FUNCTION IF EXISTS get_revoked_status_indexes(UUID) CASCADE;
+DROP FUNCTION IF EXISTS revoke_credentials_on_buyer_change() CASCADE;
 DROP FUNCTION IF EXISTS set_buyer_reference_id() CASCADE;
 DROP FUNCTION IF EXISTS set_dealer_reference_id() CASCADE;
 DROP FUNCTION IF EXISTS update_buyer_current_verification() CASCADE;
+DROP FUNCTION IF EXISTS supersede_buyer_verification() CASCADE;
+DROP FUNCTION IF EXISTS expire_buyer_verifications(INTEGER, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS claim_renewal_reminders(INTEGER, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS claim_webhook_event(TEXT, TEXT, TEXT, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS start_dealer_billing_period(UUID, TIMESTAMPTZ) CASCADE;
+DROP FUNCTION IF EXISTS start_dealer_billing_period(UUID, TIMESTAMPTZ, INTEGER, UUID) CASCADE;
+DROP FUNCTION IF EXISTS dealer_credit_balance(UUID) CASCADE;
+DROP FUNCTION IF EXISTS grant_dealer_credits(UUID, INTEGER, TEXT, TEXT, UUID) CASCADE;
+DROP FUNCTION IF EXISTS grant_dealer_plan_upgrade(UUID, INTEGER, TEXT) CASCADE;
+DROP FUNCTION IF EXISTS consume_dealer_credit(UUID, TEXT, UUID, TEXT) CASCADE;
+DROP FUNCTION IF EXISTS consume_dealer_credit(UUID, TEXT, UUID, TEXT, TEXT) CASCADE;
+DROP FUNCTION IF EXISTS refund_dealer_credit(UUID, TEXT) CASCADE;
+DROP FUNCTION IF EXISTS reserve_dealer_credit(UUID, TEXT, UUID) CASCADE;
+DROP FUNCTION IF EXISTS commit_credit_reservation(UUID, TEXT, UUID) CASCADE;
+DROP FUNCTION IF EXISTS release_credit_reservation(UUID, TEXT) CASCADE;
+DROP FUNCTION IF EXISTS release_abandoned_credit_reservations(INTEGER, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS claim_idempotency_key(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS purge_expired_idempotency_keys(INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS rotate_dealer_api_key(UUID, UUID, TEXT, TEXT, INTEGER) CASCADE;
 
 -- Drop legacy functions that may exist from old migrations
 DROP FUNCTION IF EXISTS calculate_net_amount() CASCADE;
@@ -0,0 +1,128 @@
+-- Migration: Asynchronous blockchain anchoring for compliance events
+-- Compliance events are written immediately with blockchain_status = 'pending'
+-- and anchored on Polygon by the backend outbox worker (services/anchor-worker.ts)
+--
+-- Lifecycle: pending -> submitted (tx broadcast) -> confirmed (receipt recorded)
+--            any state -> failed (retries exhausted)
+
+-- =============================================
+-- OUTBOX COLUMNS
+-- =============================================
+
+ALTER TABLE compliance_events
+  ADD COLUMN blockchain_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (blockchain_status IN ('pending', 'submitted', 'confirmed', 'failed')),
+  ADD COLUMN blockchain_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN blockchain_next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  ADD COLUMN blockchain_last_error TEXT;
+
+-- Events anchored before the queue existed already carry a transaction hash
+UPDATE compliance_events
+SET blockchain_status = 'confirmed',
+    blockchain_next_attempt_at = NULL
+WHERE blockchain_info->>'transaction_hash' IS NOT NULL;
+
+-- Worker polling index (only rows still waiting on the chain)
+CREATE INDEX idx_compliance_events_anchor_queue
+  ON compliance_events(blockchain_next_attempt_at)
+  WHERE blockchain_status IN ('pending', 'submitted');
+
+COMMENT ON COLUMN compliance_events.blockchain_status IS 'pending | submitted | confirmed | failed - anchoring lifecycle';
+COMMENT ON COLUMN compliance_events.blockchain_attempts IS 'Number of times the anchor worker has claimed this event';
+COMMENT ON COLUMN compliance_events.blockchain_next_attempt_at IS 'Earliest time the worker may (re)claim this event - doubles as the claim lease';
+COMMENT ON COLUMN compliance_events.blockchain_last_error IS 'Last anchoring error, cleared on confirmation';
+
+-- =============================================
+-- OUTBOX FUNCTIONS
+-- =============================================
+
+-- Claim due events for anchoring. The lease pushes next_attempt_at forward so
+-- a crashed worker's events are picked up again once the lease expires.
+CREATE OR REPLACE FUNCTION claim_compliance_anchor_jobs(
+  p_limit INTEGER DEFAULT 10,
+  p_lease_seconds INTEGER DEFAULT 300
+) RETURNS SETOF compliance_events AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE compliance_events ce
+  SET blockchain_attempts = ce.blockchain_attempts + 1,
+      blockchain_next_attempt_at = NOW() + make_interval(secs => p_lease_seconds)
+  WHERE ce.id IN (
+    SELECT id FROM compliance_events
+    WHERE blockchain_status IN ('pending', 'submitted')
+      AND blockchain_next_attempt_at <= NOW()
+    ORDER BY blockchain_next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING ce.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record a broadcast transaction before waiting on its receipt
+CREATE OR REPLACE FUNCTION mark_compliance_event_anchor_submitted(
+  p_compliance_event_id UUID,
+  p_blockchain_info JSONB
+) RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE compliance_events
+  SET blockchain_status = 'submitted',
+      blockchain_info = p_blockchain_info
+  WHERE id = p_compliance_event_id
+    AND blockchain_status IN ('pending', 'submitted');
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record a failed attempt. A NULL retry time means retries are exhausted.
+CREATE OR REPLACE FUNCTION record_compliance_event_anchor_failure(
+  p_compliance_event_id UUID,
+  p_error TEXT,
+  p_retry_at TIMESTAMPTZ
+) RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE compliance_events
+  SET blockchain_status = CASE WHEN p_retry_at IS NULL THEN 'failed' ELSE blockchain_status END,
+      blockchain_next_attempt_at = p_retry_at,
+      blockchain_last_error = p_error
+  WHERE id = p_compliance_event_id
+    AND blockchain_status IN ('pending', 'submitted');
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Confirmation now also closes out the outbox entry
+CREATE OR REPLACE FUNCTION update_compliance_event_blockchain(
+  p_compliance_event_id UUID,
+  p_blockchain_info JSONB
+) RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE compliance_events
+  SET blockchain_info = p_blockchain_info,
+      blockchain_status = 'confirmed',
+      blockchain_next_attempt_at = NULL,
+      blockchain_last_error = NULL
+  WHERE id = p_compliance_event_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Manually re-queue events that exhausted their retries (e.g. after topping up the anchoring wallet)
+CREATE OR REPLACE FUNCTION requeue_failed_compliance_anchors()
+RETURNS INTEGER AS $$
+DECLARE
+  requeued INTEGER;
+BEGIN
+  UPDATE compliance_events
+  SET blockchain_status = CASE WHEN blockchain_info->>'transaction_hash' IS NULL THEN 'pending' ELSE 'submitted' END,
+      blockchain_attempts = 0,
+      blockchain_next_attempt_at = NOW()
+  WHERE blockchain_status = 'failed';
+
+  GET DIAGNOSTICS requeued = ROW_COUNT;
+  RETURN requeued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
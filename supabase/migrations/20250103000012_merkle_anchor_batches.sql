@@ -0,0 +1,159 @@
+-- Migration: Merkle-batched blockchain anchoring
+-- The anchor worker groups pending compliance events into a Merkle tree and anchors
+-- only the root on chain (ComplianceRegistry.anchorBatch). Each event keeps its
+-- inclusion proof so it can be verified against the on-chain root on its own.
+
+-- =============================================
+-- ANCHOR BATCHES
+-- =============================================
+
+CREATE TABLE anchor_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v7(),
+  merkle_root TEXT NOT NULL UNIQUE, -- 0x-prefixed SHA-256 root (bytes32 on chain)
+  leaf_count INTEGER NOT NULL CHECK (leaf_count > 0),
+  blockchain_info JSONB, -- Transaction details once submitted / confirmed
+  submitted_at TIMESTAMPTZ,
+  confirmed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE anchor_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all anchor batches"
+  ON anchor_batches FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =============================================
+-- COMPLIANCE EVENT BATCH MEMBERSHIP
+-- =============================================
+
+ALTER TABLE compliance_events
+  ADD COLUMN anchor_batch_id UUID REFERENCES anchor_batches(id) ON DELETE RESTRICT,
+  ADD COLUMN merkle_proof JSONB; -- Inclusion proof: leaf_hash, leaf_index, siblings, merkle_root
+
+CREATE INDEX idx_compliance_events_anchor_batch ON compliance_events(anchor_batch_id);
+
+COMMENT ON COLUMN compliance_events.anchor_batch_id IS 'Merkle batch the event was anchored in (NULL for individually anchored events)';
+COMMENT ON COLUMN compliance_events.merkle_proof IS 'Inclusion proof linking the compliance record hash to the anchored batch root';
+
+-- =============================================
+-- BATCH FUNCTIONS
+-- =============================================
+
+-- Create a batch and attach its events with their proofs in one transaction
+-- p_proofs: [{ "compliance_event_id": "...", "merkle_proof": { ... } }, ...]
+CREATE OR REPLACE FUNCTION create_anchor_batch(
+  p_merkle_root TEXT,
+  p_leaf_count INTEGER,
+  p_proofs JSONB
+) RETURNS UUID AS $$
+DECLARE
+  batch_id UUID;
+BEGIN
+  INSERT INTO anchor_batches (merkle_root, leaf_count)
+  VALUES (p_merkle_root, p_leaf_count)
+  RETURNING id INTO batch_id;
+
+  UPDATE compliance_events ce
+  SET anchor_batch_id = batch_id,
+      merkle_proof = proof.merkle_proof
+  FROM jsonb_to_recordset(p_proofs) AS proof(compliance_event_id UUID, merkle_proof JSONB)
+  WHERE ce.id = proof.compliance_event_id
+    AND ce.anchor_batch_id IS NULL;
+
+  RETURN batch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record the broadcast batch transaction before waiting on its receipt
+CREATE OR REPLACE FUNCTION mark_anchor_batch_submitted(
+  p_batch_id UUID,
+  p_blockchain_info JSONB
+) RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE anchor_batches
+  SET blockchain_info = p_blockchain_info,
+      submitted_at = NOW()
+  WHERE id = p_batch_id;
+
+  UPDATE compliance_events
+  SET blockchain_status = 'submitted'
+  WHERE anchor_batch_id = p_batch_id
+    AND blockchain_status IN ('pending', 'submitted');
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Confirm a batch: every member event gets the batch receipt plus its own record hash
+CREATE OR REPLACE FUNCTION confirm_anchor_batch(
+  p_batch_id UUID,
+  p_blockchain_info JSONB
+) RETURNS INTEGER AS $$
+DECLARE
+  confirmed INTEGER;
+BEGIN
+  UPDATE anchor_batches
+  SET blockchain_info = p_blockchain_info,
+      confirmed_at = NOW()
+  WHERE id = p_batch_id;
+
+  UPDATE compliance_events
+  SET blockchain_info = p_blockchain_info || jsonb_build_object(
+        'record_hash', merkle_proof->>'leaf_hash',
+        'anchor_batch_id', p_batch_id
+      ),
+      blockchain_status = 'confirmed',
+      blockchain_next_attempt_at = NULL,
+      blockchain_last_error = NULL
+  WHERE anchor_batch_id = p_batch_id;
+
+  GET DIAGNOSTICS confirmed = ROW_COUNT;
+  RETURN confirmed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record a failed batch attempt for every member event. A NULL retry time means retries are exhausted.
+CREATE OR REPLACE FUNCTION record_anchor_batch_failure(
+  p_batch_id UUID,
+  p_error TEXT,
+  p_retry_at TIMESTAMPTZ
+) RETURNS INTEGER AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  UPDATE compliance_events
+  SET blockchain_status = CASE WHEN p_retry_at IS NULL THEN 'failed' ELSE blockchain_status END,
+      blockchain_next_attempt_at = p_retry_at,
+      blockchain_last_error = p_error
+  WHERE anchor_batch_id = p_batch_id
+    AND blockchain_status IN ('pending', 'submitted');
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Batched events resume through their batch, so re-queue them by batch membership
+CREATE OR REPLACE FUNCTION requeue_failed_compliance_anchors()
+RETURNS INTEGER AS $$
+DECLARE
+  requeued INTEGER;
+BEGIN
+  UPDATE compliance_events ce
+  SET blockchain_status = CASE
+        WHEN ab.blockchain_info->>'transaction_hash' IS NOT NULL
+          OR ce.blockchain_info->>'transaction_hash' IS NOT NULL THEN 'submitted'
+        ELSE 'pending'
+      END,
+      blockchain_attempts = 0,
+      blockchain_next_attempt_at = NOW()
+  FROM compliance_events base
+  LEFT JOIN anchor_batches ab ON ab.id = base.anchor_batch_id
+  WHERE ce.id = base.id
+    AND ce.blockchain_status = 'failed';
+
+  GET DIAGNOSTICS requeued = ROW_COUNT;
+  RETURN requeued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
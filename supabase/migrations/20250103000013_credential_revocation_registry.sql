@@ -0,0 +1,180 @@
+-- Migration: Credential revocation registry (StatusList2021)
+-- Every issued credential gets a random index in a status list bitstring. Revoking a
+-- credential sets its bit; the signed status list credential is published so dealers
+-- and auditors can check revocation without learning which buyer a bit belongs to.
+
+-- =============================================
+-- STATUS LISTS
+-- =============================================
+
+CREATE TABLE credential_status_lists (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v7(),
+  status_purpose TEXT NOT NULL DEFAULT 'revocation' CHECK (status_purpose IN ('revocation')),
+  list_size INTEGER NOT NULL DEFAULT 131072 CHECK (list_size > 0 AND list_size % 8 = 0), -- 16KB, the StatusList2021 minimum for herd privacy
+  allocated_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE credential_status_lists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all credential status lists"
+  ON credential_status_lists FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =============================================
+-- CREDENTIAL STATUS ENTRIES
+-- =============================================
+
+-- Outlives buyer_accounts/buyer_secrets so revocation survives CCPA deletion (no PII stored)
+CREATE TABLE credential_statuses (
+  credential_id TEXT PRIMARY KEY, -- 'urn:uuid:...' from the issued credential
+  status_list_id UUID NOT NULL REFERENCES credential_status_lists(id) ON DELETE RESTRICT,
+  status_list_index INTEGER NOT NULL,
+  buyer_reference_id TEXT NOT NULL, -- 'BUY_a8b9c2d1' - immutable, survives account deletion
+  revoked BOOLEAN NOT NULL DEFAULT FALSE,
+  revoked_at TIMESTAMPTZ,
+  revocation_reason TEXT CHECK (revocation_reason IN (
+    'verification_expired',
+    'verification_rejected',
+    'account_deleted',
+    'superseded',
+    'administrative'
+  )),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(status_list_id, status_list_index)
+);
+
+CREATE INDEX idx_credential_statuses_buyer_reference ON credential_statuses(buyer_reference_id);
+CREATE INDEX idx_credential_statuses_revoked ON credential_statuses(status_list_id) WHERE revoked;
+
+ALTER TABLE credential_statuses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all credential statuses"
+  ON credential_statuses FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =============================================
+-- STATUS FUNCTIONS
+-- =============================================
+
+-- Allocate a random unused index for a new credential. Lists are only filled halfway
+-- so random probing stays cheap; a new list is started when the current one is half full.
+CREATE OR REPLACE FUNCTION allocate_credential_status(
+  p_credential_id TEXT,
+  p_buyer_reference_id TEXT
+) RETURNS TABLE(list_id UUID, list_index INTEGER) AS $$
+DECLARE
+  status_list credential_status_lists;
+  candidate INTEGER;
+BEGIN
+  SELECT * INTO status_list
+  FROM credential_status_lists
+  WHERE status_purpose = 'revocation'
+    AND allocated_count < list_size / 2
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO credential_status_lists (status_purpose)
+    VALUES ('revocation')
+    RETURNING * INTO status_list;
+  END IF;
+
+  LOOP
+    candidate := floor(random() * status_list.list_size)::INTEGER;
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM credential_statuses cs
+      WHERE cs.status_list_id = status_list.id
+        AND cs.status_list_index = candidate
+    );
+  END LOOP;
+
+  INSERT INTO credential_statuses (credential_id, status_list_id, status_list_index, buyer_reference_id)
+  VALUES (p_credential_id, status_list.id, candidate, p_buyer_reference_id);
+
+  UPDATE credential_status_lists
+  SET allocated_count = allocated_count + 1
+  WHERE id = status_list.id;
+
+  RETURN QUERY SELECT status_list.id, candidate;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Revoke one credential (idempotent - the first reason wins)
+CREATE OR REPLACE FUNCTION revoke_credential(
+  p_credential_id TEXT,
+  p_reason TEXT
+) RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE credential_statuses
+  SET revoked = TRUE,
+      revoked_at = NOW(),
+      revocation_reason = p_reason
+  WHERE credential_id = p_credential_id
+    AND NOT revoked;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Revoke every outstanding credential issued to a buyer
+CREATE OR REPLACE FUNCTION revoke_buyer_credentials(
+  p_buyer_reference_id TEXT,
+  p_reason TEXT
+) RETURNS INTEGER AS $$
+DECLARE
+  revoked_count INTEGER;
+BEGIN
+  UPDATE credential_statuses
+  SET revoked = TRUE,
+      revoked_at = NOW(),
+      revocation_reason = p_reason
+  WHERE buyer_reference_id = p_buyer_reference_id
+    AND NOT revoked;
+
+  GET DIAGNOSTICS revoked_count = ROW_COUNT;
+  RETURN revoked_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Revoked indexes of one list (used to build the published bitstring)
+CREATE OR REPLACE FUNCTION get_revoked_status_indexes(
+  p_status_list_id UUID
+) RETURNS INTEGER[] AS $$
+  SELECT COALESCE(array_agg(status_list_index ORDER BY status_list_index), '{}')
+  FROM credential_statuses
+  WHERE status_list_id = p_status_list_id
+    AND revoked;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- =============================================
+-- AUTOMATIC REVOCATION
+-- =============================================
+
+-- Credentials are revoked when the buyer's verification expires or is rejected,
+-- and when the buyer account is deleted (CCPA deletion included)
+CREATE OR REPLACE FUNCTION revoke_credentials_on_buyer_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM revoke_buyer_credentials(OLD.buyer_reference_id, 'account_deleted');
+    RETURN OLD;
+  END IF;
+
+  IF NEW.verification_status IS DISTINCT FROM OLD.verification_status THEN
+    IF NEW.verification_status = 'expired' THEN
+      PERFORM revoke_buyer_credentials(NEW.buyer_reference_id, 'verification_expired');
+    ELSIF NEW.verification_status = 'rejected' THEN
+      PERFORM revoke_buyer_credentials(NEW.buyer_reference_id, 'verification_rejected');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trigger_revoke_credentials_on_buyer_change
+  AFTER UPDATE OF verification_status OR DELETE ON buyer_accounts
+  FOR EACH ROW EXECUTE FUNCTION revoke_credentials_on_buyer_change();
@@ -0,0 +1,17 @@
+-- Migration: Age threshold applied to each compliance event
+-- The minimum age now depends on the product category (CA: 18 ammunition / long guns,
+-- 21 handguns) and is judged on the local date of the age policy jurisdiction.
+-- The full requirement (jurisdiction, timezone, category, evaluation date) is recorded in
+-- verification_data.zkp_verifications.age_verification.age_requirement; the threshold is
+-- also kept as a column for reporting.
+
+ALTER TABLE compliance_events
+  ADD COLUMN age_threshold SMALLINT CHECK (age_threshold > 0);
+
+-- Events verified before age policies were always proven against 18
+UPDATE compliance_events
+SET age_threshold = 18
+WHERE age_threshold IS NULL
+  AND verification_data->'zkp_verifications'->'age_verification' IS NOT NULL;
+
+COMMENT ON COLUMN compliance_events.age_threshold IS 'Minimum buyer age applied (18 or 21 under the CA age policy)';
@@ -0,0 +1,20 @@
+-- Migration: Transaction context on compliance events
+-- Dealers describe the sale a verification is for (product category, quantity class,
+-- order reference). It picks the age threshold and AB1263 notice version and is recorded in
+-- verification_data.compliance_event.transaction_context; the product category is also kept
+-- as a column so dealer reports can break verifications down by category.
+
+ALTER TABLE compliance_events
+  ADD COLUMN product_category TEXT NOT NULL DEFAULT 'ammunition'
+    CHECK (product_category IN ('ammunition', 'long_gun', 'handgun'));
+
+-- Events recorded with an age requirement carry their category; everything older was an AB1263 ammunition sale
+UPDATE compliance_events
+SET product_category = verification_data->'zkp_verifications'->'age_verification'->'age_requirement'->>'product_category'
+WHERE verification_data->'zkp_verifications'->'age_verification'->'age_requirement'->>'product_category' IS NOT NULL;
+
+-- Dealer reporting by category
+CREATE INDEX idx_compliance_events_dealer_category
+  ON compliance_events(dealer_id, product_category, verified_at DESC);
+
+COMMENT ON COLUMN compliance_events.product_category IS 'ammunition | long_gun | handgun - from the verification transaction_context';
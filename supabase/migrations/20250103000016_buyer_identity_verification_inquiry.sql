@@ -0,0 +1,15 @@
+-- Migration: Buyer identity verification inquiry tracking
+-- POST /buyer/verify-identity creates a Persona inquiry for the buyer; the latest inquiry is kept
+-- on the account so GET /buyer/verification-status can report it while Persona's webhook is pending.
+-- The inquiry that actually verified the buyer stays in buyer_secrets.persona_verification_session.
+
+ALTER TABLE buyer_accounts
+  ADD COLUMN persona_inquiry_id TEXT,
+  ADD COLUMN verification_started_at TIMESTAMPTZ;
+
+CREATE INDEX idx_buyer_accounts_persona_inquiry
+  ON buyer_accounts(persona_inquiry_id)
+  WHERE persona_inquiry_id IS NOT NULL;
+
+COMMENT ON COLUMN buyer_accounts.persona_inquiry_id IS 'Latest Persona inquiry started by the buyer (may still be in progress)';
+COMMENT ON COLUMN buyer_accounts.verification_started_at IS 'When the latest identity verification inquiry was created';
@@ -0,0 +1,117 @@
+-- Migration: Verification expiry, renewal reminders and re-verification supersession
+-- The backend's verification-expiry job moves verified buyers to 'expired' once their credential
+-- window (driver license expiry or CREDENTIAL_VALIDITY_DAYS, whichever is first) has passed, and
+-- sends renewal reminders 30, 7 and 1 days ahead. Both steps claim rows atomically so several
+-- backend instances never expire or remind the same buyer twice.
+
+ALTER TABLE buyer_accounts
+  ADD COLUMN renewal_reminder_days INTEGER CHECK (renewal_reminder_days > 0),
+  ADD COLUMN superseded_verification_id UUID;
+
+COMMENT ON COLUMN buyer_accounts.renewal_reminder_days IS 'Smallest renewal reminder (days before expiry) already sent for the current credential';
+COMMENT ON COLUMN buyer_accounts.superseded_verification_id IS 'current_verification_id of the credential replaced by the latest re-verification';
+
+CREATE INDEX idx_buyer_accounts_verification_expiry
+  ON buyer_accounts(verification_expires_at)
+  WHERE verification_status = 'verified';
+
+-- =============================================
+-- COMPLIANCE EVENTS NO LONGER CHANGE BUYER STATUS
+-- =============================================
+
+-- A dealer check failing (an address typo, or a buyer under one category's age threshold) says
+-- nothing about the buyer's identity verification. It used to mark the buyer 'rejected', which
+-- revoked their credential at every dealer (trigger_revoke_credentials_on_buyer_change), and reset
+-- verified_at on every check, which pushed back the verified_at + validity expiry fallback.
+-- Compliance events now only track the buyer's latest verification.
+CREATE OR REPLACE FUNCTION update_buyer_current_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE buyer_accounts
+  SET current_verification_id = NEW.id
+  WHERE id = NEW.buyer_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- RE-VERIFICATION
+-- =============================================
+
+-- A new credential supersedes the previous verification and restarts the reminder schedule
+CREATE OR REPLACE FUNCTION supersede_buyer_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.privado_credential_id IS NOT NULL
+     AND NEW.privado_credential_id IS DISTINCT FROM OLD.privado_credential_id THEN
+    NEW.superseded_verification_id := OLD.current_verification_id;
+    NEW.current_verification_id := NULL;
+  END IF;
+
+  IF NEW.verification_expires_at IS DISTINCT FROM OLD.verification_expires_at THEN
+    NEW.renewal_reminder_days := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_supersede_buyer_verification
+  BEFORE UPDATE OF privado_credential_id, verification_expires_at ON buyer_accounts
+  FOR EACH ROW EXECUTE FUNCTION supersede_buyer_verification();
+
+-- =============================================
+-- EXPIRY AND REMINDERS
+-- =============================================
+
+-- Expire verified buyers whose credential window has passed. Buyers verified before
+-- verification_expires_at was recorded fall back to verified_at + p_validity_days.
+-- The status change revokes their credentials (trigger_revoke_credentials_on_buyer_change).
+CREATE OR REPLACE FUNCTION expire_buyer_verifications(
+  p_validity_days INTEGER DEFAULT 365,
+  p_limit INTEGER DEFAULT 100
+) RETURNS SETOF buyer_accounts AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE buyer_accounts ba
+  SET verification_status = 'expired',
+      updated_at = NOW()
+  WHERE ba.id IN (
+    SELECT id FROM buyer_accounts
+    WHERE verification_status = 'verified'
+      AND (
+        verification_expires_at <= NOW()
+        OR (verification_expires_at IS NULL AND verified_at <= NOW() - make_interval(days => p_validity_days))
+      )
+    ORDER BY verification_expires_at NULLS FIRST
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING ba.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Claim verified buyers due a reminder p_days before expiry that haven't had this (or a later) one.
+-- Claim the smallest window first so a buyer inside several windows only gets the most urgent reminder.
+CREATE OR REPLACE FUNCTION claim_renewal_reminders(
+  p_days INTEGER,
+  p_limit INTEGER DEFAULT 100
+) RETURNS SETOF buyer_accounts AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE buyer_accounts ba
+  SET renewal_reminder_days = p_days
+  WHERE ba.id IN (
+    SELECT id FROM buyer_accounts
+    WHERE verification_status = 'verified'
+      AND verification_expires_at > NOW()
+      AND verification_expires_at <= NOW() + make_interval(days => p_days)
+      AND (renewal_reminder_days IS NULL OR renewal_reminder_days > p_days)
+    ORDER BY verification_expires_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING ba.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,111 @@
+-- Migration: Stripe subscription lifecycle and webhook deduplication
+-- Stripe webhooks now drive dealer subscriptions end to end: checkout links the Stripe
+-- subscription to the dealer, subscription events keep subscription_status / tier in sync,
+-- and every paid invoice starts a new billing period with fresh monthly credits.
+-- Stripe delivers events at least once, so each event is claimed in processed_webhook_events
+-- before it is applied and replays are acknowledged without being applied twice.
+
+-- =============================================
+-- PROCESSED WEBHOOK EVENTS
+-- =============================================
+
+CREATE TABLE processed_webhook_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v7(),
+  provider TEXT NOT NULL, -- 'stripe'
+  event_id TEXT NOT NULL, -- Provider event ID (evt_...)
+  event_type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  claimed_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ,
+
+  UNIQUE(provider, event_id)
+);
+
+CREATE INDEX idx_processed_webhook_events_created_at ON processed_webhook_events(created_at);
+
+ALTER TABLE processed_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all webhook events"
+  ON processed_webhook_events FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Claim an event for processing. Returns FALSE when it was already processed or another
+-- instance is working on it; failed events (and claims older than p_stale_seconds, e.g. a
+-- crashed instance) can be claimed again so provider retries are not lost.
+CREATE OR REPLACE FUNCTION claim_webhook_event(
+  p_provider TEXT,
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_stale_seconds INTEGER DEFAULT 600
+) RETURNS BOOLEAN AS $$
+BEGIN
+  INSERT INTO processed_webhook_events (provider, event_id, event_type)
+  VALUES (p_provider, p_event_id, p_event_type)
+  ON CONFLICT (provider, event_id) DO UPDATE
+  SET status = 'processing',
+      attempts = processed_webhook_events.attempts + 1,
+      last_error = NULL,
+      claimed_at = NOW()
+  WHERE processed_webhook_events.status = 'failed'
+     OR (processed_webhook_events.status = 'processing'
+         AND processed_webhook_events.claimed_at < NOW() - make_interval(secs => p_stale_seconds));
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- DEALER STRIPE SUBSCRIPTION
+-- =============================================
+
+ALTER TABLE dealer_accounts
+  ADD COLUMN stripe_subscription_id TEXT,
+  ADD COLUMN stripe_subscription_event_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX idx_dealer_accounts_stripe_subscription_id
+  ON dealer_accounts(stripe_subscription_id)
+  WHERE stripe_subscription_id IS NOT NULL;
+
+COMMENT ON COLUMN dealer_accounts.stripe_subscription_id IS 'Stripe subscription linked at checkout - subscription and invoice webhooks are matched on it';
+COMMENT ON COLUMN dealer_accounts.stripe_subscription_event_at IS 'Created time of the last customer.subscription.* event applied - older events are ignored';
+
+-- Start the billing period paid by an invoice: monthly credits reset (reset_dealer_monthly_credits),
+-- then the period dates follow the Stripe subscription instead of the calendar month.
+-- Returns FALSE when the dealer already is in this (or a later) period, so an out-of-order or
+-- repeated invoice never wipes credits used in the current period.
+CREATE OR REPLACE FUNCTION start_dealer_billing_period(
+  p_dealer_id UUID,
+  p_period_end TIMESTAMPTZ
+) RETURNS BOOLEAN AS $$
+DECLARE
+  current_expiry TIMESTAMPTZ;
+BEGIN
+  SELECT credits_expire_at INTO current_expiry
+  FROM dealer_accounts
+  WHERE id = p_dealer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF current_expiry IS NOT NULL AND current_expiry >= p_period_end THEN
+    RETURN FALSE;
+  END IF;
+
+  PERFORM reset_dealer_monthly_credits(p_dealer_id);
+
+  UPDATE dealer_accounts
+  SET subscription_status = 'active',
+      billing_date = p_period_end::date,
+      billing_due_date = p_period_end::date + 5,
+      credits_expire_at = p_period_end,
+      updated_at = NOW()
+  WHERE id = p_dealer_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,33 @@
+-- Migration: Provider-agnostic identity verification
+-- Buyers can be verified by Persona, Onfido, Veriff or the local stand-in, so the inquiry columns
+-- drop their Persona prefix and record which provider ran the inquiry. Rows written before this
+-- migration were all Persona-shaped inquiries.
+
+-- =============================================
+-- BUYER SECRETS
+-- =============================================
+
+ALTER TABLE buyer_secrets RENAME COLUMN persona_verification_session TO verification_session;
+ALTER TABLE buyer_secrets ADD COLUMN verification_provider TEXT;
+
+UPDATE buyer_secrets
+SET verification_provider = 'persona'
+WHERE verification_session IS NOT NULL;
+
+COMMENT ON COLUMN buyer_secrets.verification_session IS 'Provider inquiry/session that verified the buyer';
+COMMENT ON COLUMN buyer_secrets.verification_provider IS 'Identity provider that ran verification_session (persona, onfido, veriff, local)';
+
+-- =============================================
+-- BUYER ACCOUNTS
+-- =============================================
+
+ALTER TABLE buyer_accounts RENAME COLUMN persona_inquiry_id TO verification_inquiry_id;
+ALTER TABLE buyer_accounts ADD COLUMN verification_provider TEXT;
+ALTER INDEX idx_buyer_accounts_persona_inquiry RENAME TO idx_buyer_accounts_verification_inquiry;
+
+UPDATE buyer_accounts
+SET verification_provider = 'persona'
+WHERE verification_inquiry_id IS NOT NULL;
+
+COMMENT ON COLUMN buyer_accounts.verification_inquiry_id IS 'Latest identity verification inquiry started by the buyer (may still be in progress)';
+COMMENT ON COLUMN buyer_accounts.verification_provider IS 'Identity provider running verification_inquiry_id';
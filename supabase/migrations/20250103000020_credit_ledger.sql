@@ -0,0 +1,310 @@
+-- Migration: Dealer credit ledger
+-- Dealer credits move from counter columns (credits_purchased / additional_credits_purchased /
+-- credits_used, updated read-modify-write and charged twice per verification) to an append-only
+-- ledger. The balance is the sum of a dealer's entries: grants and refunds add, consumptions and
+-- expirations subtract. Every entry carries an idempotency key unique per dealer, so a retried
+-- grant or consumption is recorded once, and consumption locks the dealer row so concurrent
+-- verifications cannot overdraw the balance.
+
+-- =============================================
+-- CREDIT LEDGER
+-- =============================================
+
+CREATE TABLE credit_ledger (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v7(),
+  dealer_id UUID NOT NULL REFERENCES dealer_accounts(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('grant', 'consumption', 'refund', 'expiration')),
+  amount INTEGER NOT NULL, -- Signed: grants and refunds > 0, consumptions and expirations < 0
+  idempotency_key TEXT NOT NULL, -- 'period:<end>', 'verification:<compliance event id>', ...
+
+  -- What the entry is for (consumptions are recorded before their compliance event row exists)
+  compliance_event_id UUID,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  reverses_entry_id UUID REFERENCES credit_ledger(id), -- Refund -> the consumption it returns
+  description TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(dealer_id, idempotency_key),
+  CONSTRAINT check_credit_ledger_sign CHECK (
+    (entry_type IN ('grant', 'refund') AND amount > 0) OR
+    (entry_type IN ('consumption', 'expiration') AND amount < 0)
+  )
+);
+
+CREATE INDEX idx_credit_ledger_dealer_created_at ON credit_ledger(dealer_id, created_at DESC);
+CREATE INDEX idx_credit_ledger_compliance_event ON credit_ledger(compliance_event_id)
+  WHERE compliance_event_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_credit_ledger_reverses_entry ON credit_ledger(reverses_entry_id)
+  WHERE reverses_entry_id IS NOT NULL;
+
+ALTER TABLE credit_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all credit ledger entries"
+  ON credit_ledger FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Opening balances from the counter columns
+INSERT INTO credit_ledger (dealer_id, entry_type, amount, idempotency_key, description)
+SELECT id, 'grant', credits_purchased + COALESCE(additional_credits_purchased, 0),
+       'migration:opening-grant', 'Opening balance (credits purchased before the ledger)'
+FROM dealer_accounts
+WHERE credits_purchased + COALESCE(additional_credits_purchased, 0) > 0;
+
+INSERT INTO credit_ledger (dealer_id, entry_type, amount, idempotency_key, description)
+SELECT id, 'consumption', -credits_used,
+       'migration:opening-usage', 'Opening balance (credits used before the ledger)'
+FROM dealer_accounts
+WHERE credits_used > 0;
+
+-- =============================================
+-- COUNTER COLUMNS AND FUNCTIONS REPLACED
+-- =============================================
+
+DROP FUNCTION IF EXISTS dealer_has_credits(UUID);
+DROP FUNCTION IF EXISTS use_dealer_credit(UUID);
+DROP FUNCTION IF EXISTS add_dealer_credits(UUID, INTEGER);
+DROP FUNCTION IF EXISTS start_dealer_billing_period(UUID, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS reset_dealer_monthly_credits(UUID);
+
+ALTER TABLE dealer_accounts
+  DROP COLUMN credits_purchased,
+  DROP COLUMN additional_credits_purchased,
+  DROP COLUMN credits_used;
+
+-- Plan credits already granted for the current billing period, so an upgrade only grants what the
+-- dealer hasn't received yet (a 3 -> 1 -> 3 round trip grants nothing). Set at subscription setup
+-- and at the start of each period, raised by upgrades, never lowered by downgrades.
+ALTER TABLE dealer_accounts
+  ADD COLUMN period_plan_credits INTEGER CHECK (period_plan_credits >= 0);
+
+COMMENT ON COLUMN dealer_accounts.period_plan_credits IS 'Monthly plan credits granted for the current billing period (highest tier reached in the period)';
+
+-- Existing subscriptions start from their current tier's allowance (TIER_MONTHLY_CREDITS)
+UPDATE dealer_accounts
+SET period_plan_credits = CASE subscription_tier WHEN 1 THEN 100 WHEN 2 THEN 500 WHEN 3 THEN 10000 END
+WHERE subscription_status IS NOT NULL;
+
+-- =============================================
+-- LEDGER FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION dealer_credit_balance(p_dealer_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(amount), 0)::INTEGER
+  FROM credit_ledger
+  WHERE dealer_id = p_dealer_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Grant credits (subscription setup, purchase). Idempotent on p_idempotency_key:
+-- a repeated grant returns the existing entry.
+CREATE OR REPLACE FUNCTION grant_dealer_credits(
+  p_dealer_id UUID,
+  p_amount INTEGER,
+  p_idempotency_key TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_payment_id UUID DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  entry_id UUID;
+BEGIN
+  INSERT INTO credit_ledger (dealer_id, entry_type, amount, idempotency_key, description, payment_id)
+  VALUES (p_dealer_id, 'grant', p_amount, p_idempotency_key, p_description, p_payment_id)
+  ON CONFLICT (dealer_id, idempotency_key) DO NOTHING
+  RETURNING id INTO entry_id;
+
+  IF entry_id IS NULL THEN
+    SELECT id INTO entry_id
+    FROM credit_ledger
+    WHERE dealer_id = p_dealer_id AND idempotency_key = p_idempotency_key;
+  END IF;
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant a plan upgrade's credits for the current billing period: the difference between the new
+-- plan's monthly credits and the plan credits already granted in the period. The dealer row lock
+-- makes this atomic, and a repeated or lower upgrade grants nothing. Returns the credits granted
+-- (0 before the dealer's first period, whose grant covers the plan).
+CREATE OR REPLACE FUNCTION grant_dealer_plan_upgrade(
+  p_dealer_id UUID,
+  p_monthly_credits INTEGER,
+  p_description TEXT DEFAULT NULL
+) RETURNS INTEGER AS $$
+DECLARE
+  granted INTEGER;
+  period_end TIMESTAMPTZ;
+  difference INTEGER;
+BEGIN
+  SELECT period_plan_credits, credits_expire_at INTO granted, period_end
+  FROM dealer_accounts
+  WHERE id = p_dealer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR granted IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  difference := p_monthly_credits - granted;
+  IF difference <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO credit_ledger (dealer_id, entry_type, amount, idempotency_key, description)
+  VALUES (p_dealer_id, 'grant', difference,
+          'plan-upgrade:' || COALESCE(period_end::TEXT, 'setup') || ':' || p_monthly_credits, p_description)
+  ON CONFLICT (dealer_id, idempotency_key) DO NOTHING;
+
+  UPDATE dealer_accounts
+  SET period_plan_credits = p_monthly_credits,
+      updated_at = NOW()
+  WHERE id = p_dealer_id;
+
+  RETURN difference;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Consume one credit. The dealer row lock serializes consumption per dealer, so the balance
+-- check and the insert are atomic. status: 'consumed' | 'duplicate' (key already consumed,
+-- entry_id is the original) | 'insufficient' | 'expired' | 'not_found'
+CREATE OR REPLACE FUNCTION consume_dealer_credit(
+  p_dealer_id UUID,
+  p_idempotency_key TEXT,
+  p_compliance_event_id UUID DEFAULT NULL,
+  p_description TEXT DEFAULT NULL
+) RETURNS TABLE(status TEXT, entry_id UUID, balance INTEGER) AS $$
+DECLARE
+  expires_at TIMESTAMPTZ;
+  existing_id UUID;
+  current_balance INTEGER;
+  new_entry_id UUID;
+BEGIN
+  SELECT credits_expire_at INTO expires_at
+  FROM dealer_accounts
+  WHERE id = p_dealer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::UUID, 0;
+    RETURN;
+  END IF;
+
+  current_balance := dealer_credit_balance(p_dealer_id);
+
+  SELECT id INTO existing_id
+  FROM credit_ledger
+  WHERE dealer_id = p_dealer_id AND idempotency_key = p_idempotency_key;
+
+  IF existing_id IS NOT NULL THEN
+    RETURN QUERY SELECT 'duplicate'::TEXT, existing_id, current_balance;
+    RETURN;
+  END IF;
+
+  IF expires_at IS NOT NULL AND expires_at < NOW() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::UUID, current_balance;
+    RETURN;
+  END IF;
+
+  IF current_balance < 1 THEN
+    RETURN QUERY SELECT 'insufficient'::TEXT, NULL::UUID, current_balance;
+    RETURN;
+  END IF;
+
+  INSERT INTO credit_ledger (dealer_id, entry_type, amount, idempotency_key, compliance_event_id, description)
+  VALUES (p_dealer_id, 'consumption', -1, p_idempotency_key, p_compliance_event_id, p_description)
+  RETURNING id INTO new_entry_id;
+
+  RETURN QUERY SELECT 'consumed'::TEXT, new_entry_id, current_balance - 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Return a consumed credit (the work it paid for failed). Each consumption is refunded at most
+-- once; a repeated refund returns the existing refund entry.
+CREATE OR REPLACE FUNCTION refund_dealer_credit(
+  p_consumption_id UUID,
+  p_description TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  consumption credit_ledger%ROWTYPE;
+  entry_id UUID;
+BEGIN
+  SELECT * INTO consumption
+  FROM credit_ledger
+  WHERE id = p_consumption_id AND entry_type = 'consumption';
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO credit_ledger (dealer_id, entry_type, amount, idempotency_key, compliance_event_id, reverses_entry_id, description)
+  VALUES (consumption.dealer_id, 'refund', -consumption.amount, 'refund:' || consumption.id,
+          consumption.compliance_event_id, consumption.id, p_description)
+  ON CONFLICT (dealer_id, idempotency_key) DO NOTHING
+  RETURNING id INTO entry_id;
+
+  IF entry_id IS NULL THEN
+    SELECT id INTO entry_id
+    FROM credit_ledger
+    WHERE reverses_entry_id = consumption.id;
+  END IF;
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Start the billing period paid by an invoice: whatever is left of the previous period expires,
+-- the plan's monthly credits are granted (linked to the invoice payment when there is one), and
+-- the period dates follow the Stripe subscription.
+-- Returns FALSE when the dealer already is in this (or a later) period, so an out-of-order or
+-- repeated invoice never grants twice or expires credits of the current period.
+CREATE OR REPLACE FUNCTION start_dealer_billing_period(
+  p_dealer_id UUID,
+  p_period_end TIMESTAMPTZ,
+  p_credits INTEGER,
+  p_payment_id UUID DEFAULT NULL
+) RETURNS BOOLEAN AS $$
+DECLARE
+  current_expiry TIMESTAMPTZ;
+  remaining INTEGER;
+BEGIN
+  SELECT credits_expire_at INTO current_expiry
+  FROM dealer_accounts
+  WHERE id = p_dealer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF current_expiry IS NOT NULL AND current_expiry >= p_period_end THEN
+    RETURN FALSE;
+  END IF;
+
+  remaining := dealer_credit_balance(p_dealer_id);
+  IF remaining > 0 THEN
+    INSERT INTO credit_ledger (dealer_id, entry_type, amount, idempotency_key, description)
+    VALUES (p_dealer_id, 'expiration', -remaining, 'expire:' || p_period_end::TEXT,
+            'Unused credits expired at the end of the billing period')
+    ON CONFLICT (dealer_id, idempotency_key) DO NOTHING;
+  END IF;
+
+  IF p_credits > 0 THEN
+    INSERT INTO credit_ledger (dealer_id, entry_type, amount, idempotency_key, description, payment_id)
+    VALUES (p_dealer_id, 'grant', p_credits, 'period:' || p_period_end::TEXT,
+            'Monthly subscription credits', p_payment_id)
+    ON CONFLICT (dealer_id, idempotency_key) DO NOTHING;
+  END IF;
+
+  UPDATE dealer_accounts
+  SET subscription_status = 'active',
+      billing_date = p_period_end::date,
+      billing_due_date = p_period_end::date + 5,
+      credits_expire_at = p_period_end,
+      period_plan_credits = p_credits,
+      updated_at = NOW()
+  WHERE id = p_dealer_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,256 @@
+-- Migration: Verification credit reservations
+-- A dealer verification reserves one credit once the buyer passes every eligibility check (unknown
+-- and unverified buyers are rejected before anything is reserved) and settles it when the request
+-- ends: committed when the dealer is billed for the outcome, released (refunded in the ledger) when
+-- the billing policy refunds it - by default our own failures. Reservations a crashed process never
+-- settled are released by the reservation sweep job.
+-- Reservations, their ledger consumption and refund all carry the API request ID.
+
+-- =============================================
+-- REQUEST IDS ON LEDGER ENTRIES
+-- =============================================
+
+ALTER TABLE credit_ledger ADD COLUMN request_id TEXT;
+
+CREATE INDEX idx_credit_ledger_request ON credit_ledger(request_id)
+  WHERE request_id IS NOT NULL;
+
+COMMENT ON COLUMN credit_ledger.request_id IS 'API request that consumed (or was refunded) the credit';
+
+-- =============================================
+-- CREDIT RESERVATIONS
+-- =============================================
+
+CREATE TABLE credit_reservations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v7(),
+  dealer_id UUID NOT NULL REFERENCES dealer_accounts(id) ON DELETE CASCADE,
+  request_id TEXT NOT NULL,
+  consumption_entry_id UUID NOT NULL REFERENCES credit_ledger(id),
+  compliance_event_id UUID, -- Verification the credit pays for (no FK: reserved before the event exists)
+
+  status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'committed', 'released')),
+  outcome TEXT, -- verified | system_error | abandoned (released by the sweep)
+  refund_entry_id UUID REFERENCES credit_ledger(id), -- Set when released
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  settled_at TIMESTAMPTZ,
+
+  UNIQUE(dealer_id, request_id)
+);
+
+CREATE INDEX idx_credit_reservations_status ON credit_reservations(status, created_at)
+  WHERE status = 'reserved';
+
+ALTER TABLE credit_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all credit reservations"
+  ON credit_reservations FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =============================================
+-- LEDGER FUNCTIONS (request IDs)
+-- =============================================
+
+DROP FUNCTION IF EXISTS consume_dealer_credit(UUID, TEXT, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION consume_dealer_credit(
+  p_dealer_id UUID,
+  p_idempotency_key TEXT,
+  p_compliance_event_id UUID DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_request_id TEXT DEFAULT NULL
+) RETURNS TABLE(status TEXT, entry_id UUID, balance INTEGER) AS $$
+DECLARE
+  expires_at TIMESTAMPTZ;
+  existing_id UUID;
+  current_balance INTEGER;
+  new_entry_id UUID;
+BEGIN
+  SELECT credits_expire_at INTO expires_at
+  FROM dealer_accounts
+  WHERE id = p_dealer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::UUID, 0;
+    RETURN;
+  END IF;
+
+  current_balance := dealer_credit_balance(p_dealer_id);
+
+  SELECT id INTO existing_id
+  FROM credit_ledger
+  WHERE dealer_id = p_dealer_id AND idempotency_key = p_idempotency_key;
+
+  IF existing_id IS NOT NULL THEN
+    RETURN QUERY SELECT 'duplicate'::TEXT, existing_id, current_balance;
+    RETURN;
+  END IF;
+
+  IF expires_at IS NOT NULL AND expires_at < NOW() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::UUID, current_balance;
+    RETURN;
+  END IF;
+
+  IF current_balance < 1 THEN
+    RETURN QUERY SELECT 'insufficient'::TEXT, NULL::UUID, current_balance;
+    RETURN;
+  END IF;
+
+  INSERT INTO credit_ledger (dealer_id, entry_type, amount, idempotency_key, compliance_event_id, description, request_id)
+  VALUES (p_dealer_id, 'consumption', -1, p_idempotency_key, p_compliance_event_id, p_description, p_request_id)
+  RETURNING id INTO new_entry_id;
+
+  RETURN QUERY SELECT 'consumed'::TEXT, new_entry_id, current_balance - 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Refunds are recorded against the request that consumed the credit
+CREATE OR REPLACE FUNCTION refund_dealer_credit(
+  p_consumption_id UUID,
+  p_description TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  consumption credit_ledger%ROWTYPE;
+  entry_id UUID;
+BEGIN
+  SELECT * INTO consumption
+  FROM credit_ledger
+  WHERE id = p_consumption_id AND entry_type = 'consumption';
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO credit_ledger (dealer_id, entry_type, amount, idempotency_key, compliance_event_id, reverses_entry_id, description, request_id)
+  VALUES (consumption.dealer_id, 'refund', -consumption.amount, 'refund:' || consumption.id,
+          consumption.compliance_event_id, consumption.id, p_description, consumption.request_id)
+  ON CONFLICT (dealer_id, idempotency_key) DO NOTHING
+  RETURNING id INTO entry_id;
+
+  IF entry_id IS NULL THEN
+    SELECT id INTO entry_id
+    FROM credit_ledger
+    WHERE reverses_entry_id = consumption.id;
+  END IF;
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- RESERVE / COMMIT / RELEASE
+-- =============================================
+
+-- Reserve one credit for a request (consumed in the ledger right away, so concurrent requests
+-- can't overdraw). status as consume_dealer_credit; 'duplicate' returns the request's reservation.
+CREATE OR REPLACE FUNCTION reserve_dealer_credit(
+  p_dealer_id UUID,
+  p_request_id TEXT,
+  p_compliance_event_id UUID DEFAULT NULL
+) RETURNS TABLE(status TEXT, reservation_id UUID, balance INTEGER) AS $$
+DECLARE
+  consumption RECORD;
+  new_reservation_id UUID;
+BEGIN
+  SELECT * INTO consumption
+  FROM consume_dealer_credit(p_dealer_id, 'verification:' || p_request_id, p_compliance_event_id,
+                             'Buyer verification', p_request_id);
+
+  IF consumption.status = 'duplicate' THEN
+    SELECT id INTO new_reservation_id
+    FROM credit_reservations
+    WHERE dealer_id = p_dealer_id AND request_id = p_request_id;
+  ELSIF consumption.status = 'consumed' THEN
+    INSERT INTO credit_reservations (dealer_id, request_id, consumption_entry_id, compliance_event_id)
+    VALUES (p_dealer_id, p_request_id, consumption.entry_id, p_compliance_event_id)
+    RETURNING id INTO new_reservation_id;
+  END IF;
+
+  RETURN QUERY SELECT consumption.status, new_reservation_id, consumption.balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Keep the reserved credit spent. Returns FALSE when the reservation was already settled.
+CREATE OR REPLACE FUNCTION commit_credit_reservation(
+  p_reservation_id UUID,
+  p_outcome TEXT,
+  p_compliance_event_id UUID DEFAULT NULL
+) RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE credit_reservations
+  SET status = 'committed',
+      outcome = p_outcome,
+      compliance_event_id = COALESCE(p_compliance_event_id, compliance_event_id),
+      settled_at = NOW()
+  WHERE id = p_reservation_id AND status = 'reserved';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Refund the reserved credit. Returns the refund entry, or NULL when the reservation was already
+-- committed; releasing twice returns the same refund.
+CREATE OR REPLACE FUNCTION release_credit_reservation(
+  p_reservation_id UUID,
+  p_outcome TEXT
+) RETURNS UUID AS $$
+DECLARE
+  reservation credit_reservations%ROWTYPE;
+  refund_id UUID;
+BEGIN
+  SELECT * INTO reservation
+  FROM credit_reservations
+  WHERE id = p_reservation_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR reservation.status = 'committed' THEN
+    RETURN NULL;
+  END IF;
+
+  IF reservation.status = 'released' THEN
+    RETURN reservation.refund_entry_id;
+  END IF;
+
+  refund_id := refund_dealer_credit(
+    reservation.consumption_entry_id,
+    'Verification refunded (' || p_outcome || ')'
+  );
+
+  UPDATE credit_reservations
+  SET status = 'released',
+      outcome = p_outcome,
+      refund_entry_id = refund_id,
+      settled_at = NOW()
+  WHERE id = p_reservation_id;
+
+  RETURN refund_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Release reservations left 'reserved' longer than p_older_than_seconds - the process handling the
+-- request crashed between reserve and commit/release. The credit is refunded (our failure).
+-- Returns how many were released.
+CREATE OR REPLACE FUNCTION release_abandoned_credit_reservations(
+  p_older_than_seconds INTEGER DEFAULT 900,
+  p_limit INTEGER DEFAULT 100
+) RETURNS INTEGER AS $$
+DECLARE
+  reservation_id UUID;
+  released INTEGER := 0;
+BEGIN
+  FOR reservation_id IN
+    SELECT id FROM credit_reservations
+    WHERE status = 'reserved'
+      AND created_at < NOW() - make_interval(secs => p_older_than_seconds)
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM release_credit_reservation(reservation_id, 'abandoned');
+    released := released + 1;
+  END LOOP;
+
+  RETURN released;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
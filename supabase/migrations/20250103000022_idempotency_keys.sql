@@ -0,0 +1,118 @@
+-- Migration: Idempotency keys for dealer API mutations
+-- A dealer retrying POST /verify with the same Idempotency-Key gets the stored response instead of a
+-- second charge and a duplicate compliance event. Keys are scoped per dealer and kept for a TTL; the
+-- request fingerprint (method, route and canonical body) must match for a replay.
+
+-- =============================================
+-- IDEMPOTENCY KEYS
+-- =============================================
+
+CREATE TABLE idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v7(),
+  dealer_id UUID NOT NULL REFERENCES dealer_accounts(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL,
+
+  -- Request the key was first used with
+  request_method TEXT NOT NULL,
+  request_path TEXT NOT NULL,
+  request_fingerprint TEXT NOT NULL, -- SHA-256 of method, route and canonical JSON body
+  request_id TEXT NOT NULL, -- API request that ran it
+
+  -- Stored response (set once the request completes)
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  response_status INTEGER,
+  response_body JSONB,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  claimed_at TIMESTAMPTZ DEFAULT NOW(), -- Last claim (a crashed request's claim goes stale)
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL,
+
+  UNIQUE(dealer_id, idempotency_key)
+);
+
+CREATE INDEX idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all idempotency keys"
+  ON idempotency_keys FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+-- Claim a key for a request. outcome:
+--   'claimed'      first use (or the previous use expired, or its request stopped without completing
+--                  and the claim is older than p_stale_seconds) - run the request, then complete it
+--   'replay'       completed with the same fingerprint - response_status / response_body are the stored response
+--   'mismatch'     the key was used with a different request
+--   'in_progress'  the first request with this key is still running
+CREATE OR REPLACE FUNCTION claim_idempotency_key(
+  p_dealer_id UUID,
+  p_idempotency_key TEXT,
+  p_request_method TEXT,
+  p_request_path TEXT,
+  p_request_fingerprint TEXT,
+  p_request_id TEXT,
+  p_ttl_seconds INTEGER DEFAULT 86400,
+  p_stale_seconds INTEGER DEFAULT 600
+) RETURNS TABLE(outcome TEXT, response_status INTEGER, response_body JSONB) AS $$
+DECLARE
+  existing idempotency_keys%ROWTYPE;
+BEGIN
+  DELETE FROM idempotency_keys
+  WHERE dealer_id = p_dealer_id
+    AND idempotency_key = p_idempotency_key
+    AND expires_at < NOW();
+
+  INSERT INTO idempotency_keys (dealer_id, idempotency_key, request_method, request_path, request_fingerprint, request_id, expires_at)
+  VALUES (p_dealer_id, p_idempotency_key, p_request_method, p_request_path, p_request_fingerprint, p_request_id,
+          NOW() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (dealer_id, idempotency_key) DO UPDATE
+  SET request_id = EXCLUDED.request_id,
+      claimed_at = NOW(),
+      expires_at = EXCLUDED.expires_at
+  WHERE idempotency_keys.status = 'in_progress'
+    AND idempotency_keys.request_fingerprint = EXCLUDED.request_fingerprint
+    AND idempotency_keys.claimed_at < NOW() - make_interval(secs => p_stale_seconds);
+
+  IF FOUND THEN
+    RETURN QUERY SELECT 'claimed'::TEXT, NULL::INTEGER, NULL::JSONB;
+    RETURN;
+  END IF;
+
+  SELECT * INTO existing
+  FROM idempotency_keys
+  WHERE dealer_id = p_dealer_id AND idempotency_key = p_idempotency_key;
+
+  IF existing.request_fingerprint <> p_request_fingerprint THEN
+    RETURN QUERY SELECT 'mismatch'::TEXT, NULL::INTEGER, NULL::JSONB;
+  ELSIF existing.status = 'in_progress' THEN
+    RETURN QUERY SELECT 'in_progress'::TEXT, NULL::INTEGER, NULL::JSONB;
+  ELSE
+    RETURN QUERY SELECT 'replay'::TEXT, existing.response_status, existing.response_body;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Remove keys past their TTL (background cleanup; claims also replace expired keys)
+CREATE OR REPLACE FUNCTION purge_expired_idempotency_keys(
+  p_limit INTEGER DEFAULT 1000
+) RETURNS INTEGER AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  DELETE FROM idempotency_keys
+  WHERE id IN (
+    SELECT id FROM idempotency_keys
+    WHERE expires_at < NOW()
+    ORDER BY expires_at
+    LIMIT p_limit
+  );
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,90 @@
+-- Migration: Multiple named API keys per dealer
+-- dealer_accounts.api_key_hash held a single key created at subscription setup. Dealers now manage
+-- any number of labelled keys with scopes, expiry and revocation. Rotation issues a replacement and
+-- keeps the old key working for a grace period so integrations can switch without downtime.
+
+-- =============================================
+-- DEALER API KEYS
+-- =============================================
+
+CREATE TABLE dealer_api_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v7(),
+  dealer_id UUID NOT NULL REFERENCES dealer_accounts(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the key (the key itself is shown once)
+  key_prefix TEXT NOT NULL, -- 'ca2a_' + first characters, for telling keys apart
+  scopes TEXT[] NOT NULL DEFAULT ARRAY['verify', 'history:read'],
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ, -- NULL = no expiry; rotation sets it to the end of the grace period
+  revoked_at TIMESTAMPTZ,
+  rotated_to_key_id UUID REFERENCES dealer_api_keys(id),
+
+  CONSTRAINT check_dealer_api_key_scopes CHECK (
+    cardinality(scopes) > 0 AND scopes <@ ARRAY['verify', 'history:read']
+  )
+);
+
+CREATE INDEX idx_dealer_api_keys_dealer ON dealer_api_keys(dealer_id, created_at DESC);
+
+ALTER TABLE dealer_api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all dealer API keys"
+  ON dealer_api_keys FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Existing single keys become each dealer's first key (full access, no expiry)
+INSERT INTO dealer_api_keys (dealer_id, label, key_hash, key_prefix, created_at)
+SELECT id, 'Default key', api_key_hash, 'ca2a_', COALESCE(api_key_created_at, NOW())
+FROM dealer_accounts
+WHERE api_key_hash IS NOT NULL;
+
+DROP INDEX IF EXISTS idx_dealer_accounts_api_key_hash;
+
+ALTER TABLE dealer_accounts
+  DROP COLUMN api_key_hash,
+  DROP COLUMN api_key_created_at;
+
+-- =============================================
+-- ROTATION
+-- =============================================
+
+-- Issue a replacement for a key (same label, scopes and expiry) and let the old key keep working
+-- until p_grace_seconds from now (0 = retire it immediately). Returns the new key; NULL when the
+-- key doesn't belong to the dealer or was already revoked, expired or rotated.
+CREATE OR REPLACE FUNCTION rotate_dealer_api_key(
+  p_key_id UUID,
+  p_dealer_id UUID,
+  p_new_key_hash TEXT,
+  p_new_key_prefix TEXT,
+  p_grace_seconds INTEGER
+) RETURNS SETOF dealer_api_keys AS $$
+DECLARE
+  old_key dealer_api_keys%ROWTYPE;
+  new_key dealer_api_keys%ROWTYPE;
+BEGIN
+  SELECT * INTO old_key
+  FROM dealer_api_keys
+  WHERE id = p_key_id AND dealer_id = p_dealer_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+     OR old_key.revoked_at IS NOT NULL
+     OR old_key.rotated_to_key_id IS NOT NULL
+     OR (old_key.expires_at IS NOT NULL AND old_key.expires_at <= NOW()) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO dealer_api_keys (dealer_id, label, key_hash, key_prefix, scopes, expires_at)
+  VALUES (old_key.dealer_id, old_key.label, p_new_key_hash, p_new_key_prefix, old_key.scopes, old_key.expires_at)
+  RETURNING * INTO new_key;
+
+  UPDATE dealer_api_keys
+  SET rotated_to_key_id = new_key.id,
+      expires_at = LEAST(COALESCE(old_key.expires_at, 'infinity'), NOW() + make_interval(secs => p_grace_seconds))
+  WHERE id = old_key.id;
+
+  RETURN NEXT new_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;